@@ -1,44 +1,82 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
-import { HashRouter } from 'react-router-dom';
-import { Loader2 } from 'lucide-react';
+import { HashRouter, Link, NavLink, Navigate, Route, Routes, useMatch, useNavigate } from 'react-router-dom';
+import { Loader2, History, Scale, Layers, Network, Gauge } from 'lucide-react';
 
-import { EvaluationCriteria, AnalysisResult, ProcessingStatus } from './types';
+import { BatchJob, EvaluationCriteria, HistoryEntry, ProcessingStatus, Rubric } from './types';
 import * as geminiService from './services/geminiService';
+import { ModelOutputError, ValidationIssue } from './services/schema';
+import { DEFAULT_ASSESSMENT_RULES } from './services/assessmentRules';
+import { DEFAULT_MAX_REFERENCE_AGE } from './services/citationParser';
+import { loadTemplate } from './services/syllabusTemplate';
+import { loadRubric, saveRubric } from './services/rubric';
+import { formatMessage } from './services/ruleFindings';
+import { analyzeSyllabus, PipelineOptions } from './services/pipeline';
+import { DEFAULT_SAMPLE_TEMPERATURE, STABILITY_SAMPLE_OPTIONS } from './services/scoreStability';
+import { DEFAULT_CONCURRENCY, DEFAULT_MAX_ATTEMPTS, runQueue } from './services/jobQueue';
+import { createHistoryEntry, saveAnalysis } from './services/historyStore';
 import { translations } from './translations';
 
 import FileUpload from './components/FileUpload';
 import CriteriaForm from './components/CriteriaForm';
-import ResultsView from './components/ResultsView';
+import HistoryPage from './components/HistoryPage';
+import ReportPage from './components/ReportPage';
+import ComparePage from './components/ComparePage';
+import RubricsPage from './components/RubricsPage';
+import BatchPage from './components/BatchPage';
+import ProgramMapPage from './components/ProgramMapPage';
+import UsagePage from './components/UsagePage';
+import LoadingScreen from './components/LoadingScreen';
+
+const navLinkClass = ({ isActive }: { isActive: boolean }) =>
+  `text-sm font-medium px-3 py-1 border rounded-md flex items-center gap-1 ${isActive ? 'text-blue-600 border-blue-300 bg-blue-50' : 'text-slate-600 hover:text-blue-600'}`;
 
 const App = () => {
+  const navigate = useNavigate();
+  const reportMatch = useMatch('/report/:id');
   const [file, setFile] = useState<File | null>(null);
-  const [criteria, setCriteria] = useState<EvaluationCriteria>({
-    iloClarity: true,
-    iloAlignment: true,
-    assessmentQuality: true,
-    referenceCurrency: true,
-    structureCompliance: true,
+  const [criteria, setCriteria] = useState<EvaluationCriteria>(() => ({
+    rubric: loadRubric(),
     benchmarkUniversities: '',
-  });
+    assessmentRules: DEFAULT_ASSESSMENT_RULES,
+    maxReferenceAge: DEFAULT_MAX_REFERENCE_AGE,
+    syllabusTemplate: loadTemplate(),
+  }));
   const [language, setLanguage] = useState<'en' | 'ar'>('en');
   const [status, setStatus] = useState<ProcessingStatus>('idle');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [results, setResults] = useState<AnalysisResult | null>(null);
+  const [errorIssues, setErrorIssues] = useState<ValidationIssue[]>([]);
+  // The report on screen (or last produced); `/report/:id` loads others from the history
+  const [current, setCurrent] = useState<HistoryEntry | null>(null);
   const [isTranslating, setIsTranslating] = useState(false);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [samples, setSamples] = useState(1);
+  const [temperature, setTemperature] = useState(DEFAULT_SAMPLE_TEMPERATURE);
+  const runOptions = { forceRefresh, samples, temperature };
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  // File, criteria, language and run options of each batch job by id, kept
+  // outside state so retries re-read the file and evaluate it as the batch was started
+  const batchRuns = useRef(new Map<string, { file: File; criteria: EvaluationCriteria; language: 'en' | 'ar'; options: PipelineOptions }>());
+  // Cancels the single-file analysis in progress
+  const analysisAbort = useRef<AbortController | null>(null);
 
   const t = translations[language];
+  const isProcessing = status !== 'idle' && status !== 'complete' && status !== 'error';
 
   const handleLanguageChange = async () => {
     const newLang = language === 'en' ? 'ar' : 'en';
     setLanguage(newLang);
 
-    // If we have results, translate them
-    if (results && status === 'complete') {
+    // If a report is open, translate it
+    if (current && reportMatch) {
         setIsTranslating(true);
         try {
-            const translatedResults = await geminiService.translateAnalysisResult(results, newLang);
-            setResults(translatedResults);
+            const translatedResults = await geminiService.translateAnalysisResult(current.result, newLang);
+            const translated = { ...current, language: newLang, result: translatedResults };
+            saveAnalysis(translated).catch(error => {
+                console.warn("Saving translated analysis to history failed:", error);
+            });
+            setCurrent(translated);
         } catch (error) {
             console.error("Translation failed:", error);
             // Optionally revert language or show warning
@@ -51,58 +89,235 @@ const App = () => {
   const handleProcess = async () => {
     if (!file) return;
 
+    const controller = new AbortController();
+    analysisAbort.current = controller;
     try {
       setErrorMessage(null);
-      setStatus('uploading');
-      const filePart = await geminiService.fileToGenerativePart(file);
+      setErrorIssues([]);
+      const result = await analyzeSyllabus(file, criteria, language, { ...runOptions, onStage: setStatus, signal: controller.signal });
+      const entry = await createHistoryEntry(file, criteria, language, result);
 
-      setStatus('analyzing');
-      const analysis = await geminiService.evaluateSyllabusContent(filePart, criteria, language);
-      
-      setStatus('gathering_data');
-      
-      // Execute external searches in parallel to save time
-      // We pass the extraction topics from analysis to the benchmarking service for context
-      const [benchmarks, tutors] = await Promise.all([
-        geminiService.performBenchmarking(
-          analysis.courseTitle || 'Unknown Course',
-          criteria.benchmarkUniversities,
-          analysis.syllabusTopics || [],
-          language
-        ),
-        geminiService.findLocalTutors(
-          analysis.courseTitle || 'Unknown Course',
-          language
-        )
-      ]);
-
-      setResults({
-        ...analysis,
-        benchmarks,
-        tutors
-      } as AnalysisResult);
+      // History is a convenience; failing to save must not hide the report
+      saveAnalysis(entry).catch(error => {
+        console.warn("Saving analysis to history failed:", error);
+      });
 
+      setCurrent(entry);
+      setFile(null);
       setStatus('complete');
+      navigate(`/report/${entry.id}`);
     } catch (error: any) {
+      // Cancelling returns to the upload form with the file still selected
+      if (controller.signal.aborted) {
+        setStatus('idle');
+        return;
+      }
       console.error(error);
       setErrorMessage(error.message || "An unexpected error occurred");
+      setErrorIssues(error instanceof ModelOutputError ? error.issues : []);
       setStatus('error');
+    } finally {
+      analysisAbort.current = null;
     }
   };
 
-  const handleReset = () => {
-    setFile(null);
-    setResults(null);
-    setErrorMessage(null);
-    setStatus('idle');
+  const handleCancel = () => analysisAbort.current?.abort();
+
+  // Replaces the open report after a stage re-run
+  const handleUpdateReport = (entry: HistoryEntry) => {
+    setCurrent(entry);
+    saveAnalysis(entry).catch(error => {
+      console.warn("Saving analysis to history failed:", error);
+    });
+  };
+
+  const updateJob = (id: string, changes: Partial<BatchJob>) =>
+    setBatchJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+
+  const runBatch = (jobs: BatchJob[]) =>
+    runQueue(jobs, async (job, attempt) => {
+      const { file: jobFile, criteria: batchCriteria, language: batchLanguage, options } = batchRuns.current.get(job.id)!;
+      updateJob(job.id, { status: 'running', attempts: attempt });
+      const result = await analyzeSyllabus(jobFile, batchCriteria, batchLanguage, { ...options, onStage: stage => updateJob(job.id, { stage }) });
+      const entry = await createHistoryEntry(jobFile, batchCriteria, batchLanguage, result);
+      // Rows link to reports through the history, so an unsaved report has no link
+      const saved = await saveAnalysis(entry).then(() => true, error => {
+        console.warn("Saving analysis to history failed:", error);
+        return false;
+      });
+      updateJob(job.id, {
+        status: 'done',
+        stage: 'complete',
+        error: undefined,
+        entryId: saved ? entry.id : undefined,
+        courseTitle: result.courseTitle,
+        score: result.overallScore,
+        topGaps: [...result.gapAnalysis.missingComponents, ...result.gapAnalysis.weaknesses].slice(0, 3).map(g => g.text),
+      });
+    }, {
+      concurrency: DEFAULT_CONCURRENCY,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      onAttemptFailed: (job, _attempt, error) =>
+        updateJob(job.id, { status: 'retrying', error: error instanceof Error ? error.message : String(error) }),
+      onFailed: (job, error) =>
+        updateJob(job.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) }),
+    });
+
+  const handleBatch = (files: File[]) => {
+    const jobs: BatchJob[] = files.map(batchFile => {
+      const id = crypto.randomUUID();
+      // Criteria, language and run options are fixed for the batch when it starts
+      batchRuns.current.set(id, { file: batchFile, criteria, language, options: runOptions });
+      return { id, fileName: batchFile.webkitRelativePath || batchFile.name, status: 'queued', attempts: 0, topGaps: [] };
+    });
+    setBatchJobs(prev => [...prev, ...jobs]);
+    navigate('/batch');
+    runBatch(jobs);
+  };
+
+  const handleRetryFailed = () => {
+    const failed = batchJobs.filter(job => job.status === 'failed');
+    failed.forEach(job => updateJob(job.id, { status: 'queued', stage: undefined, error: undefined }));
+    runBatch(failed);
   };
 
+  const handleClearBatch = () => {
+    batchRuns.current.clear();
+    setBatchJobs([]);
+  };
+
+  const handleLoadReport = (entry: HistoryEntry) => {
+    setLanguage(entry.language);
+    setCurrent(entry);
+  };
+
+  // A report opened from an export is kept in the history like a new analysis
+  const handleRestoreReport = (entry: HistoryEntry) => {
+    handleLoadReport(entry);
+    saveAnalysis(entry).catch(error => {
+      console.warn("Saving analysis to history failed:", error);
+    });
+    navigate(`/report/${entry.id}`);
+  };
+
+  const handleSaveRubric = (rubric: Rubric) => {
+    saveRubric(rubric);
+    setCriteria(prev => ({ ...prev, rubric }));
+  };
+
+  // The upload route doubles as the progress screen while the pipeline runs
+  const uploadPage = isProcessing ? (
+    <LoadingScreen
+      title={
+        status === 'uploading' ? 'Processing File...'
+        : status === 'extracting' ? t.extracting
+        : status === 'analyzing' ? t.processing
+        : t.gathering
+      }
+      description={
+        status === 'extracting' ? t.extractingDesc
+        : status === 'analyzing' ? t.analyzing
+        : status === 'gathering_data' ? 'Searching global databases...'
+        : undefined
+      }
+      cancel={{ label: t.cancel, onClick: handleCancel }}
+    />
+  ) : (
+    <div className="space-y-8 animate-fade-in-up">
+      <div className="text-center space-y-4 mb-12">
+        <h1 className="text-3xl md:text-4xl font-extrabold text-slate-900 tracking-tight leading-tight">
+          {t.uniName} <br/>
+          <span className="text-blue-700">{t.mainHeading}</span>
+        </h1>
+        <p className="text-lg text-slate-600 max-w-2xl mx-auto">
+          {t.subtitle}
+        </p>
+      </div>
+
+      <FileUpload 
+        onFileSelect={setFile} 
+        onFilesSelect={handleBatch}
+        selectedFile={file} 
+        t={t}
+      />
+      
+      <CriteriaForm 
+        criteria={criteria} 
+        setCriteria={setCriteria} 
+        disabled={false}
+        t={t}
+      />
+
+      <div className="flex flex-col items-center gap-3 pt-6">
+        <button
+          onClick={handleProcess}
+          disabled={!file}
+          className={`
+            px-8 py-3 rounded-full font-bold text-white shadow-lg transition-all transform
+            ${file ? 'bg-blue-600 hover:bg-blue-700 hover:scale-105 shadow-blue-500/30' : 'bg-slate-300 cursor-not-allowed'}
+          `}
+        >
+          {t.analyzeBtn}
+        </button>
+        <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-sm text-slate-600">
+          <label className="flex items-center gap-2" title={t.forceRefreshDesc}>
+            <input
+              type="checkbox"
+              checked={forceRefresh}
+              onChange={e => setForceRefresh(e.target.checked)}
+              className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            {t.forceRefresh}
+          </label>
+          <label className="flex items-center gap-2" title={t.stabilityModeDesc}>
+            {t.stabilityMode}
+            <select
+              value={samples}
+              onChange={e => setSamples(Number(e.target.value))}
+              className="px-2 py-1 border border-slate-300 rounded-md bg-white"
+            >
+              {STABILITY_SAMPLE_OPTIONS.map(n => (
+                <option key={n} value={n}>{n === 1 ? t.singleRun : formatMessage(t.runCount, { count: n })}</option>
+              ))}
+            </select>
+          </label>
+          {samples > 1 && (
+            <label className="flex items-center gap-2">
+              {t.temperature}
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={temperature}
+                onChange={e => setTemperature(Math.min(2, Math.max(0, Number(e.target.value) || 0)))}
+                className="w-20 px-2 py-1 border border-slate-300 rounded-md"
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      {status === 'error' && (
+        <div className="text-center text-red-600 mt-6 bg-red-50 p-4 rounded-lg border border-red-200">
+          <p className="font-bold">Analysis Failed</p>
+          <p className="text-sm">{errorMessage || "Please try again with a different file or try again later."}</p>
+          {errorIssues.length > 0 && (
+            <ul className="mt-3 text-xs text-left font-mono space-y-1 max-w-xl mx-auto" dir="ltr">
+              {errorIssues.map((issue, i) => <li key={i}>{issue.path} {issue.message}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className={`min-h-screen bg-slate-50 pb-20 font-sans ${language === 'ar' ? 'font-arabic' : ''}`} dir={language === 'ar' ? 'rtl' : 'ltr'}>
       {/* Navbar */}
       <nav className="bg-white border-b border-slate-200 px-6 py-4 sticky top-0 z-50 shadow-sm no-print">
         <div className="max-w-6xl mx-auto flex justify-between items-center">
-          <div className="flex items-center gap-3">
+          <Link to="/" className="flex items-center gap-3">
             <img 
               src="https://upload.wikimedia.org/wikipedia/commons/e/e8/Palestine_Ahliya_University_Logo.png" 
               alt="PAU Logo" 
@@ -112,7 +327,25 @@ const App = () => {
               <span className="text-slate-900 font-bold text-lg leading-tight">{t.uniName}</span>
               <span className="text-slate-500 text-xs font-medium uppercase tracking-wide">{t.appTitle}</span>
             </div>
-          </div>
+          </Link>
+          <div className="flex items-center gap-2">
+          <NavLink to="/history" className={navLinkClass}>
+            <History className="w-4 h-4" /> {t.history}
+          </NavLink>
+          {batchJobs.length > 0 && (
+            <NavLink to="/batch" className={navLinkClass}>
+              <Layers className="w-4 h-4" /> {t.batch}
+            </NavLink>
+          )}
+          <NavLink to="/program" className={navLinkClass}>
+            <Network className="w-4 h-4" /> {t.programMap}
+          </NavLink>
+          <NavLink to="/rubrics" className={navLinkClass}>
+            <Scale className="w-4 h-4" /> {t.rubric}
+          </NavLink>
+          <NavLink to="/usage" className={navLinkClass}>
+            <Gauge className="w-4 h-4" /> {t.usage}
+          </NavLink>
           <button 
             onClick={handleLanguageChange}
             disabled={isTranslating}
@@ -126,95 +359,34 @@ const App = () => {
                 language === 'en' ? 'العربية' : 'English'
             )}
           </button>
+          </div>
         </div>
       </nav>
 
       {/* Main Content */}
       <main className="px-6 py-10 max-w-6xl mx-auto print:p-0 print:max-w-none">
-        {status === 'idle' || status === 'error' ? (
-           <div className="space-y-8 animate-fade-in-up">
-              <div className="text-center space-y-4 mb-12">
-                <h1 className="text-3xl md:text-4xl font-extrabold text-slate-900 tracking-tight leading-tight">
-                  {t.uniName} <br/>
-                  <span className="text-blue-700">{t.mainHeading}</span>
-                </h1>
-                <p className="text-lg text-slate-600 max-w-2xl mx-auto">
-                  {t.subtitle}
-                </p>
-              </div>
-
-              <FileUpload 
-                onFileSelect={setFile} 
-                selectedFile={file} 
-                t={t}
-              />
-              
-              <CriteriaForm 
-                criteria={criteria} 
-                setCriteria={setCriteria} 
-                disabled={false}
-                t={t}
-              />
-
-              <div className="flex justify-center pt-6">
-                <button
-                  onClick={handleProcess}
-                  disabled={!file}
-                  className={`
-                    px-8 py-3 rounded-full font-bold text-white shadow-lg transition-all transform
-                    ${file ? 'bg-blue-600 hover:bg-blue-700 hover:scale-105 shadow-blue-500/30' : 'bg-slate-300 cursor-not-allowed'}
-                  `}
-                >
-                  {t.analyzeBtn}
-                </button>
-              </div>
-
-              {status === 'error' && (
-                <div className="text-center text-red-600 mt-6 bg-red-50 p-4 rounded-lg border border-red-200">
-                  <p className="font-bold">Analysis Failed</p>
-                  <p className="text-sm">{errorMessage || "Please try again with a different file or try again later."}</p>
-                </div>
-              )}
-           </div>
-        ) : status === 'complete' && results && !isTranslating ? (
-          <div>
-            <div className="mb-6 no-print">
-              <button onClick={handleReset} className="text-slate-500 hover:text-blue-600 text-sm font-medium flex items-center gap-1">
-                {language === 'ar' ? '←' : '←'} {t.analyzeAnother}
-              </button>
-            </div>
-            <ResultsView data={results} language={language} t={t} />
-          </div>
-        ) : (
-          <div className="flex flex-col items-center justify-center min-h-[50vh] space-y-6">
-             <div className="relative">
-               <div className="w-20 h-20 border-4 border-slate-100 border-t-blue-600 rounded-full animate-spin"></div>
-               <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
-                 <Loader2 className="w-8 h-8 text-blue-600 animate-pulse" />
-               </div>
-             </div>
-             
-             <div className="text-center space-y-2">
-               <h3 className="text-xl font-bold text-slate-800">
-                 {isTranslating ? 'Translating Content...' : (
-                   <>
-                    {status === 'uploading' && 'Processing File...'}
-                    {status === 'analyzing' && t.processing}
-                    {status === 'gathering_data' && t.gathering}
-                   </>
-                 )}
-               </h3>
-               <p className="text-slate-500 text-sm">
-                  {isTranslating ? 'Please wait while we translate the report...' : (
-                      <>
-                        {status === 'analyzing' && t.analyzing}
-                        {status === 'gathering_data' && 'Searching global databases...'}
-                      </>
-                  )}
-               </p>
-             </div>
-          </div>
-        )}
+        <Routes>
+          <Route path="/" element={uploadPage} />
+          <Route
+            path="/report/:id"
+            element={<ReportPage current={current} onLoad={handleLoadReport} onUpdate={handleUpdateReport} isTranslating={isTranslating} language={language} t={t} />}
+          />
+          <Route path="/history" element={(
+            <HistoryPage
+              onOpen={(entry) => navigate(`/report/${entry.id}`)}
+              onCompare={(a, b) => navigate(`/compare/${a.id}/${b.id}`)}
+              onRestore={handleRestoreReport}
+              language={language}
+              t={t}
+            />
+          )} />
+          <Route path="/compare/:a/:b" element={<ComparePage language={language} t={t} />} />
+          <Route path="/batch" element={<BatchPage jobs={batchJobs} onRetryFailed={handleRetryFailed} onClear={handleClearBatch} t={t} />} />
+          <Route path="/program" element={<ProgramMapPage language={language} t={t} />} />
+          <Route path="/rubrics" element={<RubricsPage rubric={criteria.rubric} onSave={handleSaveRubric} language={language} t={t} />} />
+          <Route path="/usage" element={<UsagePage t={t} />} />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
       </main>
     </div>
   );
@@ -0,0 +1,92 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+// Same types the upload form accepts
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.txt': 'text/plain',
+};
+
+const isSupported = (file: string) => path.extname(file).toLowerCase() in MIME_TYPES;
+
+const hasGlob = (pattern: string) => /[*?[]/.test(pattern);
+
+/**
+ * Converts a glob (`*`, `?`, `[...]` and `**` for any number of folders) to
+ * a regular expression over `/`-separated relative paths.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end < 0) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name.startsWith('.') || entry.name === 'node_modules' ? [] : walk(full);
+    return [full];
+  }));
+  return nested.flat();
+};
+
+/**
+ * Resolves file paths, folders (searched recursively) and glob patterns to
+ * the supported syllabus files they name, sorted and without duplicates.
+ * A plain path that does not exist is an error; a glob may match nothing.
+ */
+export const expandInputs = async (patterns: string[]): Promise<string[]> => {
+  const found = new Set<string>();
+  for (const pattern of patterns) {
+    if (!hasGlob(pattern)) {
+      const info = await stat(pattern).catch(() => undefined);
+      if (!info) throw new Error(`No such file or folder: ${pattern}`);
+      const files = info.isDirectory() ? (await walk(pattern)).filter(isSupported) : [pattern];
+      files.forEach(file => found.add(path.resolve(file)));
+      continue;
+    }
+    // Walk from the deepest folder before the first wildcard
+    const normalized = pattern.split(path.sep).join('/');
+    const segments = normalized.split('/');
+    const fixed = segments.slice(0, segments.findIndex(hasGlob));
+    const base = fixed.join('/') || '.';
+    const matcher = globToRegExp(segments.slice(fixed.length).join('/'));
+    const files = await walk(base).catch(() => []);
+    files
+      .filter(file => isSupported(file) && matcher.test(path.relative(base, file).split(path.sep).join('/')))
+      .forEach(file => found.add(path.resolve(file)));
+  }
+  return [...found].sort();
+};
+
+/**
+ * Reads a file from disk as a browser-style File, typed by its extension.
+ */
+export const loadFile = async (filePath: string): Promise<File> => {
+  const type = MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (!type) throw new Error(`Unsupported file type: ${filePath}. Please use PDF, DOCX, or TXT.`);
+  return new File([await readFile(filePath)], path.basename(filePath), { type });
+};
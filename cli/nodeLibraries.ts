@@ -0,0 +1,31 @@
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import mammoth from "mammoth";
+import { DocumentLibraries } from "../services/documentLibraries";
+import { PDF_FONT_FILES, PdfFonts } from "../services/pdfReport";
+
+let pdfjs: Promise<any> | undefined;
+
+/**
+ * Document readers backed by the npm packages, for use under Node. pdf.js is
+ * loaded on the first PDF; its legacy build runs without a separate worker.
+ */
+export const nodeDocumentLibraries: DocumentLibraries = {
+  docxToText: async (data: ArrayBuffer) => (await mammoth.extractRawText({ buffer: Buffer.from(data) })).value,
+  loadPdfjs: () => {
+    pdfjs ??= import('pdfjs-dist/legacy/build/pdf.js').then(lib => (lib as any).default ?? lib);
+    return pdfjs;
+  },
+};
+
+/**
+ * The PDF report fonts, read from the installed font package: the same files
+ * the web app bundles, so both produce the same PDF.
+ */
+export const loadNodePdfFonts = async (): Promise<PdfFonts> => {
+  const require = createRequire(import.meta.url);
+  const keys = Object.keys(PDF_FONT_FILES) as (keyof PdfFonts)[];
+  const files = await Promise.all(keys.map(key =>
+    readFile(require.resolve(`@fontsource/ibm-plex-sans-arabic/files/${PDF_FONT_FILES[key]}`))));
+  return Object.fromEntries(keys.map((key, i) => [key, new Uint8Array(files[i])])) as unknown as PdfFonts;
+};
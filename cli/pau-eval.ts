@@ -0,0 +1,246 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { EvaluationCriteria, HistoryEntry } from "../types";
+import { DEFAULT_ASSESSMENT_RULES } from "../services/assessmentRules";
+import { DEFAULT_MAX_REFERENCE_AGE } from "../services/citationParser";
+import { setDocumentLibraries } from "../services/documentLibraries";
+import { createHistoryEntry, serializeArchive } from "../services/historyStore";
+import { DEFAULT_CONCURRENCY, DEFAULT_MAX_ATTEMPTS, runQueue } from "../services/jobQueue";
+import { buildPdfReport } from "../services/pdfReport";
+import { analyzeSyllabus } from "../services/pipeline";
+import { createProvider, providerConfigFromEnv, setProvider } from "../services/providers";
+import { BatchOutcome, reportToMarkdown, serializeReport, summaryCsv } from "../services/reportFormats";
+import { defaultRubric, parseRubric } from "../services/rubric";
+import { ModelOutputError, formatIssues, ValidationIssue } from "../services/schema";
+import { DEFAULT_SAMPLE_TEMPERATURE } from "../services/scoreStability";
+import { DEFAULT_TEMPLATE, parseTemplate } from "../services/syllabusTemplate";
+import { translations } from "../translations";
+import { expandInputs, loadFile } from "./files";
+import { loadNodePdfFonts, nodeDocumentLibraries } from "./nodeLibraries";
+
+type OutputFormat = 'json' | 'md' | 'csv' | 'pdf';
+
+const USAGE = `Usage: pau-eval analyze <file|folder|glob>... [options]
+
+Evaluates syllabi (PDF, DOCX or TXT) with the same pipeline as the web app.
+
+Options:
+  -l, --lang <en|ar>        report language (default: en)
+  -r, --rubric <file>       rubric JSON, as exported from the Rubrics page
+  -t, --template <file>     syllabus template JSON
+  -b, --benchmark <names>   benchmark universities, e.g. "MIT, Oxford"
+  -f, --format <json|md|csv|pdf>
+                            output format (default: from --out, else json)
+  -o, --out <file>          write the output here instead of stdout
+  -d, --out-dir <dir>       write one report per file into this folder
+  -c, --concurrency <n>     files evaluated at once (default: ${DEFAULT_CONCURRENCY})
+      --samples <n>         evaluation runs per file for stability mode (default: 1)
+      --temperature <t>     sampling temperature of the stability runs (default: ${DEFAULT_SAMPLE_TEMPERATURE})
+      --watermark <text>    PDF watermark, e.g. DRAFT
+      --signature <role>    adds a signature line for <role> to the PDF approval block; repeatable
+  -h, --help                show this help
+
+JSON output is a history archive that the web app can import; with --out-dir
+each file is a report export the History page can open. CSV output is one
+summary row per file. PDF output is one report per file: use --out-dir, or
+--out with a single input. The model provider is configured through the same
+environment variables as the app (LLM_PROVIDER, GEMINI_API_KEY, LLM_MODEL,
+LLM_BASE_URL, LLM_API_KEY).`;
+
+/**
+ * A problem with the command line itself; reported with the usage hint.
+ */
+class UsageError extends Error {}
+
+/**
+ * Reads a rubric or template file with the parser its editor imports it
+ * with, so the CLI accepts exactly what the web app does.
+ */
+const readConfig = async <T>(
+  file: string,
+  what: string,
+  parse: (json: string) => { value?: T; issues: ValidationIssue[] }
+): Promise<T> => {
+  let json: string;
+  try {
+    json = await readFile(file, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${what} ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  const { value, issues } = parse(json);
+  if (!value) throw new UsageError(`Invalid ${what} ${file}:\n${formatIssues(issues)}`);
+  return value;
+};
+
+const positiveInt = (value: string | undefined, name: string, fallback: number) => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`--${name} must be a positive whole number.`);
+  return n;
+};
+
+const outputFormat = (format: string | undefined, out: string | undefined): OutputFormat => {
+  if (format) {
+    if (format === 'json' || format === 'md' || format === 'csv' || format === 'pdf') return format;
+    if (format === 'markdown') return 'md';
+    throw new UsageError(`Unknown format "${format}"; use json, md, csv or pdf.`);
+  }
+  const ext = out ? path.extname(out).toLowerCase() : '';
+  return ext === '.md' || ext === '.markdown' ? 'md' : ext === '.csv' ? 'csv' : ext === '.pdf' ? 'pdf' : 'json';
+};
+
+const errorText = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  return error instanceof ModelOutputError ? `${message}\n${formatIssues(error.issues)}` : message;
+};
+
+const analyze = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      lang: { type: 'string', short: 'l', default: 'en' },
+      rubric: { type: 'string', short: 'r' },
+      template: { type: 'string', short: 't' },
+      benchmark: { type: 'string', short: 'b', default: '' },
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      'out-dir': { type: 'string', short: 'd' },
+      concurrency: { type: 'string', short: 'c' },
+      samples: { type: 'string' },
+      temperature: { type: 'string' },
+      watermark: { type: 'string' },
+      signature: { type: 'string', multiple: true },
+    },
+  });
+
+  if (values.lang !== 'en' && values.lang !== 'ar') throw new UsageError(`--lang must be "en" or "ar".`);
+  const language = values.lang;
+  if (positionals.length === 0) throw new UsageError("No input files given.");
+  const format = outputFormat(values.format, values.out);
+  const concurrency = positiveInt(values.concurrency, 'concurrency', DEFAULT_CONCURRENCY);
+  const samples = positiveInt(values.samples, 'samples', 1);
+  const temperature = values.temperature === undefined ? DEFAULT_SAMPLE_TEMPERATURE : Number(values.temperature);
+  if (!(temperature >= 0 && temperature <= 2)) throw new UsageError("--temperature must be between 0 and 2.");
+
+  const criteria: EvaluationCriteria = {
+    rubric: values.rubric
+      ? await readConfig(values.rubric, 'rubric', json => {
+          const { rubric, issues } = parseRubric(json);
+          return { value: rubric, issues };
+        })
+      : defaultRubric(language),
+    benchmarkUniversities: values.benchmark,
+    assessmentRules: DEFAULT_ASSESSMENT_RULES,
+    maxReferenceAge: DEFAULT_MAX_REFERENCE_AGE,
+    syllabusTemplate: values.template
+      ? await readConfig(values.template, 'template', json => {
+          const { template, issues } = parseTemplate(json);
+          return { value: template, issues };
+        })
+      : DEFAULT_TEMPLATE,
+  };
+
+  const files = await expandInputs(positionals);
+  if (files.length === 0) throw new UsageError("No PDF, DOCX or TXT files matched the inputs.");
+  if (format === 'pdf' && !values['out-dir'] && files.length > 1) {
+    throw new UsageError("PDF output is one file per report; use --out-dir for several inputs.");
+  }
+
+  setDocumentLibraries(nodeDocumentLibraries);
+  setProvider(createProvider(providerConfigFromEnv()));
+
+  const cwd = process.cwd();
+  const outcomes: BatchOutcome[] = files.map(file => ({ fileName: path.relative(cwd, file) || file }));
+  let finished = 0;
+  const progress = (outcome: BatchOutcome, text: string) =>
+    process.stderr.write(`[${++finished}/${files.length}] ${outcome.fileName}: ${text}\n`);
+
+  await runQueue(outcomes.map((outcome, i) => ({ outcome, file: files[i] })), async ({ outcome, file }) => {
+    const input = await loadFile(file);
+    const result = await analyzeSyllabus(input, criteria, language, { samples, temperature });
+    const entry: HistoryEntry = await createHistoryEntry(input, criteria, language, result);
+    // The file name carries the folder so batch rows stay distinguishable
+    outcome.entry = { ...entry, fileName: outcome.fileName };
+    progress(outcome, `${result.overallScore}/100${result.modelError ? ' (baseline report)' : ''}`);
+  }, {
+    concurrency,
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    onAttemptFailed: ({ outcome }, attempt, error) =>
+      process.stderr.write(`${outcome.fileName}: attempt ${attempt} failed, retrying: ${errorText(error)}\n`),
+    onFailed: ({ outcome }, error) => {
+      outcome.error = errorText(error);
+      progress(outcome, `failed: ${outcome.error}`);
+    },
+  });
+
+  const entries = outcomes.flatMap(outcome => (outcome.entry ? [outcome.entry] : []));
+  const t = translations[language];
+  const fonts = format === 'pdf' ? await loadNodePdfFonts() : undefined;
+  const render = async (items: HistoryEntry[]): Promise<string | Uint8Array> => {
+    if (fonts) {
+      // One report per PDF; callers pass a single entry
+      const [entry] = items;
+      return buildPdfReport(entry.result, {
+        language,
+        t,
+        fonts,
+        generatedAt: entry.createdAt,
+        watermark: values.watermark,
+        signatures: values.signature,
+      });
+    }
+    return format === 'json' ? serializeArchive(items) + '\n' : items.map(entry => reportToMarkdown(entry, t)).join('\n---\n\n');
+  };
+
+  if (values['out-dir'] && format !== 'csv') {
+    await mkdir(values['out-dir'], { recursive: true });
+    for (const entry of entries) {
+      const name = entry.fileName.replace(/\.[^./\\]+$/, '').replace(/[\\/]+/g, '__');
+      const output = format === 'json' ? serializeReport(entry) + '\n' : await render([entry]);
+      await writeFile(path.join(values['out-dir'], `${name}.${format}`), output);
+    }
+  }
+
+  const needsOutput = values.out || format === 'csv' || !values['out-dir'];
+  // A PDF has nothing to show when its one input failed
+  if (needsOutput && (format !== 'pdf' || entries.length > 0)) {
+    const output = format === 'csv' ? summaryCsv(outcomes) : await render(entries);
+    if (values.out) {
+      await writeFile(values.out, output);
+    } else if (values['out-dir']) {
+      await mkdir(values['out-dir'], { recursive: true });
+      await writeFile(path.join(values['out-dir'], 'summary.csv'), output);
+    } else {
+      process.stdout.write(output);
+    }
+  }
+
+  const failed = outcomes.length - entries.length;
+  if (failed > 0) process.stderr.write(`${failed} of ${outcomes.length} files failed.\n`);
+  return failed > 0 ? 1 : 0;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...rest] = argv;
+  if (!command || command === '-h' || command === '--help' || command === 'help' || rest.includes('--help') || rest.includes('-h')) {
+    process.stdout.write(`${USAGE}\n`);
+    return command ? 0 : 2;
+  }
+  if (command !== 'analyze') throw new UsageError(`Unknown command "${command}".`);
+  return analyze(rest);
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      process.stderr.write(`pau-eval: ${error.message}\nRun "pau-eval --help" for usage.\n`);
+      process.exitCode = 2;
+    } else {
+      process.stderr.write(`pau-eval: ${errorText(error)}\n`);
+      process.exitCode = 1;
+    }
+  }
+);
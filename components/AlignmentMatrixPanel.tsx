@@ -0,0 +1,88 @@
+import React from 'react';
+import { Grid3X3, AlertTriangle } from 'lucide-react';
+import { AlignmentMatrix } from '../types';
+
+interface AlignmentMatrixPanelProps {
+  matrix: AlignmentMatrix;
+  t: any;
+}
+
+// Row totals are shaded by how many weeks + assessments cover the ILO
+const coverageShade = (count: number) =>
+  count === 0 ? 'bg-red-100 text-red-700'
+    : count <= 2 ? 'bg-amber-100 text-amber-700'
+    : count <= 5 ? 'bg-green-100 text-green-700'
+    : 'bg-green-300 text-green-900';
+
+const AlignmentMatrixPanel: React.FC<AlignmentMatrixPanelProps> = ({ matrix, t }) => {
+  const orphans = matrix.rows.filter(r => r.orphan);
+  const unassessed = matrix.rows.filter(r => r.unassessed);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 print:break-inside">
+      <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <Grid3X3 className="w-5 h-5 text-blue-500" /> {t.alignmentTitle}
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">{t.alignmentDesc}</p>
+
+      {(orphans.length > 0 || unassessed.length > 0 || matrix.unknownIloIds.length > 0) && (
+        <div className="mb-4 space-y-1 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg p-3 print:bg-white">
+          {orphans.length > 0 && (
+            <p className="flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {t.orphanILOs}: {orphans.map(r => r.iloId).join(', ')}</p>
+          )}
+          {unassessed.length > 0 && (
+            <p className="flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {t.unassessedILOs}: {unassessed.map(r => r.iloId).join(', ')}</p>
+          )}
+          {matrix.unknownIloIds.length > 0 && (
+            <p className="flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {t.unknownILOs}: {matrix.unknownIloIds.join(', ')}</p>
+          )}
+        </div>
+      )}
+
+      {matrix.rows.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">{t.notSpecified}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-start sticky start-0 bg-white">ILO</th>
+                {matrix.weeks.map(week => (
+                  <th key={`w${week}`} className="px-1 py-1 text-slate-500 font-medium">{t.weekShort}{week}</th>
+                ))}
+                {matrix.assessments.map((name, i) => (
+                  <th key={`a${i}`} className="px-1 py-1 text-purple-600 font-medium max-w-[5rem] truncate" title={name}>{name}</th>
+                ))}
+                <th className="px-2 py-1">Σ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.rows.map(row => (
+                <tr key={row.iloId}>
+                  <td className="px-2 py-1 font-bold text-blue-600 sticky start-0 bg-white" title={row.iloText}>{row.iloId}</td>
+                  {matrix.weeks.map(week => (
+                    <td key={`w${week}`} className="p-0.5">
+                      <div className={`w-6 h-6 rounded-sm ${row.weeks.includes(week) ? 'bg-blue-500' : 'bg-slate-100'}`} />
+                    </td>
+                  ))}
+                  {matrix.assessments.map((name, i) => (
+                    <td key={`a${i}`} className="p-0.5">
+                      <div className={`w-6 h-6 mx-auto rounded-sm ${row.assessments.includes(name) ? 'bg-purple-500' : 'bg-slate-100'}`} />
+                    </td>
+                  ))}
+                  <td className="p-0.5">
+                    <div className={`px-2 h-6 flex items-center justify-center rounded-sm font-bold ${coverageShade(row.weeks.length + row.assessments.length)}`}>
+                      {row.weeks.length + row.assessments.length}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlignmentMatrixPanel;
@@ -0,0 +1,138 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Layers, RotateCcw, Trash2, Loader2, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { BatchJob } from '../types';
+import { formatMessage } from '../services/ruleFindings';
+
+interface BatchPageProps {
+  jobs: BatchJob[];
+  onRetryFailed: () => void;
+  onClear: () => void;
+  t: any;
+}
+
+// Rough share of the pipeline finished when each stage starts
+const STAGE_PROGRESS: Record<string, number> = {
+  uploading: 5,
+  extracting: 25,
+  analyzing: 50,
+  gathering_data: 80,
+  complete: 100,
+};
+
+const StatusIcon: React.FC<{ status: BatchJob['status'] }> = ({ status }) =>
+  status === 'done' ? <CheckCircle className="w-4 h-4 text-green-500" />
+    : status === 'failed' ? <XCircle className="w-4 h-4 text-red-500" />
+    : status === 'queued' ? <Clock className="w-4 h-4 text-slate-400" />
+    : <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />;
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-600' : score >= 60 ? 'text-yellow-600' : 'text-red-600';
+
+/**
+ * `/batch`. Progress and summary of a multi-file evaluation; finished rows
+ * link to their full reports.
+ */
+const BatchPage: React.FC<BatchPageProps> = ({ jobs, onRetryFailed, onClear, t }) => {
+  const done = jobs.filter(j => j.status === 'done').length;
+  const failed = jobs.filter(j => j.status === 'failed').length;
+  const finished = done + failed;
+  const progress = jobs.length === 0 ? 0 : Math.round(
+    jobs.reduce((sum, j) => sum + (j.status === 'done' || j.status === 'failed' ? 100 : STAGE_PROGRESS[j.stage || ''] || 0), 0) / jobs.length
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in-up">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+            <Layers className="w-6 h-6 text-blue-600" /> {t.batchTitle}
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            {formatMessage(t.batchSummary, { finished, total: jobs.length, done, failed })}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onRetryFailed}
+            disabled={failed === 0}
+            className={`flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md ${failed > 0 ? 'text-white bg-blue-600 hover:bg-blue-700' : 'text-slate-400 bg-slate-100 cursor-not-allowed'}`}
+          >
+            <RotateCcw className="w-3 h-3" /> {t.retryFailed}
+          </button>
+          <button
+            onClick={onClear}
+            disabled={finished < jobs.length}
+            className="flex items-center gap-1 px-3 py-2 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-50"
+          >
+            <Trash2 className="w-3 h-3" /> {t.clearBatch}
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }} />
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+            <tr>
+              <th className="p-3 text-start">{t.file}</th>
+              <th className="p-3 text-start">{t.course}</th>
+              <th className="p-3 text-start">{t.score}</th>
+              <th className="p-3 text-start">{t.topGaps}</th>
+              <th className="p-3 text-start">{t.status}</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.length === 0 ? (
+              <tr><td colSpan={6} className="p-6 text-center text-slate-400 italic">{t.noBatch}</td></tr>
+            ) : jobs.map(job => (
+              <tr key={job.id} className="border-t border-slate-100 align-top">
+                <td className="p-3 text-slate-500 max-w-[14rem] truncate" title={job.fileName}>{job.fileName}</td>
+                <td className="p-3 font-medium text-slate-800">{job.courseTitle || '-'}</td>
+                <td className={`p-3 font-bold ${job.score !== undefined ? scoreColor(job.score) : 'text-slate-400'}`}>{job.score ?? '-'}</td>
+                <td className="p-3 text-xs text-slate-600">
+                  {job.topGaps.length > 0 ? (
+                    <ul className="list-disc ms-4 space-y-0.5">
+                      {job.topGaps.map((gap, i) => <li key={i}>{gap}</li>)}
+                    </ul>
+                  ) : '-'}
+                </td>
+                <td className="p-3 min-w-[10rem]">
+                  <div className="flex items-center gap-2">
+                    <StatusIcon status={job.status} />
+                    <span className="text-xs font-medium text-slate-700">
+                      {t.batchStatus[job.status]}
+                      {job.attempts > 1 && ` (${formatMessage(t.attempt, { attempt: job.attempts })})`}
+                    </span>
+                  </div>
+                  {(job.status === 'running' || job.status === 'retrying') && (
+                    <div className="mt-1">
+                      <div className="w-full h-1 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500 transition-all" style={{ width: `${STAGE_PROGRESS[job.stage || ''] || 0}%` }} />
+                      </div>
+                      {job.stage && <p className="text-[10px] text-slate-400 mt-0.5">{t.batchStage[job.stage]}</p>}
+                    </div>
+                  )}
+                  {job.error && <p className="text-[10px] text-red-600 mt-1">{job.error}</p>}
+                </td>
+                <td className="p-3">
+                  {job.entryId && (
+                    <Link to={`/report/${job.entryId}`} className="text-blue-600 hover:text-blue-800 text-xs font-medium whitespace-nowrap">
+                      {t.viewReport}
+                    </Link>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPage;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { Layers, AlertTriangle } from 'lucide-react';
+import { BloomAnalysis } from '../types';
+import { BLOOM_LEVELS } from '../services/bloomClassifier';
+
+interface BloomPanelProps {
+  analysis: BloomAnalysis;
+  t: any;
+}
+
+const BloomPanel: React.FC<BloomPanelProps> = ({ analysis, t }) => {
+  const chartData = BLOOM_LEVELS.map(level => ({
+    level: t.bloomLevels[level],
+    original: analysis.distribution.original[level],
+    revised: analysis.distribution.revised[level],
+  }));
+
+  const originalTags = analysis.tags.filter(tag => tag.source === 'original');
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 print:break-inside">
+      <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <Layers className="w-5 h-5 text-teal-500" /> {t.bloomTitle}
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">{t.bloomDesc}</p>
+
+      {analysis.unmeasurableCount > 0 && (
+        <div className="mb-4 flex items-center gap-2 text-sm text-orange-700 bg-orange-50 border border-orange-100 rounded-lg p-3 print:bg-white">
+          <AlertTriangle className="w-4 h-4" />
+          {analysis.unmeasurableCount} {t.unmeasurableILOs}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 print:block print:space-y-6">
+        <div className="h-64 w-full chart-container">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="level" tick={{ fontSize: 11, fill: '#64748b' }} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 11, fill: '#64748b' }} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="original" name={t.originalILOs} fill="#94a3b8" isAnimationActive={false} />
+              <Bar dataKey="revised" name={t.revisedILOs} fill="#14b8a6" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <ul className="space-y-2 text-sm overflow-y-auto max-h-64">
+          {originalTags.length === 0 && <p className="text-slate-400 italic">{t.notSpecified}</p>}
+          {originalTags.map((tag, i) => (
+            <li key={i} className="flex items-start gap-2">
+              <span className={`shrink-0 text-[10px] uppercase font-bold px-2 py-0.5 rounded ${!tag.level ? 'bg-slate-100 text-slate-500' : tag.measurable ? 'bg-teal-50 text-teal-700' : 'bg-orange-50 text-orange-700'}`}>
+                {tag.level ? t.bloomLevels[tag.level] : t.unclassified}
+              </span>
+              <span className="text-slate-700">
+                {tag.ilo}
+                {!tag.measurable && (
+                  <span className="block text-xs text-orange-600">
+                    {tag.verb ? `"${tag.verb}" — ${t.unmeasurableVerb}` : t.noActionVerb}
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default BloomPanel;
@@ -0,0 +1,77 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { getAnalysis } from '../services/historyStore';
+import { compareAnalyses } from '../services/comparison';
+import ResultsView from './ResultsView';
+import LoadingScreen from './LoadingScreen';
+
+interface ComparePageProps {
+  language: 'en' | 'ar';
+  t: any;
+}
+
+/**
+ * `/compare/:a/:b`. Compares two saved analyses, earlier against later,
+ * regardless of the order of the ids in the route, and shows the later
+ * report with the comparison on top.
+ */
+const ComparePage: React.FC<ComparePageProps> = ({ language, t }) => {
+  const { a, b } = useParams();
+  const [entries, setEntries] = useState<(HistoryEntry | undefined)[] | null>(null);
+
+  useEffect(() => {
+    setEntries(null);
+    Promise.all([a, b].map(id => (id ? getAnalysis(id) : Promise.resolve(undefined))))
+      .then(setEntries)
+      .catch(error => {
+        console.error("Loading comparison failed:", error);
+        setEntries([undefined, undefined]);
+      });
+  }, [a, b]);
+
+  const [before, after] = useMemo(
+    () => (entries?.every(Boolean) ? [...(entries as HistoryEntry[])].sort((x, y) => x.createdAt.localeCompare(y.createdAt)) : []),
+    [entries]
+  );
+  const changes = useMemo(() => (before && after ? compareAnalyses(before.result, after.result) : null), [before, after]);
+
+  if (!entries) return <LoadingScreen title={t.loadingReport} />;
+
+  const label = (entry: HistoryEntry) =>
+    `${entry.fileName} (${new Date(entry.createdAt).toLocaleDateString(language === 'ar' ? 'ar' : 'en')})`;
+
+  return (
+    <div className="space-y-6">
+      <div className="no-print">
+        <Link to="/history" className="text-slate-500 hover:text-blue-600 text-sm font-medium flex items-center gap-1">
+          ← {t.history}
+        </Link>
+      </div>
+
+      {!before || !after || !changes ? (
+        <div className="text-center text-slate-600 mt-10 bg-white p-8 rounded-xl border border-slate-200">
+          <p className="font-bold">{t.reportNotFound}</p>
+        </div>
+      ) : (
+        <>
+          {before.language !== after.language && (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-3 flex items-center gap-2 no-print">
+              <AlertTriangle className="w-4 h-4" /> {t.compareLanguageMismatch}
+            </p>
+          )}
+          <ResultsView
+            data={after.result}
+            comparison={{ changes, beforeLabel: label(before), afterLabel: label(after) }}
+            entry={after}
+            language={language}
+            t={t}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparePage;
@@ -0,0 +1,123 @@
+import React from 'react';
+import { GitCompare, CheckCircle, AlertTriangle } from 'lucide-react';
+import { AnalysisComparison, GapChanges, IloChange, TextDiffPart } from '../types';
+
+interface ComparisonPanelProps {
+  comparison: AnalysisComparison;
+  beforeLabel: string;
+  afterLabel: string;
+  t: any;
+}
+
+const formatDelta = (delta?: number) =>
+  delta === undefined ? '-' : delta > 0 ? `+${delta}` : `${delta}`;
+
+const deltaColor = (delta?: number) =>
+  !delta ? 'text-slate-500' : delta > 0 ? 'text-green-600' : 'text-red-600';
+
+const iloStatusStyle: Record<IloChange['status'], string> = {
+  unchanged: 'bg-slate-100 text-slate-500',
+  changed: 'bg-blue-50 text-blue-700',
+  added: 'bg-green-50 text-green-700',
+  removed: 'bg-red-50 text-red-600',
+};
+
+const DiffText: React.FC<{ parts: TextDiffPart[] }> = ({ parts }) => (
+  <>
+    {parts.map((part, i) => (
+      <React.Fragment key={i}>
+        {i > 0 && ' '}
+        {part.kind === 'same' ? part.text
+          : part.kind === 'added' ? <ins className="bg-green-100 text-green-800 no-underline rounded-sm px-0.5">{part.text}</ins>
+          : <del className="bg-red-100 text-red-700 rounded-sm px-0.5">{part.text}</del>}
+      </React.Fragment>
+    ))}
+  </>
+);
+
+const GapColumn: React.FC<{ title: string; changes: GapChanges; t: any }> = ({ title, changes, t }) => (
+  <div>
+    <h4 className="font-semibold text-slate-700 mb-2">{title}</h4>
+    <p className="text-xs font-bold text-green-700 uppercase mb-1 flex items-center gap-1">
+      <CheckCircle className="w-3 h-3" /> {t.resolved} ({changes.resolved.length})
+    </p>
+    <ul className="text-sm text-slate-600 list-disc ms-5 mb-3 space-y-1">
+      {changes.resolved.length > 0 ? changes.resolved.map((g, i) => <li key={i}>{g.text}</li>) : <li className="list-none -ms-5 italic text-slate-400">{t.none}</li>}
+    </ul>
+    <p className="text-xs font-bold text-red-600 uppercase mb-1 flex items-center gap-1">
+      <AlertTriangle className="w-3 h-3" /> {t.introduced} ({changes.introduced.length})
+    </p>
+    <ul className="text-sm text-slate-600 list-disc ms-5 space-y-1">
+      {changes.introduced.length > 0 ? changes.introduced.map((g, i) => <li key={i}>{g.text}</li>) : <li className="list-none -ms-5 italic text-slate-400">{t.none}</li>}
+    </ul>
+    {changes.persisting.length > 0 && (
+      <p className="mt-3 text-xs text-slate-400">{t.persisting}: {changes.persisting.length}</p>
+    )}
+  </div>
+);
+
+/**
+ * Score deltas, resolved and new gaps, and ILO wording changes between two
+ * analyses.
+ */
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ comparison, beforeLabel, afterLabel, t }) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-6 print:break-inside">
+    <div className="flex items-start justify-between">
+      <div>
+        <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-blue-500" /> {t.compareTitle}
+        </h3>
+        <p className="text-xs text-slate-500">{beforeLabel} → {afterLabel}</p>
+      </div>
+      <div className="text-end">
+        <p className="text-sm text-slate-500">{comparison.overall.before} → {comparison.overall.after}</p>
+        <p className={`text-2xl font-bold ${deltaColor(comparison.overall.delta)}`}>{formatDelta(comparison.overall.delta)}</p>
+      </div>
+    </div>
+
+    <table className="w-full text-sm">
+      <thead className="text-xs uppercase text-slate-500 border-b">
+        <tr>
+          <th className="py-2 text-start">{t.section}</th>
+          <th className="py-2 text-end">{t.before}</th>
+          <th className="py-2 text-end">{t.after}</th>
+          <th className="py-2 text-end">{t.change}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {comparison.sections.map(s => (
+          <tr key={s.criterionId} className="border-b border-slate-100">
+            <td className="py-2 text-slate-700">{s.section}</td>
+            <td className="py-2 text-end text-slate-500">{s.before ?? '-'}</td>
+            <td className="py-2 text-end text-slate-500">{s.after ?? '-'}</td>
+            <td className={`py-2 text-end font-bold ${deltaColor(s.delta)}`}>{formatDelta(s.delta)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <GapColumn title={t.missing} changes={comparison.missingComponents} t={t} />
+      <GapColumn title={t.weaknesses} changes={comparison.weaknesses} t={t} />
+    </div>
+
+    <div>
+      <h4 className="font-semibold text-slate-700 mb-2">{t.iloChanges}</h4>
+      <ul className="space-y-2 text-sm">
+        {comparison.ilos.map((change, i) => (
+          <li key={i} className="flex items-start gap-3">
+            <span className={`shrink-0 text-[10px] uppercase font-bold px-2 py-0.5 rounded ${iloStatusStyle[change.status]}`}>
+              {t.iloStatus[change.status]}
+            </span>
+            <span className="text-slate-400 font-mono text-xs pt-0.5">{(change.after || change.before)!.id}</span>
+            <span className="text-slate-700">
+              {change.status === 'unchanged' ? change.after!.text : <DiffText parts={change.diff} />}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  </div>
+);
+
+export default ComparisonPanel;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { FileCheck, CheckCircle, XCircle, ArrowDownUp } from 'lucide-react';
+import { ComplianceItem, ComplianceReport } from '../types';
+
+interface ComplianceChecklistProps {
+  report: ComplianceReport;
+  t: any;
+}
+
+const statusStyle: Record<ComplianceItem['status'], string> = {
+  pass: 'bg-green-50 text-green-700',
+  missing: 'bg-red-50 text-red-600',
+  outOfOrder: 'bg-amber-50 text-amber-700',
+};
+
+const StatusIcon: React.FC<{ status: ComplianceItem['status'] }> = ({ status }) =>
+  status === 'pass' ? <CheckCircle className="w-4 h-4 text-green-500" />
+    : status === 'missing' ? <XCircle className="w-4 h-4 text-red-500" />
+    : <ArrowDownUp className="w-4 h-4 text-amber-500" />;
+
+const ComplianceChecklist: React.FC<ComplianceChecklistProps> = ({ report, t }) => {
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 print:break-inside">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+            <FileCheck className="w-5 h-5 text-indigo-500" /> {t.complianceTitle}
+          </h3>
+          <p className="text-xs text-slate-500">{t.complianceDesc} ({report.templateName} v{report.templateVersion})</p>
+        </div>
+        <p className={`text-2xl font-bold ${report.score > 80 ? 'text-green-600' : report.score > 60 ? 'text-yellow-500' : 'text-red-500'}`}>{report.score}/100</p>
+      </div>
+
+      <ul className="divide-y divide-slate-100 text-sm">
+        {report.items.map(item => (
+          <li key={`${item.kind}-${item.id}`} className="flex items-center gap-3 py-2">
+            <StatusIcon status={item.status} />
+            <div className="flex-1">
+              <p className="font-medium text-slate-800">
+                {item.name}
+                {!item.required && <span className="ms-2 text-xs text-slate-400">({t.optional})</span>}
+              </p>
+              <p className="text-xs text-slate-500">
+                {item.kind === 'section' ? t.section : t.field}
+                {item.matchedHeading && ` — ${t.matchedHeading}: "${item.matchedHeading}"`}
+              </p>
+            </div>
+            <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${statusStyle[item.status]}`}>
+              {t.complianceStatus[item.status]}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ComplianceChecklist;
@@ -1,6 +1,10 @@
-import React from 'react';
-import { EvaluationCriteria } from '../types';
-import { Settings, BookOpen, Target, CheckSquare, BarChart } from 'lucide-react';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AssessmentRuleConfig, EvaluationCriteria } from '../types';
+import { Settings, BookOpen, Target, CheckSquare, BarChart, FileCheck, ListChecks, Save, RotateCcw } from 'lucide-react';
+import { ValidationIssue } from '../services/schema';
+import { DEFAULT_TEMPLATE, parseTemplate, saveTemplate } from '../services/syllabusTemplate';
+import { enabledCriteria, isCriterionEnabled } from '../services/rubric';
 
 interface CriteriaFormProps {
   criteria: EvaluationCriteria;
@@ -9,13 +13,53 @@ interface CriteriaFormProps {
   t: any;
 }
 
+const CRITERION_ICONS: Record<string, React.ElementType> = {
+  iloClarity: Target,
+  iloAlignment: CheckSquare,
+  assessmentQuality: BarChart,
+  referenceCurrency: BookOpen,
+  structureCompliance: FileCheck,
+};
+
 const CriteriaForm: React.FC<CriteriaFormProps> = ({ criteria, setCriteria, disabled, t }) => {
-  const toggle = (key: keyof EvaluationCriteria) => {
-    if (typeof criteria[key] === 'boolean') {
-      setCriteria(prev => ({ ...prev, [key]: !prev[key] }));
+  const totalWeight = enabledCriteria(criteria.rubric).reduce((sum, c) => sum + c.weight, 0);
+
+  // Toggling applies to this run only; saving the rubric makes it the default
+  const toggleCriterion = (index: number) => {
+    setCriteria(prev => ({
+      ...prev,
+      rubric: {
+        ...prev.rubric,
+        criteria: prev.rubric.criteria.map((c, i) => (i === index ? { ...c, enabled: !c.enabled } : c)),
+      },
+    }));
+  };
+
+  const setRule = <K extends keyof AssessmentRuleConfig>(key: K, value: AssessmentRuleConfig[K]) => {
+    setCriteria(prev => ({ ...prev, assessmentRules: { ...prev.assessmentRules, [key]: value } }));
+  };
+
+  const [showTemplateEditor, setShowTemplateEditor] = useState(false);
+  const [templateText, setTemplateText] = useState(() => JSON.stringify(criteria.syllabusTemplate, null, 2));
+  const [templateIssues, setTemplateIssues] = useState<ValidationIssue[]>([]);
+  const [templateSaved, setTemplateSaved] = useState(false);
+
+  const handleSaveTemplate = () => {
+    const { template, issues } = parseTemplate(templateText);
+    setTemplateIssues(issues);
+    setTemplateSaved(!!template);
+    if (template) {
+      saveTemplate(template);
+      setCriteria(prev => ({ ...prev, syllabusTemplate: template }));
     }
   };
 
+  const handleResetTemplate = () => {
+    setTemplateText(JSON.stringify(DEFAULT_TEMPLATE, null, 2));
+    setTemplateIssues([]);
+    setTemplateSaved(false);
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 w-full max-w-2xl mx-auto mt-6">
       <div className="flex items-center gap-2 mb-4 border-b pb-3">
@@ -23,51 +67,148 @@ const CriteriaForm: React.FC<CriteriaFormProps> = ({ criteria, setCriteria, disa
         <h2 className="text-lg font-semibold text-slate-800">{t.criteriaTitle}</h2>
       </div>
 
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs font-medium text-slate-600">
+          {t.rubric}: {criteria.rubric.name} <span className="text-slate-400">v{criteria.rubric.version}</span>
+        </p>
+        <Link to="/rubrics" className="text-xs font-medium text-blue-600 hover:text-blue-800">
+          {t.editRubric}
+        </Link>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <div 
-          onClick={() => !disabled && toggle('iloClarity')}
-          className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all ${criteria.iloClarity ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-slate-300'}`}
-        >
-          <Target className={`w-5 h-5 mt-0.5 ${criteria.iloClarity ? 'text-blue-600' : 'text-slate-400'}`} />
-          <div>
-            <h4 className="font-medium text-slate-800">{t.iloClarity}</h4>
-            <p className="text-xs text-slate-500">{t.iloClarityDesc}</p>
-          </div>
-        </div>
+        {criteria.rubric.criteria.map((criterion, index) => {
+          const Icon = CRITERION_ICONS[criterion.id] || ListChecks;
+          const active = criterion.enabled && criterion.weight > 0;
+          return (
+            <div 
+              key={criterion.id}
+              onClick={() => !disabled && toggleCriterion(index)}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all ${active ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-slate-300'}`}
+            >
+              <Icon className={`w-5 h-5 mt-0.5 ${active ? 'text-blue-600' : 'text-slate-400'}`} />
+              <div className="flex-1">
+                <h4 className="font-medium text-slate-800">{criterion.name}</h4>
+                <p className="text-xs text-slate-500">{t[`${criterion.id}Desc`] || criterion.prompt}</p>
+              </div>
+              <span className={`text-xs font-bold ${active ? 'text-blue-600' : 'text-slate-400'}`}>
+                {active ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : '-'}
+              </span>
+            </div>
+          );
+        })}
+      </div>
 
-        <div 
-          onClick={() => !disabled && toggle('iloAlignment')}
-          className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all ${criteria.iloAlignment ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-slate-300'}`}
-        >
-          <CheckSquare className={`w-5 h-5 mt-0.5 ${criteria.iloAlignment ? 'text-blue-600' : 'text-slate-400'}`} />
-          <div>
-            <h4 className="font-medium text-slate-800">{t.iloAlignment}</h4>
-            <p className="text-xs text-slate-500">{t.iloAlignmentDesc}</p>
-          </div>
+      {isCriterionEnabled(criteria.rubric, 'assessmentQuality') && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+          <label className="text-xs font-medium text-slate-600">
+            {t.maxFinalExamWeight}
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={criteria.assessmentRules.maxFinalExamWeight}
+              onChange={(e) => setRule('maxFinalExamWeight', Number(e.target.value))}
+              disabled={disabled}
+              className="mt-1 w-full p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </label>
+          <label className="text-xs font-medium text-slate-600">
+            {t.minFormativeCount}
+            <input
+              type="number"
+              min={0}
+              value={criteria.assessmentRules.minFormativeCount}
+              onChange={(e) => setRule('minFormativeCount', Number(e.target.value))}
+              disabled={disabled}
+              className="mt-1 w-full p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+            <input
+              type="checkbox"
+              checked={criteria.assessmentRules.requireIloReference}
+              onChange={(e) => setRule('requireIloReference', e.target.checked)}
+              disabled={disabled}
+            />
+            {t.requireIloReference}
+          </label>
         </div>
+      )}
 
-        <div 
-          onClick={() => !disabled && toggle('assessmentQuality')}
-          className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all ${criteria.assessmentQuality ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-slate-300'}`}
-        >
-          <BarChart className={`w-5 h-5 mt-0.5 ${criteria.assessmentQuality ? 'text-blue-600' : 'text-slate-400'}`} />
-          <div>
-            <h4 className="font-medium text-slate-800">{t.assessmentQuality}</h4>
-            <p className="text-xs text-slate-500">{t.assessmentQualityDesc}</p>
-          </div>
+      {isCriterionEnabled(criteria.rubric, 'referenceCurrency') && (
+        <div className="mt-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+          <label className="text-xs font-medium text-slate-600">
+            {t.maxReferenceAge}
+            <input
+              type="number"
+              min={1}
+              value={criteria.maxReferenceAge}
+              onChange={(e) => setCriteria(prev => ({ ...prev, maxReferenceAge: Number(e.target.value) }))}
+              disabled={disabled}
+              className="mt-1 w-full md:w-1/3 p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </label>
         </div>
+      )}
 
-        <div 
-          onClick={() => !disabled && toggle('referenceCurrency')}
-          className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all ${criteria.referenceCurrency ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-slate-300'}`}
-        >
-          <BookOpen className={`w-5 h-5 mt-0.5 ${criteria.referenceCurrency ? 'text-blue-600' : 'text-slate-400'}`} />
-          <div>
-            <h4 className="font-medium text-slate-800">{t.referenceCurrency}</h4>
-            <p className="text-xs text-slate-500">{t.referenceCurrencyDesc}</p>
+      {isCriterionEnabled(criteria.rubric, 'structureCompliance') && (
+        <div className="mt-4 p-3 bg-slate-50 rounded-lg border border-slate-200">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-medium text-slate-600">
+              {criteria.syllabusTemplate.name} <span className="text-slate-400">v{criteria.syllabusTemplate.version}</span>
+            </p>
+            <button
+              type="button"
+              onClick={() => setShowTemplateEditor(!showTemplateEditor)}
+              disabled={disabled}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              {t.editTemplate}
+            </button>
           </div>
+
+          {showTemplateEditor && (
+            <div className="mt-3 space-y-2">
+              <textarea
+                value={templateText}
+                onChange={(e) => { setTemplateText(e.target.value); setTemplateSaved(false); }}
+                disabled={disabled}
+                spellCheck={false}
+                dir="ltr"
+                className="w-full h-64 p-2 font-mono text-xs border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              {templateIssues.length > 0 && (
+                <div className="text-xs text-red-700 bg-red-50 border border-red-100 rounded-md p-2">
+                  <p className="font-medium">{t.templateInvalid}</p>
+                  <ul className="list-disc ms-4">
+                    {templateIssues.map((issue, i) => <li key={i} dir="ltr">{issue.path} {issue.message}</li>)}
+                  </ul>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={handleSaveTemplate}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                >
+                  <Save className="w-3 h-3" /> {t.saveTemplate}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleResetTemplate}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+                >
+                  <RotateCcw className="w-3 h-3" /> {t.resetTemplate}
+                </button>
+                {templateSaved && <span className="text-xs text-green-600">{t.templateSaved}</span>}
+              </div>
+            </div>
+          )}
         </div>
-      </div>
+      )}
 
       <div className="mt-4">
         <label className="block text-sm font-medium text-slate-700 mb-1">{t.benchmarkLabel}</label>
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Grid3x3, AlertTriangle, CheckCircle } from 'lucide-react';
+import { CoverageLevel, CoverageMatrix } from '../types';
+
+interface CurriculumMatrixProps {
+  matrix: CoverageMatrix;
+  t: any;
+}
+
+const levelStyle: Record<CoverageLevel, string> = {
+  introduced: 'bg-sky-100 text-sky-700',
+  reinforced: 'bg-indigo-100 text-indigo-700',
+  mastered: 'bg-green-600 text-white',
+};
+
+const severityStyle = {
+  critical: 'bg-red-600 text-white',
+  major: 'bg-orange-400 text-white',
+  minor: 'bg-slate-200 text-slate-700',
+};
+
+/**
+ * PLO x course coverage table (I/R/M per cell) with the resulting gap report.
+ */
+const CurriculumMatrix: React.FC<CurriculumMatrixProps> = ({ matrix, t }) => (
+  <div className="space-y-6">
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-x-auto print:break-inside">
+      <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <Grid3x3 className="w-5 h-5 text-indigo-500" /> {t.coverageMatrix}
+      </h3>
+      <p className="text-xs text-slate-500 mb-4 flex flex-wrap gap-3">
+        {(Object.keys(levelStyle) as CoverageLevel[]).map(level => (
+          <span key={level} className="flex items-center gap-1">
+            <span className={`inline-block w-5 text-center rounded text-[10px] font-bold ${levelStyle[level]}`}>{t.coverageLevelShort[level]}</span>
+            {t.coverageLevels[level]}
+          </span>
+        ))}
+      </p>
+      <table className="text-sm border-collapse">
+        <thead>
+          <tr>
+            <th className="p-2 text-start text-xs uppercase text-slate-500 border-b"></th>
+            {matrix.courses.map(course => (
+              <th key={course.courseKey} className="p-2 text-xs font-medium text-slate-600 border-b whitespace-nowrap" title={course.title}>
+                <Link to={`/report/${course.entryId}`} className="hover:text-blue-600">{course.code || course.title}</Link>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.rows.map(row => (
+            <tr key={row.ploId} className="border-b border-slate-100">
+              <td className="p-2 text-slate-700 min-w-[14rem]">
+                <span className="font-mono text-xs text-slate-400 me-2">{row.ploId}</span>{row.ploText}
+              </td>
+              {matrix.courses.map(course => {
+                const cell = row.cells[course.courseKey];
+                return (
+                  <td key={course.courseKey} className="p-2 text-center" title={cell?.iloIds.join(', ')}>
+                    {cell?.level && (
+                      <span className={`inline-block w-6 rounded text-xs font-bold ${levelStyle[cell.level]}`}>
+                        {t.coverageLevelShort[cell.level]}
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 print:break-inside">
+      <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+        <AlertTriangle className="w-5 h-5 text-orange-500" /> {t.coverageGaps}
+      </h3>
+      {matrix.gaps.length === 0 ? (
+        <p className="text-sm text-green-700 flex items-center gap-2"><CheckCircle className="w-4 h-4" /> {t.noCoverageGaps}</p>
+      ) : (
+        <ul className="space-y-2 text-sm text-slate-700">
+          {matrix.gaps.map(gap => (
+            <li key={gap.ploId}>
+              <span className={`inline-block text-[10px] uppercase font-bold px-1.5 py-0.5 rounded me-2 ${severityStyle[gap.severity]}`}>
+                {t.severity[gap.severity]}
+              </span>
+              {gap.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  </div>
+);
+
+export default CurriculumMatrix;
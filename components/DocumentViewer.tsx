@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, X, AlertTriangle } from 'lucide-react';
+import { Evidence, SourceDocument } from '../types';
+
+interface DocumentViewerProps {
+  document?: SourceDocument;
+  title: string;
+  evidence: Evidence[];
+  onClose: () => void;
+  t: any;
+}
+
+// Highlights the quote inside its paragraph when it appears verbatim;
+// otherwise (whitespace or letter differences) the whole paragraph stays marked.
+const highlight = (paragraph: string, quote: string) => {
+  // Any whitespace in the quote may be a line break in the paragraph
+  const words = quote.trim().split(/\s+/).filter(Boolean).map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const match = words.length > 0 ? new RegExp(words.join('\\s+'), 'i').exec(paragraph) : null;
+  if (!match) return paragraph;
+  const start = match.index;
+  return (
+    <>
+      {paragraph.slice(0, start)}
+      <mark className="bg-yellow-300 rounded-sm">{paragraph.slice(start, start + match[0].length)}</mark>
+      {paragraph.slice(start + match[0].length)}
+    </>
+  );
+};
+
+/**
+ * Side panel showing the syllabus text with the evidence for one score or
+ * finding highlighted.
+ */
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ document, title, evidence, onClose, t }) => {
+  const [active, setActive] = useState(0);
+  const activeRef = useRef<HTMLParagraphElement>(null);
+  const current = evidence[active];
+
+  useEffect(() => setActive(0), [evidence]);
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [current]);
+
+  return (
+    <aside className="fixed inset-y-0 end-0 z-50 w-full md:w-[32rem] bg-white border-s border-slate-200 shadow-2xl flex flex-col no-print">
+      <div className="p-4 border-b border-slate-200">
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-500" /> {document?.fileName || t.evidence}
+          </h3>
+          <button onClick={onClose} title={t.close} className="text-slate-400 hover:text-slate-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="mt-2 text-sm text-slate-600">{title}</p>
+
+        {evidence.length > 1 && (
+          <div className="mt-3 flex flex-wrap gap-1">
+            {evidence.map((e, i) => (
+              <button
+                key={i}
+                onClick={() => setActive(i)}
+                className={`text-xs px-2 py-0.5 rounded border ${i === active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300'}`}
+              >
+                {e.page !== undefined ? `${t.page} ${e.page}` : `#${i + 1}`}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {current?.absent && (
+          <p className="mt-3 text-xs text-red-700 bg-red-50 border border-red-100 rounded-md p-2 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" /> {t.absentFromDocument}
+          </p>
+        )}
+        {current && !current.absent && !current.verified && (
+          <div className="mt-3 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-md p-2">
+            <p className="flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> {t.unverifiedQuote}</p>
+            <p className="mt-1 italic">"{current.quote}"</p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 text-sm text-slate-700 leading-relaxed">
+        {!document || document.pages.length === 0 ? (
+          <p className="text-slate-400 italic">{t.documentTextUnavailable}</p>
+        ) : document.pages.map(page => (
+          <section key={page.page} className="mb-6">
+            {document.pages.length > 1 && (
+              <p className="text-xs uppercase font-semibold text-slate-400 mb-2 border-b pb-1">{t.page} {page.page}</p>
+            )}
+            {page.paragraphs.map((paragraph, i) => {
+              const isActive = !!current?.verified && current.page === page.page && current.paragraph === i + 1;
+              return (
+                <p
+                  key={i}
+                  ref={isActive ? activeRef : undefined}
+                  className={`mb-2 px-1 rounded whitespace-pre-line ${isActive ? 'bg-yellow-100 ring-1 ring-yellow-300' : ''}`}
+                >
+                  {isActive ? highlight(paragraph, current!.quote) : paragraph}
+                </p>
+              );
+            })}
+          </section>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default DocumentViewer;
@@ -1,24 +1,60 @@
-import React, { useRef } from 'react';
-import { Upload, FileText, CheckCircle } from 'lucide-react';
+import React, { useEffect, useRef } from 'react';
+import { Upload, FileText, CheckCircle, FolderOpen } from 'lucide-react';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
+  // Called instead of onFileSelect when several files or a folder are chosen
+  onFilesSelect: (files: File[]) => void;
   selectedFile: File | null;
   t: any;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, t }) => {
+const SUPPORTED_FILE = /\.(pdf|docx|txt)$/i;
+
+// Reads every file below a dropped folder; readEntries returns at most 100 entries per call
+const readEntry = async (entry: any): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await new Promise<File>((resolve, reject) => entry.file(resolve, reject))];
+  }
+  const reader = entry.createReader();
+  const files: File[] = [];
+  for (;;) {
+    const batch: any[] = await new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return files;
+    for (const child of batch) files.push(...(await readEntry(child)));
+  }
+};
+
+const droppedFiles = async (data: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(data.items || [])
+    .map(item => item.webkitGetAsEntry?.())
+    .filter(Boolean);
+  if (entries.length === 0) return Array.from(data.files || []);
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onFilesSelect, selectedFile, t }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Not in React's input attribute types
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const handleFiles = (files: File[]) => {
+    const supported = files.filter(f => SUPPORTED_FILE.test(f.name));
+    if (supported.length === 1) onFileSelect(supported[0]);
+    else if (supported.length > 1) onFilesSelect(supported);
+  };
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      onFileSelect(e.dataTransfer.files[0]);
-    }
+    handleFiles(await droppedFiles(e.dataTransfer));
   };
 
   const handleDriveClick = () => {
@@ -44,7 +80,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, t }
           ref={fileInputRef}
           className="hidden"
           accept=".pdf,.docx,.txt"
-          onChange={(e) => e.target.files && onFileSelect(e.target.files[0])}
+          multiple
+          onChange={(e) => { if (e.target.files) handleFiles(Array.from(e.target.files)); e.target.value = ''; }}
+        />
+        <input
+          type="file"
+          ref={folderInputRef}
+          className="hidden"
+          onChange={(e) => { if (e.target.files) handleFiles(Array.from(e.target.files)); e.target.value = ''; }}
         />
 
         {selectedFile ? (
@@ -65,7 +108,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, t }
         )}
       </div>
 
-      <div className="mt-4 flex justify-center">
+      <div className="mt-4 flex justify-center gap-3">
+        <button
+            onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg shadow-sm hover:bg-slate-50 transition text-slate-700 font-medium"
+        >
+            <FolderOpen className="w-5 h-5 text-amber-500" />
+            {t.uploadFolder}
+        </button>
         <button
             onClick={(e) => { e.stopPropagation(); handleDriveClick(); }}
             className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg shadow-sm hover:bg-slate-50 transition text-slate-700 font-medium"
@@ -0,0 +1,259 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, Search, Download, Upload, Trash2, ExternalLink, GitCompare, FileInput } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { ValidationIssue } from '../services/schema';
+import { formatMessage } from '../services/ruleFindings';
+import { deleteAnalysis, exportArchive, filterHistory, importArchive, listAnalyses } from '../services/historyStore';
+import { parseReport } from '../services/reportFormats';
+
+interface HistoryPageProps {
+  onOpen: (entry: HistoryEntry) => void;
+  onCompare: (a: HistoryEntry, b: HistoryEntry) => void;
+  onRestore: (entry: HistoryEntry) => void; // a report opened from a JSON export
+  language: 'en' | 'ar';
+  t: any;
+}
+
+const inputClass = 'p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-sm';
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-600' : score >= 60 ? 'text-yellow-600' : 'text-red-600';
+
+const parseBound = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+/**
+ * Lists saved analyses with search, score filtering, reopen, delete and
+ * side-by-side comparison, and exports or imports the whole archive as JSON.
+ * A single report exported as JSON can be opened again from here.
+ */
+const HistoryPage: React.FC<HistoryPageProps> = ({ onOpen, onCompare, onRestore, language, t }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [minScore, setMinScore] = useState('');
+  const [maxScore, setMaxScore] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [importIssues, setImportIssues] = useState<ValidationIssue[]>([]);
+  // Why the last report file could not be opened
+  const [reportIssues, setReportIssues] = useState<ValidationIssue[]>([]);
+  // Ids picked for comparison, oldest pick first; a third pick drops the oldest
+  const [selected, setSelected] = useState<string[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const reportInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () =>
+    listAnalyses()
+      .then(setEntries)
+      .catch(e => {
+        console.error("Loading history failed:", e);
+        setError(t.historyUnavailable);
+      });
+
+  useEffect(() => { refresh(); }, []);
+
+  const visible = filterHistory(entries, {
+    query,
+    minScore: parseBound(minScore),
+    maxScore: parseBound(maxScore),
+  });
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(t.confirmDelete)) return;
+    setError(null);
+    try {
+      await deleteAnalysis(entry.id);
+    } catch (e) {
+      console.error("Deleting the analysis failed:", e);
+      setError(t.deleteFailed);
+      return;
+    }
+    setSelected(prev => prev.filter(id => id !== entry.id));
+    refresh();
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2)));
+  };
+
+  const handleCompare = () => {
+    const [a, b] = selected.map(id => entries.find(e => e.id === id));
+    if (a && b) onCompare(a, b);
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    let archive: string;
+    try {
+      archive = await exportArchive();
+    } catch (e) {
+      console.error("Exporting the history failed:", e);
+      setError(t.exportFailed);
+      return;
+    }
+    const blob = new Blob([archive], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pau-history-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setReportIssues([]);
+    setError(null);
+    try {
+      const result = await importArchive(await file.text());
+      setImportMessage(formatMessage(t.importedCount, { count: result.imported }));
+      setImportIssues(result.issues);
+    } catch (e) {
+      console.error("Importing the history failed:", e);
+      setError(t.importFailed);
+    }
+    refresh();
+  };
+
+  const handleOpenReport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportMessage(null);
+    const { entry, issues } = parseReport(await file.text());
+    if (entry) onRestore(entry);
+    else setReportIssues(issues);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in-up">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <History className="w-6 h-6 text-blue-600" /> {t.historyTitle}
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">{t.historyDesc}</p>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex flex-wrap items-end gap-3">
+        <label className="flex-1 min-w-[16rem] text-xs font-medium text-slate-600">
+          <span className="flex items-center gap-1 mb-1"><Search className="w-3 h-3" /> {t.searchHistory}</span>
+          <input value={query} onChange={(e) => setQuery(e.target.value)} className={`w-full ${inputClass}`} />
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          {t.minScore}
+          <input type="number" min={0} max={100} value={minScore} onChange={(e) => setMinScore(e.target.value)} className={`mt-1 block w-24 ${inputClass}`} />
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          {t.maxScore}
+          <input type="number" min={0} max={100} value={maxScore} onChange={(e) => setMaxScore(e.target.value)} className={`mt-1 block w-24 ${inputClass}`} />
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={handleCompare}
+            disabled={selected.length !== 2}
+            title={t.compareHint}
+            className={`flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md ${selected.length === 2 ? 'text-white bg-blue-600 hover:bg-blue-700' : 'text-slate-400 bg-slate-100 cursor-not-allowed'}`}
+          >
+            <GitCompare className="w-3 h-3" /> {t.compareSelected}
+          </button>
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-1 px-3 py-2 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+          >
+            <Download className="w-3 h-3" /> {t.exportArchive}
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-1 px-3 py-2 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+          >
+            <Upload className="w-3 h-3" /> {t.importArchive}
+          </button>
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => reportInput.current?.click()}
+            title={t.openReportDesc}
+            className="flex items-center gap-1 px-3 py-2 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+          >
+            <FileInput className="w-3 h-3" /> {t.openReport}
+          </button>
+          <input ref={reportInput} type="file" accept="application/json,.json" onChange={handleOpenReport} className="hidden" />
+        </div>
+      </div>
+
+      {importMessage && (
+        <div className={`text-xs rounded-md p-2 border ${importIssues.length > 0 ? 'text-amber-700 bg-amber-50 border-amber-100' : 'text-green-700 bg-green-50 border-green-100'}`}>
+          <p className="font-medium">{importMessage}</p>
+          {importIssues.length > 0 && (
+            <>
+              <p className="mt-1">{t.importInvalid}</p>
+              <ul className="list-disc ms-4 max-h-32 overflow-y-auto">
+                {importIssues.map((issue, i) => <li key={i} dir="ltr">{issue.path} {issue.message}</li>)}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      {reportIssues.length > 0 && (
+        <div className="text-xs rounded-md p-2 border text-red-700 bg-red-50 border-red-100">
+          <p className="font-medium">{t.openReportFailed}</p>
+          <ul className="list-disc ms-4 max-h-32 overflow-y-auto">
+            {reportIssues.map((issue, i) => <li key={i} dir="ltr">{issue.path} {issue.message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+            <tr>
+              <th className="p-3"></th>
+              <th className="p-3 text-start">{t.date}</th>
+              <th className="p-3 text-start">{t.course}</th>
+              <th className="p-3 text-start">{t.file}</th>
+              <th className="p-3 text-start">{t.score}</th>
+              <th className="p-3 text-start">{t.language}</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 ? (
+              <tr><td colSpan={7} className="p-6 text-center text-slate-400 italic">{t.noHistory}</td></tr>
+            ) : visible.map(entry => (
+              <tr key={entry.id} className={`border-t border-slate-100 hover:bg-slate-50 ${selected.includes(entry.id) ? 'bg-blue-50' : ''}`}>
+                <td className="p-3">
+                  <input type="checkbox" checked={selected.includes(entry.id)} onChange={() => toggleSelected(entry.id)} title={t.compareHint} />
+                </td>
+                <td className="p-3 text-slate-500 whitespace-nowrap">
+                  {new Date(entry.createdAt).toLocaleString(language === 'ar' ? 'ar' : 'en')}
+                </td>
+                <td className="p-3 font-medium text-slate-800">
+                  {entry.result.courseTitle}
+                  {entry.result.syllabus?.course.code && <span className="ms-2 text-xs text-slate-400">{entry.result.syllabus.course.code}</span>}
+                </td>
+                <td className="p-3 text-slate-500 truncate max-w-[12rem]" title={entry.fileName}>{entry.fileName}</td>
+                <td className={`p-3 font-bold ${scoreColor(entry.result.overallScore)}`}>{entry.result.overallScore}</td>
+                <td className="p-3 text-slate-500 uppercase">{entry.language}</td>
+                <td className="p-3">
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => onOpen(entry)} title={t.open} className="text-blue-600 hover:text-blue-800">
+                      <ExternalLink className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(entry)} title={t.remove} className="text-slate-400 hover:text-red-600">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPage;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface LoadingScreenProps {
+  title: string;
+  description?: string;
+  cancel?: { label: string; onClick: () => void };
+}
+
+const LoadingScreen: React.FC<LoadingScreenProps> = ({ title, description, cancel }) => (
+  <div className="flex flex-col items-center justify-center min-h-[50vh] space-y-6">
+    <div className="relative">
+      <div className="w-20 h-20 border-4 border-slate-100 border-t-blue-600 rounded-full animate-spin"></div>
+      <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-pulse" />
+      </div>
+    </div>
+
+    <div className="text-center space-y-2">
+      <h3 className="text-xl font-bold text-slate-800">{title}</h3>
+      {description && <p className="text-slate-500 text-sm">{description}</p>}
+    </div>
+
+    {cancel && (
+      <button
+        onClick={cancel.onClick}
+        className="px-4 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-lg hover:bg-slate-100"
+      >
+        {cancel.label}
+      </button>
+    )}
+  </div>
+);
+
+export default LoadingScreen;
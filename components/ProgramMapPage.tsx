@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Network, Plus, Trash2, Sparkles, Check, X, Loader2 } from 'lucide-react';
+import { CoverageLevel, PloLink, ProgramCourse, ProgramMap } from '../types';
+import * as geminiService from '../services/geminiService';
+import { listAnalyses } from '../services/historyStore';
+import { buildCoverageMatrix, loadProgramMap, mergeSuggestions, programCourses, saveProgramMap } from '../services/programMap';
+import CurriculumMatrix from './CurriculumMatrix';
+
+interface ProgramMapPageProps {
+  language: 'en' | 'ar';
+  t: any;
+}
+
+const LEVELS: CoverageLevel[] = ['introduced', 'reinforced', 'mastered'];
+
+const inputClass = 'p-1.5 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-xs';
+
+const linkStyle: Record<PloLink['status'], string> = {
+  suggested: 'border-dashed border-amber-300 bg-amber-50',
+  confirmed: 'border-green-300 bg-green-50',
+  rejected: 'border-slate-200 bg-slate-50 opacity-60 line-through',
+};
+
+/**
+ * `/program`. Defines the program learning outcomes, maps course ILOs to them
+ * (model suggestions plus manual confirmation) and shows the coverage matrix.
+ * Changes are saved as they are made.
+ */
+const ProgramMapPage: React.FC<ProgramMapPageProps> = ({ language, t }) => {
+  const [program, setProgram] = useState<ProgramMap>(loadProgramMap);
+  const [courses, setCourses] = useState<ProgramCourse[] | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Manual link being added, per "courseKey/iloId"
+  const [drafts, setDrafts] = useState<Record<string, { ploId: string; level: CoverageLevel }>>({});
+
+  useEffect(() => {
+    listAnalyses()
+      .then(entries => setCourses(programCourses(entries)))
+      .catch(e => {
+        console.error("Loading history failed:", e);
+        setError(t.historyUnavailable);
+        setCourses([]);
+      });
+  }, []);
+
+  const update = (next: ProgramMap) => {
+    setProgram(next);
+    saveProgramMap(next);
+  };
+
+  const matrix = useMemo(
+    () => buildCoverageMatrix(program, courses || [], language),
+    [program, courses, language]
+  );
+
+  // Renaming a PLO carries its links along
+  const setOutcome = (index: number, changes: { id?: string; text?: string }) => {
+    const previousId = program.outcomes[index].id;
+    update({
+      ...program,
+      outcomes: program.outcomes.map((o, i) => (i === index ? { ...o, ...changes } : o)),
+      links: changes.id === undefined ? program.links : program.links.map(l => (l.ploId === previousId ? { ...l, ploId: changes.id! } : l)),
+    });
+  };
+
+  const setLink = (target: PloLink, changes: Partial<PloLink>) =>
+    update({ ...program, links: program.links.map(l => (l === target ? { ...l, ...changes } : l)) });
+
+  const addLink = (course: ProgramCourse, iloId: string) => {
+    const key = `${course.courseKey}/${iloId}`;
+    const draft = drafts[key] || { ploId: program.outcomes[0]?.id, level: 'introduced' };
+    if (!draft.ploId) return;
+    const link: PloLink = { courseKey: course.courseKey, iloId, ploId: draft.ploId, level: draft.level, status: 'confirmed' };
+    const existing = program.links.find(l => l.courseKey === link.courseKey && l.iloId === iloId && l.ploId === link.ploId);
+    if (existing) setLink(existing, { level: link.level, status: 'confirmed' });
+    else update({ ...program, links: [...program.links, link] });
+  };
+
+  const handleSuggest = async () => {
+    if (!courses || courses.length === 0 || program.outcomes.length === 0) return;
+    setSuggesting(true);
+    setError(null);
+    try {
+      const suggestions = await geminiService.suggestPloMappings(program.outcomes, courses, language);
+      update(mergeSuggestions(program, suggestions));
+    } catch (e: any) {
+      console.error(e);
+      setError(`${t.mappingFailed} ${e.message || ''}`);
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const suggestedCount = program.links.filter(l => l.status === 'suggested').length;
+
+  return (
+    <div className="space-y-6 animate-fade-in-up">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <Network className="w-6 h-6 text-blue-600" /> {t.programTitle}
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">{t.programDesc}</p>
+      </div>
+
+      {/* Program learning outcomes */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-3">
+        <label className="block text-xs font-medium text-slate-600">
+          {t.programName}
+          <input value={program.name} onChange={(e) => update({ ...program, name: e.target.value })} className={`mt-1 w-full ${inputClass}`} />
+        </label>
+        <p className="text-sm font-semibold text-slate-700">{t.plos}</p>
+        {program.outcomes.map((outcome, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <input
+              value={outcome.id}
+              onChange={(e) => setOutcome(index, { id: e.target.value })}
+              placeholder={t.ploId}
+              dir="ltr"
+              className={`col-span-2 font-mono ${inputClass}`}
+            />
+            <input
+              value={outcome.text}
+              onChange={(e) => setOutcome(index, { text: e.target.value })}
+              placeholder={t.ploText}
+              className={`col-span-9 ${inputClass}`}
+            />
+            <button
+              type="button"
+              onClick={() => update({
+                ...program,
+                outcomes: program.outcomes.filter((_, i) => i !== index),
+                links: program.links.filter(l => l.ploId !== outcome.id),
+              })}
+              title={t.remove}
+              className="col-span-1 text-slate-400 hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => update({ ...program, outcomes: [...program.outcomes, { id: `PLO${program.outcomes.length + 1}`, text: '' }] })}
+          className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="w-4 h-4" /> {t.addPlo}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>}
+
+      {/* ILO mapping */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-lg font-bold text-slate-800">{t.iloMapping}</h3>
+          <div className="flex gap-2">
+            <button
+              onClick={() => update({ ...program, links: program.links.map(l => (l.status === 'suggested' ? { ...l, status: 'confirmed' } : l)) })}
+              disabled={suggestedCount === 0}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-50"
+            >
+              <Check className="w-3 h-3" /> {t.confirmAllSuggested} ({suggestedCount})
+            </button>
+            <button
+              onClick={handleSuggest}
+              disabled={suggesting || !courses?.length || program.outcomes.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {suggesting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+              {suggesting ? t.suggesting : t.suggestMappings}
+            </button>
+          </div>
+        </div>
+
+        {courses === null ? (
+          <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+        ) : courses.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">{t.noCourses}</p>
+        ) : program.outcomes.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">{t.noPlos}</p>
+        ) : courses.map(course => (
+          <details key={course.courseKey} className="border border-slate-200 rounded-lg">
+            <summary className="cursor-pointer p-3 text-sm font-medium text-slate-800 flex items-center justify-between">
+              <span>{course.code && <span className="font-mono text-xs text-slate-400 me-2">{course.code}</span>}{course.title}</span>
+              <Link to={`/report/${course.entryId}`} className="text-xs text-blue-600 hover:text-blue-800">{t.viewReport}</Link>
+            </summary>
+            <ul className="divide-y divide-slate-100 text-sm">
+              {course.ilos.map(ilo => {
+                const key = `${course.courseKey}/${ilo.id}`;
+                const draft = drafts[key] || { ploId: program.outcomes[0].id, level: 'introduced' as CoverageLevel };
+                const links = program.links.filter(l => l.courseKey === course.courseKey && l.iloId === ilo.id);
+                return (
+                  <li key={ilo.id} className="p-3 space-y-2">
+                    <p className="text-slate-700"><span className="font-mono text-xs text-slate-400 me-2">{ilo.id}</span>{ilo.text}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {links.map((link, i) => (
+                        <span key={i} className={`flex items-center gap-1 text-xs border rounded px-2 py-1 ${linkStyle[link.status]}`} title={link.rationale}>
+                          <span className="font-mono font-bold">{link.ploId}</span>
+                          <select
+                            value={link.level}
+                            onChange={(e) => setLink(link, { level: e.target.value as CoverageLevel })}
+                            className="bg-transparent text-xs"
+                          >
+                            {LEVELS.map(level => <option key={level} value={level}>{t.coverageLevels[level]}</option>)}
+                          </select>
+                          {link.status !== 'confirmed' && (
+                            <button onClick={() => setLink(link, { status: 'confirmed' })} title={t.confirm} className="text-green-600 hover:text-green-800">
+                              <Check className="w-3 h-3" />
+                            </button>
+                          )}
+                          {link.status !== 'rejected' && (
+                            <button onClick={() => setLink(link, { status: 'rejected' })} title={t.reject} className="text-red-500 hover:text-red-700">
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                      <span className="flex items-center gap-1">
+                        <select
+                          value={draft.ploId}
+                          onChange={(e) => setDrafts({ ...drafts, [key]: { ...draft, ploId: e.target.value } })}
+                          className={inputClass}
+                        >
+                          {program.outcomes.map(o => <option key={o.id} value={o.id}>{o.id}</option>)}
+                        </select>
+                        <select
+                          value={draft.level}
+                          onChange={(e) => setDrafts({ ...drafts, [key]: { ...draft, level: e.target.value as CoverageLevel } })}
+                          className={inputClass}
+                        >
+                          {LEVELS.map(level => <option key={level} value={level}>{t.coverageLevels[level]}</option>)}
+                        </select>
+                        <button onClick={() => addLink(course, ilo.id)} className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800">
+                          <Plus className="w-3 h-3" /> {t.addLink}
+                        </button>
+                      </span>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </details>
+        ))}
+      </div>
+
+      {courses && courses.length > 0 && program.outcomes.length > 0 && <CurriculumMatrix matrix={matrix} t={t} />}
+    </div>
+  );
+};
+
+export default ProgramMapPage;
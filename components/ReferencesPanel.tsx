@@ -0,0 +1,82 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { ReferenceReport } from '../types';
+
+interface ReferencesPanelProps {
+  report: ReferenceReport;
+  t: any;
+}
+
+const ReferencesPanel: React.FC<ReferencesPanelProps> = ({ report, t }) => {
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 print:break-inside">
+      <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <BookOpen className="w-5 h-5 text-orange-500" /> {t.referencesTitle}
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">{t.referencesDesc}</p>
+
+      <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+        <div className="p-3 bg-slate-50 rounded-lg">
+          <p className="text-xs uppercase text-slate-400 font-semibold">{t.currencyScore}</p>
+          <p className={`text-2xl font-bold ${report.score > 80 ? 'text-green-600' : report.score > 60 ? 'text-yellow-500' : 'text-red-500'}`}>{report.score}/100</p>
+        </div>
+        <div className="p-3 bg-slate-50 rounded-lg">
+          <p className="text-xs uppercase text-slate-400 font-semibold">{t.medianAge}</p>
+          <p className="text-2xl font-bold text-slate-700">{report.medianAge !== undefined ? `${report.medianAge} ${t.years}` : '-'}</p>
+        </div>
+        <div className="p-3 bg-slate-50 rounded-lg">
+          <p className="text-xs uppercase text-slate-400 font-semibold">{t.outdated}</p>
+          <p className="text-2xl font-bold text-slate-700">{report.outdatedCount}/{report.entries.length}</p>
+        </div>
+      </div>
+
+      {report.entries.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">{t.notSpecified}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-slate-600">
+            <thead className="text-xs text-slate-700 uppercase bg-slate-50 print:bg-slate-200">
+              <tr>
+                <th className="px-3 py-2 text-start">{t.references}</th>
+                <th className="px-3 py-2">{t.year}</th>
+                <th className="px-3 py-2">{t.edition}</th>
+                <th className="px-3 py-2">{t.identifier}</th>
+                <th className="px-3 py-2">{t.age}</th>
+                <th className="px-3 py-2">{t.status}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.entries.map((entry, i) => (
+                <tr key={i} className="border-b align-top">
+                  <td className="px-3 py-2">
+                    <p className="font-medium text-slate-800">{entry.title || entry.raw}</p>
+                    {entry.authors.length > 0 && <p className="text-xs text-slate-500">{entry.authors.join('; ')}</p>}
+                  </td>
+                  <td className="px-3 py-2 text-center">{entry.year ?? '-'}</td>
+                  <td className="px-3 py-2 text-center">{entry.edition ?? '-'}</td>
+                  <td className="px-3 py-2 text-xs break-all">
+                    {entry.doi ? (
+                      <a href={`https://doi.org/${entry.doi}`} target="_blank" rel="noreferrer" className="text-blue-500 hover:text-blue-700">{entry.doi}</a>
+                    ) : entry.isbn ?? '-'}
+                  </td>
+                  <td className="px-3 py-2 text-center">{entry.age !== undefined ? `${entry.age} ${t.years}` : '-'}</td>
+                  <td className="px-3 py-2 text-center">
+                    <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${
+                      entry.age === undefined ? 'bg-slate-100 text-slate-500'
+                        : entry.outdated ? 'bg-red-50 text-red-600'
+                        : 'bg-green-50 text-green-700'
+                    }`}>
+                      {entry.age === undefined ? t.undated : entry.outdated ? t.outdated : t.current}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferencesPanel;
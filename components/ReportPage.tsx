@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AnalysisStageId, HistoryEntry } from '../types';
+import { getAnalysis } from '../services/historyStore';
+import { rerunStage } from '../services/pipeline';
+import ResultsView from './ResultsView';
+import LoadingScreen from './LoadingScreen';
+
+interface ReportPageProps {
+  current: HistoryEntry | null;
+  onLoad: (entry: HistoryEntry) => void;
+  onUpdate: (entry: HistoryEntry) => void;
+  isTranslating: boolean;
+  language: 'en' | 'ar';
+  t: any;
+}
+
+/**
+ * `/report/:id`. Shows the current analysis when it matches the route,
+ * otherwise loads it from the history so reports survive reloads and bookmarks.
+ * Single model stages can be re-run with the criteria the report was made with.
+ */
+const ReportPage: React.FC<ReportPageProps> = ({ current, onLoad, onUpdate, isTranslating, language, t }) => {
+  const { id } = useParams();
+  const [notFound, setNotFound] = useState(false);
+  const [rerunning, setRerunning] = useState<AnalysisStageId | null>(null);
+  const [rerunError, setRerunError] = useState<string | null>(null);
+  const loaded = !!id && current?.id === id;
+
+  const handleRerun = async (stage: AnalysisStageId) => {
+    if (!current) return;
+    setRerunning(stage);
+    setRerunError(null);
+    try {
+      const result = await rerunStage(current.result, stage, current.criteria, language, { fileHash: current.fileHash });
+      onUpdate({ ...current, result });
+    } catch (error: any) {
+      console.error(error);
+      setRerunError(`${t.rerunFailed} ${error.message || ''}`);
+    } finally {
+      setRerunning(null);
+    }
+  };
+
+  useEffect(() => {
+    setNotFound(false);
+    if (!id || loaded) return;
+    getAnalysis(id)
+      .then(entry => (entry ? onLoad(entry) : setNotFound(true)))
+      .catch(error => {
+        console.error("Loading report failed:", error);
+        setNotFound(true);
+      });
+  }, [id]);
+
+  if (notFound) {
+    return (
+      <div className="text-center text-slate-600 mt-10 bg-white p-8 rounded-xl border border-slate-200">
+        <p className="font-bold">{t.reportNotFound}</p>
+        <Link to="/history" className="text-sm text-blue-600 hover:text-blue-800">{t.history}</Link>
+      </div>
+    );
+  }
+  if (isTranslating) {
+    return <LoadingScreen title={t.translating} description={t.translatingDesc} />;
+  }
+  if (!loaded) {
+    return <LoadingScreen title={t.loadingReport} />;
+  }
+
+  return (
+    <div>
+      <div className="mb-6 no-print">
+        <Link to="/" className="text-slate-500 hover:text-blue-600 text-sm font-medium flex items-center gap-1">
+          ← {t.analyzeAnother}
+        </Link>
+      </div>
+      {rerunError && <p className="mb-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3 no-print">{rerunError}</p>}
+      <ResultsView data={current!.result} onRerunStage={handleRerun} rerunning={rerunning} entry={current!} language={language} t={t} />
+    </div>
+  );
+};
+
+export default ReportPage;
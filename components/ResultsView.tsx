@@ -1,29 +1,213 @@
-import React, { useState } from 'react';
-import { AnalysisResult } from '../types';
+import React, { useMemo, useState } from 'react';
+import { AnalysisComparison, AnalysisResult, AnalysisStageId, Evidence, GapItem, HistoryEntry, ScoreSpread } from '../types';
+import { analyzeBloom } from '../services/bloomClassifier';
+import { buildAlignmentMatrix } from '../services/alignmentMatrix';
+import { enabledCriteria, rubricLevel } from '../services/rubric';
+import { formatMessage } from '../services/ruleFindings';
+import { isLowConfidence, isUnstable } from '../services/scoreStability';
+import { radarChartSvg, svgToPng } from '../services/radarChart';
+import { loadBrowserPdfFonts } from '../services/pdfFonts';
+import { reportToCsv, reportToMarkdown, serializeReport } from '../services/reportFormats';
+import SyllabusOverview from './SyllabusOverview';
+import BloomPanel from './BloomPanel';
+import AlignmentMatrixPanel from './AlignmentMatrixPanel';
+import ReferencesPanel from './ReferencesPanel';
+import ComplianceChecklist from './ComplianceChecklist';
+import DocumentViewer from './DocumentViewer';
+import ComparisonPanel from './ComparisonPanel';
+import StagesPanel from './StagesPanel';
 import { RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ResponsiveContainer, BarChart } from 'recharts';
-import { AlertTriangle, CheckCircle, GraduationCap, Globe, Lightbulb, ExternalLink, Printer, Mail, Download, Copy, Check } from 'lucide-react';
+import { AlertTriangle, CheckCircle, GraduationCap, Globe, Lightbulb, ExternalLink, Printer, Mail, Download, Copy, Check, Quote, FileText, FileDown, Loader2 } from 'lucide-react';
 
 interface ResultsViewProps {
   data: AnalysisResult;
+  // Set when the report is shown as the later version in a comparison
+  comparison?: { changes: AnalysisComparison; beforeLabel: string; afterLabel: string };
+  // Re-runs one model stage; without it the stage list is read-only
+  onRerunStage?: (stage: AnalysisStageId) => void;
+  rerunning?: AnalysisStageId | null;
+  entry: HistoryEntry; // the run behind the report, for the date and the data exports
   language: 'en' | 'ar';
   t: any;
 }
 
-const ResultsView: React.FC<ResultsViewProps> = ({ data, language, t }) => {
+const LOGO_URL = 'https://upload.wikimedia.org/wikipedia/commons/e/e8/Palestine_Ahliya_University_Logo.png';
+const CHART_SIZE = 480;
+
+// The university logo for the document header, 40px high; the document is still made without it
+const loadLogo = async () => {
+  try {
+    const res = await fetch(LOGO_URL);
+    const blob = await res.blob();
+    const bitmap = await createImageBitmap(blob);
+    const height = 40;
+    const width = Math.round((bitmap.width / bitmap.height) * height);
+    bitmap.close();
+    return { data: new Uint8Array(await blob.arrayBuffer()), width, height };
+  } catch (e) {
+    console.warn("Logo unavailable for the Word document:", e);
+    return undefined;
+  }
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ResultsView: React.FC<ResultsViewProps> = ({ data, comparison, onRerunStage, rerunning, entry, language, t }) => {
   const isAr = language === 'ar';
   const [copied, setCopied] = useState(false);
+  const [exportingDocx, setExportingDocx] = useState(false);
+  const [exportingPdf, setExportingPdf] = useState(false);
+  const [showPdfOptions, setShowPdfOptions] = useState(false);
+  const [watermark, setWatermark] = useState('');
+  const [signatories, setSignatories] = useState<string | null>(null); // null until edited: the translated defaults
+  const [viewing, setViewing] = useState<{ title: string; evidence: Evidence[] } | null>(null);
 
   // Defensive check: ensure sectionScores is an array
   const sectionScores = data?.sectionScores || [];
   
+  const bloom = useMemo(
+    () => analyzeBloom((data?.syllabus?.ilos || []).map(ilo => ilo.text), data?.revisedILOs || []),
+    [data]
+  );
+
+  const alignment = useMemo(
+    () => (data?.syllabus ? buildAlignmentMatrix(data.syllabus) : null),
+    [data]
+  );
+
+  const ruleFindings = data?.ruleFindings || [];
+  const severityBadge = (item: string) => {
+    const finding = ruleFindings.find(f => f.message === item);
+    if (!finding) return null;
+    const colors = finding.severity === 'critical' ? 'bg-red-600 text-white'
+      : finding.severity === 'major' ? 'bg-orange-400 text-white'
+      : 'bg-slate-200 text-slate-700';
+    return (
+      <span className={`inline-block text-[10px] uppercase font-bold px-1.5 py-0.5 rounded me-1 ${colors}`}>
+        {t.severity[finding.severity]}
+      </span>
+    );
+  };
+
+  // Spread of the scores over the stability runs, when the report has them
+  const stability = data?.stability;
+  const sectionSpread = (criterionId: string) => stability?.sections.find(s => s.criterionId === criterionId);
+  const spreadSummary = (spread: ScoreSpread) =>
+    formatMessage(t.stabilitySummary, { spread: spread.stdDev, samples: stability?.samples ?? 1, min: spread.min, max: spread.max });
+
+  const confidenceBadge = (item: GapItem) => {
+    if (!stability || !isLowConfidence(item)) return null;
+    return (
+      <span
+        title={formatMessage(t.supportedBy, { count: Math.round(item.support! * stability.samples), total: stability.samples })}
+        className="inline-block text-[10px] uppercase font-bold px-1.5 py-0.5 rounded me-1 bg-amber-100 text-amber-700"
+      >
+        {t.lowConfidence}
+      </span>
+    );
+  };
+
+  // Weight share and performance level of each section under the result's rubric
+  const sectionDetail = (criterionId: string, score: number) => {
+    const criteria = data?.rubric ? enabledCriteria(data.rubric) : [];
+    const criterion = criteria.find(c => c.id === criterionId);
+    if (!criterion) return null;
+    const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+    return {
+      share: Math.round((criterion.weight / totalWeight) * 100),
+      level: rubricLevel(criterion, score)?.label,
+    };
+  };
+
   const chartData = sectionScores.map(s => ({
     subject: s.section,
     A: s.score,
     fullMark: 100,
   }));
 
-  const handlePrint = () => {
-    window.print();
+  const fileName = data.courseTitle.replace(/[^\p{L}\p{N}]+/gu, '-');
+
+  const handlePdf = async () => {
+    setExportingPdf(true);
+    try {
+      const [fonts, { buildPdfReport }] = await Promise.all([loadBrowserPdfFonts(), import('../services/pdfReport')]);
+      const bytes = await buildPdfReport(data, {
+        language,
+        t,
+        fonts,
+        generatedAt: entry.createdAt,
+        watermark: watermark.trim() || undefined,
+        signatures: (signatories ?? t.defaultSignatories).split('\n').map((role: string) => role.trim()).filter(Boolean),
+      });
+      downloadBlob(new Blob([bytes], { type: 'application/pdf' }), `${fileName}.pdf`);
+      setShowPdfOptions(false);
+    } catch (e) {
+      console.error("PDF export failed:", e);
+      alert(t.pdfFailed);
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
+  const handleDataExport = (format: 'json' | 'csv' | 'md') => {
+    if (format === 'json') downloadBlob(new Blob([serializeReport(entry)], { type: 'application/json' }), `${fileName}.json`);
+    else if (format === 'csv') downloadBlob(new Blob([reportToCsv(entry)], { type: 'text/csv' }), `${fileName}.csv`);
+    else downloadBlob(new Blob([reportToMarkdown(entry, t)], { type: 'text/markdown' }), `${fileName}.md`);
+  };
+
+  const handleDocx = async () => {
+    setExportingDocx(true);
+    try {
+      const svg = radarChartSvg(sectionScores.map(s => ({ label: s.section, score: s.score })), CHART_SIZE);
+      const [png, logo, { buildDocxReport }] = await Promise.all([
+        svgToPng(svg, CHART_SIZE),
+        loadLogo(),
+        import('../services/docxReport'),
+      ]);
+      const blob = await buildDocxReport(data, {
+        language,
+        t,
+        logo,
+        chart: sectionScores.length >= 3 ? { svg, data: png, width: 360, height: 360 } : undefined,
+      });
+      downloadBlob(blob, `${fileName}.docx`);
+    } catch (e) {
+      console.error("Word export failed:", e);
+      alert(t.docxFailed);
+    } finally {
+      setExportingDocx(false);
+    }
+  };
+
+  const evidenceLocation = (e: Evidence) =>
+    e.page !== undefined ? `${t.page} ${e.page}${e.paragraph !== undefined ? `, ${t.paragraphShort} ${e.paragraph}` : ''}` : '';
+
+  // Quotes with their locations, appended to each line of the text report
+  const evidenceText = (evidence: Evidence[]) => evidence.map(e =>
+    e.absent ? ` [${t.absent}]` : `\n    > "${e.quote}"${evidenceLocation(e) ? ` (${evidenceLocation(e)})` : ''}`
+  ).join('');
+
+  const evidenceButton = (title: string, evidence: Evidence[]) => {
+    if (evidence.length === 0) return null;
+    if (evidence.every(e => e.absent)) {
+      return <span className="ms-1 text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">{t.absent}</span>;
+    }
+    return (
+      <button
+        onClick={() => setViewing({ title, evidence })}
+        title={t.viewEvidence}
+        className="ms-1 inline-flex items-center gap-0.5 text-[10px] font-bold px-1.5 py-0.5 rounded bg-white border border-slate-300 text-slate-600 hover:border-blue-500 hover:text-blue-600 no-print"
+      >
+        <Quote className="w-3 h-3" /> {evidence.length}
+      </button>
+    );
   };
 
   const generateReportText = () => {
@@ -38,21 +222,103 @@ const ResultsView: React.FC<ResultsViewProps> = ({ data, language, t }) => {
     const benchmarks = data?.benchmarks || [];
     const tutors = data?.tutors || [];
 
-    const scoresText = scores.map(s => `- ${s.section}: ${s.score}/100 (${s.feedback})`).join('\n');
-    const gapsText = missing.length > 0 ? missing.join('\n- ') : t.noGaps;
-    const weakText = weaknesses.length > 0 ? weaknesses.join('\n- ') : t.noGaps;
-    const strengthText = strengths.length > 0 ? strengths.join('\n- ') : t.noGaps;
+    const scoresText = scores.map(s => {
+      const detail = sectionDetail(s.criterionId, s.score);
+      const spread = sectionSpread(s.criterionId);
+      return `- ${s.section}: ${s.score}/100${spread ? ` ±${spread.stdDev}` : ''}${detail ? ` [${detail.level ?? '-'}, ${t.weight} ${detail.share}%]` : ''} (${s.feedback})${evidenceText(s.evidence)}`;
+    }).join('\n');
+    const withSeverity = (item: GapItem) => {
+      const finding = (data?.ruleFindings || []).find(f => f.message === item.text);
+      const confidence = stability && isLowConfidence(item) ? `[${t.lowConfidence}] ` : '';
+      return `${finding ? `[${t.severity[finding.severity]}] ` : ''}${confidence}${item.text}${evidenceText(item.evidence)}`;
+    };
+    const gapsText = missing.length > 0 ? missing.map(withSeverity).join('\n- ') : t.noGaps;
+    const weakText = weaknesses.length > 0 ? weaknesses.map(withSeverity).join('\n- ') : t.noGaps;
+    const strengthText = strengths.length > 0 ? strengths.map(withSeverity).join('\n- ') : t.noGaps;
     const recommendationsText = recommendations.join('\n- ');
     const revisedIloText = revisedILOs.join('\n- ');
     const benchmarksText = benchmarks.map(b => `- ${b.university}: ${b.comparison}`).join('\n');
     const tutorsText = tutors.map(t => `- ${t.name} (${t.affiliation}): ${t.email}`).join('\n');
+    const course = data.syllabus?.course;
+    const courseText = course ? [
+      course.code && `${t.courseCode}: ${course.code}`,
+      course.department && `${t.department}: ${course.department}`,
+      course.instructor && `${t.instructor}: ${course.instructor}`,
+      course.creditHours !== undefined && `${t.creditHours}: ${course.creditHours}`,
+    ].filter(Boolean).join('\n') : '';
+    const iloText = (data.syllabus?.ilos || []).map((ilo, i) => {
+      const tag = bloom.tags[i];
+      const level = tag.level ? t.bloomLevels[tag.level] : t.unclassified;
+      return `- ${ilo.id}: ${ilo.text} [${level}${tag.measurable ? '' : `, ${t.unmeasurableVerb}`}]`;
+    }).join('\n');
+    const assessmentText = (data.syllabus?.assessments || []).map(a => `- ${a.name}: ${a.weight}%`).join('\n');
+    const referencesText = (data.referenceReport?.entries || []).map(e => {
+      const status = e.age === undefined ? t.undated : e.outdated ? t.outdated : t.current;
+      return `- ${e.title || e.raw} (${e.year ?? '-'}) [${status}]`;
+    }).join('\n');
+    const complianceText = (data.complianceReport?.items || [])
+      .map(i => `- [${t.complianceStatus[i.status]}] ${i.name}${i.required ? '' : ` (${t.optional})`}`)
+      .join('\n');
+    const alignmentText = alignment ? [
+      ...alignment.rows.map(r => {
+        const flags = [r.orphan && t.orphanILOs, r.unassessed && t.unassessedILOs].filter(Boolean);
+        return `- ${r.iloId} | ${t.weeks}: ${r.weeks.join(', ') || '-'} | ${t.assessments}: ${r.assessments.join(', ') || '-'}${flags.length ? ` [${flags.join('; ')}]` : ''}`;
+      }),
+      ...(alignment.unknownIloIds.length > 0 ? [`${t.unknownILOs}: ${alignment.unknownIloIds.join(', ')}`] : []),
+    ].join('\n') : '';
+    const comparisonText = comparison ? (() => {
+      const { changes } = comparison;
+      const delta = (value?: number) => (value === undefined ? '-' : value > 0 ? `+${value}` : `${value}`);
+      const gapLines = (label: string, items: GapItem[]) =>
+        `${label} (${items.length}):${items.map(g => `\n  - ${g.text}`).join('')}`;
+      return [
+        `${comparison.beforeLabel} -> ${comparison.afterLabel}`,
+        `${t.overallScore}: ${changes.overall.before} -> ${changes.overall.after} (${delta(changes.overall.delta)})`,
+        ...changes.sections.map(s => `- ${s.section}: ${s.before ?? '-'} -> ${s.after ?? '-'} (${delta(s.delta)})`),
+        '',
+        `${t.missing}:`,
+        gapLines(t.resolved, changes.missingComponents.resolved),
+        gapLines(t.introduced, changes.missingComponents.introduced),
+        '',
+        `${t.weaknesses}:`,
+        gapLines(t.resolved, changes.weaknesses.resolved),
+        gapLines(t.introduced, changes.weaknesses.introduced),
+        '',
+        `${t.iloChanges}:`,
+        ...changes.ilos.filter(c => c.status !== 'unchanged').map(c => {
+          const id = (c.after || c.before)!.id;
+          const text = c.diff.map(p => (p.kind === 'added' ? `{+${p.text}+}` : p.kind === 'removed' ? `[-${p.text}-]` : p.text)).join(' ');
+          return `- [${t.iloStatus[c.status]}] ${id}: ${text}`;
+        }),
+      ].join('\n');
+    })() : '';
 
     return `
 ${t.uniName} - ${t.reportTitle}
 ---------------------------------------------------------
 ${t.university}: ${data.courseTitle}
-${t.overallScore}: ${data.overallScore}/100
+${courseText}
+${t.overallScore}: ${data.overallScore}/100${data.rubric ? ` (${formatMessage(t.scoredWith, { name: data.rubric.name, version: data.rubric.version })})` : ''}
+${stability ? `${spreadSummary(stability.overall)}${isUnstable(stability.overall) ? ` - ${t.unstableScore}` : ''}
+` : ''}${data.modelError ? `\n${t.baselineReport.toUpperCase()}: ${t.baselineDesc}\n` : ''}${comparison ? `
+---------------------------------------------------------
+${t.compareTitle.toUpperCase()}:
+${comparisonText}
 
+---------------------------------------------------------
+` : ''}
+${t.learningOutcomes.toUpperCase()}:
+${iloText}
+
+${t.assessments.toUpperCase()}:
+${assessmentText}
+
+${t.alignmentTitle.toUpperCase()}:
+${alignmentText}
+${data.complianceReport ? `
+${t.complianceTitle.toUpperCase()} (${data.complianceReport.templateName} v${data.complianceReport.templateVersion}): ${data.complianceReport.score}/100
+${complianceText}
+` : ''}
 ${t.breakdown.toUpperCase()}:
 ${scoresText}
 
@@ -69,13 +335,17 @@ ${t.strengths}:
 - ${strengthText}
 
 ---------------------------------------------------------
-RECOMMENDATIONS:
+${t.recommendations.toUpperCase()}:
 - ${recommendationsText}
 
 ---------------------------------------------------------
 ${t.revisedILOs.toUpperCase()}:
 - ${revisedIloText}
 
+---------------------------------------------------------
+${t.referencesTitle.toUpperCase()}${data.referenceReport ? ` (${t.currencyScore}: ${data.referenceReport.score}/100)` : ''}:
+${referencesText}
+
 ---------------------------------------------------------
 ${t.benchmarking.toUpperCase()}:
 ${benchmarksText}
@@ -150,12 +420,28 @@ Generated by PAU Syllabus Evaluator
             {copied ? t.copied : t.copyReport}
         </button>
         <button 
-            onClick={handlePrint}
+            onClick={() => setShowPdfOptions(!showPdfOptions)}
             className="flex items-center gap-2 px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-700 transition shadow-sm"
         >
             <Download className="w-4 h-4" />
             {t.downloadPdf}
         </button>
+        <button 
+            onClick={handleDocx}
+            disabled={exportingDocx}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition shadow-sm disabled:opacity-60"
+        >
+            {exportingDocx ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+            {exportingDocx ? t.preparingDocx : t.downloadDocx}
+        </button>
+        <div className="flex items-center rounded-lg border border-slate-300 bg-white shadow-sm overflow-hidden text-sm text-slate-700">
+          <span className="flex items-center gap-2 px-3 py-2 text-slate-500">
+            <FileDown className="w-4 h-4" /> {t.exportData}
+          </span>
+          <button onClick={() => handleDataExport('json')} title={t.exportJsonDesc} className="px-3 py-2 border-s border-slate-200 hover:bg-slate-50 font-medium">JSON</button>
+          <button onClick={() => handleDataExport('csv')} title={t.exportCsvDesc} className="px-3 py-2 border-s border-slate-200 hover:bg-slate-50 font-medium">CSV</button>
+          <button onClick={() => handleDataExport('md')} title={t.exportMarkdownDesc} className="px-3 py-2 border-s border-slate-200 hover:bg-slate-50 font-medium">Markdown</button>
+        </div>
          <button 
             onClick={handleEmail}
             className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition shadow-sm"
@@ -165,11 +451,61 @@ Generated by PAU Syllabus Evaluator
         </button>
       </div>
 
+      {showPdfOptions && (
+        <div className="bg-white border border-slate-200 rounded-xl shadow-sm p-4 grid gap-4 md:grid-cols-2 no-print">
+          <label className="block text-sm font-medium text-slate-700">
+            {t.watermarkLabel}
+            <input
+              type="text"
+              value={watermark}
+              onChange={(e) => setWatermark(e.target.value)}
+              placeholder={t.watermarkPlaceholder}
+              className="mt-1 w-full p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+          </label>
+          <label className="block text-sm font-medium text-slate-700">
+            {t.signaturesLabel}
+            <textarea
+              rows={3}
+              value={signatories ?? t.defaultSignatories}
+              onChange={(e) => setSignatories(e.target.value)}
+              className="mt-1 w-full p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            />
+            <span className="block text-xs font-normal text-slate-500 mt-1">{t.signaturesDesc}</span>
+          </label>
+          <div className="md:col-span-2 flex justify-end">
+            <button
+              onClick={handlePdf}
+              disabled={exportingPdf}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition shadow-sm disabled:opacity-60"
+            >
+              {exportingPdf ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              {exportingPdf ? t.preparingPdf : t.generatePdf}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Header Card */}
       <div className="bg-white rounded-xl shadow-lg border-t-4 border-blue-600 p-8 flex flex-col md:flex-row justify-between items-center gap-6 print:shadow-none print:border-slate-300">
         <div>
           <h1 className="text-3xl font-bold text-slate-900">{data.courseTitle}</h1>
           <p className="text-slate-500 mt-1">{t.reportTitle}</p>
+          {data.documentStats && (
+            <details className="mt-2 text-xs text-slate-500">
+              <summary className="cursor-pointer">
+                {formatMessage(t.documentStats, { words: data.documentStats.totalWords, sections: data.documentStats.sections.length })}
+              </summary>
+              <ul className="mt-1 space-y-0.5">
+                {data.documentStats.sections.map((section, i) => (
+                  <li key={i} className="flex justify-between gap-4 max-w-xs">
+                    <span className="truncate">{section.heading}</span>
+                    <span className="font-mono">{section.words}</span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
         </div>
         <div className="flex items-center gap-4">
           <div className="text-right">
@@ -177,6 +513,14 @@ Generated by PAU Syllabus Evaluator
             <p className={`text-4xl font-extrabold ${data.overallScore > 80 ? 'text-green-600' : data.overallScore > 60 ? 'text-yellow-500' : 'text-red-500'}`}>
               {data.overallScore}/100
             </p>
+            {stability && (
+              <p className={`text-xs font-medium ${isUnstable(stability.overall) ? 'text-amber-600' : 'text-slate-500'}`} title={isUnstable(stability.overall) ? t.unstableScore : undefined}>
+                {spreadSummary(stability.overall)}
+              </p>
+            )}
+            {data.rubric && (
+              <p className="text-xs text-slate-400">{formatMessage(t.scoredWith, { name: data.rubric.name, version: data.rubric.version })}</p>
+            )}
           </div>
           <div className="h-16 w-16 rounded-full border-4 border-slate-100 flex items-center justify-center bg-slate-50 print:hidden">
              <GraduationCap className="w-8 h-8 text-blue-600" />
@@ -184,6 +528,41 @@ Generated by PAU Syllabus Evaluator
         </div>
       </div>
 
+      {data.modelError && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-4 text-sm flex gap-3 print:break-inside">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-bold">{t.baselineReport}</p>
+            <p>{t.baselineDesc}</p>
+            <p className="text-xs text-amber-600 mt-1 no-print">{data.modelError}</p>
+          </div>
+        </div>
+      )}
+
+      {stability && isUnstable(stability.overall) && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-4 text-sm flex gap-3 print:break-inside">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <p>{t.unstableScore}</p>
+        </div>
+      )}
+
+      {data.stages && (
+        <StagesPanel
+          stages={data.stages}
+          modelCalls={data.modelCalls}
+          canRerunExtraction={!!data.sourceDocument}
+          onRerun={onRerunStage}
+          rerunning={rerunning}
+          t={t}
+        />
+      )}
+
+      {comparison && (
+        <ComparisonPanel comparison={comparison.changes} beforeLabel={comparison.beforeLabel} afterLabel={comparison.afterLabel} t={t} />
+      )}
+
+      {data.syllabus && <SyllabusOverview syllabus={data.syllabus} showReferences={!data.referenceReport} t={t} />}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 print:block print:space-y-6">
         
         {/* Section Scores Chart */}
@@ -201,6 +580,27 @@ Generated by PAU Syllabus Evaluator
               </RadarChart>
             </ResponsiveContainer>
           </div>
+          <ul className="mt-4 space-y-1 text-sm">
+            {sectionScores.map(s => {
+              const detail = sectionDetail(s.criterionId, s.score);
+              const spread = sectionSpread(s.criterionId);
+              return (
+                <li key={s.criterionId} className="flex items-center justify-between gap-2" title={s.feedback}>
+                  <span className="text-slate-700">{s.section}{evidenceButton(`${s.section}: ${s.feedback}`, s.evidence)}</span>
+                  <span className="flex items-center gap-2">
+                    {detail?.level && <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded bg-blue-50 text-blue-700">{detail.level}</span>}
+                    {detail && <span className="text-xs text-slate-400">×{detail.share}%</span>}
+                    <span className="font-bold text-slate-800">{s.score}</span>
+                    {spread && (
+                      <span className={`text-xs ${isUnstable(spread) ? 'text-amber-600 font-semibold' : 'text-slate-400'}`} title={spreadSummary(spread)}>
+                        ±{spread.stdDev}
+                      </span>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
         </div>
 
         {/* Gap Analysis */}
@@ -221,7 +621,7 @@ Generated by PAU Syllabus Evaluator
                     <div className="bg-red-50 p-4 rounded-lg border border-red-100 print:bg-white print:border-0">
                         <h4 className="font-semibold text-red-700 text-sm mb-2 print:text-black">{t.missing}</h4>
                         <ul className="list-disc list-inside text-sm text-red-600 space-y-1 print:text-slate-700">
-                            {missingComponents.map((item, i) => <li key={i}>{item}</li>)}
+                            {missingComponents.map((item, i) => <li key={i}>{severityBadge(item.text)}{confidenceBadge(item)}{item.text}{evidenceButton(item.text, item.evidence)}</li>)}
                         </ul>
                     </div>
                 )}
@@ -230,7 +630,7 @@ Generated by PAU Syllabus Evaluator
                     <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-100 print:bg-white print:border-0">
                         <h4 className="font-semibold text-yellow-700 text-sm mb-2 print:text-black">{t.weaknesses}</h4>
                         <ul className="list-disc list-inside text-sm text-yellow-600 space-y-1 print:text-slate-700">
-                             {weaknesses.map((item, i) => <li key={i}>{item}</li>)}
+                             {weaknesses.map((item, i) => <li key={i}>{severityBadge(item.text)}{confidenceBadge(item)}{item.text}{evidenceButton(item.text, item.evidence)}</li>)}
                         </ul>
                     </div>
                 )}
@@ -239,7 +639,7 @@ Generated by PAU Syllabus Evaluator
                     <div className="bg-green-50 p-4 rounded-lg border border-green-100 print:bg-white print:border-0">
                         <h4 className="font-semibold text-green-700 text-sm mb-2 print:text-black">{t.strengths}</h4>
                         <ul className="list-disc list-inside text-sm text-green-600 space-y-1 print:text-slate-700">
-                             {strengths.map((item, i) => <li key={i}>{item}</li>)}
+                             {strengths.map((item, i) => <li key={i}>{confidenceBadge(item)}{item.text}{evidenceButton(item.text, item.evidence)}</li>)}
                         </ul>
                     </div>
                 )}
@@ -248,6 +648,14 @@ Generated by PAU Syllabus Evaluator
 
       </div>
 
+      <BloomPanel analysis={bloom} t={t} />
+
+      {alignment && <AlignmentMatrixPanel matrix={alignment} t={t} />}
+
+      {data.complianceReport && <ComplianceChecklist report={data.complianceReport} t={t} />}
+
+      {data.referenceReport && <ReferencesPanel report={data.referenceReport} t={t} />}
+
       {/* Revised ILOs & Activities */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 print:block print:space-y-6">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 print:break-inside">
@@ -304,6 +712,9 @@ Generated by PAU Syllabus Evaluator
                     </tr>
                 </thead>
                 <tbody>
+                    {benchmarks.length === 0 && (
+                        <tr><td colSpan={2} className="px-6 py-4 text-center text-slate-500">{t.noBenchmarks}</td></tr>
+                    )}
                     {benchmarks.map((bm, i) => (
                         <tr key={i} className="bg-white border-b hover:bg-slate-50 print:border-slate-300">
                             <td className="px-6 py-4 font-medium text-slate-900">
@@ -345,6 +756,15 @@ Generated by PAU Syllabus Evaluator
         </div>
       </div>
 
+      {viewing && (
+        <DocumentViewer
+          document={data.sourceDocument}
+          title={viewing.title}
+          evidence={viewing.evidence}
+          onClose={() => setViewing(null)}
+          t={t}
+        />
+      )}
     </div>
   );
 };
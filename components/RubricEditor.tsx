@@ -0,0 +1,261 @@
+import React, { useRef, useState } from 'react';
+import { Save, RotateCcw, Download, Upload, Plus, Trash2 } from 'lucide-react';
+import { Rubric, RubricCriterion, RubricLevel } from '../types';
+import { ValidationIssue } from '../services/schema';
+import { defaultRubric, parseRubric } from '../services/rubric';
+
+interface RubricEditorProps {
+  rubric: Rubric;
+  onSave: (rubric: Rubric) => void;
+  disabled: boolean;
+  language: 'en' | 'ar';
+  t: any;
+}
+
+const inputClass = 'w-full p-1.5 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-xs';
+
+const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onSave, disabled, language, t }) => {
+  const [draft, setDraft] = useState<Rubric>(rubric);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [saved, setSaved] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const update = (next: Rubric) => {
+    setDraft(next);
+    setSaved(false);
+  };
+
+  const setCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    update({ ...draft, criteria: draft.criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+  };
+
+  const setLevel = (index: number, levelIndex: number, changes: Partial<RubricLevel>) => {
+    const criterion = draft.criteria[index];
+    setCriterion(index, { levels: criterion.levels.map((l, i) => (i === levelIndex ? { ...l, ...changes } : l)) });
+  };
+
+  const addCriterion = () => {
+    const template = defaultRubric(language).criteria[0];
+    update({
+      ...draft,
+      criteria: [...draft.criteria, {
+        id: `criterion${draft.criteria.length + 1}`,
+        name: '',
+        enabled: true,
+        weight: 10,
+        prompt: '',
+        levels: template.levels.map(l => ({ ...l, descriptor: '' })),
+      }],
+    });
+  };
+
+  const handleSave = () => {
+    const result = parseRubric(JSON.stringify(draft));
+    setIssues(result.issues);
+    setSaved(!!result.rubric);
+    if (result.rubric) onSave(result.rubric);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(draft, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.name.replace(/[^\p{L}\p{N}]+/gu, '-')}-v${draft.version}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseRubric(await file.text());
+    setIssues(result.issues);
+    if (result.rubric) update(result.rubric);
+  };
+
+  return (
+    <div className="mt-3 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="text-xs font-medium text-slate-600">
+          {t.rubricName}
+          <input value={draft.name} onChange={(e) => update({ ...draft, name: e.target.value })} disabled={disabled} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          {t.version}
+          <input value={draft.version} onChange={(e) => update({ ...draft, version: e.target.value })} disabled={disabled} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          {t.department}
+          <input
+            value={draft.department || ''}
+            onChange={(e) => update({ ...draft, department: e.target.value || undefined })}
+            disabled={disabled}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      {draft.criteria.map((criterion, index) => (
+        <div key={index} className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+          <div className="grid grid-cols-12 gap-2 items-end">
+            <label className="col-span-3 text-xs font-medium text-slate-600">
+              {t.criterionId}
+              <input value={criterion.id} onChange={(e) => setCriterion(index, { id: e.target.value })} disabled={disabled} dir="ltr" className={`mt-1 font-mono ${inputClass}`} />
+            </label>
+            <label className="col-span-5 text-xs font-medium text-slate-600">
+              {t.criterionName}
+              <input value={criterion.name} onChange={(e) => setCriterion(index, { name: e.target.value })} disabled={disabled} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="col-span-2 text-xs font-medium text-slate-600">
+              {t.weight}
+              <input
+                type="number"
+                min={0}
+                value={criterion.weight}
+                onChange={(e) => setCriterion(index, { weight: Number(e.target.value) })}
+                disabled={disabled}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <div className="col-span-2 flex items-center justify-end gap-2 pb-1.5">
+              <label className="flex items-center gap-1 text-xs text-slate-600">
+                <input type="checkbox" checked={criterion.enabled} onChange={(e) => setCriterion(index, { enabled: e.target.checked })} disabled={disabled} />
+                {t.enabled}
+              </label>
+              <button
+                type="button"
+                onClick={() => update({ ...draft, criteria: draft.criteria.filter((_, i) => i !== index) })}
+                disabled={disabled}
+                title={t.remove}
+                className="text-slate-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <label className="block text-xs font-medium text-slate-600">
+            {t.prompt}
+            <textarea
+              value={criterion.prompt}
+              onChange={(e) => setCriterion(index, { prompt: e.target.value })}
+              disabled={disabled}
+              rows={2}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+
+          <div>
+            <p className="text-xs font-medium text-slate-600 mb-1">{t.levels}</p>
+            <div className="space-y-1">
+              {criterion.levels.map((level, levelIndex) => (
+                <div key={levelIndex} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    value={level.label}
+                    onChange={(e) => setLevel(index, levelIndex, { label: e.target.value })}
+                    disabled={disabled}
+                    placeholder={t.levelLabel}
+                    className={`col-span-3 ${inputClass}`}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={level.minScore}
+                    onChange={(e) => setLevel(index, levelIndex, { minScore: Number(e.target.value) })}
+                    disabled={disabled}
+                    title={t.minScore}
+                    className={`col-span-2 ${inputClass}`}
+                  />
+                  <input
+                    value={level.descriptor}
+                    onChange={(e) => setLevel(index, levelIndex, { descriptor: e.target.value })}
+                    disabled={disabled}
+                    placeholder={t.descriptor}
+                    className={`col-span-6 ${inputClass}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setCriterion(index, { levels: criterion.levels.filter((_, i) => i !== levelIndex) })}
+                    disabled={disabled}
+                    title={t.remove}
+                    className="col-span-1 text-slate-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setCriterion(index, { levels: [...criterion.levels, { label: '', minScore: 0, descriptor: '' }] })}
+              disabled={disabled}
+              className="mt-1 flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-3 h-3" /> {t.addLevel}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addCriterion}
+        disabled={disabled}
+        className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+      >
+        <Plus className="w-4 h-4" /> {t.addCriterion}
+      </button>
+
+      {issues.length > 0 && (
+        <div className="text-xs text-red-700 bg-red-50 border border-red-100 rounded-md p-2">
+          <p className="font-medium">{t.rubricInvalid}</p>
+          <ul className="list-disc ms-4">
+            {issues.map((issue, i) => <li key={i} dir="ltr">{issue.path} {issue.message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          <Save className="w-3 h-3" /> {t.saveRubric}
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+        >
+          <Download className="w-3 h-3" /> {t.exportRubric}
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+        >
+          <Upload className="w-3 h-3" /> {t.importRubric}
+        </button>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        <button
+          type="button"
+          onClick={() => { update(defaultRubric(language)); setIssues([]); }}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+        >
+          <RotateCcw className="w-3 h-3" /> {t.resetRubric}
+        </button>
+        {saved && <span className="text-xs text-green-600">{t.rubricSaved}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default RubricEditor;
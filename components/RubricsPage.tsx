@@ -0,0 +1,28 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Scale } from 'lucide-react';
+import { Rubric } from '../types';
+import RubricEditor from './RubricEditor';
+
+interface RubricsPageProps {
+  rubric: Rubric;
+  onSave: (rubric: Rubric) => void;
+  language: 'en' | 'ar';
+  t: any;
+}
+
+const RubricsPage: React.FC<RubricsPageProps> = ({ rubric, onSave, language, t }) => (
+  <div className="space-y-6 animate-fade-in-up">
+    <Link to="/" className="text-slate-500 hover:text-blue-600 text-sm font-medium flex items-center gap-1">
+      ← {t.backToUpload}
+    </Link>
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+        <Scale className="w-6 h-6 text-blue-600" /> {t.editRubric}
+      </h2>
+      <RubricEditor rubric={rubric} onSave={onSave} disabled={false} language={language} t={t} />
+    </div>
+  </div>
+);
+
+export default RubricsPage;
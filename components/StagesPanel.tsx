@@ -0,0 +1,80 @@
+import React from 'react';
+import { CheckCircle, XCircle, MinusCircle, RotateCcw, Loader2, Workflow } from 'lucide-react';
+import { AnalysisStageId, ModelCall, StageOutcome } from '../types';
+import { formatMessage } from '../services/ruleFindings';
+import { formatDuration, formatUsd, sumUsage } from '../services/usage';
+
+interface StagesPanelProps {
+  stages: StageOutcome[];
+  modelCalls?: ModelCall[];
+  canRerunExtraction: boolean; // extraction and evaluation need the stored document text
+  onRerun?: (stage: AnalysisStageId) => void;
+  rerunning?: AnalysisStageId | null;
+  t: any;
+}
+
+const StatusIcon: React.FC<{ status: StageOutcome['status'] }> = ({ status }) =>
+  status === 'ok' ? <CheckCircle className="w-4 h-4 text-green-500" />
+    : status === 'failed' ? <XCircle className="w-4 h-4 text-red-500" />
+    : <MinusCircle className="w-4 h-4 text-slate-400" />;
+
+const RunUsage: React.FC<{ calls: ModelCall[]; t: any }> = ({ calls, t }) => {
+  const usage = sumUsage(calls);
+  return (
+    <p className="mt-3 pt-3 border-t border-slate-100 text-xs text-slate-500">
+      {formatMessage(t.runUsage, {
+        calls: usage.calls,
+        tokens: (usage.promptTokens + usage.responseTokens).toLocaleString(),
+        cost: usage.unpricedCalls < usage.calls ? formatUsd(usage.costUsd) : '—',
+      })}
+    </p>
+  );
+};
+
+/**
+ * Outcome and duration of each model stage of the analysis, with a re-run
+ * button per stage, and the tokens and cost of the run's model calls.
+ */
+const StagesPanel: React.FC<StagesPanelProps> = ({ stages, modelCalls, canRerunExtraction, onRerun, rerunning, t }) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 no-print">
+    <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+      <Workflow className="w-5 h-5 text-slate-500" /> {t.analysisStages}
+    </h3>
+    <ul className="divide-y divide-slate-100 text-sm">
+      {stages.map(outcome => {
+        const available = canRerunExtraction || (outcome.stage !== 'extract' && outcome.stage !== 'evaluate');
+        return (
+          <li key={outcome.stage} className="py-2 flex items-start justify-between gap-4">
+            <div className="flex items-start gap-2">
+              <StatusIcon status={outcome.status} />
+              <div>
+                <p className="font-medium text-slate-800">
+                  {t.stageNames[outcome.stage]}
+                  <span className="ms-2 text-xs font-normal text-slate-500">
+                    {outcome.cached ? t.fromCache : t.stageStatus[outcome.status]}
+                    {outcome.attempts > 1 && ` · ${formatMessage(t.attempt, { attempt: outcome.attempts })}`}
+                    {outcome.durationMs !== undefined && ` · ${formatDuration(outcome.durationMs)}`}
+                  </span>
+                </p>
+                {outcome.error && <p className="text-xs text-red-600 mt-0.5">{outcome.error}</p>}
+              </div>
+            </div>
+            {onRerun && (
+              <button
+                onClick={() => onRerun(outcome.stage)}
+                disabled={!!rerunning || !available}
+                className="flex items-center gap-1 px-3 py-1 text-xs font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-50 whitespace-nowrap"
+              >
+                {rerunning === outcome.stage ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                {t.rerun}
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+    {modelCalls && modelCalls.length > 0 && <RunUsage calls={modelCalls} t={t} />}
+  </div>
+);
+
+export default StagesPanel;
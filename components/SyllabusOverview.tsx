@@ -0,0 +1,159 @@
+import React from 'react';
+import { Syllabus } from '../types';
+import { BookOpen, Calendar, ClipboardList, FileText, ScrollText, Target } from 'lucide-react';
+
+interface SyllabusOverviewProps {
+  syllabus: Syllabus;
+  showReferences?: boolean; // hidden when the References panel is shown instead
+  t: any;
+}
+
+const SyllabusOverview: React.FC<SyllabusOverviewProps> = ({ syllabus, showReferences = true, t }) => {
+  const course = syllabus.course;
+  const totalWeight = syllabus.assessments.reduce((sum, a) => sum + a.weight, 0);
+
+  const metadata: [string, React.ReactNode][] = [
+    [t.courseCode, course.code],
+    [t.department, course.department],
+    [t.instructor, course.instructor && `${course.instructor}${course.instructorEmail ? ` (${course.instructorEmail})` : ''}`],
+    [t.officeHours, course.officeHours],
+    [t.semester, course.semester],
+    [t.creditHours, course.creditHours],
+    [t.prerequisites, course.prerequisites.length > 0 ? course.prerequisites.join(', ') : t.none],
+  ];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-6 print:break-inside">
+      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+        <FileText className="w-5 h-5 text-slate-500" /> {t.courseOverview}
+      </h3>
+
+      {course.description && <p className="text-sm text-slate-600">{course.description}</p>}
+
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        {metadata.map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-xs uppercase tracking-wide text-slate-400 font-semibold">{label}</dt>
+            <dd className="text-slate-800">{value !== undefined && value !== '' ? value : <span className="text-slate-400 italic">{t.notSpecified}</span>}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 print:block print:space-y-6">
+        {/* ILOs */}
+        <div>
+          <h4 className="font-semibold text-slate-700 text-sm mb-2 flex items-center gap-2">
+            <Target className="w-4 h-4 text-blue-500" /> {t.learningOutcomes}
+          </h4>
+          {syllabus.ilos.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">{t.notSpecified}</p>
+          ) : (
+            <ul className="space-y-1 text-sm text-slate-700">
+              {syllabus.ilos.map(ilo => (
+                <li key={ilo.id}><span className="font-bold text-blue-500">{ilo.id}</span> {ilo.text}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Assessments */}
+        <div>
+          <h4 className="font-semibold text-slate-700 text-sm mb-2 flex items-center gap-2">
+            <ClipboardList className="w-4 h-4 text-purple-500" /> {t.assessments}
+          </h4>
+          {syllabus.assessments.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">{t.notSpecified}</p>
+          ) : (
+            <table className="w-full text-sm text-slate-600">
+              <thead className="text-xs text-slate-700 uppercase bg-slate-50 print:bg-slate-200">
+                <tr>
+                  <th className="px-3 py-2 text-start">{t.assessment}</th>
+                  <th className="px-3 py-2 text-end">{t.weight}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {syllabus.assessments.map((a, i) => (
+                  <tr key={i} className="border-b">
+                    <td className="px-3 py-2">{a.name} <span className="text-xs text-slate-400">({a.type})</span></td>
+                    <td className="px-3 py-2 text-end">{a.weight}%</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="px-3 py-2"></td>
+                  <td className={`px-3 py-2 text-end ${totalWeight === 100 ? 'text-green-600' : 'text-red-500'}`}>{totalWeight}%</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* Weekly Plan */}
+      <div>
+        <h4 className="font-semibold text-slate-700 text-sm mb-2 flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-green-500" /> {t.weeklyPlan}
+        </h4>
+        {syllabus.weeklyPlan.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">{t.notSpecified}</p>
+        ) : (
+          <div className="overflow-x-auto max-h-72 overflow-y-auto">
+            <table className="w-full text-sm text-slate-600">
+              <thead className="text-xs text-slate-700 uppercase bg-slate-50 print:bg-slate-200">
+                <tr>
+                  <th className="px-3 py-2 text-start">{t.week}</th>
+                  <th className="px-3 py-2 text-start">{t.topics}</th>
+                  <th className="px-3 py-2 text-start">ILOs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {syllabus.weeklyPlan.map(w => (
+                  <tr key={w.week} className="border-b">
+                    <td className="px-3 py-2 font-medium">{w.week}</td>
+                    <td className="px-3 py-2">{w.topics.join('; ')}</td>
+                    <td className="px-3 py-2 text-xs text-slate-400">{w.iloIds.join(', ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 print:block print:space-y-6">
+        {/* References */}
+        {showReferences && (
+          <div>
+            <h4 className="font-semibold text-slate-700 text-sm mb-2 flex items-center gap-2">
+              <BookOpen className="w-4 h-4 text-orange-500" /> {t.references}
+            </h4>
+            {syllabus.references.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">{t.notSpecified}</p>
+            ) : (
+              <ul className="list-disc list-inside space-y-1 text-xs text-slate-600">
+                {syllabus.references.map((ref, i) => <li key={i}>{ref}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Policies */}
+        <div>
+          <h4 className="font-semibold text-slate-700 text-sm mb-2 flex items-center gap-2">
+            <ScrollText className="w-4 h-4 text-slate-500" /> {t.policies}
+          </h4>
+          {syllabus.policies.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">{t.notSpecified}</p>
+          ) : (
+            <ul className="space-y-2 text-xs text-slate-600">
+              {syllabus.policies.map((p, i) => (
+                <li key={i}><span className="font-semibold text-slate-800">{p.title}:</span> {p.text}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyllabusOverview;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, AlertTriangle } from 'lucide-react';
+import { HistoryEntry, ModelCall, UsageBudget, UsageTotals } from '../types';
+import { listAnalyses } from '../services/historyStore';
+import { loadUsageLog } from '../services/usageLog';
+import { formatMessage } from '../services/ruleFindings';
+import {
+  budgetStatus,
+  formatDuration,
+  formatUsd,
+  loadUsageBudget,
+  saveUsageBudget,
+  usageByMonth,
+  usageByStage,
+} from '../services/usage';
+
+interface UsagePageProps {
+  t: any;
+}
+
+const inputClass = 'p-2 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-sm';
+
+const barColor = { ok: 'bg-blue-600', warning: 'bg-amber-500', exceeded: 'bg-red-600' };
+
+const cost = (usage: UsageTotals) => (usage.unpricedCalls < usage.calls ? formatUsd(usage.costUsd) : '—');
+
+const UsageCells: React.FC<{ usage: UsageTotals }> = ({ usage }) => (
+  <>
+    <td className="p-3">{usage.calls}</td>
+    <td className="p-3">{usage.promptTokens.toLocaleString()}</td>
+    <td className="p-3">{usage.responseTokens.toLocaleString()}</td>
+    <td className="p-3">{usage.calls > 0 ? formatDuration(usage.durationMs / usage.calls) : '—'}</td>
+    <td className="p-3 font-medium text-slate-800">{cost(usage)}</td>
+  </>
+);
+
+/**
+ * `/usage`. Totals the model calls in the usage log by month and by stage,
+ * and warns when this month's estimated cost nears the budget.
+ */
+const UsagePage: React.FC<UsagePageProps> = ({ t }) => {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [calls, setCalls] = useState<ModelCall[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [budget, setBudget] = useState<UsageBudget>(loadUsageBudget);
+
+  useEffect(() => {
+    Promise.all([loadUsageLog(), listAnalyses()])
+      .then(([log, saved]) => {
+        setCalls(log);
+        setEntries(saved);
+      })
+      .catch(e => {
+        console.error("Loading history failed:", e);
+        setError(t.historyUnavailable);
+        setEntries([]);
+      });
+  }, []);
+
+  const handleBudgetChange = (value: string) => {
+    const next = { monthlyUsd: Math.max(0, Number(value) || 0) };
+    setBudget(next);
+    saveUsageBudget(next);
+  };
+
+  const months = usageByMonth(calls, entries || []);
+  const stages = usageByStage(calls);
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const current = months.find(m => m.month === currentMonth);
+  const spent = current?.costUsd || 0;
+  const status = budgetStatus(spent, budget);
+  const unpriced = months.reduce((sum, m) => sum + m.unpricedCalls, 0);
+  const hasUsage = months.some(m => m.calls > 0);
+
+  const headers = [t.modelCalls, t.promptTokens, t.responseTokens, t.avgCallTime, t.estimatedCost];
+
+  return (
+    <div className="space-y-6 animate-fade-in-up">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <Gauge className="w-6 h-6 text-blue-600" /> {t.usageTitle}
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">{t.usageDesc}</p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 grid gap-6 md:grid-cols-2">
+        <div>
+          <p className="text-xs font-medium text-slate-500 uppercase">{t.thisMonth}</p>
+          <p className="text-3xl font-bold text-slate-900 mt-1">{formatUsd(spent)}</p>
+          <p className="text-xs text-slate-500 mt-1">
+            {formatMessage(t.runUsage, {
+              calls: current?.calls || 0,
+              tokens: ((current?.promptTokens || 0) + (current?.responseTokens || 0)).toLocaleString(),
+              cost: formatUsd(spent),
+            })}
+          </p>
+          {status && (
+            <div className="mt-3 w-full h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div className={`h-full transition-all ${barColor[status]}`} style={{ width: `${Math.min(100, (spent / budget.monthlyUsd) * 100)}%` }} />
+            </div>
+          )}
+        </div>
+        <label className="block text-sm font-medium text-slate-700">
+          {t.monthlyBudget}
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={budget.monthlyUsd}
+            onChange={(e) => handleBudgetChange(e.target.value)}
+            dir="ltr"
+            className={`mt-1 w-full ${inputClass}`}
+          />
+          <span className="block text-xs font-normal text-slate-500 mt-1">{t.monthlyBudgetDesc}</span>
+        </label>
+      </div>
+
+      {(status === 'warning' || status === 'exceeded') && (
+        <div className={`${status === 'exceeded' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'} border rounded-xl p-4 text-sm flex gap-3`}>
+          <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <p>
+            {formatMessage(status === 'exceeded' ? t.budgetExceeded : t.budgetWarning, {
+              spent: formatUsd(spent),
+              budget: formatUsd(budget.monthlyUsd),
+              percent: Math.floor((spent / budget.monthlyUsd) * 100),
+            })}
+          </p>
+        </div>
+      )}
+
+      {entries && !hasUsage ? (
+        <p className="text-sm text-slate-400 italic">{t.noUsage}</p>
+      ) : (
+        <>
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+            <h3 className="text-lg font-bold text-slate-800 p-4 pb-2">{t.byMonth}</h3>
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+                <tr>
+                  <th className="p-3 text-start">{t.month}</th>
+                  <th className="p-3 text-start">{t.analysesCount}</th>
+                  {headers.map(header => <th key={header} className="p-3 text-start">{header}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {months.map(month => (
+                  <tr key={month.month} className="border-t border-slate-100 text-slate-600">
+                    <td className="p-3 font-mono">{month.month}</td>
+                    <td className="p-3">{month.analyses}</td>
+                    <UsageCells usage={month} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+            <h3 className="text-lg font-bold text-slate-800 p-4 pb-2">{t.byStage}</h3>
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+                <tr>
+                  <th className="p-3 text-start">{t.stage}</th>
+                  {headers.map(header => <th key={header} className="p-3 text-start">{header}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {stages.map(stage => (
+                  <tr key={stage.stage} className="border-t border-slate-100 text-slate-600">
+                    <td className="p-3 font-medium text-slate-800">{t.stageNames[stage.stage]}</td>
+                    <UsageCells usage={stage} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {unpriced > 0 && <p className="text-xs text-slate-500">{formatMessage(t.unpricedCalls, { count: unpriced })}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsagePage;
@@ -0,0 +1,83 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createApp } from './app';
+
+describe('createApp', () => {
+  let server: Server;
+  let staticDir: string;
+  let base: string;
+
+  beforeAll(async () => {
+    // One line per API request
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    staticDir = await mkdtemp(path.join(tmpdir(), 'pau-static-'));
+    await writeFile(path.join(staticDir, 'index.html'), '<html></html>');
+    await writeFile(path.join(staticDir, 'app.js'), 'console.log(1)');
+    server = createServer(createApp({ requestsPerMinute: 100, maxBodyMb: 0.001, trustProxy: false, staticDir }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await rm(staticDir, { recursive: true });
+    vi.restoreAllMocks();
+  });
+
+  const post = (endpoint: string, body: string) =>
+    fetch(`${base}/api/${endpoint}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  it('rejects a body that is not JSON', async () => {
+    const res = await post('extract', '{');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Request body is not valid JSON.' });
+  });
+
+  it('rejects an invalid body with the problems found', async () => {
+    const res = await post('extract', JSON.stringify({ filePart: {} }));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: 'Invalid request body.',
+      issues: [{ path: '$.filePart', message: 'must have text or inlineData' }],
+    });
+  });
+
+  it('answers 404 for unknown endpoints', async () => {
+    expect((await post('nope', '{}')).status).toBe(404);
+    expect((await fetch(`${base}/api/a/b`)).status).toBe(404);
+  });
+
+  it('answers 405 for other methods', async () => {
+    expect((await fetch(`${base}/api/extract`)).status).toBe(405);
+    expect((await fetch(`${base}/index.html`, { method: 'DELETE' })).status).toBe(405);
+  });
+
+  it('answers 413 for a body over the limit', async () => {
+    const res = await post('extract', JSON.stringify({ filePart: { text: 'x'.repeat(2000) } }));
+    expect(res.status).toBe(413);
+    expect(res.headers.get('connection')).toBe('close');
+    expect(await res.json()).toEqual({ error: 'Request body exceeds the 0.001 MB limit.' });
+  });
+
+  it('serves files from the static folder', async () => {
+    const res = await fetch(`${base}/app.js`);
+    expect(res.headers.get('content-type')).toBe('text/javascript');
+    expect(await res.text()).toBe('console.log(1)');
+  });
+
+  it('serves the page for unknown paths and paths outside the folder', async () => {
+    expect(await (await fetch(`${base}/history`)).text()).toBe('<html></html>');
+    expect(await (await fetch(`${base}/%2e%2e%2fpackage.json`)).text()).toBe('<html></html>');
+  });
+
+  it('answers 400 for a malformed URL and keeps running', async () => {
+    const res = await fetch(`${base}/%E0%A4%A`);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Malformed URL.' });
+    expect((await fetch(`${base}/app.js`)).status).toBe(200);
+  });
+});
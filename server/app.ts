@@ -0,0 +1,233 @@
+import { IncomingMessage, RequestListener, ServerResponse } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { ApiEndpoint, ApiErrorBody, MODEL_CALLS_HEADER } from "../services/apiClient";
+import { LLMRequestError } from "../services/providers";
+import { isAbortError, RequestTimeoutError } from "../services/retry";
+import { ModelOutputError, ValidationIssue } from "../services/schema";
+import { sumUsage } from "../services/usage";
+import { ModelCall } from "../types";
+import { createRateLimiter } from "./rateLimit";
+import { checkBody, routes } from "./routes";
+
+export interface AppOptions {
+  requestsPerMinute: number; // per client
+  maxBodyMb: number;
+  // Behind a reverse proxy every request comes from the proxy; the client is in X-Forwarded-For
+  trustProxy: boolean;
+  // The built web app (npm run build), served so the page and the API share an origin
+  staticDir: string;
+}
+
+/**
+ * An error with the HTTP status to answer it with.
+ */
+class HttpError extends Error {
+  status: number;
+  issues?: ValidationIssue[];
+
+  constructor(status: number, message: string, issues?: ValidationIssue[]) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+const STATIC_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+};
+
+const clientId = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = trustProxy ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const readBody = (req: IncomingMessage, maxBodyMb: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const maxBytes = maxBodyMb * 1024 * 1024;
+    if (Number(req.headers['content-length']) > maxBytes) {
+      reject(new HttpError(413, `Request body exceeds the ${maxBodyMb} MB limit.`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Stop buffering but keep draining, so the client gets to read the 413
+        // instead of a reset; the response then closes the connection
+        req.off('data', onData);
+        req.resume();
+        chunks.length = 0;
+        reject(new HttpError(413, `Request body exceeds the ${maxBodyMb} MB limit.`));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+/**
+ * The status a failed model call is reported with. Upstream rate limits and
+ * server errors keep their status so the browser retries them.
+ */
+const errorStatus = (error: unknown): number => {
+  if (error instanceof HttpError) return error.status;
+  if (error instanceof ModelOutputError) return 422;
+  if (error instanceof RequestTimeoutError) return 504;
+  if (error instanceof LLMRequestError) return error.status === 429 || error.status >= 500 ? error.status : 502;
+  return 500;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  const json = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(json), ...headers });
+  res.end(json);
+  return Buffer.byteLength(json);
+};
+
+/**
+ * One JSON line per API request on stdout, for usage accounting.
+ */
+const logUsage = (entry: {
+  client: string;
+  endpoint: string;
+  status: number;
+  durationMs: number;
+  requestBytes: number;
+  responseBytes: number;
+  modelCalls: ModelCall[];
+  error?: string;
+}) => {
+  const { modelCalls, ...rest } = entry;
+  const usage = sumUsage(modelCalls);
+  console.log(JSON.stringify({
+    time: new Date().toISOString(),
+    ...rest,
+    modelCalls: usage.calls,
+    promptTokens: usage.promptTokens,
+    responseTokens: usage.responseTokens,
+    costUsd: usage.unpricedCalls < usage.calls ? usage.costUsd : undefined,
+  }));
+};
+
+/**
+ * The server's request handler: the model routes under /api/ and the built
+ * web app for everything else.
+ */
+export const createApp = ({ requestsPerMinute, maxBodyMb, trustProxy, staticDir }: AppOptions): RequestListener => {
+  const root = path.resolve(staticDir);
+  const rateLimit = createRateLimiter({ limit: requestsPerMinute, windowMs: 60_000 });
+
+  const handleApi = async (req: IncomingMessage, res: ServerResponse, endpoint: string) => {
+    const started = Date.now();
+    const client = clientId(req, trustProxy);
+    let requestBytes = 0;
+    let status = 200;
+    let responseBytes = 0;
+    let errorMessage: string | undefined;
+    const modelCalls: ModelCall[] = [];
+    // Reported to the browser, which adds them to the report's usage
+    const usageHeader = () => ({ [MODEL_CALLS_HEADER]: JSON.stringify(modelCalls) });
+
+    // A closed connection means the browser cancelled; stop the model call too
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const route = routes[endpoint as ApiEndpoint];
+      if (!Object.hasOwn(routes, endpoint)) throw new HttpError(404, `Unknown endpoint /api/${endpoint}.`);
+      if (req.method !== 'POST') throw new HttpError(405, "Use POST.");
+
+      const limit = rateLimit(client);
+      if (!limit.allowed) {
+        const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+        status = 429;
+        errorMessage = "Rate limit exceeded";
+        responseBytes = sendJson(res, status, { error: `Rate limit exceeded. Try again in ${retryAfter}s.` } satisfies ApiErrorBody, { 'Retry-After': String(retryAfter) });
+        return;
+      }
+
+      const raw = await readBody(req, maxBodyMb);
+      requestBytes = Buffer.byteLength(raw);
+      let body: unknown;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        throw new HttpError(400, "Request body is not valid JSON.");
+      }
+      const issues = checkBody(route, body);
+      if (issues.length > 0) throw new HttpError(400, "Invalid request body.", issues);
+
+      const result = await route.run(body, controller.signal, call => modelCalls.push(call));
+      responseBytes = sendJson(res, status, result, usageHeader());
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        status = 499; // client closed the request; nobody is left to answer
+        errorMessage = "Cancelled by the client";
+        return;
+      }
+      status = errorStatus(error);
+      errorMessage = error instanceof Error ? error.message : String(error);
+      if (status === 500) console.error(error);
+      const issues = error instanceof HttpError || error instanceof ModelOutputError ? error.issues : undefined;
+      // The rest of an oversized body is never read, so the connection cannot be reused
+      const close = status === 413 ? { Connection: 'close' } : {};
+      responseBytes = sendJson(res, status, { error: errorMessage, ...(issues ? { issues } : {}) } satisfies ApiErrorBody, { ...usageHeader(), ...close });
+    } finally {
+      logUsage({ client, endpoint, status, durationMs: Date.now() - started, requestBytes, responseBytes, modelCalls, error: errorMessage });
+    }
+  };
+
+  const serveStatic = async (req: IncomingMessage, res: ServerResponse, pathname: string) => {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(pathname);
+    } catch {
+      sendJson(res, 400, { error: "Malformed URL." });
+      return;
+    }
+    const target = path.resolve(root, `.${decoded}`);
+    const inside = target === root || target.startsWith(root + path.sep);
+    const info = inside ? await stat(target).catch(() => undefined) : undefined;
+    // The app routes with URL hashes, so anything unknown gets the page itself
+    const file = info?.isFile() ? target : path.join(root, 'index.html');
+    try {
+      const content = await readFile(file);
+      res.writeHead(200, { 'Content-Type': STATIC_TYPES[path.extname(file)] || 'application/octet-stream' });
+      res.end(req.method === 'HEAD' ? undefined : content);
+    } catch {
+      sendJson(res, 404, { error: "Not found." });
+    }
+  };
+
+  return (req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const api = pathname.match(/^\/api\/([\w-]+)\/?$/);
+    if (api) {
+      void handleApi(req, res, api[1]);
+    } else if (pathname.startsWith('/api/')) {
+      sendJson(res, 404, { error: "Not found." });
+    } else if (req.method === 'GET' || req.method === 'HEAD') {
+      serveStatic(req, res, pathname).catch(error => {
+        console.error(error);
+        if (res.headersSent) res.destroy();
+        else sendJson(res, 500, { error: "Internal server error." });
+      });
+    } else {
+      sendJson(res, 405, { error: "Method not allowed." });
+    }
+  };
+};
@@ -0,0 +1,21 @@
+import { createServer } from "node:http";
+import { setApiBaseUrl } from "../services/apiClient";
+import { createProvider, providerConfigFromEnv, setProvider } from "../services/providers";
+import { createApp } from "./app";
+
+const PORT = Number(process.env.API_PORT || 8787);
+const RATE_LIMIT = Number(process.env.API_RATE_LIMIT || 30); // requests per minute and client
+const MAX_BODY_MB = Number(process.env.API_MAX_BODY_MB || 20);
+
+// This process talks to the model itself, whatever the browser bundle is configured with
+setApiBaseUrl(undefined);
+setProvider(createProvider(providerConfigFromEnv()));
+
+createServer(createApp({
+  requestsPerMinute: RATE_LIMIT,
+  maxBodyMb: MAX_BODY_MB,
+  trustProxy: process.env.API_TRUST_PROXY === 'true',
+  staticDir: process.env.API_STATIC_DIR || 'dist',
+})).listen(PORT, () => {
+  console.error(`API server listening on http://localhost:${PORT} (rate limit ${RATE_LIMIT}/min, max body ${MAX_BODY_MB} MB)`);
+});
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('allows up to the limit per window', () => {
+    const rateLimit = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    expect(rateLimit('a')).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(rateLimit('a')).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    expect(rateLimit('a')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 60_000 });
+  });
+
+  it('tells a limited client when its window resets', () => {
+    const rateLimit = createRateLimiter({ limit: 1, windowMs: 60_000 });
+    rateLimit('a');
+    vi.advanceTimersByTime(45_000);
+    expect(rateLimit('a')).toMatchObject({ allowed: false, retryAfterMs: 15_000 });
+  });
+
+  it('starts a new window once the old one ends', () => {
+    const rateLimit = createRateLimiter({ limit: 1, windowMs: 60_000 });
+    rateLimit('a');
+    vi.advanceTimersByTime(59_999);
+    expect(rateLimit('a').allowed).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(rateLimit('a')).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+  });
+
+  it('counts each client separately', () => {
+    const rateLimit = createRateLimiter({ limit: 1, windowMs: 60_000 });
+    expect(rateLimit('a').allowed).toBe(true);
+    expect(rateLimit('b').allowed).toBe(true);
+    expect(rateLimit('a').allowed).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+export interface RateLimitOptions {
+  limit: number; // requests per window and client
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // until the client's window resets; 0 when allowed
+}
+
+/**
+ * Fixed-window rate limiter keyed by client. Windows are kept in memory, so
+ * limits reset when the server restarts and are not shared between servers.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  // Drop finished windows now and then so idle clients do not pile up
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (now - window.start >= windowMs) windows.delete(key);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  return (client: string): RateLimitDecision => {
+    const now = Date.now();
+    let window = windows.get(client);
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 };
+      windows.set(client, window);
+    }
+    if (window.count >= limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.start + windowMs - now };
+    }
+    window.count++;
+    return { allowed: true, remaining: limit - window.count, retryAfterMs: 0 };
+  };
+};
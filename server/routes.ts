@@ -0,0 +1,118 @@
+import { AnalysisResult, EvaluationCriteria, ProgramCourse, ProgramOutcome, Syllabus } from "../types";
+import { ApiEndpoint } from "../services/apiClient";
+import * as geminiService from "../services/geminiService";
+import { LLMPart } from "../services/providers";
+import { UsageListener } from "../services/usage";
+import {
+  analysisResultSpec,
+  evaluationCriteriaSpec,
+  FieldSpec,
+  iloSpec,
+  ObjectSpec,
+  programOutcomeSpec,
+  syllabusSpec,
+  validate,
+  ValidationIssue,
+} from "../services/schema";
+
+const language: FieldSpec = { kind: 'enum', values: ['en', 'ar'] };
+
+// DOCX and TXT are turned into text in the browser; only PDFs and images arrive as data
+const filePartSpec: FieldSpec = {
+  kind: 'object',
+  fields: {
+    text: { kind: 'string', optional: true },
+    inlineData: {
+      kind: 'object',
+      optional: true,
+      fields: {
+        data: { kind: 'string' },
+        mimeType: { kind: 'string' },
+      },
+    },
+  },
+};
+
+const programCourseSpec: ObjectSpec<ProgramCourse> = {
+  kind: 'object',
+  fields: {
+    courseKey: { kind: 'string' },
+    title: { kind: 'string' },
+    code: { kind: 'string', optional: true },
+    entryId: { kind: 'string' },
+    ilos: { kind: 'array', items: iloSpec },
+  },
+};
+
+const checkFilePart = (part: LLMPart): ValidationIssue[] =>
+  ('text' in part && typeof part.text === 'string') || ('inlineData' in part && part.inlineData)
+    ? []
+    : [{ path: '$.filePart', message: 'must have text or inlineData' }];
+
+interface Route {
+  body: FieldSpec;
+  check?: (body: any) => ValidationIssue[];
+  run: (body: any, signal: AbortSignal, onUsage: UsageListener) => Promise<unknown>;
+}
+
+/**
+ * One route per model operation. Each runs the same service function the
+ * browser would call directly, with the server's provider and key.
+ */
+export const routes: Record<ApiEndpoint, Route> = {
+  extract: {
+    body: { kind: 'object', fields: { filePart: filePartSpec } },
+    check: body => checkFilePart(body.filePart),
+    run: (body: { filePart: LLMPart }, signal, onUsage) => geminiService.extractSyllabus(body.filePart, signal, onUsage),
+  },
+  analyze: {
+    body: {
+      kind: 'object',
+      fields: {
+        filePart: filePartSpec,
+        syllabus: syllabusSpec,
+        criteria: evaluationCriteriaSpec,
+        language,
+        temperature: { kind: 'number', min: 0, max: 2, optional: true },
+      },
+    },
+    check: body => checkFilePart(body.filePart),
+    run: (body: { filePart: LLMPart; syllabus: Syllabus; criteria: EvaluationCriteria; language: 'en' | 'ar'; temperature?: number }, signal, onUsage) =>
+      geminiService.evaluateSyllabusContent(body.filePart, body.syllabus, body.criteria, body.language, signal, body.temperature, onUsage),
+  },
+  benchmark: {
+    body: { kind: 'object', fields: { syllabus: syllabusSpec, targetUniversities: { kind: 'string' }, language } },
+    run: (body: { syllabus: Syllabus; targetUniversities: string; language: 'en' | 'ar' }, signal, onUsage) =>
+      geminiService.performBenchmarking(body.syllabus, body.targetUniversities, body.language, signal, onUsage),
+  },
+  tutors: {
+    body: { kind: 'object', fields: { syllabus: syllabusSpec, language } },
+    run: (body: { syllabus: Syllabus; language: 'en' | 'ar' }, signal, onUsage) =>
+      geminiService.findLocalTutors(body.syllabus, body.language, signal, onUsage),
+  },
+  translate: {
+    body: { kind: 'object', fields: { result: analysisResultSpec, targetLang: language } },
+    run: (body: { result: AnalysisResult; targetLang: 'en' | 'ar' }, signal, onUsage) =>
+      geminiService.translateAnalysisResult(body.result, body.targetLang, signal, onUsage),
+  },
+  'map-plos': {
+    body: {
+      kind: 'object',
+      fields: {
+        outcomes: { kind: 'array', items: programOutcomeSpec, minItems: 1 },
+        courses: { kind: 'array', items: programCourseSpec, minItems: 1 },
+        language,
+      },
+    },
+    run: (body: { outcomes: ProgramOutcome[]; courses: ProgramCourse[]; language: 'en' | 'ar' }, signal, onUsage) =>
+      geminiService.suggestPloMappings(body.outcomes, body.courses, body.language, signal, onUsage),
+  },
+};
+
+/**
+ * Problems with a request body, or an empty list when it is valid.
+ */
+export const checkBody = (route: Route, body: unknown): ValidationIssue[] => {
+  const issues = validate(route.body, body);
+  return issues.length > 0 || !route.check ? issues : route.check(body);
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Syllabus } from '../types';
+import { buildAlignmentMatrix } from './alignmentMatrix';
+
+const syllabus: Syllabus = {
+  course: { title: 'Data Structures', prerequisites: [] },
+  ilos: [
+    { id: 'ILO1', text: 'Explain trees.' },
+    { id: 'ILO2', text: 'Implement stacks.' },
+    { id: 'ILO3', text: 'Design a graph library.' },
+  ],
+  weeklyPlan: [
+    { week: 1, topics: ['Trees'], iloIds: ['ILO1'] },
+    { week: 2, topics: ['Stacks'], iloIds: ['ILO1', 'ILO2'] },
+    { week: 3, topics: ['Revision'], iloIds: ['ILO9'] },
+  ],
+  assessments: [
+    { name: 'Quiz', type: 'quiz', weight: 20, iloIds: ['ILO1'] },
+    { name: 'Project', type: 'project', weight: 80, iloIds: ['ILO3', 'ILO9', 'ILO7'] },
+  ],
+  references: [],
+  policies: [],
+  sectionHeadings: [],
+};
+
+describe('buildAlignmentMatrix', () => {
+  const matrix = buildAlignmentMatrix(syllabus);
+
+  it('lists the weeks and assessments as columns', () => {
+    expect(matrix.weeks).toEqual([1, 2, 3]);
+    expect(matrix.assessments).toEqual(['Quiz', 'Project']);
+  });
+
+  it('maps each ILO to the weeks that teach it and the assessments that measure it', () => {
+    expect(matrix.rows.map(({ iloId, weeks, assessments }) => ({ iloId, weeks, assessments }))).toEqual([
+      { iloId: 'ILO1', weeks: [1, 2], assessments: ['Quiz'] },
+      { iloId: 'ILO2', weeks: [2], assessments: [] },
+      { iloId: 'ILO3', weeks: [], assessments: ['Project'] },
+    ]);
+  });
+
+  it('flags orphan and unassessed ILOs', () => {
+    expect(matrix.rows.map(r => [r.iloId, r.orphan, r.unassessed])).toEqual([
+      ['ILO1', false, false],
+      ['ILO2', false, true],
+      ['ILO3', true, false],
+    ]);
+  });
+
+  it('reports referenced ids that are not defined, once each', () => {
+    expect(matrix.unknownIloIds).toEqual(['ILO9', 'ILO7']);
+  });
+});
@@ -0,0 +1,32 @@
+import { AlignmentMatrix, Syllabus } from "../types";
+
+/**
+ * Builds the ILO × week × assessment matrix from the extracted syllabus and
+ * flags ILOs that are never taught (orphan) or never measured (unassessed).
+ */
+export const buildAlignmentMatrix = (syllabus: Syllabus): AlignmentMatrix => {
+  const weeks = syllabus.weeklyPlan.map(w => w.week);
+  const assessments = syllabus.assessments.map(a => a.name);
+  const knownIds = new Set(syllabus.ilos.map(ilo => ilo.id));
+
+  const rows = syllabus.ilos.map(ilo => {
+    const coveredWeeks = syllabus.weeklyPlan.filter(w => w.iloIds.includes(ilo.id)).map(w => w.week);
+    const coveringAssessments = syllabus.assessments.filter(a => a.iloIds.includes(ilo.id)).map(a => a.name);
+    return {
+      iloId: ilo.id,
+      iloText: ilo.text,
+      weeks: coveredWeeks,
+      assessments: coveringAssessments,
+      orphan: coveredWeeks.length === 0,
+      unassessed: coveringAssessments.length === 0,
+    };
+  });
+
+  const referencedIds = [
+    ...syllabus.weeklyPlan.flatMap(w => w.iloIds),
+    ...syllabus.assessments.flatMap(a => a.iloIds),
+  ];
+  const unknownIloIds = Array.from(new Set(referencedIds.filter(id => !knownIds.has(id))));
+
+  return { weeks, assessments, rows, unknownIloIds };
+};
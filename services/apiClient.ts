@@ -0,0 +1,73 @@
+import { ModelCall } from "../types";
+import { LLMRequestError } from "./providers";
+import { formatIssues, ModelOutputError, ValidationIssue } from "./schema";
+import { UsageListener } from "./usage";
+import { logModelCall } from "./usageLog";
+
+/**
+ * The model operations the API server exposes, one endpoint each.
+ */
+export type ApiEndpoint = 'extract' | 'analyze' | 'benchmark' | 'tutors' | 'translate' | 'map-plos';
+
+// Response header listing the model calls made for a request, as a JSON array of ModelCall
+export const MODEL_CALLS_HEADER = 'X-Model-Calls';
+
+/**
+ * Error body of the API server.
+ */
+export interface ApiErrorBody {
+  error: string;
+  issues?: ValidationIssue[]; // set for invalid model output (422) and invalid requests (400)
+}
+
+// Injected by Vite (see vite.config.ts); unset means the browser calls the model directly
+let apiBaseUrl: string | undefined = process.env.API_URL || undefined;
+
+export const getApiBaseUrl = () => apiBaseUrl;
+
+/**
+ * Overrides the API base URL. The server clears it so it calls the model itself.
+ */
+export const setApiBaseUrl = (url: string | undefined) => {
+  apiBaseUrl = url || undefined;
+};
+
+/**
+ * POSTs `body` to an endpoint of the API server and returns its JSON reply.
+ * Errors keep their meaning across the wire: invalid model output becomes a
+ * ModelOutputError again, and other failures an LLMRequestError carrying the
+ * HTTP status, so rate limits and server errors are retried like direct calls.
+ * The model calls the server made, failed requests included, are passed on
+ * to `onUsage` and added to the usage log.
+ */
+export const callApi = async <T>(endpoint: ApiEndpoint, body: unknown, signal?: AbortSignal, onUsage?: UsageListener): Promise<T> => {
+  if (!apiBaseUrl) throw new Error("The API server URL (API_URL) is not configured.");
+  const res = await fetch(`${apiBaseUrl.replace(/\/+$/, '')}/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  // Calls of failed requests were made and billed too
+  const calls = res.headers.get(MODEL_CALLS_HEADER);
+  if (calls) {
+    try {
+      JSON.parse(calls).forEach((call: ModelCall) => {
+        void logModelCall(call);
+        onUsage?.(call);
+      });
+    } catch {
+      console.warn("Ignoring an unreadable model usage header:", calls);
+    }
+  }
+
+  if (!res.ok) {
+    const error: Partial<ApiErrorBody> = await res.json().catch(() => ({}));
+    const message = error.error || `API server responded with ${res.status} ${res.statusText}`;
+    if (res.status === 422 && error.issues) throw new ModelOutputError(message, error.issues);
+    // A rejected request is a bug on this side; say which fields the server objected to
+    throw new LLMRequestError(error.issues ? `${message}\n${formatIssues(error.issues)}` : message, res.status);
+  }
+  return res.json();
+};
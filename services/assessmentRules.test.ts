@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Assessment, Syllabus } from '../types';
+import { checkAssessments, DEFAULT_ASSESSMENT_RULES } from './assessmentRules';
+
+const syllabusWith = (assessments: Assessment[]): Syllabus => ({
+  course: { title: 'Data Structures', prerequisites: [] },
+  ilos: [{ id: 'ILO1', text: 'Implement stacks.' }],
+  weeklyPlan: [],
+  assessments,
+  references: [],
+  policies: [],
+  sectionHeadings: [],
+});
+
+const assessment = (name: string, type: string, weight: number, iloIds = ['ILO1']): Assessment => ({ name, type, weight, iloIds });
+
+const rules = (assessments: Assessment[], config = DEFAULT_ASSESSMENT_RULES) =>
+  checkAssessments(syllabusWith(assessments), config, 'en').map(f => f.rule);
+
+const balanced = [
+  assessment('Quizzes', 'quiz', 15),
+  assessment('Lab work', 'lab', 15),
+  assessment('Midterm Exam', 'midterm', 30),
+  assessment('Final Exam', 'final', 40),
+];
+
+describe('checkAssessments', () => {
+  it('accepts a balanced grading scheme', () => {
+    expect(rules(balanced)).toEqual([]);
+  });
+
+  it('reports a missing grading scheme as critical', () => {
+    const [finding] = checkAssessments(syllabusWith([]), DEFAULT_ASSESSMENT_RULES, 'en');
+    expect(finding).toMatchObject({ rule: 'assessment.missing', severity: 'critical', kind: 'missing' });
+  });
+
+  it('reports weights that do not sum to 100', () => {
+    const [finding] = checkAssessments(syllabusWith(balanced.slice(1)), DEFAULT_ASSESSMENT_RULES, 'en');
+    expect(finding).toMatchObject({ rule: 'assessment.weightSum', params: { total: 85 } });
+    expect(finding.message).toBe('Assessment weights sum to 85%, not 100%.');
+  });
+
+  it('caps the final exam weight', () => {
+    const heavy = [assessment('Quizzes', 'quiz', 10), assessment('Lab', 'lab', 10), assessment('الامتحان النهائي', 'exam', 80)];
+    const findings = checkAssessments(syllabusWith(heavy), DEFAULT_ASSESSMENT_RULES, 'en');
+    expect(findings.map(f => f.rule)).toEqual(['assessment.finalExamCap']);
+    expect(findings[0].params).toEqual({ name: 'الامتحان النهائي', weight: 80, max: 40 });
+  });
+
+  it.each([
+    ['Final Project', 'project'],
+    ['Final Presentation', 'presentation'],
+    ['عرض نهائي', 'presentation'],
+  ])('does not treat "%s" as the final exam', (name, type) => {
+    expect(rules([assessment('Quizzes', 'quiz', 10), assessment('Lab', 'lab', 10), assessment(name, type, 80)])).toEqual([]);
+  });
+
+  it('counts assessments that are not exams as formative', () => {
+    expect(rules(balanced, { ...DEFAULT_ASSESSMENT_RULES, minFormativeCount: 3 })).toEqual(['assessment.minFormative']);
+  });
+
+  it('flags assessments without an ILO only when required', () => {
+    const unlinked = [...balanced.slice(0, 3), assessment('Final Exam', 'final', 40, [])];
+    expect(rules(unlinked)).toEqual(['assessment.iloReference']);
+    expect(rules(unlinked, { ...DEFAULT_ASSESSMENT_RULES, requireIloReference: false })).toEqual([]);
+  });
+
+  it('renders messages in the report language', () => {
+    const [finding] = checkAssessments(syllabusWith(balanced.slice(1)), DEFAULT_ASSESSMENT_RULES, 'ar');
+    expect(finding.message).toBe('مجموع أوزان التقييمات 85% وليس 100%.');
+  });
+});
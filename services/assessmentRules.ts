@@ -0,0 +1,62 @@
+import { Assessment, AssessmentRuleConfig, RuleFinding, Syllabus } from "../types";
+import { createFinding } from "./ruleFindings";
+
+export const DEFAULT_ASSESSMENT_RULES: AssessmentRuleConfig = {
+  maxFinalExamWeight: 40,
+  minFormativeCount: 2,
+  requireIloReference: true,
+};
+
+const FINAL_TYPE = /^\s*(final|نهائي)\s*$/i;
+const FINAL = /final|نهائي/i;
+const EXAM = /exam|test|امتحان|اختبار/i;
+const SUMMATIVE_EXAM = /final|mid-?term|exam|نهائي|نصفي|امتحان|اختبار/i;
+
+// The extraction types a final exam as "final"; otherwise "final" must come
+// with an exam word, so a "Final Project" or "Final Presentation" is not one
+const isFinalExam = (a: Assessment) =>
+  FINAL_TYPE.test(a.type) || (FINAL.test(`${a.type} ${a.name}`) && EXAM.test(`${a.type} ${a.name}`));
+const isFormative = (a: Assessment) => !SUMMATIVE_EXAM.test(a.type) && !SUMMATIVE_EXAM.test(a.name);
+
+/**
+ * Runs the grading-scheme rules over the extracted assessments.
+ */
+export const checkAssessments = (
+  syllabus: Syllabus,
+  config: AssessmentRuleConfig,
+  language: 'en' | 'ar'
+): RuleFinding[] => {
+  const assessments = syllabus.assessments;
+
+  if (assessments.length === 0) {
+    return [createFinding('assessment.missing', 'critical', 'missing', {}, language)];
+  }
+
+  const findings: RuleFinding[] = [];
+
+  const total = Math.round(assessments.reduce((sum, a) => sum + a.weight, 0) * 10) / 10;
+  if (Math.abs(total - 100) > 0.5) {
+    findings.push(createFinding('assessment.weightSum', 'critical', 'weakness', { total }, language, assessments.map(a => a.name)));
+  }
+
+  for (const exam of assessments.filter(isFinalExam)) {
+    if (exam.weight > config.maxFinalExamWeight) {
+      findings.push(createFinding('assessment.finalExamCap', 'major', 'weakness',
+        { name: exam.name, weight: exam.weight, max: config.maxFinalExamWeight }, language, [exam.name]));
+    }
+  }
+
+  const formativeCount = assessments.filter(isFormative).length;
+  if (formativeCount < config.minFormativeCount) {
+    findings.push(createFinding('assessment.minFormative', 'major', 'missing',
+      { count: formativeCount, min: config.minFormativeCount }, language));
+  }
+
+  if (config.requireIloReference) {
+    for (const a of assessments.filter(a => a.iloIds.length === 0)) {
+      findings.push(createFinding('assessment.iloReference', 'minor', 'weakness', { name: a.name }, language, [a.name]));
+    }
+  }
+
+  return findings;
+};
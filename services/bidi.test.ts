@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { visualRuns } from './bidi';
+
+// Runs in drawing order; Arabic runs are marked and still in logical order
+const drawn = (text: string, rtl: boolean) =>
+  visualRuns(text, rtl).map(run => (run.arabic ? `[${run.text}]` : run.text));
+
+describe('visualRuns', () => {
+  it('leaves left-to-right text as it is', () => {
+    expect(drawn('Score: 59/100 (25%)', false)).toEqual(['Score: 59/100 (25%)']);
+  });
+
+  it('draws Arabic words right to left and keeps numbers left to right', () => {
+    expect(drawn('الدرجة الكلية: 59/100', true)).toEqual(['59/100 :', '[الكلية]', ' ', '[الدرجة]']);
+  });
+
+  it('keeps a percent sign with its number', () => {
+    expect(drawn('الوزن 30%', true)).toEqual(['30% ', '[الوزن]']);
+  });
+
+  it('mirrors brackets inside right-to-left text', () => {
+    expect(drawn('المشروع (نهائي)', true)).toEqual(['(', '[نهائي]', ') ', '[المشروع]']);
+  });
+
+  it('keeps embedded Latin text in reading order', () => {
+    expect(drawn('مساق CS 221 هياكل', true)).toEqual(['[هياكل]', ' CS 221 ', '[مساق]']);
+  });
+
+  it('places Arabic inside a left-to-right line', () => {
+    expect(drawn('Course: هياكل البيانات', false)).toEqual(['Course: ', '[البيانات]', ' ', '[هياكل]']);
+  });
+
+  it('returns no runs for empty text', () => {
+    expect(visualRuns('', true)).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * A reduced Unicode bidirectional algorithm for drawing mixed Arabic and
+ * Latin text where nothing lays it out for us (the PDF renderer). It covers
+ * what syllabus reports contain: Arabic and Latin words, European and
+ * Arabic-Indic digits, and neutral punctuation between them. Embeddings,
+ * isolates and explicit direction marks are not interpreted.
+ */
+
+type BidiClass = 'L' | 'R' | 'EN' | 'N' | 'CS' | 'ET';
+
+export interface VisualRun {
+  text: string;
+  arabic: boolean; // Arabic letters, in logical order; the shaper reverses them
+}
+
+const ARABIC_LETTER = /[؀-ٟ٪-ۯۺ-ۿݐ-ݿࢠ-ࣿﭐ-﷿ﹰ-﻿]/;
+const DIGIT = /[0-9٠-٩۰-۹]/;
+const STRONG_LTR = /[\p{L}\p{M}]/u;
+const NUMBER_SEPARATOR = /[,.\/:+\-\u00a0]/;
+const NUMBER_AFFIX = /[%#$°±\u066a\p{Sc}]/u;
+
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<', '«': '»', '»': '«' };
+
+const classOf = (char: string): BidiClass =>
+  DIGIT.test(char) ? 'EN'
+    : NUMBER_AFFIX.test(char) ? 'ET'
+    : ARABIC_LETTER.test(char) ? 'R'
+    : STRONG_LTR.test(char) ? 'L'
+    : NUMBER_SEPARATOR.test(char) ? 'CS'
+    : 'N';
+
+/**
+ * Embedding level of each character: even for left-to-right, odd for
+ * right-to-left, following rules W4, W5, W7, N1/N2 and I1/I2 of UAX #9.
+ */
+const resolveLevels = (chars: string[], rtl: boolean): number[] => {
+  const base: BidiClass = rtl ? 'R' : 'L';
+  const types = chars.map(classOf);
+
+  // W4: one separator between two digits is part of the number (3.5, 59/100)
+  for (let i = 1; i < types.length - 1; i++) {
+    if (types[i] === 'CS' && types[i - 1] === 'EN' && types[i + 1] === 'EN') types[i] = 'EN';
+  }
+  // W5: percent and currency signs next to a number are part of it
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] !== 'ET') continue;
+    let end = i;
+    while (end < types.length && types[end] === 'ET') end++;
+    if (types[i - 1] === 'EN' || types[end] === 'EN') types.fill('EN', i, end);
+    i = end - 1;
+  }
+  types.forEach((type, i) => {
+    if (type === 'CS' || type === 'ET') types[i] = 'N';
+  });
+
+  // W7: numbers after Latin text are Latin
+  let lastStrong: BidiClass = base;
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] === 'L' || types[i] === 'R') lastStrong = types[i];
+    else if (types[i] === 'EN' && lastStrong === 'L') types[i] = 'L';
+  }
+
+  // N1/N2: neutrals take the direction of the text around them, else the paragraph's
+  const strength = (type: BidiClass) => (type === 'EN' ? 'R' : type);
+  for (let i = 0; i < types.length; i++) {
+    if (types[i] !== 'N') continue;
+    let end = i;
+    while (end < types.length && types[end] === 'N') end++;
+    const before = i > 0 ? strength(types[i - 1]) : base;
+    const after = end < types.length ? strength(types[end]) : base;
+    const resolved = before === after ? before : base;
+    for (let j = i; j < end; j++) types[j] = resolved;
+    i = end - 1;
+  }
+
+  // I1/I2
+  return types.map(type => (rtl ? (type === 'R' ? 1 : 2) : type === 'R' ? 1 : type === 'EN' ? 2 : 0));
+};
+
+/**
+ * Splits one line of text into runs in left-to-right drawing order. Arabic
+ * words stay in logical order so a shaper can join their letters; everything
+ * else is already in visual order, with brackets mirrored inside
+ * right-to-left runs.
+ */
+export const visualRuns = (text: string, rtl: boolean): VisualRun[] => {
+  const chars = Array.from(text);
+  if (chars.length === 0) return [];
+  const levels = resolveLevels(chars, rtl);
+
+  // Clusters: an Arabic word (kept together for shaping) or a single other character
+  let clusters: { text: string; level: number; arabic: boolean }[] = [];
+  chars.forEach((char, i) => {
+    const arabic = ARABIC_LETTER.test(char);
+    const last = clusters[clusters.length - 1];
+    if (arabic && last?.arabic && last.level === levels[i]) {
+      last.text += char;
+    } else {
+      clusters.push({ text: levels[i] % 2 === 1 ? MIRRORED[char] ?? char : char, level: levels[i], arabic });
+    }
+  });
+
+  // L2: from the highest level down to the lowest odd one, reverse every sequence at that level or above
+  const highest = Math.max(...levels);
+  const lowestOdd = Math.min(...levels.map(level => (level % 2 === 1 ? level : level + 1)));
+  for (let level = highest; level >= lowestOdd; level--) {
+    const reordered: typeof clusters = [];
+    let i = 0;
+    while (i < clusters.length) {
+      if (clusters[i].level < level) {
+        reordered.push(clusters[i++]);
+        continue;
+      }
+      let end = i;
+      while (end < clusters.length && clusters[end].level >= level) end++;
+      reordered.push(...clusters.slice(i, end).reverse());
+      i = end;
+    }
+    clusters = reordered;
+  }
+
+  // Neighbouring non-Arabic clusters become one run
+  const runs: VisualRun[] = [];
+  for (const cluster of clusters) {
+    const last = runs[runs.length - 1];
+    if (!cluster.arabic && last && !last.arabic) last.text += cluster.text;
+    else runs.push({ text: cluster.text, arabic: cluster.arabic });
+  }
+  return runs;
+};
+
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeBloom, classifyILO } from './bloomClassifier';
+
+describe('classifyILO', () => {
+  it.each([
+    ['Define the main sorting algorithms.', 'remember', 'define'],
+    ['Explain how hash tables resolve collisions.', 'understand', 'explain'],
+    ['Implementing linked lists in Java.', 'apply', 'implementing'],
+    ['Students analyzed the complexity of algorithms.', 'analyze', 'analyzed'],
+    ['Justifies the choice of a data structure.', 'evaluate', 'justifies'],
+    ['Planned and designed a small compiler.', 'create', 'planned'],
+  ])('tags "%s" as %s', (ilo, level, verb) => {
+    expect(classifyILO(ilo)).toEqual({ level, verb, measurable: true });
+  });
+
+  it('tags the first action verb in the sentence', () => {
+    expect(classifyILO('Compare and evaluate search trees.').level).toBe('analyze');
+  });
+
+  it('flags verbs that cannot be observed', () => {
+    expect(classifyILO('Understand linear data structures.')).toEqual({ level: 'understand', verb: 'understand', measurable: false });
+    expect(classifyILO('Know how to choose a structure.')).toEqual({ level: 'remember', verb: 'know', measurable: false });
+  });
+
+  it('reads Arabic imperfect verbs, verbal nouns and prefixed forms', () => {
+    expect(classifyILO('أن يحلل الطالب تعقيد الخوارزميات').level).toBe('analyze');
+    expect(classifyILO('القدرة على تصميم قواعد البيانات').level).toBe('create');
+    expect(classifyILO('وتطبيق المفاهيم الأساسية').level).toBe('apply');
+    // Hamza forms are normalized before lookup
+    expect(classifyILO('إنشاء تطبيقات الويب').level).toBe('create');
+    expect(classifyILO('أن يفهم الطالب المفاهيم')).toMatchObject({ level: 'understand', measurable: false });
+  });
+
+  it('returns no level when there is no known verb', () => {
+    expect(classifyILO('Data structures in Java.')).toEqual({ level: null, verb: null, measurable: false });
+  });
+});
+
+describe('analyzeBloom', () => {
+  it('counts levels per source and unmeasurable original ILOs', () => {
+    const analysis = analyzeBloom(
+      ['Understand trees.', 'Implement stacks.', 'Trees and graphs.'],
+      ['Explain trees.', 'Implement stacks.', 'Design a graph library.'],
+    );
+
+    expect(analysis.tags.map(t => `${t.source}:${t.level}`)).toEqual([
+      'original:understand', 'original:apply', 'original:null',
+      'revised:understand', 'revised:apply', 'revised:create',
+    ]);
+    expect(analysis.distribution.original).toEqual({ remember: 0, understand: 1, apply: 1, analyze: 0, evaluate: 0, create: 0 });
+    expect(analysis.distribution.revised).toEqual({ remember: 0, understand: 1, apply: 1, analyze: 0, evaluate: 0, create: 1 });
+    // "Understand" and the verbless ILO
+    expect(analysis.unmeasurableCount).toBe(2);
+  });
+});
@@ -0,0 +1,145 @@
+import { BloomAnalysis, BloomLevel, BloomTag } from "../types";
+import { normalizeArabic } from "./textUtils";
+
+export const BLOOM_LEVELS: BloomLevel[] = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'];
+
+/**
+ * Action verbs per level. Each verb belongs to exactly one level so the
+ * classification is repeatable. Arabic entries list the imperfect verb
+ * (third person, ي- form) and its verbal noun, since ILOs use both styles
+ * ("أن يحلل" / "القدرة على تحليل").
+ */
+const LEXICON: Record<BloomLevel, { en: string[]; ar: string[] }> = {
+  remember: {
+    en: ['define', 'list', 'recall', 'recognize', 'recognise', 'identify', 'name', 'state', 'label', 'match', 'memorize', 'quote', 'recite', 'reproduce', 'locate', 'repeat', 'tabulate', 'enumerate'],
+    ar: ['يعدد', 'تعداد', 'يسمي', 'تسمية', 'يذكر', 'ذكر', 'يحدد', 'تحديد', 'يسترجع', 'استرجاع', 'يتذكر', 'تذكر', 'تعريف', 'يسرد', 'سرد'],
+  },
+  understand: {
+    en: ['explain', 'describe', 'summarize', 'summarise', 'classify', 'interpret', 'paraphrase', 'discuss', 'illustrate', 'infer', 'outline', 'restate', 'review', 'translate', 'exemplify', 'clarify', 'predict'],
+    ar: ['يشرح', 'شرح', 'يصف', 'وصف', 'يلخص', 'تلخيص', 'يفسر', 'تفسير', 'يوضح', 'توضيح', 'يصنف', 'تصنيف', 'يناقش', 'مناقشة', 'يترجم', 'ترجمة', 'يتنبا', 'تنبؤ'],
+  },
+  apply: {
+    en: ['apply', 'use', 'implement', 'execute', 'solve', 'demonstrate', 'compute', 'calculate', 'operate', 'perform', 'practice', 'practise', 'employ', 'manipulate', 'program', 'conduct', 'sketch', 'utilize', 'utilise'],
+    ar: ['يطبق', 'تطبيق', 'يستخدم', 'استخدام', 'ينفذ', 'تنفيذ', 'يحل', 'حل', 'يحسب', 'حساب', 'يوظف', 'توظيف', 'يستعمل', 'استعمال', 'يبرمج', 'برمجة', 'يجري', 'اجراء', 'يمارس', 'ممارسة'],
+  },
+  analyze: {
+    en: ['analyze', 'analyse', 'compare', 'contrast', 'differentiate', 'distinguish', 'examine', 'categorize', 'categorise', 'deconstruct', 'investigate', 'organize', 'organise', 'relate', 'test', 'debug', 'diagram', 'experiment', 'attribute', 'trace', 'deduce'],
+    ar: ['يحلل', 'تحليل', 'يقارن', 'مقارنة', 'يميز', 'تمييز', 'يفحص', 'فحص', 'يختبر', 'يستنتج', 'استنتاج', 'ينظم', 'تنظيم', 'يفرق', 'تفريق', 'يستقصي', 'استقصاء'],
+  },
+  evaluate: {
+    en: ['evaluate', 'assess', 'critique', 'criticize', 'criticise', 'justify', 'judge', 'argue', 'defend', 'appraise', 'recommend', 'select', 'prioritize', 'prioritise', 'rate', 'validate', 'verify', 'support', 'conclude', 'choose'],
+    ar: ['يقيم', 'تقييم', 'ينقد', 'نقد', 'ينتقد', 'يبرر', 'تبرير', 'يحكم', 'يدافع', 'يوصي', 'يختار', 'اختيار', 'يتحقق', 'تحقق', 'يثبت', 'اثبات', 'يفاضل', 'مفاضلة'],
+  },
+  create: {
+    en: ['create', 'design', 'develop', 'construct', 'formulate', 'compose', 'generate', 'plan', 'produce', 'build', 'invent', 'devise', 'propose', 'integrate', 'write', 'author', 'combine', 'synthesize', 'synthesise', 'hypothesize', 'hypothesise'],
+    ar: ['يصمم', 'تصميم', 'يطور', 'تطوير', 'ينشئ', 'انشاء', 'يبني', 'بناء', 'يبتكر', 'ابتكار', 'يؤلف', 'تاليف', 'يخطط', 'تخطيط', 'يقترح', 'اقتراح', 'ينتج', 'انتاج', 'يكتب', 'كتابة', 'يصوغ', 'صياغة', 'يركب', 'تركيب'],
+  },
+};
+
+/**
+ * Verbs that describe an internal state rather than observable behaviour.
+ * They still map to the level they imply, but are flagged as unmeasurable.
+ */
+const UNMEASURABLE: Record<string, BloomLevel> = {
+  understand: 'understand', comprehend: 'understand', grasp: 'understand', realize: 'understand', realise: 'understand',
+  know: 'remember', learn: 'remember', appreciate: 'remember', aware: 'remember', familiar: 'remember', acquainted: 'remember',
+  'يفهم': 'understand', 'فهم': 'understand', 'يدرك': 'understand', 'ادراك': 'understand', 'يستوعب': 'understand', 'استيعاب': 'understand',
+  'يعرف': 'remember', 'معرفة': 'remember', 'يتعرف': 'remember', 'تعرف': 'remember', 'يلم': 'remember', 'المام': 'remember',
+  'يعي': 'remember', 'وعي': 'remember', 'يتعلم': 'remember', 'تعلم': 'remember', 'يقدر': 'remember', 'يطلع': 'remember', 'اطلاع': 'remember',
+};
+
+interface LexiconEntry {
+  level: BloomLevel;
+  measurable: boolean;
+}
+
+const VERBS: Map<string, LexiconEntry> = (() => {
+  const map = new Map<string, LexiconEntry>();
+  for (const level of BLOOM_LEVELS) {
+    for (const verb of [...LEXICON[level].en, ...LEXICON[level].ar]) {
+      map.set(normalizeArabic(verb), { level, measurable: true });
+    }
+  }
+  for (const [verb, level] of Object.entries(UNMEASURABLE)) {
+    map.set(normalizeArabic(verb), { level, measurable: false });
+  }
+  return map;
+})();
+
+/**
+ * Possible dictionary forms of an inflected English word.
+ */
+const englishForms = (word: string): string[] => {
+  const forms = [word];
+  if (word.endsWith('ies')) forms.push(word.slice(0, -3) + 'y');
+  if (word.endsWith('ied')) forms.push(word.slice(0, -3) + 'y');
+  if (word.endsWith('es')) forms.push(word.slice(0, -2));
+  if (word.endsWith('s')) forms.push(word.slice(0, -1));
+  if (word.endsWith('ed')) forms.push(word.slice(0, -2), word.slice(0, -1));
+  if (word.endsWith('ing')) forms.push(word.slice(0, -3), word.slice(0, -3) + 'e');
+  // "planned", "programming": drop the doubled final consonant
+  const doubled = word.match(/^(.*([b-df-hj-np-tv-z]))\2(?:ed|ing)$/);
+  if (doubled) forms.push(doubled[1]);
+  return forms;
+};
+
+/**
+ * Possible dictionary forms of an Arabic word: conjunction/article prefixes
+ * are stripped and other imperfect prefixes (ت، ن، ا) mapped to the ي- form.
+ */
+const arabicForms = (word: string): string[] => {
+  const bases = new Set([word]);
+  for (const prefix of ['وال', 'فال', 'بال', 'لل', 'ال', 'و', 'ف']) {
+    if (word.startsWith(prefix) && word.length - prefix.length >= 2) {
+      bases.add(word.slice(prefix.length));
+    }
+  }
+  const forms: string[] = [];
+  for (const base of bases) {
+    forms.push(base);
+    if (/^[تنا]/.test(base)) forms.push('ي' + base.slice(1));
+  }
+  return forms;
+};
+
+/**
+ * Finds the first Bloom action verb in an ILO and tags it.
+ */
+export const classifyILO = (text: string): Omit<BloomTag, 'ilo' | 'source'> => {
+  const tokens = normalizeArabic(text.toLowerCase()).split(/[^\p{L}]+/u).filter(Boolean);
+
+  for (const token of tokens) {
+    const forms = /[\u0600-\u06FF]/.test(token) ? arabicForms(token) : englishForms(token);
+    for (const form of forms) {
+      const entry = VERBS.get(form);
+      if (entry) {
+        return { level: entry.level, verb: token, measurable: entry.measurable };
+      }
+    }
+  }
+
+  return { level: null, verb: null, measurable: false };
+};
+
+/**
+ * Tags original and revised ILOs and builds the level histogram for each set.
+ */
+export const analyzeBloom = (originalILOs: string[], revisedILOs: string[]): BloomAnalysis => {
+  const tag = (source: BloomTag['source']) => (ilo: string): BloomTag => ({ ilo, source, ...classifyILO(ilo) });
+  const tags = [...originalILOs.map(tag('original')), ...revisedILOs.map(tag('revised'))];
+
+  const histogram = (source: BloomTag['source']) => {
+    const counts = Object.fromEntries(BLOOM_LEVELS.map(level => [level, 0])) as Record<BloomLevel, number>;
+    tags.filter(t => t.source === source && t.level).forEach(t => counts[t.level!]++);
+    return counts;
+  };
+
+  return {
+    tags,
+    distribution: {
+      original: histogram('original'),
+      revised: histogram('revised'),
+    },
+    unmeasurableCount: tags.filter(t => t.source === 'original' && !t.measurable).length,
+  };
+};
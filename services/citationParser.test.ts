@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeReferences, parseCitation } from './citationParser';
+
+describe('parseCitation', () => {
+  it('parses an APA citation', () => {
+    expect(parseCitation('Goodrich, M. T., Tamassia, R., & Goldwasser, M. H. (2014). Data Structures and Algorithms in Java (6th ed.). Wiley.')).toEqual({
+      raw: 'Goodrich, M. T., Tamassia, R., & Goldwasser, M. H. (2014). Data Structures and Algorithms in Java (6th ed.). Wiley.',
+      style: 'apa',
+      authors: ['Goodrich, M. T.', 'Tamassia, R.', 'Goldwasser, M. H'],
+      title: 'Data Structures and Algorithms in Java',
+      year: 2014,
+      edition: '6',
+      isbn: undefined,
+      doi: undefined,
+    });
+  });
+
+  it('parses an IEEE citation with a DOI', () => {
+    const parsed = parseCitation('[3] A. Smith and B. Jones, "Graph search revisited," J. Algorithms, vol. 4, 2021, doi: 10.1145/3457607.');
+    expect(parsed).toMatchObject({
+      style: 'ieee',
+      authors: ['A. Smith', 'B. Jones'],
+      title: 'Graph search revisited',
+      year: 2021,
+      doi: '10.1145/3457607',
+    });
+  });
+
+  it('does not read a year out of an ISBN', () => {
+    const parsed = parseCitation('Weiss, M. A. Data Structures. Pearson. ISBN 978-0-13-257627-7');
+    expect(parsed.isbn).toBe('9780132576277');
+    expect(parsed.year).toBeUndefined();
+  });
+
+  it('parses Arabic citations with Arabic-Indic digits and ordinal editions', () => {
+    const parsed = parseCitation('محمد أحمد. هياكل البيانات، الطبعة الثانية، دار الفكر، ٢٠١٩.');
+    expect(parsed).toMatchObject({ style: 'arabic', year: 2019, edition: '2' });
+  });
+
+  it('converts Hijri years', () => {
+    expect(parseCitation('علي حسن. أصول البرمجة. الرياض، 1440 هـ.').year).toBe(2019);
+  });
+});
+
+describe('analyzeReferences', () => {
+  const references = [
+    'Weiss, M. A. (2011). Data Structures. Pearson.',
+    'Cormen, T. (2022). Introduction to Algorithms. MIT Press.',
+    'Knuth, D. (2020). The Art of Computer Programming. Addison-Wesley.',
+    'Lecture notes on graph theory.',
+  ];
+
+  it('marks references older than the threshold as outdated', () => {
+    const report = analyzeReferences(references, 7, 2025);
+    expect(report.entries.map(e => [e.age, e.outdated])).toEqual([[14, true], [3, false], [5, false], [undefined, false]]);
+    expect(report.outdatedCount).toBe(1);
+    expect(report.medianAge).toBe(5);
+  });
+
+  it('leaves undated references out of the currency score', () => {
+    // Two of the three dated references are current
+    expect(analyzeReferences(references, 7, 2025).score).toBe(67);
+    expect(analyzeReferences(references.slice(1), 7, 2025).score).toBe(100);
+  });
+
+  it('scores 0 without any dated reference', () => {
+    expect(analyzeReferences([], 7, 2025).score).toBe(0);
+    expect(analyzeReferences(['Lecture notes.'], 7, 2025).score).toBe(0);
+  });
+});
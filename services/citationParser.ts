@@ -0,0 +1,155 @@
+import { ParsedReference, ReferenceReport } from "../types";
+
+export const DEFAULT_MAX_REFERENCE_AGE = 7;
+
+const ARABIC_DIGITS = '٠١٢٣٤٥٦٧٨٩';
+const ARABIC_ORDINALS: Record<string, number> = {
+  'الاولى': 1, 'الأولى': 1, 'الثانية': 2, 'الثالثة': 3, 'الرابعة': 4, 'الخامسة': 5,
+  'السادسة': 6, 'السابعة': 7, 'الثامنة': 8, 'التاسعة': 9, 'العاشرة': 10,
+};
+
+const toWesternDigits = (text: string) =>
+  text.replace(/[\u0660-\u0669]/g, d => String(ARABIC_DIGITS.indexOf(d)));
+
+/** Approximate Gregorian year for a Hijri year. */
+const hijriToGregorian = (year: number) => Math.round(year * 0.970229 + 621.5643);
+
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+)/i;
+const ISBN = /ISBN(?:-1[03])?[:\s]*((?:97[89][-\s]?)?(?:\d[-\s]?){9}[\dXx])/i;
+const BARE_ISBN = /\b(97[89](?:[-\s]?\d){10})\b/;
+
+const detectStyle = (text: string): ParsedReference['style'] => {
+  if (/^\s*\[\d+\]/.test(text)) return 'ieee';
+  if (/[\u0600-\u06FF]/.test(text)) return 'arabic';
+  if (/\((?:\d{4}[a-z]?|n\.d\.)\)/i.test(text)) return 'apa';
+  return 'freeform';
+};
+
+const extractYear = (text: string): number | undefined => {
+  // Hijri dates are marked with "هـ"
+  const hijri = text.match(/\b(1[34]\d{2})\s*هـ/);
+  if (hijri) return hijriToGregorian(Number(hijri[1]));
+
+  // APA puts the year in parentheses right after the authors
+  const apa = text.match(/\((\d{4})[a-z]?(?:,[^)]*)?\)/);
+  if (apa) return Number(apa[1]);
+
+  // Otherwise take the last plausible year in the citation
+  const years = text.match(/\b(19\d{2}|20\d{2})\b/g);
+  return years ? Number(years[years.length - 1]) : undefined;
+};
+
+const extractEdition = (text: string): string | undefined => {
+  const english = text.match(/\b(\d+)(?:st|nd|rd|th)?\s*(?:ed\.|edn\.?|edition)/i);
+  if (english) return english[1];
+
+  const arabic = text.match(/الطبعة\s+(\S+)/);
+  if (arabic) {
+    const value = arabic[1].replace(/[،,.]$/, '');
+    return ARABIC_ORDINALS[value] ? String(ARABIC_ORDINALS[value]) : value;
+  }
+  return undefined;
+};
+
+const splitAuthors = (authorText: string, style: ParsedReference['style']): string[] => {
+  const cleaned = authorText.replace(/^\s*\[\d+\]\s*/, '').trim().replace(/[.,،]$/, '');
+  if (!cleaned) return [];
+
+  const parts = style === 'apa'
+    // "Goodrich, M. T., Tamassia, R., & Goldwasser, M. H."
+    ? cleaned.split(/(?<=\.)\s*,\s*(?:&\s*)?|\s*&\s*/)
+    : style === 'arabic'
+      ? cleaned.split(/\s*[؛;]\s*|\s+و(?=\S)/)
+      : cleaned.split(/\s*,\s*(?:and\s+)?|\s+and\s+|\s*&\s*/);
+
+  return parts.map(p => p.trim()).filter(p => p.length > 1);
+};
+
+/**
+ * Parses one citation (APA, IEEE, Arabic or free-form) into its parts.
+ * Fields that cannot be found are left undefined.
+ */
+export const parseCitation = (raw: string): ParsedReference => {
+  const text = toWesternDigits(raw).trim();
+  const style = detectStyle(text);
+
+  const doi = text.match(DOI)?.[1].replace(/[.,;]+$/, '');
+  const isbnMatch = text.match(ISBN) || text.match(BARE_ISBN);
+  const isbn = isbnMatch?.[1].replace(/[-\s]/g, '').toUpperCase();
+
+  // Identifiers contain digit runs that look like years; drop them first
+  const withoutIds = text.replace(DOI, '').replace(ISBN, '').replace(BARE_ISBN, '');
+  const year = extractYear(withoutIds);
+  const edition = extractEdition(withoutIds);
+
+  let authorText = '';
+  let title: string | undefined;
+
+  if (style === 'ieee') {
+    const quoted = withoutIds.match(/^(.*?)[,]?\s*["“](.+?)[,]?["”]/);
+    if (quoted) {
+      authorText = quoted[1];
+      title = quoted[2];
+    } else {
+      authorText = withoutIds.split(/,\s*(?=[A-Z][a-z])/)[0];
+    }
+  } else {
+    const yearMatch = withoutIds.match(/\(\s*(?:\d{4}[a-z]?|n\.d\.)[^)]*\)\.?/i);
+    if (yearMatch && yearMatch.index !== undefined) {
+      authorText = withoutIds.slice(0, yearMatch.index);
+      title = withoutIds.slice(yearMatch.index + yearMatch[0].length).split(/\.\s|\.$|،/)[0].trim() || undefined;
+    } else {
+      // Free-form: "Authors. Title. Publisher, Year."
+      const segments = withoutIds.split(/\.\s+/);
+      authorText = segments.length > 1 ? segments[0] : '';
+      title = segments.length > 1 ? segments[1] : segments[0];
+    }
+  }
+
+  return {
+    raw,
+    style,
+    authors: splitAuthors(authorText, style),
+    title: title?.replace(/\s*\(\d+(?:st|nd|rd|th)?\s*ed[^)]*\)/i, '').replace(/^["“]|["”]$/g, '').trim() || undefined,
+    year,
+    edition,
+    isbn,
+    doi,
+  };
+};
+
+/**
+ * Parses all references and computes their age against `currentYear`.
+ * The currency score is the share of dated references within the threshold;
+ * undated references are left out of it (they get their own finding), and
+ * with no dated reference at all the score is 0.
+ */
+export const analyzeReferences = (
+  references: string[],
+  maxAgeYears: number,
+  currentYear: number = new Date().getFullYear()
+): ReferenceReport => {
+  const entries = references.map(raw => {
+    const parsed = parseCitation(raw);
+    const age = parsed.year !== undefined ? Math.max(0, currentYear - parsed.year) : undefined;
+    return { ...parsed, age, outdated: age !== undefined && age > maxAgeYears };
+  });
+
+  const ages = entries.map(e => e.age).filter((a): a is number => a !== undefined).sort((a, b) => a - b);
+  const medianAge = ages.length === 0
+    ? undefined
+    : ages.length % 2 === 1
+      ? ages[(ages.length - 1) / 2]
+      : (ages[ages.length / 2 - 1] + ages[ages.length / 2]) / 2;
+
+  const outdatedCount = entries.filter(e => e.outdated).length;
+
+  return {
+    entries,
+    maxAgeYears,
+    evaluatedYear: currentYear,
+    medianAge,
+    outdatedCount,
+    score: ages.length === 0 ? 0 : Math.round(((ages.length - outdatedCount) / ages.length) * 100),
+  };
+};
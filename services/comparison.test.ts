@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, IntendedLearningOutcome, SectionScore } from '../types';
+import { compareAnalyses, diffWords, textSimilarity } from './comparison';
+import { defaultRubric } from './rubric';
+
+const score = (criterionId: string, value: number): SectionScore =>
+  ({ criterionId, section: criterionId, score: value, feedback: '', evidence: [] });
+
+const gap = (text: string) => ({ text, evidence: [] });
+
+const result = (overrides: Partial<AnalysisResult>): AnalysisResult => ({
+  overallScore: 0,
+  rubric: defaultRubric(),
+  courseTitle: 'Data Structures',
+  syllabus: { course: { title: 'Data Structures', prerequisites: [] }, ilos: [], weeklyPlan: [], assessments: [], references: [], policies: [], sectionHeadings: [] },
+  sectionScores: [],
+  gapAnalysis: { missingComponents: [], weaknesses: [], strengths: [] },
+  ruleFindings: [],
+  recommendations: [],
+  revisedILOs: [],
+  benchmarks: [],
+  tutors: [],
+  suggestedActivities: [],
+  ...overrides,
+});
+
+const withIlos = (ilos: IntendedLearningOutcome[]) =>
+  result({ syllabus: { ...result({}).syllabus, ilos } });
+
+describe('textSimilarity', () => {
+  it('measures word overlap after normalization', () => {
+    expect(textSimilarity('Explain Trees', 'explain trees')).toBe(1);
+    expect(textSimilarity('explain binary trees', 'explain trees')).toBeCloseTo(2 / 3);
+    expect(textSimilarity('', '')).toBe(1);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks added and removed words', () => {
+    expect(diffWords('Understand linked lists', 'Implement linked lists and trees')).toEqual([
+      { kind: 'removed', text: 'Understand' },
+      { kind: 'added', text: 'Implement' },
+      { kind: 'same', text: 'linked lists' },
+      { kind: 'added', text: 'and trees' },
+    ]);
+  });
+
+  it('ignores case and Arabic letter variants', () => {
+    expect(diffWords('Explain TREES', 'explain trees')).toEqual([{ kind: 'same', text: 'explain trees' }]);
+    expect(diffWords('شرح الأشجار', 'شرح الاشجار')).toEqual([{ kind: 'same', text: 'شرح الاشجار' }]);
+  });
+});
+
+describe('compareAnalyses', () => {
+  it('reports score deltas, including criteria scored in one version only', () => {
+    const comparison = compareAnalyses(
+      result({ overallScore: 60, sectionScores: [score('iloClarity', 50), score('referenceCurrency', 70)] }),
+      result({ overallScore: 72, sectionScores: [score('iloClarity', 80), score('iloAlignment', 65)] })
+    );
+    expect(comparison.overall).toEqual({ before: 60, after: 72, delta: 12 });
+    expect(comparison.sections.map(s => [s.criterionId, s.before, s.after, s.delta])).toEqual([
+      ['iloClarity', 50, 80, 30],
+      ['iloAlignment', undefined, 65, undefined],
+      ['referenceCurrency', 70, undefined, undefined],
+    ]);
+  });
+
+  it('matches gaps by wording', () => {
+    const { weaknesses } = compareAnalyses(
+      result({ gapAnalysis: { missingComponents: [], strengths: [], weaknesses: [gap('No rubric for the project'), gap('Outdated textbook')] } }),
+      result({ gapAnalysis: { missingComponents: [], strengths: [], weaknesses: [gap('No rubric for the final project'), gap('Too few quizzes')] } })
+    );
+    expect(weaknesses.resolved.map(g => g.text)).toEqual(['Outdated textbook']);
+    expect(weaknesses.introduced.map(g => g.text)).toEqual(['Too few quizzes']);
+    expect(weaknesses.persisting.map(g => g.text)).toEqual(['No rubric for the final project']);
+  });
+
+  it('pairs ILOs by id, then by wording when renumbered', () => {
+    const { ilos } = compareAnalyses(
+      withIlos([
+        { id: 'ILO1', text: 'Understand stacks.' },
+        { id: 'ILO2', text: 'Design a graph library.' },
+        { id: 'ILO3', text: 'Write recursive functions.' },
+      ]),
+      withIlos([
+        { id: 'ILO1', text: 'Implement stacks.' },
+        { id: 'ILO4', text: 'Design a graph library.' },
+        { id: 'ILO5', text: 'Analyse algorithm complexity.' },
+      ])
+    );
+    expect(ilos.map(c => [c.status, c.before?.id, c.after?.id])).toEqual([
+      ['changed', 'ILO1', 'ILO1'],
+      ['unchanged', 'ILO2', 'ILO4'],
+      ['added', undefined, 'ILO5'],
+      ['removed', 'ILO3', undefined],
+    ]);
+    expect(ilos[0].diff).toEqual([
+      { kind: 'removed', text: 'Understand' },
+      { kind: 'added', text: 'Implement' },
+      { kind: 'same', text: 'stacks.' },
+    ]);
+  });
+});
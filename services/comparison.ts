@@ -0,0 +1,163 @@
+import { AnalysisComparison, AnalysisResult, GapChanges, GapItem, IloChange, IntendedLearningOutcome, ScoreDelta, TextDiffPart } from "../types";
+import { normalizeText } from "./textUtils";
+
+// Minimum word overlap for two differently worded items to count as the same
+const MATCH_THRESHOLD = 0.5;
+
+const wordSet = (text: string) => new Set(normalizeText(text).split(' ').filter(Boolean));
+
+/**
+ * Jaccard overlap of the normalized words of two texts, 0-1.
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const wa = wordSet(a);
+  const wb = wordSet(b);
+  if (wa.size === 0 && wb.size === 0) return 1;
+  let shared = 0;
+  wa.forEach(w => { if (wb.has(w)) shared++; });
+  return shared / (wa.size + wb.size - shared);
+};
+
+/**
+ * Pairs each item of `after` with the most similar unused item of `before`.
+ * Returns, for every `after` index, the matched `before` index or -1.
+ */
+const matchItems = <T>(before: T[], after: T[], text: (item: T) => string): number[] => {
+  const used = new Set<number>();
+  return after.map(item => {
+    let best = -1;
+    let bestScore = MATCH_THRESHOLD;
+    before.forEach((candidate, i) => {
+      if (used.has(i)) return;
+      const score = textSimilarity(text(candidate), text(item));
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best >= 0) used.add(best);
+    return best;
+  });
+};
+
+const compareGaps = (before: GapItem[], after: GapItem[]): GapChanges => {
+  const matches = matchItems(before, after, g => g.text);
+  return {
+    resolved: before.filter((_, i) => !matches.includes(i)),
+    introduced: after.filter((_, i) => matches[i] < 0),
+    persisting: after.filter((_, i) => matches[i] >= 0),
+  };
+};
+
+/**
+ * Word-level diff (longest common subsequence) from `before` to `after`.
+ * Words are compared after normalization, so case and Arabic letter
+ * variants alone do not show up as changes.
+ */
+export const diffWords = (before: string, after: string): TextDiffPart[] => {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const na = a.map(normalizeText);
+  const nb = b.map(normalizeText);
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = na[i] === nb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: TextDiffPart[] = [];
+  const push = (kind: TextDiffPart['kind'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += ` ${word}`;
+    else parts.push({ kind, text: word });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (na[i] === nb[j]) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+/**
+ * Pairs ILOs by id first (ILO1 with ILO1), then by wording for ILOs that were
+ * renumbered, and diffs each pair.
+ */
+const compareIlos = (before: IntendedLearningOutcome[], after: IntendedLearningOutcome[]): IloChange[] => {
+  const pairs = after.map(ilo => before.findIndex(b => b.id === ilo.id));
+  const unpairedBefore = before.map((_, i) => i).filter(i => !pairs.includes(i));
+  const unpairedAfter = after.map((_, i) => i).filter(i => pairs[i] < 0);
+  const byText = matchItems(
+    unpairedBefore.map(i => before[i]),
+    unpairedAfter.map(i => after[i]),
+    ilo => ilo.text
+  );
+  unpairedAfter.forEach((afterIndex, k) => {
+    if (byText[k] >= 0) pairs[afterIndex] = unpairedBefore[byText[k]];
+  });
+
+  const changes: IloChange[] = after.map((ilo, i) => {
+    const previous = pairs[i] >= 0 ? before[pairs[i]] : undefined;
+    if (!previous) {
+      return { status: 'added', after: ilo, diff: [{ kind: 'added', text: ilo.text }] };
+    }
+    const diff = diffWords(previous.text, ilo.text);
+    return {
+      status: diff.every(p => p.kind === 'same') ? 'unchanged' : 'changed',
+      before: previous,
+      after: ilo,
+      diff,
+    };
+  });
+  before.forEach((ilo, i) => {
+    if (!pairs.includes(i)) changes.push({ status: 'removed', before: ilo, diff: [{ kind: 'removed', text: ilo.text }] });
+  });
+  return changes;
+};
+
+const compareSections = (before: AnalysisResult, after: AnalysisResult): ScoreDelta[] => {
+  const ids = [...after.sectionScores, ...before.sectionScores]
+    .map(s => s.criterionId)
+    .filter((id, i, all) => all.indexOf(id) === i);
+  return ids.map(criterionId => {
+    const b = before.sectionScores.find(s => s.criterionId === criterionId);
+    const a = after.sectionScores.find(s => s.criterionId === criterionId);
+    return {
+      criterionId,
+      section: (a || b)!.section,
+      before: b?.score,
+      after: a?.score,
+      delta: a && b ? a.score - b.score : undefined,
+    };
+  });
+};
+
+/**
+ * Compares an earlier analysis with a later one, typically two versions of the
+ * same syllabus. Gaps are matched by wording, so both analyses should be in
+ * the same report language.
+ */
+export const compareAnalyses = (before: AnalysisResult, after: AnalysisResult): AnalysisComparison => ({
+  overall: {
+    before: before.overallScore,
+    after: after.overallScore,
+    delta: after.overallScore - before.overallScore,
+  },
+  sections: compareSections(before, after),
+  missingComponents: compareGaps(before.gapAnalysis.missingComponents, after.gapAnalysis.missingComponents),
+  weaknesses: compareGaps(before.gapAnalysis.weaknesses, after.gapAnalysis.weaknesses),
+  ilos: compareIlos(before.syllabus?.ilos || [], after.syllabus?.ilos || []),
+});
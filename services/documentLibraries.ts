@@ -0,0 +1,45 @@
+// Mammoth and pdf.js are loaded from the CDN in index.html
+declare global {
+  interface Window {
+    mammoth: any;
+    pdfjsLib: any;
+  }
+}
+
+const PDF_WORKER = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+
+/**
+ * The document readers used to get text out of uploaded files. The browser
+ * build uses the CDN globals; the CLI registers the npm packages instead.
+ */
+export interface DocumentLibraries {
+  docxToText?: (data: ArrayBuffer) => Promise<string>;
+  loadPdfjs?: () => Promise<any>; // pdf.js, with its worker configured
+}
+
+let activeLibraries: DocumentLibraries | null = null;
+
+const browserLibraries = (): DocumentLibraries => {
+  if (typeof window === 'undefined') return {};
+  const { mammoth, pdfjsLib } = window;
+  return {
+    docxToText: mammoth
+      ? async (data: ArrayBuffer) => (await mammoth.extractRawText({ arrayBuffer: data })).value
+      : undefined,
+    loadPdfjs: pdfjsLib
+      ? async () => {
+          pdfjsLib.GlobalWorkerOptions.workerSrc = PDF_WORKER;
+          return pdfjsLib;
+        }
+      : undefined,
+  };
+};
+
+export const getDocumentLibraries = (): DocumentLibraries => activeLibraries ?? browserLibraries();
+
+/**
+ * Overrides the document readers (e.g. with the Node packages in the CLI).
+ */
+export const setDocumentLibraries = (libraries: DocumentLibraries | null) => {
+  activeLibraries = libraries;
+};
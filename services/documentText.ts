@@ -0,0 +1,130 @@
+import { AnalysisResult, DocumentPage, Evidence, GapItem, SourceDocument } from "../types";
+import { normalizeText } from "./textUtils";
+import { getDocumentLibraries } from "./documentLibraries";
+
+// Collapses whitespace but keeps single line breaks, which often separate a
+// heading from the text under it
+const cleanParagraph = (text: string) =>
+  text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+
+const splitParagraphs = (text: string): string[] =>
+  text.split(/\r?\n\s*\n/).map(cleanParagraph).filter(Boolean);
+
+/**
+ * Groups the text items of one PDF page into paragraphs. Items on the same
+ * baseline form a line; a vertical gap larger than 1.5 line heights starts a
+ * new paragraph. Lines within a paragraph stay on separate lines.
+ */
+const pdfPageParagraphs = (items: any[]): string[] => {
+  const paragraphs: string[] = [];
+  let current = '';
+  let lastY: number | undefined;
+  let lineHeight = 0;
+
+  for (const item of items) {
+    if (typeof item.str !== 'string') continue;
+    const y = item.transform[5];
+    const height = item.height || lineHeight;
+    if (lastY !== undefined && Math.abs(lastY - y) > Math.max(lineHeight, height) * 1.5 && current.trim()) {
+      paragraphs.push(cleanParagraph(current));
+      current = '';
+    } else if (lastY !== undefined && Math.abs(lastY - y) > Math.max(lineHeight, height) * 0.5 && !current.endsWith('\n')) {
+      current += '\n';
+    }
+    current += item.str + (item.hasEOL ? '\n' : '');
+    if (item.str.trim()) {
+      lastY = y;
+      lineHeight = height;
+    }
+  }
+  if (current.trim()) paragraphs.push(cleanParagraph(current));
+  return paragraphs;
+};
+
+/**
+ * Extracts the plain text of an uploaded syllabus, page by page, so evidence
+ * quotes can be located and shown next to the report.
+ */
+export const extractDocumentText = async (file: File): Promise<SourceDocument> => {
+  let pages: DocumentPage[];
+
+  const { docxToText, loadPdfjs } = getDocumentLibraries();
+
+  if (file.type === 'application/pdf') {
+    if (!loadPdfjs) {
+      throw new Error("PDF text reader (pdf.js) not loaded. Please refresh.");
+    }
+    const pdf = await (await loadPdfjs()).getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    pages = [];
+    for (let page = 1; page <= pdf.numPages; page++) {
+      const content = await (await pdf.getPage(page)).getTextContent();
+      pages.push({ page, paragraphs: pdfPageParagraphs(content.items) });
+    }
+  } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    if (!docxToText) {
+      throw new Error("Document processor (Mammoth) not loaded. Please refresh.");
+    }
+    pages = [{ page: 1, paragraphs: splitParagraphs(await docxToText(await file.arrayBuffer())) }];
+  } else {
+    pages = [{ page: 1, paragraphs: splitParagraphs(await file.text()) }];
+  }
+
+  return { fileName: file.name, pages };
+};
+
+/**
+ * Finds the paragraph containing `quote`. Matching ignores case, punctuation,
+ * whitespace and Arabic letter variants, since PDF text extraction rarely
+ * reproduces them exactly. A page hint from the model is searched first.
+ */
+export const locateQuote = (
+  source: SourceDocument,
+  quote: string,
+  pageHint?: number
+): { page: number; paragraph: number } | undefined => {
+  const needle = normalizeText(quote);
+  if (!needle) return undefined;
+
+  const pages = [...source.pages].sort((a, b) => Number(b.page === pageHint) - Number(a.page === pageHint));
+  for (const page of pages) {
+    const index = page.paragraphs.findIndex(p => normalizeText(p).includes(needle));
+    if (index >= 0) return { page: page.page, paragraph: index + 1 };
+  }
+
+  // Quotes may span a paragraph break; try the two paragraphs joined
+  for (const page of pages) {
+    for (let i = 0; i < page.paragraphs.length - 1; i++) {
+      if (normalizeText(`${page.paragraphs[i]} ${page.paragraphs[i + 1]}`).includes(needle)) {
+        return { page: page.page, paragraph: i + 1 };
+      }
+    }
+  }
+  return undefined;
+};
+
+const locateEvidence = (source: SourceDocument, evidence: Evidence[]): Evidence[] =>
+  evidence.map(e => {
+    if (e.absent || !e.quote) return e;
+    const location = locateQuote(source, e.quote, e.page);
+    return location ? { ...e, ...location, verified: true } : { ...e, paragraph: undefined, verified: false };
+  });
+
+/**
+ * Resolves page and paragraph locations for every evidence quote and marks
+ * quotes that could not be found in the document as unverified.
+ */
+export const attachEvidenceLocations = (
+  source: SourceDocument,
+  result: Pick<AnalysisResult, 'sectionScores' | 'gapAnalysis' | 'ruleFindings'>
+): Pick<AnalysisResult, 'sectionScores' | 'gapAnalysis' | 'ruleFindings'> => {
+  const items = (list: GapItem[]) => list.map(item => ({ ...item, evidence: locateEvidence(source, item.evidence) }));
+  return {
+    sectionScores: result.sectionScores.map(s => ({ ...s, evidence: locateEvidence(source, s.evidence) })),
+    gapAnalysis: {
+      missingComponents: items(result.gapAnalysis.missingComponents),
+      weaknesses: items(result.gapAnalysis.weaknesses),
+      strengths: items(result.gapAnalysis.strengths),
+    },
+    ruleFindings: result.ruleFindings.map(f => ({ ...f, evidence: locateEvidence(source, f.evidence) })),
+  };
+};
@@ -0,0 +1,326 @@
+import {
+  AlignmentType,
+  Document,
+  ExternalHyperlink,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import { AnalysisResult, Evidence, GapItem } from "../types";
+import { analyzeBloom } from "./bloomClassifier";
+import { buildAlignmentMatrix } from "./alignmentMatrix";
+import { enabledCriteria, rubricLevel } from "./rubric";
+import { formatMessage } from "./ruleFindings";
+import { isLowConfidence, isUnstable } from "./scoreStability";
+
+const BRAND_COLOR = '2563EB';
+const MUTED_COLOR = '64748B';
+const HEADER_FILL = 'EFF6FF';
+// Arial carries the Arabic glyphs; Calibri stays the Latin face as in a default Word document
+const FONT = { ascii: 'Calibri', hAnsi: 'Calibri', cs: 'Arial' };
+
+/**
+ * An image for the document, as PNG bytes and its display size in pixels.
+ */
+export interface DocxImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface DocxReportOptions {
+  language: 'en' | 'ar';
+  t: any;
+  logo?: DocxImage; // shown in the page header next to the university name
+  chart?: DocxImage & { svg: string }; // radar chart of the section scores; the PNG is the fallback
+  generatedAt?: Date;
+}
+
+/**
+ * Builds paragraphs and tables in one reading direction. Arabic reports set
+ * every paragraph, run and table to right-to-left so Word lays them out as
+ * it does typed Arabic text.
+ */
+const writer = (rtl: boolean) => {
+  const run = (text: string, options: { bold?: boolean; italics?: boolean; color?: string; size?: number } = {}) =>
+    new TextRun({
+      text,
+      rightToLeft: rtl,
+      bold: options.bold,
+      boldComplexScript: options.bold,
+      italics: options.italics,
+      italicsComplexScript: options.italics,
+      color: options.color,
+      size: options.size,
+      sizeComplexScript: options.size,
+    });
+
+  const paragraph = (children: ParagraphChild[], options: { heading?: typeof HeadingLevel[keyof typeof HeadingLevel]; bullet?: boolean; alignment?: typeof AlignmentType[keyof typeof AlignmentType] } = {}) =>
+    new Paragraph({
+      bidirectional: rtl,
+      children,
+      heading: options.heading,
+      bullet: options.bullet ? { level: 0 } : undefined,
+      alignment: options.alignment,
+    });
+
+  const text = (value: string, options?: Parameters<typeof run>[1]) => paragraph([run(value, options)]);
+  const heading = (value: string, level: 1 | 2 = 1) =>
+    paragraph([run(value)], { heading: level === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2 });
+  const bullets = (items: ParagraphChild[][], empty: string) =>
+    items.length > 0
+      ? items.map(children => paragraph(children, { bullet: true }))
+      : [text(empty, { italics: true, color: MUTED_COLOR })];
+
+  type CellValue = string | number | undefined | ParagraphChild;
+  const cell = (value: CellValue, widthPercent: number, isHeader = false) =>
+    new TableCell({
+      width: { size: widthPercent, type: WidthType.PERCENTAGE },
+      shading: isHeader ? { type: ShadingType.CLEAR, color: 'auto', fill: HEADER_FILL } : undefined,
+      margins: { top: 60, bottom: 60, left: 100, right: 100 },
+      children: typeof value === 'object'
+        ? [paragraph([value])]
+        : String(value ?? '-').split('\n').map(line => text(line, { bold: isHeader })),
+    });
+
+  const table = (header: string[], rows: CellValue[][], widths: number[]) =>
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      visuallyRightToLeft: rtl,
+      rows: [
+        new TableRow({ tableHeader: true, children: header.map((h, i) => cell(h, widths[i], true)) }),
+        ...rows.map(row => new TableRow({ cantSplit: true, children: row.map((value, i) => cell(value, widths[i])) })),
+      ],
+    });
+
+  return { run, paragraph, text, heading, bullets, table };
+};
+
+/**
+ * The report as a Word document the QA committee can edit: branded page
+ * header, heading styles, tables for the scores and the benchmarks, and the
+ * radar chart when the caller has rendered one. Arabic reports are laid out
+ * right-to-left.
+ */
+export const buildDocxReport = async (result: AnalysisResult, options: DocxReportOptions): Promise<Blob> => {
+  const { t, language, logo, chart, generatedAt = new Date() } = options;
+  const rtl = language === 'ar';
+  const { run, paragraph, text, heading, bullets, table } = writer(rtl);
+  const { course } = result.syllabus;
+  const stability = result.stability;
+  const criteria = result.rubric ? enabledCriteria(result.rubric) : [];
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+
+  const evidenceLine = (evidence: Evidence[]) => evidence
+    .filter(e => !e.absent && e.quote)
+    .map(e => `“${e.quote}”${e.page !== undefined ? ` (${t.page} ${e.page}${e.paragraph !== undefined ? `, ${t.paragraphShort} ${e.paragraph}` : ''})` : ''}`)
+    .join(' · ');
+
+  const gapItems = (items: GapItem[]) => items.map(item => {
+    const finding = result.ruleFindings.find(f => f.message === item.text);
+    const quotes = evidenceLine(item.evidence);
+    return [
+      ...(finding ? [run(`[${t.severity[finding.severity]}] `, { bold: true })] : []),
+      ...(stability && isLowConfidence(item) ? [run(`[${t.lowConfidence}] `, { italics: true })] : []),
+      run(item.text),
+      ...(quotes ? [run(` — ${quotes}`, { italics: true, color: MUTED_COLOR, size: 18 })] : []),
+    ];
+  });
+
+  const courseRows: [string, string | number | undefined][] = [
+    [t.courseCode, course.code],
+    [t.department, course.department],
+    [t.instructor, course.instructor],
+    [t.semester, course.semester],
+    [t.creditHours, course.creditHours],
+    [t.prerequisites, course.prerequisites?.join('، ')],
+  ];
+
+  const scoreLine = `${t.overallScore}: ${result.overallScore}/100` +
+    (result.rubric ? ` (${formatMessage(t.scoredWith, { name: result.rubric.name, version: result.rubric.version })})` : '');
+
+  const bloom = analyzeBloom(result.syllabus.ilos.map(ilo => ilo.text), []);
+  const alignment = buildAlignmentMatrix(result.syllabus);
+
+  const body = [
+    paragraph([run(result.courseTitle)], { heading: HeadingLevel.TITLE }),
+    text(t.reportTitle, { color: MUTED_COLOR }),
+    table([t.courseOverview, ''], courseRows.filter(([, value]) => value !== undefined && value !== ''), [35, 65]),
+    paragraph([run(scoreLine, { bold: true, size: 28, color: BRAND_COLOR })]),
+    ...(stability ? [text(formatMessage(t.stabilitySummary, {
+      spread: stability.overall.stdDev, samples: stability.samples, min: stability.overall.min, max: stability.overall.max,
+    }))] : []),
+    ...(stability && isUnstable(stability.overall) ? [text(t.unstableScore, { italics: true })] : []),
+    ...(result.modelError ? [paragraph([run(`${t.baselineReport}: `, { bold: true }), run(t.baselineDesc)])] : []),
+
+    heading(t.breakdown),
+    ...(chart ? [paragraph([new ImageRun({
+      type: 'svg',
+      data: new TextEncoder().encode(chart.svg),
+      fallback: { type: 'png', data: chart.data },
+      transformation: { width: chart.width, height: chart.height },
+      altText: { name: 'chart', title: t.breakdown, description: t.breakdown },
+    })], { alignment: AlignmentType.CENTER })] : []),
+    table(
+      [t.section, t.score, t.levelLabel, t.weight, t.sectionFeedback],
+      result.sectionScores.map(s => {
+        const criterion = criteria.find(c => c.id === s.criterionId);
+        const spread = stability?.sections.find(x => x.criterionId === s.criterionId);
+        return [
+          s.section,
+          `${s.score}${spread ? ` ±${spread.stdDev}` : ''}`,
+          criterion ? rubricLevel(criterion, s.score)?.label : undefined,
+          criterion && totalWeight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : undefined,
+          s.feedback,
+        ];
+      }),
+      [22, 10, 14, 10, 44]
+    ),
+
+    heading(t.criticalFindings),
+    heading(t.missing, 2),
+    ...bullets(gapItems(result.gapAnalysis.missingComponents), t.noGaps),
+    heading(t.weaknesses, 2),
+    ...bullets(gapItems(result.gapAnalysis.weaknesses), t.noGaps),
+    heading(t.strengths, 2),
+    ...bullets(gapItems(result.gapAnalysis.strengths), t.noGaps),
+
+    heading(t.recommendations),
+    ...bullets(result.recommendations.map(r => [run(r)]), t.none),
+    heading(t.revisedILOs),
+    ...bullets(result.revisedILOs.map(ilo => [run(ilo)]), t.noRevisions),
+    heading(t.activities),
+    ...bullets(result.suggestedActivities.map(a => [
+      run(`${a.title}: `, { bold: true }),
+      run(a.description),
+      run(` (${t.alignsWith} ${a.learningOutcomeMap})`, { italics: true, color: MUTED_COLOR }),
+    ]), t.noActivities),
+
+    heading(t.learningOutcomes),
+    result.syllabus.ilos.length > 0
+      ? table(
+          ['ID', t.learningOutcomes, t.levelLabel],
+          result.syllabus.ilos.map((ilo, i) => {
+            const tag = bloom.tags[i];
+            return [ilo.id, ilo.text, tag.level ? t.bloomLevels[tag.level] : t.unclassified];
+          }),
+          [10, 65, 25]
+        )
+      : text(t.notSpecified, { italics: true, color: MUTED_COLOR }),
+    heading(t.assessments),
+    result.syllabus.assessments.length > 0
+      ? table([t.assessments, t.weight], result.syllabus.assessments.map(a => [a.name, `${a.weight}%`]), [75, 25])
+      : text(t.notSpecified, { italics: true, color: MUTED_COLOR }),
+    heading(t.alignmentTitle),
+    table(
+      ['ID', t.weeks, t.assessments],
+      alignment.rows.map(r => [r.iloId, r.weeks.join(', ') || '-', r.assessments.join(', ') || '-']),
+      [15, 35, 50]
+    ),
+
+    ...(result.complianceReport ? [
+      heading(t.complianceTitle),
+      text(`${result.complianceReport.templateName} v${result.complianceReport.templateVersion}: ${result.complianceReport.score}/100`, { bold: true }),
+      table(
+        [t.section, t.status],
+        result.complianceReport.items.map(i => [`${i.name}${i.required ? '' : ` (${t.optional})`}`, t.complianceStatus[i.status]]),
+        [70, 30]
+      ),
+    ] : []),
+    ...(result.referenceReport ? [
+      heading(t.referencesTitle),
+      text(`${t.currencyScore}: ${result.referenceReport.score}/100`, { bold: true }),
+      table(
+        [t.references, t.year, t.status],
+        result.referenceReport.entries.map(e => [
+          e.raw,
+          e.year,
+          e.age === undefined ? t.undated : e.outdated ? t.outdated : t.current,
+        ]),
+        [70, 12, 18]
+      ),
+    ] : []),
+
+    heading(t.benchmarking),
+    result.benchmarks.length > 0
+      ? table(
+          [t.university, t.comparison],
+          result.benchmarks.map(b => [
+            b.url
+              ? new ExternalHyperlink({ link: b.url, children: [new TextRun({ text: b.university, style: 'Hyperlink', rightToLeft: rtl })] })
+              : b.university,
+            b.comparison,
+          ]),
+          [25, 75]
+        )
+      : text(t.noBenchmarks, { italics: true, color: MUTED_COLOR }),
+    heading(t.tutors),
+    result.tutors.length > 0
+      ? table(
+          [t.tutorName, t.affiliation, t.contactEmail, t.specialization],
+          result.tutors.map(tutor => [tutor.name, tutor.affiliation, tutor.email, tutor.specialization]),
+          [22, 26, 22, 30]
+        )
+      : text(t.noTutors, { italics: true, color: MUTED_COLOR }),
+  ];
+
+  // "Page {page} of {total}" with the placeholders as Word page fields
+  const pageNumber = (t.pageOf as string).split(/(\{page\}|\{total\})/).filter(Boolean).map(part =>
+    part === '{page}' ? PageNumber.CURRENT : part === '{total}' ? PageNumber.TOTAL_PAGES : part);
+
+  const document = new Document({
+    creator: t.uniName,
+    title: `${t.reportTitle}: ${result.courseTitle}`,
+    styles: {
+      default: {
+        document: {
+          run: { font: FONT, size: 21, sizeComplexScript: 22, language: { value: 'en-US', bidirectional: 'ar-SA' } },
+          paragraph: { spacing: { after: 100 } },
+        },
+        title: { run: { font: FONT, size: 40, sizeComplexScript: 40, bold: true, boldComplexScript: true, color: BRAND_COLOR } },
+        heading1: {
+          run: { font: FONT, size: 30, sizeComplexScript: 30, bold: true, boldComplexScript: true, color: BRAND_COLOR },
+          paragraph: { spacing: { before: 360, after: 120 }, keepNext: true },
+        },
+        heading2: {
+          run: { font: FONT, size: 25, sizeComplexScript: 25, bold: true, boldComplexScript: true, color: '334155' },
+          paragraph: { spacing: { before: 200, after: 80 }, keepNext: true },
+        },
+      },
+    },
+    sections: [{
+      headers: {
+        default: new Header({
+          children: [paragraph([
+            ...(logo ? [new ImageRun({ type: 'png', data: logo.data, transformation: { width: logo.width, height: logo.height } }), run('  ')] : []),
+            run(t.uniName, { bold: true, color: BRAND_COLOR }),
+            run(`  |  ${t.appTitle}`, { color: MUTED_COLOR, size: 18 }),
+          ])],
+        }),
+      },
+      footers: {
+        default: new Footer({
+          children: [
+            paragraph([new TextRun({ children: pageNumber, rightToLeft: rtl, size: 18, color: MUTED_COLOR })], { alignment: AlignmentType.CENTER }),
+            paragraph([run(formatMessage(t.generatedOn, { date: generatedAt.toLocaleDateString(language) }), { size: 16, color: MUTED_COLOR })], { alignment: AlignmentType.CENTER }),
+          ],
+        }),
+      },
+      properties: { page: { margin: { top: 1200, bottom: 1000, left: 1100, right: 1100 } } },
+      children: body,
+    }],
+  });
+
+  return Packer.toBlob(document);
+};
@@ -0,0 +1,15 @@
+const toHex = (digest: ArrayBuffer) =>
+  Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of the file contents as lowercase hex, so re-uploads of the same
+ * file can be recognised.
+ */
+export const hashFile = async (file: File): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+
+/**
+ * SHA-256 of a string (UTF-8) as lowercase hex.
+ */
+export const hashText = async (text: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
@@ -1,261 +1,380 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { AnalysisResult, EvaluationCriteria } from "../types";
+import { AnalysisResult, AnalysisStageId, BenchmarkResult, BuiltInCriterionId, EvaluationCriteria, Evidence, GapItem, ModelCall, PloLink, ProgramCourse, ProgramOutcome, Syllabus, Tutor } from "../types";
+import { classifyILO } from "./bloomClassifier";
+import { buildAlignmentMatrix } from "./alignmentMatrix";
+import { checkAssessments } from "./assessmentRules";
+import { analyzeReferences } from "./citationParser";
+import { checkCompliance } from "./syllabusTemplate";
+import { enabledCriteria } from "./rubric";
+import { localizeFindings, mergeFindings, stripFindings } from "./ruleFindings";
+import { RequestTimeoutError } from "./retry";
+import { getDocumentLibraries } from "./documentLibraries";
+import { callApi, getApiBaseUrl } from "./apiClient";
+import { estimateCost, UsageListener } from "./usage";
+import { logModelCall } from "./usageLog";
+import { getProvider, LLMPart, LLMRequest, LLMResponse } from "./providers";
+import {
+  EvaluationOutput,
+  evaluationSpec,
+  FieldSpec,
+  formatIssues,
+  ModelOutputError,
+  PloSuggestions,
+  ploSuggestionsSpec,
+  syllabusSpec,
+  toResponseSchema,
+  TranslatableResult,
+  translatableSpec,
+  validate,
+  ValidationIssue,
+} from "./schema";
 
-const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Helper to parse clean JSON from model output that might contain markdown.
+ * Throws if no valid JSON can be recovered.
+ */
+const parseJSON = (text: string) => {
+  // Try finding JSON object
+  const objectMatch = text.match(/\{[\s\S]*\}/);
+  if (objectMatch) return JSON.parse(objectMatch[0]);
+
+  // Try finding JSON array
+  const arrayMatch = text.match(/\[[\s\S]*\]/);
+  if (arrayMatch) return JSON.parse(arrayMatch[0]);
+
+  // Fallback cleanup
+  const clean = text.replace(/```json\s*/g, '').replace(/```\s*/g, '');
+  return JSON.parse(clean);
+};
 
-// Extend window interface for Mammoth
-declare global {
-  interface Window {
-    mammoth: any;
+/**
+ * Parses and validates model output. Never throws; problems are returned as issues.
+ */
+const checkOutput = (text: string, spec: FieldSpec): { value: unknown; issues: ValidationIssue[] } => {
+  let value: unknown;
+  try {
+    value = parseJSON(text);
+  } catch {
+    return { value: undefined, issues: [{ path: '$', message: 'is not valid JSON' }] };
   }
-}
+  return { value, issues: validate(spec, value) };
+};
 
 /**
- * Helper to parse clean JSON from model output that might contain markdown
+ * Sends one request to the provider, aborting it when it runs past `ms` or
+ * when the caller's `request.signal` fires. A timeout rejects with
+ * RequestTimeoutError, a cancellation with the signal's abort reason.
+ * Answered calls are reported to `onUsage` with their tokens, time and cost,
+ * and added to the usage log.
  */
-const parseJSON = (text: string) => {
+const generateWithTimeout = async (
+  request: LLMRequest,
+  ms: number,
+  errorMsg: string,
+  onUsage?: UsageListener
+): Promise<LLMResponse> => {
+  request.signal?.throwIfAborted();
+  const controller = new AbortController();
+  const cancel = () => controller.abort(request.signal!.reason);
+  request.signal?.addEventListener('abort', cancel, { once: true });
+  const timeoutId = setTimeout(() => controller.abort(new RequestTimeoutError(errorMsg)), ms);
+  // Providers that ignore the signal are still cut off here
+  const stopped = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+
+  const provider = getProvider();
+  const started = Date.now();
   try {
-    const trimmed = text.trim();
-    
-    // Try finding JSON object
-    const objectMatch = text.match(/\{[\s\S]*\}/);
-    if (objectMatch) return JSON.parse(objectMatch[0]);
-
-    // Try finding JSON array
-    const arrayMatch = text.match(/\[[\s\S]*\]/);
-    if (arrayMatch) return JSON.parse(arrayMatch[0]);
-
-    // Fallback cleanup
-    let clean = text.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-    return JSON.parse(clean);
-  } catch (e) {
-    console.warn("JSON Parse Warning: Returning empty object/array.", e);
-    return {};
+    const response = await Promise.race([provider.generate({ ...request, signal: controller.signal }), stopped]);
+    const call: ModelCall = {
+      stage: request.stage,
+      model: provider.model,
+      promptTokens: response.usage?.promptTokens,
+      responseTokens: response.usage?.responseTokens,
+      durationMs: Date.now() - started,
+      costUsd: response.usage && estimateCost(provider.model, response.usage),
+      timestamp: new Date().toISOString(),
+    };
+    void logModelCall(call);
+    onUsage?.(call);
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+    request.signal?.removeEventListener('abort', cancel);
   }
 };
 
 /**
- * Wraps a promise with a timeout
+ * Sends a JSON request and validates the reply against `spec`. If it fails,
+ * the model gets one chance to repair its own output using the field-level
+ * errors; after that a ModelOutputError is raised instead of guessing values.
  */
-const withTimeout = <T>(promise: Promise<T>, ms: number, errorMsg: string): Promise<T> => {
-    let timeoutId: ReturnType<typeof setTimeout>;
-    const timeoutPromise = new Promise<T>((_, reject) => {
-        timeoutId = setTimeout(() => {
-            reject(new Error(errorMsg));
-        }, ms);
-    });
-    return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timeoutId));
+const generateValidated = async <T>(
+  request: LLMRequest,
+  spec: FieldSpec,
+  timeoutMs: number,
+  timeoutMsg: string,
+  onUsage?: UsageListener
+): Promise<T> => {
+  const first = await generateWithTimeout(request, timeoutMs, timeoutMsg, onUsage);
+  const attempt = checkOutput(first.text, spec);
+  if (attempt.issues.length === 0) return attempt.value as T;
+
+  console.warn(`Invalid ${request.stage} output, requesting repair:`, attempt.issues);
+
+  const repairPrompt = `
+    Your previous response did not match the required JSON structure.
+    Return the COMPLETE corrected JSON object. Fix every problem listed below and keep all other content unchanged.
+    Scores must be numbers between 0 and 100.
+
+    PROBLEMS:
+    ${formatIssues(attempt.issues)}
+
+    PREVIOUS RESPONSE:
+    ${first.text}
+  `;
+
+  const second = await generateWithTimeout(
+    { ...request, parts: [...request.parts, { text: repairPrompt }] },
+    timeoutMs,
+    timeoutMsg,
+    onUsage
+  );
+  const repaired = checkOutput(second.text, spec);
+  if (repaired.issues.length === 0) return repaired.value as T;
+
+  throw new ModelOutputError(
+    `The model returned an invalid ${request.stage} result, even after a repair attempt.`,
+    repaired.issues
+  );
+};
+
+// Buffer is not available in the browser, and btoa needs a binary string
+const toBase64 = (data: ArrayBuffer): string => {
+  if (typeof Buffer !== 'undefined') return Buffer.from(data).toString('base64');
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 };
 
 /**
  * Converts a File object to a Generative Part (Inline Data or Text).
- * Handles PDF, DOCX (via mammoth), and TXT.
+ * Handles PDF, DOCX (via mammoth), and TXT, in the browser and under Node.
  */
-export const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } } | { text: string }> => {
+export const fileToGenerativePart = async (file: File): Promise<LLMPart> => {
   
   // 1. PDF - Supported Natively by Gemini
   if (file.type === 'application/pdf') {
-      return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64Data = (reader.result as string).split(',')[1];
-          resolve({
-            inlineData: {
-              data: base64Data,
-              mimeType: file.type,
-            },
-          });
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-      });
+    return {
+      inlineData: {
+        data: toBase64(await file.arrayBuffer()),
+        mimeType: file.type,
+      },
+    };
   }
 
   // 2. Plain Text
   if (file.type === 'text/plain') {
-      return new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => {
-              resolve({ text: reader.result as string });
-          };
-          reader.onerror = reject;
-          reader.readAsText(file);
-      });
+    return { text: await file.text() };
   }
 
   // 3. DOCX - Extract text using Mammoth.js
   if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-      if (!window.mammoth) {
-          throw new Error("Document processor (Mammoth) not loaded. Please refresh.");
-      }
-      return new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (event) => {
-              const arrayBuffer = event.target?.result;
-              window.mammoth.extractRawText({ arrayBuffer: arrayBuffer })
-                  .then((result: any) => {
-                      resolve({ text: `[Extracted Content from DOCX]:\n${result.value}` });
-                  })
-                  .catch((err: any) => reject(new Error("Failed to process DOCX file: " + err.message)));
-          };
-          reader.onerror = reject;
-          reader.readAsArrayBuffer(file);
-      });
+    const { docxToText } = getDocumentLibraries();
+    if (!docxToText) {
+      throw new Error("Document processor (Mammoth) not loaded. Please refresh.");
+    }
+    try {
+      return { text: `[Extracted Content from DOCX]:\n${await docxToText(await file.arrayBuffer())}` };
+    } catch (err: any) {
+      throw new Error("Failed to process DOCX file: " + err.message);
+    }
   }
 
   throw new Error(`Unsupported file type: ${file.type}. Please upload PDF, DOCX, or TXT.`);
 };
 
 /**
- * Step 1: Extract, Evaluate, and Generate Initial Report (Internal Analysis)
+ * Version of each stage's prompt. Bump it whenever the prompt or the parsing
+ * of its output changes, so cached results of the old prompt stop matching.
+ */
+export const PROMPT_VERSIONS: Record<AnalysisStageId, number> = {
+  extract: 1,
+  evaluate: 1,
+  benchmark: 1,
+  tutors: 1,
+};
+
+/**
+ * Unique topics of the weekly plan, in teaching order.
+ */
+const listTopics = (syllabus: Syllabus): string[] =>
+  Array.from(new Set(syllabus.weeklyPlan.flatMap(w => w.topics)));
+
+/**
+ * Step 1: Extract the structured syllabus.
+ * Content is kept in the document's own language so later checks see the original wording.
+ */
+export const extractSyllabus = async (filePart: LLMPart, signal?: AbortSignal, onUsage?: UsageListener): Promise<Syllabus> => {
+  if (getApiBaseUrl()) return callApi<Syllabus>('extract', { filePart }, signal, onUsage);
+
+  const prompt = `
+    You are extracting structured data from a university course syllabus. Do NOT evaluate it.
+
+    RULES:
+    1. Copy text verbatim in the document's original language. Do not translate or summarize ILOs, references or policies.
+    2. Number ILOs in document order with ids "ILO1", "ILO2", ... and reuse these ids everywhere else.
+    3. For each week of the weekly plan, list its topics and the ids of the ILOs it addresses (infer from content if not stated).
+    4. For each assessment, give its weight as a percentage of the final grade and the ids of the ILOs it measures.
+    5. List every reference/textbook citation exactly as written.
+    6. List policies (attendance, academic integrity/plagiarism, late submission, etc.) with their text.
+    7. List all section headings of the document in order of appearance.
+    8. Omit optional course fields that are not present. Use empty arrays when a list has no entries.
+  `;
+
+  return generateValidated<Syllabus>(
+    {
+      stage: 'extract',
+      parts: [filePart, { text: prompt }],
+      jsonOutput: true,
+      responseSchema: toResponseSchema(syllabusSpec),
+      signal,
+    },
+    syllabusSpec,
+    60000,
+    "Syllabus extraction timed out (60s).",
+    onUsage
+  );
+};
+
+/**
+ * Step 2: Evaluate and Generate Initial Report (Internal Analysis)
+ * `temperature` is set for the repeated runs of stability mode.
  */
 export const evaluateSyllabusContent = async (
-  filePart: { inlineData: { data: string; mimeType: string } } | { text: string },
+  filePart: LLMPart,
+  syllabus: Syllabus,
   criteria: EvaluationCriteria,
-  language: 'en' | 'ar'
-): Promise<Partial<AnalysisResult>> => {
-  const client = getClient();
-  
+  language: 'en' | 'ar',
+  signal?: AbortSignal,
+  temperature?: number,
+  onUsage?: UsageListener
+): Promise<EvaluationOutput> => {
+  if (getApiBaseUrl()) return callApi<EvaluationOutput>('analyze', { filePart, syllabus, criteria, language, temperature }, signal, onUsage);
+
+  // Deterministic Bloom tags anchor the ILO Clarity judgement
+  const bloomContext = syllabus.ilos.map(ilo => {
+    const tag = classifyILO(ilo.text);
+    return `${ilo.id}: ${tag.level || 'no action verb'}${tag.verb && !tag.measurable ? ` (unmeasurable verb "${tag.verb}")` : ''}`;
+  }).join('; ');
+
+  const alignment = buildAlignmentMatrix(syllabus);
+  const orphanIds = alignment.rows.filter(r => r.orphan).map(r => r.iloId);
+  const unassessedIds = alignment.rows.filter(r => r.unassessed).map(r => r.iloId);
+  const alignmentContext = `ILOs not taught in any week: ${orphanIds.join(', ') || 'none'}; ILOs not assessed: ${unassessedIds.join(', ') || 'none'}`;
+
+  const assessmentContext = checkAssessments(syllabus, criteria.assessmentRules, 'en').map(f => f.message).join(' ') || 'no rule violations';
+
+  const references = analyzeReferences(syllabus.references, criteria.maxReferenceAge);
+  const referenceContext = references.entries.map(e => `${e.title || e.raw} (${e.year ?? 'undated'})`).join('; ') || 'none listed';
+
+  const compliance = checkCompliance(syllabus, criteria.syllabusTemplate, 'en');
+  const structureContext = compliance.findings.map(f => f.message).join(' ') || 'all required sections and fields present';
+
+  // Local evidence for the built-in criteria; the last two are scored locally
+  const localContext: Partial<Record<BuiltInCriterionId, string>> = {
+    iloClarity: `Local verb classification: ${bloomContext}.`,
+    iloAlignment: `Local alignment matrix: ${alignmentContext}.`,
+    assessmentQuality: `Grading-scheme rule check: ${assessmentContext} These violations are reported separately; do not repeat them in gapAnalysis.`,
+    referenceCurrency: `Scored locally from parsed publication years (${referenceContext}). Do NOT return a section score for it; you may comment on their relevance and quality.`,
+    structureCompliance: `Compliance with the institutional template "${criteria.syllabusTemplate.name}" is scored locally: ${structureContext} Do NOT return a section score for it or repeat these items in gapAnalysis; you may comment on the clarity of each section.`,
+  };
+
+  const rubricContext = enabledCriteria(criteria.rubric).map((c, i) => {
+    const levels = [...c.levels]
+      .sort((a, b) => b.minScore - a.minScore)
+      .map(l => `${l.label} (${l.minScore}+): ${l.descriptor}`)
+      .join(' | ');
+    return `${i + 1}. [${c.id}] ${c.name} (weight ${c.weight}): ${c.prompt} ${localContext[c.id as BuiltInCriterionId] || ''}
+       Performance levels: ${levels}`;
+  }).join('\n    ');
+
   const prompt = `
     You are an expert Academic Quality Assurance Officer at Palestine Ahliya University (PAU).
     
     Task: Analyze the attached syllabus file content to ensure it meets high academic standards.
     Output Language: ${language === 'ar' ? 'Arabic' : 'English'}.
+
+    The syllabus has already been extracted into this structure. Base your evaluation on it and use the file for context:
+    ${JSON.stringify(syllabus)}
     
     CRITICAL INSTRUCTIONS:
     1.  **Deep Analysis**: You MUST populate 'gapAnalysis' arrays. Do NOT leave them empty.
         - **missingComponents**: List specific sections missing (e.g., "No plagiarism policy", "Missing weekly reading list", "No grade breakdown").
         - **weaknesses**: Critique quality (e.g., "ILOs are too vague", "Assessment weight is unbalanced", "Old references").
         - **strengths**: Highlight good parts (e.g., "Clear weekly plan", "Diverse assessment").
-    2.  **Extract Topics**: Summarize the core list of topics covered in the course into the 'syllabusTopics' array.
-    3.  **Revised ILOs**: You MUST rewrite at least 3-5 ILOs to be more measurable (using Bloom's verbs).
-    4.  **Suggested Activities**: Provide 3 specific active learning activities.
-
-    Criteria to evaluate:
-    1. ILO Clarity: ${criteria.iloClarity ? 'Check strictly for Bloom\'s taxonomy and specificity.' : 'Standard check.'}
-    2. Alignment: ${criteria.iloAlignment ? 'Check if weekly topics map to ILOs.' : 'Standard check.'}
-    3. Assessments: ${criteria.assessmentQuality ? 'Evaluate variety, rubrics, and weight.' : 'Standard check.'}
-    4. References: ${criteria.referenceCurrency ? 'Check if books are recent (last 5-7 years).' : 'Standard check.'}
+    2.  **Revised ILOs**: You MUST rewrite at least 3-5 ILOs to be more measurable (using Bloom's verbs).
+    3.  **Suggested Activities**: Provide 3 specific active learning activities.
+    4.  **Evidence**: Every section score, weakness and strength MUST cite 1-3 supporting quotes from the syllabus as evidence { quote, page }.
+        - Copy each quote verbatim from the file in its original language (one sentence or shorter; do not translate or paraphrase).
+        - Give the page number when the file has pages.
+        - For missingComponents use a single evidence item { quote: "", absent: true }.
+
+    Rubric "${criteria.rubric.name}" v${criteria.rubric.version}. Criteria to evaluate:
+    ${rubricContext}
     
     Please provide a structured JSON response with:
-    - courseTitle
-    - syllabusTopics (Array of strings: list of main topics found)
-    - overallScore (0-100)
-    - sectionScores (Array of object { section, score, feedback })
-    - gapAnalysis (missingComponents, weaknesses, strengths) -> THESE ARRAYS MUST NOT BE EMPTY.
+    - sectionScores (Array of object { criterionId, section, score, feedback, evidence }) -> one per criterion above unless it says otherwise. Set criterionId to the id in brackets and score (0-100) against the performance levels.
+    - gapAnalysis (missingComponents, weaknesses, strengths; each an Array of { text, evidence }) -> THESE ARRAYS MUST NOT BE EMPTY.
     - recommendations (list of strings)
     - revisedILOs (list of strings) -> MUST CONTAIN AT LEAST 3 ITEMS.
     - suggestedActivities (Array of { title, description, learningOutcomeMap })
   `;
 
-  const request = client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [filePart, { text: prompt }],
-      },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            courseTitle: { type: Type.STRING },
-            syllabusTopics: { type: Type.ARRAY, items: { type: Type.STRING } },
-            overallScore: { type: Type.NUMBER },
-            sectionScores: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  section: { type: Type.STRING },
-                  score: { type: Type.NUMBER },
-                  feedback: { type: Type.STRING },
-                },
-              },
-            },
-            gapAnalysis: {
-              type: Type.OBJECT,
-              properties: {
-                missingComponents: { type: Type.ARRAY, items: { type: Type.STRING } },
-                weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
-                strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-              },
-            },
-            recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
-            revisedILOs: { type: Type.ARRAY, items: { type: Type.STRING } },
-            suggestedActivities: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  title: { type: Type.STRING },
-                  description: { type: Type.STRING },
-                  learningOutcomeMap: { type: Type.STRING },
-                }
-              }
-            }
-          },
-        },
-      },
-    });
-
-  const response = await withTimeout<GenerateContentResponse>(request, 60000, "Analysis timed out (60s).");
-  
-  const parsedData = parseJSON(response.text || '{}');
-
-  const defaultAnalysis = {
-      courseTitle: "Untitled Course",
-      syllabusTopics: ["General Topics"],
-      overallScore: 0,
-      sectionScores: [],
-      gapAnalysis: {
-          missingComponents: ["Analysis yielded no missing components data."],
-          weaknesses: ["Analysis yielded no weakness data."],
-          strengths: ["Analysis yielded no strength data."]
-      },
-      recommendations: [],
-      revisedILOs: ["No revisions generated."],
-      suggestedActivities: []
-  };
-
-  const finalData = { ...defaultAnalysis, ...parsedData };
-  
-  // Data Validation & Sanitization
-  if (!Array.isArray(finalData.sectionScores)) finalData.sectionScores = [];
-  if (!Array.isArray(finalData.syllabusTopics)) finalData.syllabusTopics = ["Topics not extracted"];
-  if (!Array.isArray(finalData.recommendations)) finalData.recommendations = [];
-  if (!Array.isArray(finalData.revisedILOs)) finalData.revisedILOs = [];
-  if (!Array.isArray(finalData.suggestedActivities)) finalData.suggestedActivities = [];
-
-  // Gap Analysis Sanitization
-  if (!finalData.gapAnalysis || typeof finalData.gapAnalysis !== 'object') {
-      finalData.gapAnalysis = defaultAnalysis.gapAnalysis;
-  } else {
-      if (!Array.isArray(finalData.gapAnalysis.missingComponents)) finalData.gapAnalysis.missingComponents = [];
-      if (!Array.isArray(finalData.gapAnalysis.weaknesses)) finalData.gapAnalysis.weaknesses = [];
-      if (!Array.isArray(finalData.gapAnalysis.strengths)) finalData.gapAnalysis.strengths = [];
-  }
-  
-  return finalData;
+  return generateValidated<EvaluationOutput>(
+    {
+      stage: 'evaluate',
+      parts: [filePart, { text: prompt }],
+      jsonOutput: true,
+      responseSchema: toResponseSchema(evaluationSpec),
+      temperature,
+      signal,
+    },
+    evaluationSpec,
+    60000,
+    "Analysis timed out (60s).",
+    onUsage
+  );
 };
 
 /**
- * Step 2: Benchmarking
+ * Step 3: Benchmarking
  * Uses a delimiter-based strategy to avoid JSON issues with Search Tools.
+ * Errors propagate so the pipeline can retry the stage or report it as failed.
  */
 export const performBenchmarking = async (
-  courseTitle: string,
+  syllabus: Syllabus,
   targetUniversities: string,
-  currentTopics: string[],
-  language: 'en' | 'ar'
-): Promise<any[]> => {
-  const client = getClient();
-  
-  // Format current topics for the prompt to give context
-  const topicsContext = currentTopics.slice(0, 10).join(', ');
+  language: 'en' | 'ar',
+  signal?: AbortSignal,
+  onUsage?: UsageListener
+): Promise<BenchmarkResult[]> => {
+  if (getApiBaseUrl()) return callApi<BenchmarkResult[]>('benchmark', { syllabus, targetUniversities, language }, signal, onUsage);
+
+  const courseTitle = syllabus.course.title;
+
+  // Give the model the full weekly plan and ILOs as context
+  const topicsContext = listTopics(syllabus).join(', ');
+  const iloContext = syllabus.ilos.map(ilo => `${ilo.id}: ${ilo.text}`).join('\n    ');
 
   const searchPrompt = `
-    Context: The user is evaluating a syllabus for the course "${courseTitle}".
+    Context: The user is evaluating a syllabus for the course "${courseTitle}"${syllabus.course.creditHours ? ` (${syllabus.course.creditHours} credit hours)` : ''}.
     Current Syllabus Topics: ${topicsContext}.
+    Current Learning Outcomes:
+    ${iloContext}
     Target Benchmark: "${targetUniversities || "Standard Global Curriculum"}".
     
     INSTRUCTIONS:
@@ -286,71 +405,64 @@ export const performBenchmarking = async (
     END_ITEM
   `;
 
-  try {
-    const request = client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: searchPrompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        // Do NOT set responseMimeType to JSON when using tools
-      },
-    });
-
-    const response = await withTimeout<GenerateContentResponse>(request, 90000, "Benchmarking search timed out.");
-    const text = response.text || '';
-    
-    // Parse the text output manually
-    const results: any[] = [];
-    const items = text.split('BENCHMARK_ITEM');
-    
-    for (const item of items) {
-        // Regex allows for optional asterisks (**) and case insensitivity
-        const uniMatch = item.match(/University[:*]*\s*(.+?)(?:\n|$)/i);
-        const compMatch = item.match(/Comparison[:*]*\s*([\s\S]+?)(?:END_ITEM|$)/i);
-        
-        if (uniMatch && compMatch) {
-            results.push({
-                university: uniMatch[1].trim().replace(/\*/g, ''),
-                comparison: compMatch[1].trim()
-            });
-        }
-    }
-    
-    // Attempt to attach a URL from grounding metadata to the first result
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks && results.length > 0) {
-        const webChunk = chunks.find((c: any) => c.web?.uri);
-        if (webChunk) {
-            results[0].url = webChunk.web.uri;
-        }
-    }
-    
-    return results.length > 0 ? results : [{ university: "No Data", comparison: "Could not retrieve benchmarks." }];
+  const response = await generateWithTimeout({
+    stage: 'benchmark',
+    parts: [{ text: searchPrompt }],
+    useSearch: true,
+    signal,
+  }, 90000, "Benchmarking search timed out.", onUsage);
+  const text = response.text || '';
+
+  // Parse the text output manually
+  const results: BenchmarkResult[] = [];
+  const items = text.split('BENCHMARK_ITEM');
+
+  for (const item of items) {
+      // Regex allows for optional asterisks (**) and case insensitivity
+      const uniMatch = item.match(/University[:*]*\s*(.+?)(?:\n|$)/i);
+      const compMatch = item.match(/Comparison[:*]*\s*([\s\S]+?)(?:END_ITEM|$)/i);
+
+      if (uniMatch && compMatch) {
+          results.push({
+              university: uniMatch[1].trim().replace(/\*/g, ''),
+              comparison: compMatch[1].trim()
+          });
+      }
+  }
 
-  } catch (error) {
-    console.warn("Benchmarking error:", error);
-    return [{ university: "Search Unavailable", comparison: "Benchmarking skipped due to connection timeout or error." }];
+  // Attempt to attach a URL from grounding metadata to the first result
+  if (response.sourceUrls.length > 0 && results.length > 0) {
+      results[0].url = response.sourceUrls[0];
   }
+
+  return results;
 };
 
 /**
- * Step 3: Find Tutors
+ * Step 4: Find Tutors
  * Uses a delimiter-based strategy to avoid JSON issues with Search Tools.
+ * Errors propagate, as for benchmarking.
  */
 export const findLocalTutors = async (
-  courseTitle: string,
-  language: 'en' | 'ar'
-): Promise<any[]> => {
-  const client = getClient();
+  syllabus: Syllabus,
+  language: 'en' | 'ar',
+  signal?: AbortSignal,
+  onUsage?: UsageListener
+): Promise<Tutor[]> => {
+  if (getApiBaseUrl()) return callApi<Tutor[]>('tutors', { syllabus, language }, signal, onUsage);
+
+  const courseTitle = syllabus.course.title;
+  const department = syllabus.course.department ? ` (${syllabus.course.department})` : '';
 
   const tutorPrompt = `
-    Search for academic professors, lecturers, or tutors who specialize in "${courseTitle}" or related fields 
+    Search for academic professors, lecturers, or tutors who specialize in "${courseTitle}"${department} or related fields 
     specifically at universities in Jordan (e.g., University of Jordan, JUST, Yarmouk) or Palestine (e.g., Birzeit, An-Najah, Palestine Ahliya University, Al-Quds University).
     
     SEARCH STRATEGY:
     1. Use the exact course name "${courseTitle}".
     2. ALSO search for common variations or synonyms of this course title (e.g., if "Data Structures", also search for "Algorithms", "Computer Science", or "Programming").
     3. Look for faculty members in the relevant department.
+    4. Prefer experts in the course's core topics: ${listTopics(syllabus).join(', ')}.
 
     Find 3-5 profiles.
     Output Language: ${language === 'ar' ? 'Arabic' : 'English'}.
@@ -366,56 +478,86 @@ export const findLocalTutors = async (
     END_ITEM
   `;
 
-  try {
-    const request = client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: tutorPrompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        // Do NOT set responseMimeType to JSON when using tools
-      },
-    });
-
-    const response = await withTimeout<GenerateContentResponse>(request, 90000, "Tutor search timed out.");
-    const text = response.text || '';
-
-    // Parse text output
-    const results: any[] = [];
-    const items = text.split('TUTOR_ITEM');
-
-    for (const item of items) {
-        const nameMatch = item.match(/Name[:*]*\s*(.+?)(?:\n|$)/i);
-        const affMatch = item.match(/Affiliation[:*]*\s*(.+?)(?:\n|$)/i);
-        const emailMatch = item.match(/Email[:*]*\s*(.+?)(?:\n|$)/i);
-        const specMatch = item.match(/Specialization[:*]*\s*([\s\S]+?)(?:END_ITEM|$)/i);
-
-        if (nameMatch) {
-            results.push({
-                name: nameMatch[1].trim().replace(/\*/g, ''),
-                affiliation: affMatch ? affMatch[1].trim().replace(/\*/g, '') : "Unknown",
-                email: emailMatch ? emailMatch[1].trim().replace(/\*/g, '') : "Not listed",
-                specialization: specMatch ? specMatch[1].trim() : "Related Field"
-            });
-        }
-    }
-    
-    return results;
-  } catch (error) {
-    console.warn("Tutor search error:", error);
-    return [];
+  const response = await generateWithTimeout({
+    stage: 'tutors',
+    parts: [{ text: tutorPrompt }],
+    useSearch: true,
+    signal,
+  }, 90000, "Tutor search timed out.", onUsage);
+  const text = response.text || '';
+
+  // Parse text output
+  const results: Tutor[] = [];
+  const items = text.split('TUTOR_ITEM');
+
+  for (const item of items) {
+      const nameMatch = item.match(/Name[:*]*\s*(.+?)(?:\n|$)/i);
+      const affMatch = item.match(/Affiliation[:*]*\s*(.+?)(?:\n|$)/i);
+      const emailMatch = item.match(/Email[:*]*\s*(.+?)(?:\n|$)/i);
+      const specMatch = item.match(/Specialization[:*]*\s*([\s\S]+?)(?:END_ITEM|$)/i);
+
+      if (nameMatch) {
+          results.push({
+              name: nameMatch[1].trim().replace(/\*/g, ''),
+              affiliation: affMatch ? affMatch[1].trim().replace(/\*/g, '') : "Unknown",
+              email: emailMatch ? emailMatch[1].trim().replace(/\*/g, '') : "Not listed",
+              specialization: specMatch ? specMatch[1].trim() : "Related Field"
+          });
+      }
   }
+
+  return results;
 };
 
+const restoreEvidence = (translated: GapItem[], original: GapItem[]): GapItem[] =>
+  translated.map((item, i) => ({ ...item, evidence: original[i]?.evidence ?? [], support: original[i]?.support }));
+
 /**
- * Step 4: Translation Service
- * Translates the entire result object to the target language.
+ * Step 5: Translation Service
+ * Translates the model-authored parts of the report to the target language.
+ * The extracted syllabus and local reports keep their original wording and
+ * rule findings are re-rendered locally, so none of them is sent to the model.
+ * The translation's model calls are added to the report's `modelCalls`.
  */
 export const translateAnalysisResult = async (
   data: AnalysisResult,
-  targetLang: 'en' | 'ar'
+  targetLang: 'en' | 'ar',
+  signal?: AbortSignal,
+  onUsage?: UsageListener
 ): Promise<AnalysisResult> => {
-  const client = getClient();
+  if (getApiBaseUrl()) {
+    // The source text is never translated; keep it out of the request
+    const { sourceDocument, ...report } = data;
+    return { ...(await callApi<AnalysisResult>('translate', { result: report, targetLang }, signal, onUsage)), sourceDocument };
+  }
+
   const langName = targetLang === 'ar' ? 'Arabic' : 'English';
+  const {
+    overallScore: _overallScore,
+    rubric: _rubric,
+    syllabus: _syllabus,
+    ruleFindings,
+    referenceReport: _referenceReport,
+    complianceReport: _complianceReport,
+    documentStats: _documentStats,
+    modelError: _modelError,
+    stages: _stages,
+    stability: _stability,
+    modelCalls = [],
+    ...rest
+  } = data;
+  // Quotes stay verbatim: send items without evidence and restore it by position
+  const modelGaps = stripFindings(data.gapAnalysis, ruleFindings);
+  const withoutEvidence = <T extends { evidence: Evidence[] }>(items: T[]) => items.map(item => ({ ...item, evidence: [] }));
+  const translatable: TranslatableResult = {
+    ...rest,
+    sectionScores: withoutEvidence(data.sectionScores),
+    gapAnalysis: {
+      missingComponents: withoutEvidence(modelGaps.missingComponents),
+      weaknesses: withoutEvidence(modelGaps.weaknesses),
+      strengths: withoutEvidence(modelGaps.strengths),
+    },
+  };
   
   const prompt = `
     Translate ALL string values in the following JSON object to ${langName}.
@@ -426,21 +568,106 @@ export const translateAnalysisResult = async (
     3. Ensure the output is valid JSON.
     
     JSON:
-    ${JSON.stringify(data)}
+    ${JSON.stringify(translatable)}
   `;
 
-  const request = client.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: prompt,
-    config: {
-      responseMimeType: 'application/json'
+  const calls = [...modelCalls];
+  const translated = await generateValidated<TranslatableResult>(
+    {
+      stage: 'translate',
+      parts: [{ text: prompt }],
+      jsonOutput: true,
+      signal,
+    },
+    translatableSpec,
+    60000,
+    "Translation timed out.",
+    call => {
+      calls.push(call);
+      onUsage?.(call);
     }
-  });
+  );
+
+  const localizedFindings = localizeFindings(ruleFindings, targetLang);
+  return {
+    ...data,
+    ...translated,
+    // Criterion ids and scores key the rubric weights; keep the originals
+    sectionScores: translated.sectionScores.map((s, i) => ({
+      ...s,
+      criterionId: data.sectionScores[i]?.criterionId ?? s.criterionId,
+      score: data.sectionScores[i]?.score ?? s.score,
+      evidence: data.sectionScores[i]?.evidence ?? [],
+    })),
+    gapAnalysis: mergeFindings({
+      missingComponents: restoreEvidence(translated.gapAnalysis.missingComponents, modelGaps.missingComponents),
+      weaknesses: restoreEvidence(translated.gapAnalysis.weaknesses, modelGaps.weaknesses),
+      strengths: restoreEvidence(translated.gapAnalysis.strengths, modelGaps.strengths),
+    }, localizedFindings),
+    ruleFindings: localizedFindings,
+    modelCalls: calls,
+  };
+};
+
+/**
+ * Step 6: Curriculum Mapping
+ * Suggests which PLO each course ILO contributes to and at what level.
+ * Suggestions naming unknown courses, ILOs or PLOs are dropped; the rest
+ * wait for manual confirmation.
+ */
+export const suggestPloMappings = async (
+  outcomes: ProgramOutcome[],
+  courses: ProgramCourse[],
+  language: 'en' | 'ar',
+  signal?: AbortSignal,
+  onUsage?: UsageListener
+): Promise<PloLink[]> => {
+  if (getApiBaseUrl()) return callApi<PloLink[]>('map-plos', { outcomes, courses, language }, signal, onUsage);
+
+  const langName = language === 'ar' ? 'Arabic' : 'English';
+  const ploText = outcomes.map(o => `- ${o.id}: ${o.text}`).join('\n');
+  const courseText = courses.map(c =>
+    `COURSE courseKey="${c.courseKey}" (${[c.code, c.title].filter(Boolean).join(' ')})\n` +
+    c.ilos.map(ilo => `  - ${ilo.id}: ${ilo.text}`).join('\n')
+  ).join('\n');
+
+  const prompt = `
+    You are building a curriculum map for an academic program.
 
-  const response = await withTimeout<GenerateContentResponse>(request, 60000, "Translation timed out.");
-  const parsed = parseJSON(response.text || '{}');
+    PROGRAM LEARNING OUTCOMES (PLOs):
+    ${ploText}
 
-  // Merge translation with original data to ensure structure is preserved even if translation fails partially.
-  // This prevents crashes if keys are missing in the translated output.
-  return { ...data, ...parsed } as AnalysisResult;
-};
\ No newline at end of file
+    COURSES AND THEIR INTENDED LEARNING OUTCOMES (ILOs):
+    ${courseText}
+
+    INSTRUCTIONS:
+    1. For each ILO, list the PLOs it clearly contributes to. An ILO may map to several PLOs or to none. Do not force weak matches.
+    2. Give the level at which the ILO addresses the PLO:
+       - "introduced": first exposure, basic knowledge or comprehension.
+       - "reinforced": practice and application at an intermediate level.
+       - "mastered": demonstrated at an advanced level (analysis, evaluation, creation, capstone work).
+    3. Use the exact courseKey, ILO id and PLO id strings given above.
+    4. Write a one-sentence rationale in ${langName}.
+
+    Return JSON: { "mappings": [{ "courseKey": "...", "iloId": "ILO1", "ploId": "PLO1", "level": "introduced", "rationale": "..." }] }
+  `;
+
+  const result = await generateValidated<PloSuggestions>(
+    {
+      stage: 'mapPlos',
+      parts: [{ text: prompt }],
+      jsonOutput: true,
+      responseSchema: toResponseSchema(ploSuggestionsSpec),
+      signal,
+    },
+    ploSuggestionsSpec,
+    90000,
+    "Curriculum mapping timed out (90s).",
+    onUsage
+  );
+
+  const ploIds = new Set(outcomes.map(o => o.id));
+  return result.mappings
+    .filter(m => ploIds.has(m.ploId) && courses.some(c => c.courseKey === m.courseKey && c.ilos.some(ilo => ilo.id === m.iloId)))
+    .map(m => ({ ...m, status: 'suggested' }));
+};
@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { EvaluationCriteria, HistoryEntry } from '../types';
+import { DEFAULT_ASSESSMENT_RULES } from './assessmentRules';
+import { DEFAULT_MAX_REFERENCE_AGE } from './citationParser';
+import { createHistoryEntry, filterHistory, parseArchive, serializeArchive } from './historyStore';
+import { analyzeSyllabus } from './pipeline';
+import { createFixtureProvider, setProvider } from './providers';
+import { defaultRubric } from './rubric';
+import { DEFAULT_TEMPLATE } from './syllabusTemplate';
+
+const criteria: EvaluationCriteria = {
+  rubric: defaultRubric(),
+  benchmarkUniversities: 'MIT',
+  assessmentRules: DEFAULT_ASSESSMENT_RULES,
+  maxReferenceAge: DEFAULT_MAX_REFERENCE_AGE,
+  syllabusTemplate: DEFAULT_TEMPLATE,
+};
+
+let entry: HistoryEntry;
+
+beforeAll(async () => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  setProvider(createFixtureProvider());
+  const file = new File(['Course Information\n\nData Structures (CS 221)'], 'ds-fall.txt', { type: 'text/plain' });
+  entry = await createHistoryEntry(file, criteria, 'en', await analyzeSyllabus(file, criteria, 'en'));
+  setProvider(null);
+  vi.restoreAllMocks();
+});
+
+const variant = (id: string, courseTitle: string, overallScore: number, fileName = `${id}.pdf`): HistoryEntry =>
+  ({ ...entry, id, fileName, result: { ...entry.result, courseTitle, overallScore } });
+
+describe('filterHistory', () => {
+  const entries = () => [variant('a', 'Data Structures', 72), variant('b', 'Algorithms', 55), variant('c', 'Databases', 90, 'DB-final.docx')];
+  const ids = (list: HistoryEntry[]) => list.map(e => e.id);
+
+  it('matches the title or file name, ignoring case', () => {
+    expect(ids(filterHistory(entries(), { query: 'data' }))).toEqual(['a', 'c']);
+    expect(ids(filterHistory(entries(), { query: '  db-FINAL ' }))).toEqual(['c']);
+    expect(ids(filterHistory(entries(), { query: '' }))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('matches the course code', () => {
+    const code = entry.result.syllabus.course.code;
+    expect(code).toBeTruthy();
+    expect(filterHistory(entries(), { query: code!.toLowerCase() })).toHaveLength(3);
+  });
+
+  it('keeps scores within inclusive bounds', () => {
+    expect(ids(filterHistory(entries(), { minScore: 72 }))).toEqual(['a', 'c']);
+    expect(ids(filterHistory(entries(), { maxScore: 72 }))).toEqual(['a', 'b']);
+    expect(ids(filterHistory(entries(), { query: 'a', minScore: 60, maxScore: 80 }))).toEqual(['a']);
+  });
+});
+
+describe('parseArchive', () => {
+  it('reads back an exported archive', () => {
+    const entries = [variant('a', 'Data Structures', 72), variant('b', 'Algorithms', 55)];
+    expect(parseArchive(serializeArchive(entries))).toEqual({ entries: JSON.parse(JSON.stringify(entries)), issues: [] });
+  });
+
+  it('rejects files that are not archives', () => {
+    expect(parseArchive('{"format":').entries).toEqual([]);
+    expect(parseArchive('{"format":').issues.map(i => i.path)).toEqual(['$']);
+    expect(parseArchive('[]').issues).toEqual([{ path: '$', message: 'is not a pau-history archive' }]);
+    expect(parseArchive(JSON.stringify({ format: 'pau-history', entries: {} })).issues).toEqual([{ path: '$', message: 'is not a pau-history archive' }]);
+  });
+
+  it('skips invalid entries and reports where they are', () => {
+    const archive = JSON.parse(serializeArchive([variant('a', 'Data Structures', 72), variant('b', 'Algorithms', 55)]));
+    archive.entries[1].language = 'fr';
+    const { entries, issues } = parseArchive(JSON.stringify(archive));
+    expect(entries.map(e => e.id)).toEqual(['a']);
+    expect(issues.map(i => i.path)).toEqual(['$.entries[1].language']);
+  });
+});
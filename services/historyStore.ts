@@ -0,0 +1,128 @@
+import { AnalysisResult, EvaluationCriteria, HistoryEntry } from "../types";
+import { hashFile } from "./fileHash";
+import { ANALYSES_STORE, openDb, withStore as withDbStore } from "./localDb";
+import { historyEntrySpec, validate, ValidationIssue } from "./schema";
+
+const ARCHIVE_FORMAT = 'pau-history';
+const ARCHIVE_VERSION = 1;
+
+export interface HistoryFilter {
+  query?: string; // matched against course title, code and file name
+  minScore?: number;
+  maxScore?: number;
+}
+
+const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  withDbStore(ANALYSES_STORE, mode, run);
+
+/**
+ * Builds the history entry for a completed analysis. The id is assigned here
+ * so the report can be routed to before the entry is stored.
+ */
+export const createHistoryEntry = async (
+  file: File,
+  criteria: EvaluationCriteria,
+  language: 'en' | 'ar',
+  result: AnalysisResult
+): Promise<HistoryEntry> => ({
+  id: crypto.randomUUID(),
+  createdAt: new Date().toISOString(),
+  fileName: file.name,
+  fileHash: await hashFile(file),
+  language,
+  criteria,
+  result,
+});
+
+export const saveAnalysis = async (entry: HistoryEntry): Promise<void> => {
+  await withStore('readwrite', store => store.put(entry));
+};
+
+/**
+ * All saved analyses, newest first.
+ */
+export const listAnalyses = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getAnalysis = (id: string): Promise<HistoryEntry | undefined> =>
+  withStore<HistoryEntry | undefined>('readonly', store => store.get(id));
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const filterHistory = (entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] => {
+  const query = filter.query?.trim().toLowerCase();
+  return entries.filter(entry => {
+    const score = entry.result.overallScore;
+    if (filter.minScore !== undefined && score < filter.minScore) return false;
+    if (filter.maxScore !== undefined && score > filter.maxScore) return false;
+    if (!query) return true;
+    return [entry.result.courseTitle, entry.result.syllabus?.course.code, entry.fileName]
+      .some(field => field?.toLowerCase().includes(query));
+  });
+};
+
+/**
+ * Serializes entries in the archive format read by importArchive.
+ */
+export const serializeArchive = (entries: HistoryEntry[]): string =>
+  JSON.stringify({
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+  }, null, 2);
+
+/**
+ * Serializes the whole archive as JSON.
+ */
+export const exportArchive = async (): Promise<string> => serializeArchive(await listAnalyses());
+
+/**
+ * Reads an exported archive. Valid entries are returned; invalid ones are
+ * skipped and reported.
+ */
+export const parseArchive = (json: string): { entries: HistoryEntry[]; issues: ValidationIssue[] } => {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(json);
+  } catch (e) {
+    return { entries: [], issues: [{ path: '$', message: e instanceof Error ? e.message : 'is not valid JSON' }] };
+  }
+  const { format, entries } = (typeof archive === 'object' && archive !== null ? archive : {}) as { format?: unknown; entries?: unknown };
+  if (format !== ARCHIVE_FORMAT || !Array.isArray(entries)) {
+    return { entries: [], issues: [{ path: '$', message: `is not a ${ARCHIVE_FORMAT} archive` }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const valid: HistoryEntry[] = [];
+  entries.forEach((entry: unknown, i: number) => {
+    const entryIssues = validate(historyEntrySpec, entry, `$.entries[${i}]`);
+    if (entryIssues.length === 0) valid.push(entry as HistoryEntry);
+    else issues.push(...entryIssues);
+  });
+  return { entries: valid, issues };
+};
+
+/**
+ * Imports an exported archive. Valid entries are stored (replacing entries
+ * with the same id); invalid ones are skipped and reported.
+ */
+export const importArchive = async (json: string): Promise<{ imported: number; issues: ValidationIssue[] }> => {
+  const { entries, issues } = parseArchive(json);
+  if (entries.length === 0) return { imported: 0, issues };
+
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(ANALYSES_STORE, 'readwrite');
+    entries.forEach(entry => tx.objectStore(ANALYSES_STORE).put(entry));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+  return { imported: entries.length, issues };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { runQueue } from './jobQueue';
+
+interface Deferred {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+const deferred = (): Deferred => {
+  let resolve!: () => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+// Lets pending promise callbacks run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runQueue', () => {
+  it('runs at most `concurrency` items at once, in order', async () => {
+    const pending = new Map<number, Deferred>();
+    let running = 0;
+    let peak = 0;
+    const done = runQueue([1, 2, 3, 4, 5], async item => {
+      running++;
+      peak = Math.max(peak, running);
+      const d = deferred();
+      pending.set(item, d);
+      await d.promise.finally(() => running--);
+    }, { concurrency: 2, maxAttempts: 1 });
+
+    await settle();
+    expect([...pending.keys()]).toEqual([1, 2]);
+    pending.get(2)!.resolve();
+    await settle();
+    expect([...pending.keys()]).toEqual([1, 2, 3]);
+    pending.get(1)!.resolve();
+    pending.get(3)!.resolve();
+    await settle();
+    expect([...pending.keys()]).toEqual([1, 2, 3, 4, 5]);
+    pending.get(4)!.resolve();
+    pending.get(5)!.resolve();
+    await done;
+    expect(peak).toBe(2);
+  });
+
+  it('retries only the items that failed', async () => {
+    const attempts: string[] = [];
+    const retried: string[] = [];
+    await runQueue(['a', 'b', 'c'], async (item, attempt) => {
+      attempts.push(`${item}${attempt}`);
+      if (item === 'b' && attempt < 3) throw new Error('busy');
+    }, {
+      concurrency: 3,
+      maxAttempts: 3,
+      retryDelayMs: 0,
+      onAttemptFailed: (item, attempt) => retried.push(`${item}${attempt}`),
+    });
+
+    expect(attempts.sort()).toEqual(['a1', 'b1', 'b2', 'b3', 'c1']);
+    expect(retried).toEqual(['b1', 'b2']);
+  });
+
+  it('reports items that use up their attempts without rejecting', async () => {
+    const failed: [string, unknown][] = [];
+    const finished: string[] = [];
+    const error = new Error('unreadable');
+    await expect(runQueue(['ok', 'bad'], async (item, attempt) => {
+      if (item === 'bad') throw attempt === 2 ? error : new Error('first');
+      finished.push(item);
+    }, {
+      concurrency: 1,
+      maxAttempts: 2,
+      retryDelayMs: 0,
+      onFailed: (item, e) => failed.push([item, e]),
+    })).resolves.toBeUndefined();
+
+    expect(finished).toEqual(['ok']);
+    expect(failed).toEqual([['bad', error]]);
+  });
+
+  it('resolves for an empty queue', async () => {
+    await expect(runQueue([], async () => {}, { concurrency: 3, maxAttempts: 1 })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+export interface QueueOptions<T> {
+  concurrency: number;
+  maxAttempts: number; // including the first try
+  retryDelayMs?: number; // multiplied by the attempt number
+  onAttemptFailed?: (item: T, attempt: number, error: unknown) => void;
+  onFailed?: (item: T, error: unknown) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 3;
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` items in flight,
+ * retrying a failed item up to `maxAttempts` times with linear backoff.
+ * Resolves once every item has succeeded or used up its attempts; items that
+ * never succeed are reported through `onFailed` rather than rejecting.
+ */
+export const runQueue = async <T>(
+  items: T[],
+  worker: (item: T, attempt: number) => Promise<void>,
+  options: QueueOptions<T>
+): Promise<void> => {
+  const { concurrency, maxAttempts, retryDelayMs = 2000, onAttemptFailed, onFailed } = options;
+  let next = 0;
+
+  const runItem = async (item: T) => {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await worker(item, attempt);
+        return;
+      } catch (error) {
+        if (attempt === maxAttempts) {
+          onFailed?.(item, error);
+          return;
+        }
+        onAttemptFailed?.(item, attempt, error);
+        await delay(retryDelayMs * attempt);
+      }
+    }
+  };
+
+  const lane = async () => {
+    while (next < items.length) {
+      await runItem(items[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+};
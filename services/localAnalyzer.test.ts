@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { SourceDocument } from '../types';
+import { extractDocumentText } from './documentText';
+import { analyzeDocumentLocally } from './localAnalyzer';
+import { DEFAULT_TEMPLATE } from './syllabusTemplate';
+
+const SYLLABUS = [
+  ['Data Structures'],
+  ['Course Information', 'Course Code: CS 221', 'Credit Hours: 3', 'Prerequisites: CS 110, MATH 101'],
+  ['Instructor Information', 'Instructor: Dr. Lina Haddad Email: l.haddad@pau.edu', 'Office Hours: Sun 10-12'],
+  ['Intended Learning Outcomes', 'Students will be able to:', '1. Explain how linked lists and trees store data.', '2. Implement stacks and queues in Java.'],
+  ['Weekly Plan', 'Week 1: Arrays, linked lists (ILO1)', 'Week 2: Stacks, queues (ILO2)'],
+  ['Assessment', 'Quizzes: 20% (ILO1)', 'Midterm Exam: 30%', 'Final Exam: 50%'],
+  ['References', 'Weiss, M. A. (2011). Data Structures and Algorithm Analysis in Java. Pearson.'],
+];
+
+const fromText = (text: string) => extractDocumentText(new File([text], 'syllabus.txt', { type: 'text/plain' }));
+
+describe('analyzeDocumentLocally', () => {
+  it('reads the sections of a syllabus with blank lines between paragraphs', async () => {
+    const { syllabus, stats } = analyzeDocumentLocally(await fromText(SYLLABUS.map(s => s.join('\n\n')).join('\n\n')), DEFAULT_TEMPLATE);
+
+    expect(syllabus.sectionHeadings).toEqual([
+      'Course Information', 'Instructor Information', 'Intended Learning Outcomes', 'Weekly Plan', 'Assessment', 'References',
+    ]);
+    expect(syllabus.course).toMatchObject({
+      title: 'Data Structures',
+      code: 'CS 221',
+      creditHours: 3,
+      prerequisites: ['CS 110', 'MATH 101'],
+      instructor: 'Dr. Lina Haddad',
+      instructorEmail: 'l.haddad@pau.edu',
+    });
+    expect(syllabus.ilos).toEqual([
+      { id: 'ILO1', text: 'Explain how linked lists and trees store data.' },
+      { id: 'ILO2', text: 'Implement stacks and queues in Java.' },
+    ]);
+    expect(syllabus.weeklyPlan).toEqual([
+      { week: 1, topics: ['Arrays', 'linked lists'], iloIds: ['ILO1'] },
+      { week: 2, topics: ['Stacks', 'queues'], iloIds: ['ILO2'] },
+    ]);
+    expect(syllabus.assessments.map(a => [a.name, a.type, a.weight])).toEqual([
+      ['Quizzes', 'quiz', 20], ['Midterm Exam', 'midterm', 30], ['Final Exam', 'final', 50],
+    ]);
+    expect(syllabus.references).toHaveLength(1);
+    expect(stats.sections.find(s => s.heading === 'Weekly Plan')?.words).toBe(11);
+  });
+
+  it('finds headings placed directly above their content', async () => {
+    const spaced = analyzeDocumentLocally(await fromText(SYLLABUS.map(s => s.join('\n\n')).join('\n\n')), DEFAULT_TEMPLATE);
+    const compact = analyzeDocumentLocally(await fromText(SYLLABUS.map(s => s.join('\n')).join('\n')), DEFAULT_TEMPLATE);
+    expect(compact).toEqual(spaced);
+  });
+
+  it('reads a heading followed by its content on the same line', () => {
+    const source: SourceDocument = {
+      fileName: 'syllabus.pdf',
+      pages: [{ page: 1, paragraphs: ['Learning Outcomes: 1. Explain binary search trees. 2. Analyse the cost of sorting.', 'Grading: Project 40%, Final 60%'] }],
+    };
+    const { syllabus } = analyzeDocumentLocally(source, DEFAULT_TEMPLATE);
+    expect(syllabus.ilos.map(i => i.text)).toEqual(['Explain binary search trees.', 'Analyse the cost of sorting.']);
+    expect(syllabus.assessments.map(a => a.weight)).toEqual([40, 60]);
+  });
+
+  it('reads unnumbered lists with one item per line', () => {
+    const source: SourceDocument = {
+      fileName: 'syllabus.txt',
+      pages: [{ page: 1, paragraphs: [
+        'Learning Outcomes\nUnderstand linked lists and trees.\nImplement stacks and queues in Java.\nDesign a small graph library.',
+        'References\nGoodrich, M. T. (2014). Data Structures and Algorithms in Java. Wiley.\nCormen, T. (2022). Introduction to Algorithms. MIT Press.',
+      ] }],
+    };
+    const { syllabus } = analyzeDocumentLocally(source, DEFAULT_TEMPLATE);
+    expect(syllabus.ilos).toEqual([
+      { id: 'ILO1', text: 'Understand linked lists and trees.' },
+      { id: 'ILO2', text: 'Implement stacks and queues in Java.' },
+      { id: 'ILO3', text: 'Design a small graph library.' },
+    ]);
+    expect(syllabus.references).toEqual([
+      'Goodrich, M. T. (2014). Data Structures and Algorithms in Java. Wiley.',
+      'Cormen, T. (2022). Introduction to Algorithms. MIT Press.',
+    ]);
+  });
+
+  it('keeps an item together when it wraps onto a lower-case line', () => {
+    const source: SourceDocument = {
+      fileName: 'syllabus.pdf',
+      pages: [{ page: 1, paragraphs: ['Learning Outcomes\nAnalyse the running time of recursive\nalgorithms and data structures.\nImplement hash tables.'] }],
+    };
+    expect(analyzeDocumentLocally(source, DEFAULT_TEMPLATE).syllabus.ilos.map(i => i.text)).toEqual([
+      'Analyse the running time of recursive algorithms and data structures.',
+      'Implement hash tables.',
+    ]);
+  });
+
+  it('reads Arabic headings and Arabic-Indic digits', () => {
+    const source: SourceDocument = {
+      fileName: 'syllabus.docx',
+      pages: [{ page: 1, paragraphs: ['مخرجات التعلم\n١. أن يشرح الطالب مفهوم القوائم المترابطة.', 'الخطة الأسبوعية\nالأسبوع ١: المصفوفات'] }],
+    };
+    const { syllabus } = analyzeDocumentLocally(source, DEFAULT_TEMPLATE);
+    expect(syllabus.sectionHeadings).toEqual(['مخرجات التعلم', 'الخطة الأسبوعية']);
+    expect(syllabus.ilos).toEqual([{ id: 'ILO1', text: 'أن يشرح الطالب مفهوم القوائم المترابطة.' }]);
+    expect(syllabus.weeklyPlan).toEqual([{ week: 1, topics: ['المصفوفات'], iloIds: [] }]);
+  });
+});
@@ -0,0 +1,344 @@
+import { translations } from "../translations";
+import { Assessment, CoursePolicy, DocumentStats, EvaluationCriteria, IntendedLearningOutcome, SourceDocument, Syllabus, SyllabusTemplate, WeeklyPlanEntry } from "../types";
+import { buildAlignmentMatrix } from "./alignmentMatrix";
+import { classifyILO } from "./bloomClassifier";
+import { LocalChecks } from "./localChecks";
+import { enabledCriteria } from "./rubric";
+import { formatMessage } from "./ruleFindings";
+import { EvaluationOutput } from "./schema";
+import { containsPhrase, normalizeText } from "./textUtils";
+
+/**
+ * Rule-based reading of the extracted document text. It needs no model, so a
+ * baseline report can always be produced; the model stages replace its
+ * syllabus and scores when they succeed.
+ */
+export interface LocalAnalysis {
+  syllabus: Syllabus;
+  stats: DocumentStats;
+}
+
+// Labelled course fields ("Course Code: CS 221"), longest label first
+const FIELD_LABELS = {
+  title: ['course title', 'course name', 'اسم المساق', 'عنوان المساق', 'اسم المقرر', 'عنوان المقرر'],
+  code: ['course code', 'course number', 'رمز المساق', 'رقم المساق', 'رمز المقرر', 'رقم المقرر'],
+  department: ['department', 'القسم'],
+  instructor: ['course instructor', 'instructor name', 'instructor', 'lecturer', 'مدرس المساق', 'اسم المدرس', 'مدرس المقرر', 'المحاضر'],
+  officeHours: ['office hours', 'الساعات المكتبية'],
+  semester: ['academic semester', 'semester', 'term', 'الفصل الدراسي'],
+  creditHours: ['credit hours', 'credits', 'الساعات المعتمدة', 'عدد الساعات المعتمدة'],
+  prerequisites: ['prerequisites', 'prerequisite', 'pre-requisites', 'المتطلبات السابقة', 'المتطلب السابق'],
+};
+
+// Labels that end the previous value on a shared line
+const KNOWN_LABELS = [...Object.values(FIELD_LABELS).flat(), 'email', 'e-mail', 'phone', 'tel', 'البريد الإلكتروني', 'الهاتف'];
+
+const ASSESSMENT_TYPES: { type: string; pattern: RegExp }[] = [
+  { type: 'final', pattern: /final|نهائي/i },
+  { type: 'midterm', pattern: /mid-?term|نصفي|منتصف/i },
+  { type: 'quiz', pattern: /quiz|قصير|قصيرة/i },
+  { type: 'project', pattern: /project|مشروع/i },
+  { type: 'assignment', pattern: /assignment|homework|واجب|واجبات|تكليف/i },
+  { type: 'lab', pattern: /lab|مختبر|عملي/i },
+  { type: 'presentation', pattern: /presentation|عرض تقديمي/i },
+  { type: 'participation', pattern: /participation|مشاركة/i },
+];
+
+const MAX_HEADING_WORDS = 8;
+// Longer lines ending in a colon are usually lead-ins ("Students will be able to:")
+const MAX_UNKNOWN_HEADING_WORDS = 4;
+
+const ARABIC_DIGITS = /[٠-٩]/g;
+const toLatinDigits = (text: string) => text.replace(ARABIC_DIGITS, d => String(d.charCodeAt(0) - 0x0660));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const NEXT_LABEL = new RegExp(`\\s(?:${KNOWN_LABELS.map(escapeRegExp).join('|')})\\s*[:：]`, 'iu');
+
+const countWords = (text: string) => (text.match(/\S+/g) || []).length;
+
+// "1. ", "2) ", "• " at the start of an item
+const ITEM_MARKER = /^(?:[\d٠-٩]{1,2}[.)]|[•▪●◦■])\s*/;
+const ITEM_SPLIT = /\s(?=[\d٠-٩]{1,2}[.)]\s|[•▪●◦■])/;
+const ILO_SPLIT = /\s(?=[\d٠-٩]{1,2}[.)]\s|[•▪●◦■]|(?:ILO|CLO)\s?-?[\d٠-٩]+\s*[:.)\-–])/i;
+
+// A list may also put one item per line without markers; a line starting in
+// lower case continues the item above it, as wrapped PDF lines do
+const LINE_SPLIT = /\n(?!\p{Ll})/u;
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const splitItems = (paragraphs: string[], separator = ITEM_SPLIT) =>
+  paragraphs.flatMap(p => p.split(separator)).map(item => collapse(item.replace(ITEM_MARKER, ''))).filter(Boolean);
+
+const iloRefs = (text: string) =>
+  Array.from(new Set([...toLatinDigits(text).matchAll(/\b(?:ILO|CLO)\s?-?(\d+)/gi)].map(m => `ILO${Number(m[1])}`)));
+
+interface Heading {
+  text: string;
+  sectionId?: string; // template section the heading names, if any
+  remainder: string; // text after the heading on the same line
+}
+
+/**
+ * Recognises a line that opens a section: a template section synonym
+ * within its first words, either as a short line or followed by a colon.
+ * Other short lines ending in a colon are headings of unknown sections.
+ */
+const matchHeading = (line: string, template: SyllabusTemplate): Heading | undefined => {
+  const stripped = line.replace(/^(?:[\d٠-٩]+|[IVX]+)[.)\-]?\s+/, '');
+  const tokens = stripped.split(/\s+/);
+
+  let best: (Heading & { length: number }) | undefined;
+  for (const section of template.sections) {
+    const synonyms = [section.name, ...section.synonyms.en, ...section.synonyms.ar].map(normalizeText).filter(Boolean);
+    for (let start = 0; start < Math.min(3, tokens.length); start++) {
+      for (let end = start + 1; end <= Math.min(tokens.length, start + 6); end++) {
+        const phrase = normalizeText(tokens.slice(start, end).join(' '));
+        if (!synonyms.includes(phrase) || (best && best.length >= phrase.length)) continue;
+        const rest = tokens.slice(end).join(' ');
+        const labelled = /[:：]$/.test(tokens[end - 1]) || /^[:：]/.test(rest);
+        if (tokens.length > MAX_HEADING_WORDS && !labelled) continue;
+        best = {
+          text: tokens.slice(0, end).join(' ').replace(/[:：]$/, ''),
+          sectionId: section.id,
+          remainder: rest.replace(/^[:：\-–]\s*/, ''),
+          length: phrase.length,
+        };
+      }
+    }
+  }
+  if (best) return { text: best.text, sectionId: best.sectionId, remainder: best.remainder };
+
+  if (tokens.length <= MAX_UNKNOWN_HEADING_WORDS && /[:：]$/.test(stripped)) {
+    return { text: stripped.replace(/[:：]$/, ''), remainder: '' };
+  }
+  return undefined;
+};
+
+/**
+ * Value of the first "Label: value" pair for any of `labels`. The value ends
+ * at the next known label on the same line ("Instructor: X Email: Y").
+ */
+const labelValue = (paragraphs: string[], labels: string[]): string | undefined => {
+  for (const paragraph of paragraphs) {
+    for (const label of labels) {
+      const match = new RegExp(`(?:^|[\\s|])${escapeRegExp(label)}\\s*[:：]\\s*(.+)`, 'iu').exec(paragraph);
+      if (!match) continue;
+      const value = match[1].split(NEXT_LABEL)[0].trim();
+      if (value) return value.slice(0, 120);
+    }
+  }
+  return undefined;
+};
+
+const parseWeeklyPlan = (paragraphs: string[]): WeeklyPlanEntry[] =>
+  collapse(paragraphs.join(' '))
+    .split(/(?=\b(?:week|wk)\.?\s*[\d٠-٩]+|(?:الأسبوع|الاسبوع)\s*[\d٠-٩]+)/i)
+    .flatMap(chunk => {
+      const match = /^(?:week|wk|الأسبوع|الاسبوع)\.?\s*([\d٠-٩]+)(?:\s*[-–]\s*[\d٠-٩]+)?\s*[:.)\-–]?\s*(.*)$/i.exec(chunk.trim());
+      if (!match) return [];
+      const topics = match[2]
+        .replace(/\(?\b(?:ILO|CLO)s?\s?-?[\d٠-٩]+(?:\s*[,،&]\s*(?:(?:ILO|CLO)\s?-?)?[\d٠-٩]+)*\)?/gi, '')
+        .split(/[,;،؛]/)
+        .map(topic => topic.trim())
+        .filter(Boolean);
+      return [{ week: Number(toLatinDigits(match[1])), topics, iloIds: iloRefs(match[2]) }];
+    });
+
+// A grading scheme usually lists one assessment per line, ending with its weight
+const WEIGHT_LINE_END = /(?<=[%٪][^\n]*)\n/;
+
+const parseAssessments = (paragraphs: string[]): Assessment[] =>
+  splitItems(paragraphs.flatMap(p => p.split(WEIGHT_LINE_END))).flatMap(item => {
+    // "Midterm (Week 8): 30%" - drop notes in brackets unless they hold the weight
+    const matches = [...item.replace(/\([^)%٪]*\)/g, ' ').matchAll(/([^\d٠-٩%٪:|]{2,60}?)\s*[:(\-–]?\s*([\d٠-٩]{1,3}(?:\.[\d٠-٩]+)?)\s*[%٪]/g)];
+    const week = /(?:week|الأسبوع|الاسبوع)\s*([\d٠-٩]+)/i.exec(item);
+    return matches.flatMap(match => {
+      const name = match[1].replace(/^[\s,;،؛.\-–•)]+|[\s:(\-–]+$/g, '').trim();
+      const weight = Number(toLatinDigits(match[2]));
+      if (!/\p{L}/u.test(name) || weight > 100 || /^(?:total|المجموع)/i.test(name)) return [];
+      return [{
+        name,
+        type: ASSESSMENT_TYPES.find(t => t.pattern.test(name))?.type || 'other',
+        weight,
+        week: week ? Number(toLatinDigits(week[1])) : undefined,
+        // ILO references only belong to the assessment when the line lists one
+        iloIds: matches.length === 1 ? iloRefs(item) : [],
+      }];
+    });
+  });
+
+const parseIlos = (paragraphs: string[]): IntendedLearningOutcome[] =>
+  splitItems(paragraphs.flatMap(p => p.split(LINE_SPLIT)), ILO_SPLIT)
+    // Lead-ins such as "Students will be able to:" are not outcomes
+    .filter(item => !/[:：]$/.test(item) && countWords(item) >= 3)
+    .map((item, index) => {
+      const id = /^(?:ILO|CLO)\s?-?([\d٠-٩]+)\s*[:.)\-–]?\s*/i.exec(item);
+      return id
+        ? { id: `ILO${Number(toLatinDigits(id[1]))}`, text: item.slice(id[0].length).trim() }
+        : { id: `ILO${index + 1}`, text: item };
+    });
+
+const parsePolicies = (sectionParagraphs: string[], allParagraphs: string[], template: SyllabusTemplate): CoursePolicy[] => {
+  const keywords = template.mandatoryFields.flatMap(f => f.policyKeywords || []);
+  const toPolicy = (text: string): CoursePolicy => {
+    const label = /^([^:：]{2,60})[:：]\s*(.+)$/.exec(text);
+    return label && countWords(label[1]) <= 6 ? { title: label[1].trim(), text: label[2].trim() } : { title: '', text };
+  };
+  // Policy statements often sit outside a "Policies" heading
+  const mentioned = allParagraphs.filter(p => !sectionParagraphs.includes(p) && keywords.some(k => containsPhrase(p, k)));
+  return [...sectionParagraphs, ...mentioned].map(toPolicy);
+};
+
+/**
+ * Reads headings, course fields, ILOs, the weekly plan, the grading scheme,
+ * references and policies from the plain document text, in English or
+ * Arabic, and counts the words under each heading.
+ */
+export const analyzeDocumentLocally = (source: SourceDocument, template: SyllabusTemplate): LocalAnalysis => {
+  const paragraphs = source.pages.flatMap(p => p.paragraphs);
+  const sections: Record<string, string[]> = {};
+  const headings: string[] = [];
+  const blocks: string[] = [];
+  const stats: DocumentStats = { totalWords: 0, sections: [] };
+  let current: string | undefined;
+  let firstContent: string | undefined;
+
+  // Section text keeps its line breaks for the grading scheme
+  const addContent = (lines: string[]) => {
+    const block = lines.join(' ');
+    blocks.push(block);
+    if (stats.sections.length > 0) stats.sections[stats.sections.length - 1].words += countWords(block);
+    else if (!firstContent && countWords(block) <= 12 && !/[:：]/.test(block)) firstContent = block;
+    if (current) (sections[current] ||= []).push(lines.join('\n'));
+  };
+
+  for (const paragraph of paragraphs) {
+    stats.totalWords += countWords(paragraph);
+    // A heading often sits directly above its text without a blank line, so
+    // each line is checked; the lines between two headings stay one block
+    let lines: string[] = [];
+    for (const line of paragraph.split('\n')) {
+      const heading = matchHeading(line, template);
+      // "Instructor: Dr. X" under "Instructor Information" is a field, not a new section
+      if (!heading || (heading.sectionId && heading.sectionId === current && heading.remainder)) {
+        lines.push(line);
+        continue;
+      }
+      if (lines.length > 0) addContent(lines);
+      lines = [];
+      headings.push(heading.text);
+      stats.sections.push({ heading: heading.text, words: countWords(heading.remainder) });
+      current = heading.sectionId;
+      if (current && heading.remainder) (sections[current] ||= []).push(heading.remainder);
+    }
+    if (lines.length > 0) addContent(lines);
+  }
+
+  const field = (key: keyof typeof FIELD_LABELS) => labelValue(paragraphs, FIELD_LABELS[key]);
+  const text = paragraphs.join('\n');
+  const creditHours = Number(toLatinDigits(field('creditHours') || '').match(/\d+(?:\.\d+)?/)?.[0]);
+  const prerequisites = field('prerequisites');
+  const description = (sections.courseInfo || []).map(collapse).find(p => countWords(p) > 15);
+
+  return {
+    syllabus: {
+      course: {
+        title: field('title') || firstContent || source.fileName.replace(/\.[^.]+$/, ''),
+        code: field('code') || /\b[A-Z]{2,4}\s?-?\d{3,4}\b/.exec(text)?.[0],
+        department: field('department'),
+        instructor: field('instructor'),
+        instructorEmail: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/.exec(text)?.[0],
+        officeHours: field('officeHours'),
+        semester: field('semester'),
+        creditHours: creditHours > 0 && creditHours <= 30 ? creditHours : undefined,
+        prerequisites: prerequisites && !/^(?:none|n\/a|لا يوجد|لا شيء)$/i.test(prerequisites)
+          ? prerequisites.split(/[,;،؛]/).map(p => p.trim()).filter(Boolean)
+          : [],
+        description,
+      },
+      ilos: parseIlos(sections.ilos || []),
+      weeklyPlan: parseWeeklyPlan(sections.weeklyPlan || []),
+      assessments: parseAssessments(sections.assessments || []),
+      references: splitItems((sections.references || []).flatMap(p => p.split(LINE_SPLIT))).filter(item => countWords(item) >= 3),
+      policies: parsePolicies((sections.policies || []).map(collapse), blocks, template),
+      sectionHeadings: headings,
+    },
+    stats,
+  };
+};
+
+// Score lost per assessment finding
+const SEVERITY_PENALTY = { critical: 40, major: 20, minor: 5 };
+
+/**
+ * Scores the ILO and assessment criteria from the syllabus data alone, for
+ * when the model evaluation is unavailable. Criteria that need judgement are
+ * left unscored, so the overall score covers only what was checked.
+ */
+export const evaluateLocally = (
+  syllabus: Syllabus,
+  checks: LocalChecks,
+  criteria: EvaluationCriteria,
+  language: 'en' | 'ar'
+): EvaluationOutput => {
+  const t = translations[language].localAnalysis;
+  const evaluation: EvaluationOutput = {
+    sectionScores: [],
+    gapAnalysis: { missingComponents: [], weaknesses: [], strengths: [] },
+    recommendations: [],
+    revisedILOs: [],
+    suggestedActivities: [],
+  };
+  const criterion = (id: string) => enabledCriteria(criteria.rubric).find(c => c.id === id);
+  const ilos = syllabus.ilos;
+
+  const clarity = criterion('iloClarity');
+  if (clarity) {
+    const unmeasurable = ilos.filter(ilo => !classifyILO(ilo.text).measurable);
+    evaluation.sectionScores.push({
+      criterionId: clarity.id,
+      section: clarity.name,
+      score: ilos.length === 0 ? 0 : Math.round(((ilos.length - unmeasurable.length) / ilos.length) * 100),
+      feedback: formatMessage(t.iloClarityFeedback, { measurable: ilos.length - unmeasurable.length, total: ilos.length }),
+      evidence: ilos.length === 0 ? [{ quote: '', absent: true }] : unmeasurable.slice(0, 3).map(ilo => ({ quote: ilo.text })),
+    });
+    if (ilos.length === 0) {
+      evaluation.gapAnalysis.missingComponents.push({ text: t.noIlos, evidence: [{ quote: '', absent: true }] });
+    }
+    for (const ilo of unmeasurable) {
+      evaluation.gapAnalysis.weaknesses.push({ text: formatMessage(t.unmeasurableIlo, { id: ilo.id }), evidence: [{ quote: ilo.text }] });
+    }
+  }
+
+  // Alignment is only judged when the document links ILOs to weeks or assessments at all
+  const alignment = criterion('iloAlignment');
+  const matrix = buildAlignmentMatrix(syllabus);
+  if (alignment && ilos.length > 0 && matrix.rows.some(row => !row.orphan || !row.unassessed)) {
+    const taught = matrix.rows.filter(row => !row.orphan).length;
+    const assessed = matrix.rows.filter(row => !row.unassessed).length;
+    evaluation.sectionScores.push({
+      criterionId: alignment.id,
+      section: alignment.name,
+      score: Math.round(((taught + assessed) / (ilos.length * 2)) * 100),
+      feedback: formatMessage(t.alignmentFeedback, { taught, assessed, total: ilos.length }),
+      evidence: matrix.rows.filter(row => row.orphan || row.unassessed).slice(0, 3).map(row => ({ quote: row.iloText })),
+    });
+  }
+
+  const assessment = criterion('assessmentQuality');
+  if (assessment) {
+    const findings = checks.ruleFindings.filter(f => f.rule.startsWith('assessment.'));
+    const penalty = findings.reduce((sum, f) => sum + SEVERITY_PENALTY[f.severity], 0);
+    evaluation.sectionScores.push({
+      criterionId: assessment.id,
+      section: assessment.name,
+      score: syllabus.assessments.length === 0 ? 0 : Math.max(0, 100 - penalty),
+      feedback: formatMessage(t.assessmentFeedback, { issues: findings.length, total: syllabus.assessments.length }),
+      evidence: findings.flatMap(f => f.evidence).slice(0, 3),
+    });
+  }
+
+  return evaluation;
+};
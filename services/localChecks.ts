@@ -0,0 +1,129 @@
+import { translations } from "../translations";
+import { AnalysisResult, ComplianceReport, EvaluationCriteria, ReferenceReport, Rubric, RuleFinding, SectionScore, Syllabus } from "../types";
+import { checkAssessments } from "./assessmentRules";
+import { analyzeReferences } from "./citationParser";
+import { computeOverallScore, enabledCriteria } from "./rubric";
+import { createFinding, formatMessage, mergeFindings } from "./ruleFindings";
+import { EvaluationOutput } from "./schema";
+import { checkCompliance } from "./syllabusTemplate";
+
+/**
+ * Results of the deterministic checks that run alongside the model evaluation.
+ */
+export interface LocalChecks {
+  ruleFindings: RuleFinding[];
+  referenceReport?: ReferenceReport;
+  complianceReport?: ComplianceReport;
+  sectionScores: SectionScore[]; // scores computed from data, replacing the model's opinion
+}
+
+const checkReferences = (report: ReferenceReport, language: 'en' | 'ar'): RuleFinding[] => {
+  if (report.entries.length === 0) {
+    return [createFinding('references.missing', 'critical', 'missing', {}, language)];
+  }
+
+  const findings: RuleFinding[] = [];
+  const old = report.entries.filter(e => e.age !== undefined && e.age > report.maxAgeYears);
+  const undated = report.entries.filter(e => e.age === undefined);
+
+  if (old.length > 0) {
+    findings.push(createFinding('references.outdated', 'major', 'weakness',
+      { count: old.length, total: report.entries.length, max: report.maxAgeYears }, language, old.map(e => e.raw)));
+  }
+  if (undated.length > 0) {
+    findings.push(createFinding('references.undated', 'minor', 'weakness', { count: undated.length }, language, undated.map(e => e.raw)));
+  }
+  return findings;
+};
+
+export const runLocalChecks = (
+  syllabus: Syllabus,
+  criteria: EvaluationCriteria,
+  language: 'en' | 'ar'
+): LocalChecks => {
+  const t = translations[language];
+  const ruleFindings: RuleFinding[] = [];
+  const sectionScores: SectionScore[] = [];
+  let referenceReport: ReferenceReport | undefined;
+  let complianceReport: ComplianceReport | undefined;
+  const criterion = (id: string) => enabledCriteria(criteria.rubric).find(c => c.id === id);
+
+  if (criterion('assessmentQuality')) {
+    ruleFindings.push(...checkAssessments(syllabus, criteria.assessmentRules, language));
+  }
+
+  const referenceCriterion = criterion('referenceCurrency');
+  if (referenceCriterion) {
+    referenceReport = analyzeReferences(syllabus.references, criteria.maxReferenceAge);
+    ruleFindings.push(...checkReferences(referenceReport, language));
+    // Undated references are not part of the score, so not of its feedback either
+    const dated = referenceReport.entries.filter(e => e.age !== undefined).length;
+    sectionScores.push({
+      criterionId: referenceCriterion.id,
+      section: referenceCriterion.name,
+      score: referenceReport.score,
+      feedback: formatMessage(t.referenceScoreFeedback, {
+        current: dated - referenceReport.outdatedCount,
+        total: dated,
+        max: referenceReport.maxAgeYears,
+      }),
+      // The outdated citations are what pulls the score down
+      evidence: referenceReport.entries.length === 0
+        ? [{ quote: '', absent: true }]
+        : referenceReport.entries.filter(e => e.outdated).slice(0, 3).map(e => ({ quote: e.raw })),
+    });
+  }
+
+  const structureCriterion = criterion('structureCompliance');
+  if (structureCriterion) {
+    const compliance = checkCompliance(syllabus, criteria.syllabusTemplate, language);
+    complianceReport = compliance.report;
+    ruleFindings.push(...compliance.findings);
+    const requiredItems = complianceReport.items.filter(i => i.required);
+    sectionScores.push({
+      criterionId: structureCriterion.id,
+      section: structureCriterion.name,
+      score: complianceReport.score,
+      feedback: formatMessage(t.complianceScoreFeedback, {
+        passed: requiredItems.filter(i => i.status === 'pass').length,
+        total: requiredItems.length,
+        template: complianceReport.templateName,
+      }),
+      evidence: [
+        ...(requiredItems.some(i => i.status === 'missing') ? [{ quote: '', absent: true }] : []),
+        ...complianceReport.items.filter(i => i.status === 'outOfOrder').map(i => ({ quote: i.matchedHeading || '' })),
+      ],
+    });
+  }
+
+  return { ruleFindings, referenceReport, complianceReport, sectionScores };
+};
+
+/**
+ * Combines the model evaluation with the local checks: computed section
+ * scores replace the model's score for the same criterion, rule findings
+ * are merged into the gap analysis and the overall score is computed from
+ * the rubric weights.
+ */
+export const applyLocalChecks = (
+  evaluation: EvaluationOutput,
+  checks: LocalChecks,
+  rubric: Rubric
+): Pick<AnalysisResult, 'overallScore' | 'rubric' | 'sectionScores' | 'gapAnalysis' | 'ruleFindings' | 'referenceReport' | 'complianceReport'> => {
+  // One score per enabled criterion, in rubric order; local scores win over the model's
+  const sectionScores = enabledCriteria(rubric).flatMap(criterion => {
+    const section = checks.sectionScores.find(s => s.criterionId === criterion.id)
+      || evaluation.sectionScores.find(s => s.criterionId === criterion.id);
+    return section ? [{ ...section, section: criterion.name }] : [];
+  });
+
+  return {
+    overallScore: computeOverallScore(sectionScores, rubric),
+    rubric,
+    sectionScores,
+    gapAnalysis: mergeFindings(evaluation.gapAnalysis, checks.ruleFindings),
+    ruleFindings: checks.ruleFindings,
+    referenceReport: checks.referenceReport,
+    complianceReport: checks.complianceReport,
+  };
+};
@@ -0,0 +1,77 @@
+const DB_NAME = 'pau-syllabus-evaluator';
+const DB_VERSION = 4;
+
+export const ANALYSES_STORE = 'analyses';
+export const CACHE_STORE = 'cache';
+export const USAGE_STORE = 'usage';
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the app's IndexedDB database, creating or upgrading its stores.
+ */
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Version 1: saved analyses
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+          store.createIndex('fileHash', 'fileHash');
+        }
+        // Version 2: cached model stage results
+        if (event.oldVersion < 2) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+        // Version 3: cache records by age, for sweeping expired ones
+        if (event.oldVersion < 3) {
+          request.transaction!.objectStore(CACHE_STORE).createIndex('createdAt', 'createdAt');
+        }
+        // Version 4: log of every model call, seeded with the calls of the saved analyses
+        if (event.oldVersion < 4) {
+          const usage = db.createObjectStore(USAGE_STORE, { autoIncrement: true });
+          usage.createIndex('timestamp', 'timestamp');
+          const cursorRequest = request.transaction!.objectStore(ANALYSES_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const { createdAt, result } = cursor.value;
+            (result?.modelCalls || []).forEach((call: { timestamp?: string }) => usage.add({ ...call, timestamp: call.timestamp || createdAt }));
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
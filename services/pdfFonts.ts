@@ -0,0 +1,36 @@
+/// <reference types="vite/client" />
+import arabicRegular from "@fontsource/ibm-plex-sans-arabic/files/ibm-plex-sans-arabic-arabic-400-normal.woff?url";
+import arabicBold from "@fontsource/ibm-plex-sans-arabic/files/ibm-plex-sans-arabic-arabic-700-normal.woff?url";
+import latinRegular from "@fontsource/ibm-plex-sans-arabic/files/ibm-plex-sans-arabic-latin-400-normal.woff?url";
+import latinBold from "@fontsource/ibm-plex-sans-arabic/files/ibm-plex-sans-arabic-latin-700-normal.woff?url";
+import type { PdfFonts } from "./pdfReport";
+
+// Bundled by Vite from the same package files the CLI reads (PDF_FONT_FILES)
+const BROWSER_FONT_URLS: Record<keyof PdfFonts, string> = {
+  latin: latinRegular,
+  latinBold,
+  arabic: arabicRegular,
+  arabicBold,
+};
+
+let browserFonts: Promise<PdfFonts> | undefined;
+
+const fetchFont = async (url: string) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not load the PDF font ${url} (${res.status}).`);
+  return new Uint8Array(await res.arrayBuffer());
+};
+
+/**
+ * The PDF fonts as bundled with the web app, fetched once per page load.
+ */
+export const loadBrowserPdfFonts = (): Promise<PdfFonts> => {
+  browserFonts ??= (async () => {
+    const keys = Object.keys(BROWSER_FONT_URLS) as (keyof PdfFonts)[];
+    const files = await Promise.all(keys.map(key => fetchFont(BROWSER_FONT_URLS[key])));
+    return Object.fromEntries(keys.map((key, i) => [key, files[i]])) as unknown as PdfFonts;
+  })();
+  // A failed download is retried on the next export
+  browserFonts.catch(() => { browserFonts = undefined; });
+  return browserFonts;
+};
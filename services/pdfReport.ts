@@ -0,0 +1,708 @@
+import fontkit from "@pdf-lib/fontkit";
+import {
+  beginText,
+  endText,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  RGB,
+  rotateAndSkewTextRadiansAndTranslate,
+  setFillingColor,
+  setFontAndSize,
+  setGraphicsState,
+  showText,
+} from "pdf-lib";
+import { AnalysisResult, Evidence, GapItem } from "../types";
+import { analyzeBloom } from "./bloomClassifier";
+import { buildAlignmentMatrix } from "./alignmentMatrix";
+import { visualRuns } from "./bidi";
+import { radarGeometry } from "./radarChart";
+import { enabledCriteria, rubricLevel } from "./rubric";
+import { formatMessage } from "./ruleFindings";
+import { isLowConfidence, isUnstable } from "./scoreStability";
+
+/**
+ * The font files embedded in PDF reports: IBM Plex Sans Arabic, whose Arabic
+ * and Latin halves ship as separate files. Every PDF uses exactly these bytes so
+ * a report renders the same in the browser and under Node.
+ */
+export interface PdfFonts {
+  latin: Uint8Array;
+  latinBold: Uint8Array;
+  arabic: Uint8Array;
+  arabicBold: Uint8Array;
+}
+
+// File names in @fontsource/ibm-plex-sans-arabic/files
+export const PDF_FONT_FILES: Record<keyof PdfFonts, string> = {
+  latin: 'ibm-plex-sans-arabic-latin-400-normal.woff',
+  latinBold: 'ibm-plex-sans-arabic-latin-700-normal.woff',
+  arabic: 'ibm-plex-sans-arabic-arabic-400-normal.woff',
+  arabicBold: 'ibm-plex-sans-arabic-arabic-700-normal.woff',
+};
+
+export interface PdfReportOptions {
+  language: 'en' | 'ar';
+  t: any;
+  fonts: PdfFonts;
+  generatedAt?: string; // ISO timestamp printed on the report and stored as its creation date; defaults to now
+  watermark?: string; // e.g. "DRAFT", drawn diagonally across every page
+  signatures?: string[]; // roles that sign the approval block at the end, e.g. "Head of Department"
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const TOP = PAGE_HEIGHT - 72; // below the running header
+const BOTTOM = 64; // above the footer
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LINE_SPACING = 1.45;
+const CELL_PADDING = 5;
+const CHART_SIZE = 300;
+
+const hex = (value: string): RGB =>
+  rgb(parseInt(value.slice(0, 2), 16) / 255, parseInt(value.slice(2, 4), 16) / 255, parseInt(value.slice(4, 6), 16) / 255);
+
+const BRAND = hex('2563EB');
+const TEXT = hex('1E293B');
+const MUTED = hex('64748B');
+const RULE = hex('CBD5E1');
+const HEADER_FILL = hex('EFF6FF');
+const WHITE = rgb(1, 1, 1);
+
+interface Style {
+  size: number;
+  bold?: boolean;
+  color?: RGB;
+}
+
+// One font file, embedded in the PDF and loaded for shaping
+interface EmbeddedFont {
+  pdf: PDFFont;
+  shaper: ReturnType<typeof fontkit.create>;
+}
+
+interface FontFace {
+  latin: EmbeddedFont;
+  arabic: EmbeddedFont;
+}
+
+// A piece of one line in drawing order, set in a single font
+interface Piece {
+  text: string;
+  font: EmbeddedFont;
+}
+
+const embedFont = async (pdf: PDFDocument, data: Uint8Array, name: string): Promise<EmbeddedFont> => ({
+  // A fixed name keeps the output byte-for-byte reproducible
+  pdf: await pdf.embedFont(data, { subset: true, customName: name }),
+  shaper: fontkit.create(data),
+});
+
+const embedFace = async (pdf: PDFDocument, latin: Uint8Array, arabic: Uint8Array, suffix: string): Promise<FontFace> => ({
+  latin: await embedFont(pdf, latin, `IBMPlexSansArabic-Latin${suffix}`),
+  arabic: await embedFont(pdf, arabic, `IBMPlexSansArabic${suffix}`),
+});
+
+/**
+ * Breaks one line of text into pieces in drawing order. Arabic words go to
+ * the Arabic font in logical order, which shapes and reverses them; anything
+ * only the Arabic font has (Arabic digits and punctuation) is set one
+ * character at a time so the shaper does not reverse it.
+ */
+const toPieces = (text: string, face: FontFace, rtl: boolean): Piece[] => {
+  const pieces: Piece[] = [];
+  for (const run of visualRuns(text, rtl)) {
+    if (run.arabic) {
+      pieces.push({ text: run.text, font: face.arabic });
+      continue;
+    }
+    for (const char of run.text) {
+      const codePoint = char.codePointAt(0)!;
+      const last = pieces[pieces.length - 1];
+      const inLatin = face.latin.shaper.hasGlyphForCodePoint(codePoint);
+      if (inLatin || !face.arabic.shaper.hasGlyphForCodePoint(codePoint)) {
+        const drawn = inLatin ? char : '?';
+        if (last && last.font === face.latin) last.text += drawn;
+        else pieces.push({ text: drawn, font: face.latin });
+      } else {
+        pieces.push({ text: char, font: face.arabic });
+      }
+    }
+  }
+  return pieces;
+};
+
+const pieceWidth = (piece: Piece, size: number) =>
+  (piece.font.shaper.layout(piece.text).advanceWidth * size) / piece.font.shaper.unitsPerEm;
+
+const piecesWidth = (pieces: Piece[], size: number) => pieces.reduce((sum, piece) => sum + pieceWidth(piece, size), 0);
+
+// Resource names of the fonts and the watermark transparency on each page
+const pageResources = new WeakMap<PDFPage, Map<PDFFont | number, PDFName>>();
+
+const resourceKey = (page: PDFPage, resource: PDFFont | number) => {
+  const keys = pageResources.get(page) ?? new Map<PDFFont | number, PDFName>();
+  pageResources.set(page, keys);
+  let key = keys.get(resource);
+  if (!key) {
+    key = typeof resource === 'number'
+      ? page.node.newExtGState('GS', page.doc.context.obj({ Type: 'ExtGState', ca: resource }))
+      : page.node.newFontDictionary(resource.name, resource.ref);
+    keys.set(resource, key);
+  }
+  return key;
+};
+
+/**
+ * Draws pieces glyph by glyph at the positions the shaper gives them, so
+ * Arabic dots and marks land where the font puts them. `angle` (radians)
+ * turns the line around its start point.
+ */
+const drawPieces = (
+  page: PDFPage,
+  pieces: Piece[],
+  options: { x: number; y: number; size: number; color: RGB; angle?: number; opacity?: number }
+) => {
+  const { size, color, angle = 0 } = options;
+  const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+  let pen = 0;
+  for (const piece of pieces) {
+    const scale = size / piece.font.shaper.unitsPerEm;
+    const { positions } = piece.font.shaper.layout(piece.text);
+    // Encoding adds the glyphs to the embedded subset; same layout, so the same glyphs in the same order
+    const codes = piece.font.pdf.encodeText(piece.text).asString();
+    const operators = [
+      pushGraphicsState(),
+      ...(options.opacity !== undefined ? [setGraphicsState(resourceKey(page, options.opacity))] : []),
+      setFillingColor(color),
+      beginText(),
+      setFontAndSize(resourceKey(page, piece.font.pdf), size),
+    ];
+    positions.forEach((position, i) => {
+      const dx = pen + position.xOffset * scale;
+      const dy = position.yOffset * scale;
+      operators.push(
+        rotateAndSkewTextRadiansAndTranslate(angle, 0, 0, options.x + dx * cos - dy * sin, options.y + dx * sin + dy * cos),
+        showText(PDFHexString.of(codes.slice(i * 4, i * 4 + 4)))
+      );
+      pen += position.xAdvance * scale;
+    });
+    operators.push(endText(), popGraphicsState());
+    page.pushOperators(...operators);
+  }
+};
+
+/**
+ * Draws text onto pages, moving to a new page when one is full. Arabic
+ * reports are laid out right-to-left: text is right-aligned and table
+ * columns run from the right.
+ */
+const createLayout = (pdf: PDFDocument, faces: { regular: FontFace; bold: FontFace }, rtl: boolean) => {
+  let page!: PDFPage;
+  let y = TOP;
+  const pages: PDFPage[] = [];
+
+  const face = (style: Style) => (style.bold ? faces.bold : faces.regular);
+  const lineHeight = (style: Style) => style.size * LINE_SPACING;
+  // Wrapping measures the same words over and over
+  const widths = new Map<string, number>();
+  const width = (text: string, style: Style) => {
+    const key = `${style.bold ? 'b' : 'r'}${style.size}|${text}`;
+    if (!widths.has(key)) widths.set(key, piecesWidth(toPieces(text, face(style), rtl), style.size));
+    return widths.get(key)!;
+  };
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    pages.push(page);
+    y = TOP;
+    return page;
+  };
+
+  const ensure = (height: number) => {
+    if (y - height < BOTTOM) newPage();
+  };
+
+  /**
+   * Draws one line with its start at `x` (its end, in right-to-left reports)
+   * and its baseline at `baseline`.
+   */
+  const drawLine = (target: PDFPage, text: string, style: Style, x: number, baseline: number, align: 'start' | 'center' | 'end' = 'start') => {
+    const pieces = toPieces(text, face(style), rtl);
+    const total = piecesWidth(pieces, style.size);
+    const fromRight = (align === 'start') === rtl;
+    const left = align === 'center' ? x - total / 2 : fromRight ? x - total : x;
+    drawPieces(target, pieces, { x: left, y: baseline, size: style.size, color: style.color ?? TEXT });
+  };
+
+  /**
+   * Splits text into lines that fit `maxWidth`. Words longer than a line
+   * (URLs, mostly) are broken between characters.
+   */
+  const wrap = (text: string, style: Style, maxWidth: number): string[] => {
+    const space = width(' ', style);
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      let lineWidth = 0;
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        let wordWidth = width(word, style);
+        let rest = word;
+        while (wordWidth > maxWidth) {
+          if (line) {
+            lines.push(line);
+            line = '';
+            lineWidth = 0;
+          }
+          const chars = Array.from(rest);
+          let fit = 1;
+          while (fit < chars.length && width(chars.slice(0, fit + 1).join(''), style) <= maxWidth) fit++;
+          lines.push(chars.slice(0, fit).join(''));
+          rest = chars.slice(fit).join('');
+          wordWidth = width(rest, style);
+        }
+        if (!rest) continue;
+        if (line && lineWidth + space + wordWidth > maxWidth) {
+          lines.push(line);
+          line = '';
+          lineWidth = 0;
+        }
+        line = line ? `${line} ${rest}` : rest;
+        lineWidth += (lineWidth ? space : 0) + wordWidth;
+      }
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  // x of a block's start edge, `inset` points in from the margin
+  const startX = (inset = 0) => (rtl ? PAGE_WIDTH - MARGIN - inset : MARGIN + inset);
+
+  const paragraph = (text: string, style: Style, options: { indent?: number; spaceAfter?: number; bullet?: boolean } = {}) => {
+    const indent = options.indent ?? 0;
+    const lines = wrap(text, style, CONTENT_WIDTH - indent);
+    lines.forEach((line, i) => {
+      ensure(lineHeight(style));
+      y -= lineHeight(style);
+      if (options.bullet && i === 0) drawLine(page, '•', style, startX(indent - 11), y + style.size * 0.3);
+      drawLine(page, line, style, startX(indent), y + style.size * 0.3);
+    });
+    y -= options.spaceAfter ?? 4;
+  };
+
+  const bullets = (items: string[], empty: string) => {
+    if (items.length === 0) {
+      paragraph(empty, { size: 10, color: MUTED });
+      return;
+    }
+    items.forEach(item => paragraph(item, { size: 10 }, { indent: 14, spaceAfter: 3, bullet: true }));
+  };
+
+  const toc: { title: string; page: number }[] = [];
+
+  const heading = (text: string, level: 1 | 2 = 1) => {
+    const style: Style = level === 1 ? { size: 16, bold: true, color: BRAND } : { size: 12.5, bold: true, color: TEXT };
+    // Keep the heading with the start of what follows it
+    ensure(lineHeight(style) + (level === 1 ? 60 : 40));
+    y -= level === 1 ? 16 : 10;
+    if (level === 1) toc.push({ title: text, page: pages.length });
+    paragraph(text, style, { spaceAfter: level === 1 ? 2 : 4 });
+    if (level === 1) {
+      page.drawLine({ start: { x: MARGIN, y: y + 1 }, end: { x: PAGE_WIDTH - MARGIN, y: y + 1 }, thickness: 0.8, color: BRAND });
+      y -= 8;
+    }
+  };
+
+  /**
+   * A table over the full content width. `widths` are shares of it; long
+   * cells wrap, and the header row repeats on every page the table spans.
+   */
+  const table = (header: string[], rows: string[][], widths: number[]) => {
+    const body: Style = { size: 9 };
+    const head: Style = { size: 9, bold: true };
+    const total = widths.reduce((sum, w) => sum + w, 0);
+    const columnWidths = widths.map(w => (w / total) * CONTENT_WIDTH);
+    // Start edge of each column, first column on the right in right-to-left reports
+    const columnStarts = columnWidths.map((_, i) => {
+      const before = columnWidths.slice(0, i).reduce((sum, w) => sum + w, 0);
+      return rtl ? PAGE_WIDTH - MARGIN - before - CELL_PADDING : MARGIN + before + CELL_PADDING;
+    });
+    const maxLines = Math.floor((TOP - BOTTOM - 60) / lineHeight(body));
+
+    const layoutRow = (cells: string[], style: Style) => {
+      const lines = cells.map((cell, i) => {
+        const wrapped = wrap(cell || '-', style, columnWidths[i] - 2 * CELL_PADDING);
+        // A cell taller than a page is cut rather than split
+        return wrapped.length > maxLines ? [...wrapped.slice(0, maxLines - 1), `${wrapped[maxLines - 1]}…`] : wrapped;
+      });
+      return { lines, style, height: Math.max(...lines.map(cell => cell.length)) * lineHeight(style) + 2 * CELL_PADDING };
+    };
+
+    const drawRow = (row: ReturnType<typeof layoutRow>, fill?: RGB) => {
+      if (fill) page.drawRectangle({ x: MARGIN, y: y - row.height, width: CONTENT_WIDTH, height: row.height, color: fill });
+      row.lines.forEach((lines, i) => lines.forEach((line, j) =>
+        drawLine(page, line, row.style, columnStarts[i], y - CELL_PADDING - (j + 1) * lineHeight(row.style) + row.style.size * 0.3)));
+      y -= row.height;
+      page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.5, color: RULE });
+    };
+
+    const headerRow = layoutRow(header, head);
+    const bodyRows = rows.map(row => layoutRow(row, body));
+    ensure(headerRow.height + (bodyRows[0]?.height ?? 0));
+    drawRow(headerRow, HEADER_FILL);
+    for (const row of bodyRows) {
+      if (y - row.height < BOTTOM) {
+        newPage();
+        drawRow(headerRow, HEADER_FILL);
+      }
+      drawRow(row);
+    }
+    y -= 10;
+  };
+
+  /**
+   * The radar chart of the section scores, drawn as vectors so it prints sharp.
+   */
+  const radarChart = (axes: { label: string; score: number }[]) => {
+    const g = radarGeometry(axes, CHART_SIZE);
+    ensure(CHART_SIZE + 10);
+    const left = (PAGE_WIDTH - CHART_SIZE) / 2;
+    const top = y;
+    const path = (points: { x: number; y: number }[]) =>
+      `M ${points.map(p => `${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join(' L ')} Z`;
+    for (const ring of g.rings) page.drawSvgPath(path(ring), { x: left, y: top, borderColor: RULE, borderWidth: 0.6 });
+    for (const end of g.spokes) {
+      page.drawLine({ start: { x: left + g.center.x, y: top - g.center.y }, end: { x: left + end.x, y: top - end.y }, thickness: 0.6, color: RULE });
+    }
+    page.drawSvgPath(path(g.shape), { x: left, y: top, color: BRAND, opacity: 0.35, borderColor: BRAND, borderWidth: 1.5 });
+    const labelStyle: Style = { size: 7.5, color: MUTED };
+    for (const label of g.labels) {
+      const lines = label.lines;
+      lines.forEach((line, i) => {
+        const baseline = top - label.at.y - ((i - (lines.length - 1) / 2) * lineHeight(labelStyle)) - labelStyle.size * 0.35;
+        const x = left + label.at.x;
+        const w = width(line, labelStyle);
+        const lineLeft = label.anchor === 'middle' ? x - w / 2 : label.anchor === 'start' ? x : x - w;
+        // Anchors are geometric, so the line is placed by its left edge in both directions
+        drawLine(page, line, labelStyle, rtl ? lineLeft + w : lineLeft, baseline);
+      });
+    }
+    y -= CHART_SIZE + 10;
+  };
+
+  const space = (points: number) => {
+    y -= points;
+  };
+
+  return {
+    pages,
+    toc,
+    newPage,
+    drawLine,
+    wrap,
+    width,
+    paragraph,
+    bullets,
+    heading,
+    table,
+    radarChart,
+    space,
+    ensure,
+    startX,
+    get page() {
+      return page;
+    },
+    get y() {
+      return y;
+    },
+  };
+};
+
+/**
+ * The report as a PDF laid out here rather than by the browser's print
+ * dialog: cover page, table of contents, page numbers, embedded fonts for
+ * Arabic, and an optional watermark and approval block. Given the same
+ * report, fonts and `generatedAt`, the bytes are the same wherever it runs.
+ */
+export const buildPdfReport = async (result: AnalysisResult, options: PdfReportOptions): Promise<Uint8Array> => {
+  const { t, language, fonts, watermark, signatures = [] } = options;
+  const generatedAt = new Date(options.generatedAt ?? new Date().toISOString());
+  const date = generatedAt.toISOString().slice(0, 10);
+  const rtl = language === 'ar';
+
+  const pdf = await PDFDocument.create({ updateMetadata: false });
+  pdf.registerFontkit(fontkit);
+  pdf.setTitle(`${t.reportTitle}: ${result.courseTitle}`);
+  pdf.setAuthor(t.uniName);
+  pdf.setSubject(t.reportTitle);
+  pdf.setCreator(t.appTitle);
+  pdf.setProducer('pdf-lib');
+  pdf.setLanguage(rtl ? 'ar' : 'en');
+  pdf.setCreationDate(generatedAt);
+  pdf.setModificationDate(generatedAt);
+
+  const faces = {
+    regular: await embedFace(pdf, fonts.latin, fonts.arabic, ''),
+    bold: await embedFace(pdf, fonts.latinBold, fonts.arabicBold, '-Bold'),
+  };
+  const layout = createLayout(pdf, faces, rtl);
+  const { paragraph, heading, bullets, table } = layout;
+
+  const { course } = result.syllabus;
+  const stability = result.stability;
+  const criteria = result.rubric ? enabledCriteria(result.rubric) : [];
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const muted: Style = { size: 10, color: MUTED };
+
+  // Cover
+  const cover = layout.newPage();
+  cover.drawRectangle({ x: 0, y: PAGE_HEIGHT - 150, width: PAGE_WIDTH, height: 150, color: BRAND });
+  layout.drawLine(cover, t.uniName, { size: 22, bold: true, color: WHITE }, layout.startX(), PAGE_HEIGHT - 80);
+  layout.drawLine(cover, t.appTitle, { size: 12, color: WHITE }, layout.startX(), PAGE_HEIGHT - 104);
+  let coverY = PAGE_HEIGHT - 230;
+  layout.drawLine(cover, t.reportTitle, { size: 13, color: MUTED }, layout.startX(), coverY);
+  for (const line of layout.wrap(result.courseTitle, { size: 26, bold: true }, CONTENT_WIDTH)) {
+    coverY -= 38;
+    layout.drawLine(cover, line, { size: 26, bold: true }, layout.startX(), coverY);
+  }
+  coverY -= 20;
+  const courseRows: [string, string | number | undefined][] = [
+    [t.courseCode, course.code],
+    [t.department, course.department],
+    [t.instructor, course.instructor],
+    [t.semester, course.semester],
+    [t.creditHours, course.creditHours],
+  ];
+  for (const [label, value] of courseRows) {
+    if (value === undefined || value === '') continue;
+    coverY -= 20;
+    layout.drawLine(cover, `${label}: ${value}`, { size: 11 }, layout.startX(), coverY);
+  }
+  coverY -= 70;
+  layout.drawLine(cover, `${result.overallScore}/100`, { size: 44, bold: true, color: BRAND }, layout.startX(), coverY);
+  coverY -= 22;
+  layout.drawLine(cover, t.overallScore, { size: 12, color: MUTED }, layout.startX(), coverY);
+  if (result.rubric) {
+    coverY -= 18;
+    layout.drawLine(cover, formatMessage(t.scoredWith, { name: result.rubric.name, version: result.rubric.version }), muted, layout.startX(), coverY);
+  }
+  if (result.modelError) {
+    coverY -= 26;
+    for (const line of layout.wrap(`${t.baselineReport}: ${t.baselineDesc}`, muted, CONTENT_WIDTH)) {
+      coverY -= 14;
+      layout.drawLine(cover, line, muted, layout.startX(), coverY);
+    }
+  }
+  layout.drawLine(cover, formatMessage(t.generatedOn, { date }), muted, layout.startX(), 90);
+
+  // Filled in once the sections know their pages
+  const tocPage = layout.newPage();
+
+  // Report body
+  layout.newPage();
+  const evidenceLine = (evidence: Evidence[]) => evidence
+    .filter(e => !e.absent && e.quote)
+    .map(e => `“${e.quote}”${e.page !== undefined ? ` (${t.page} ${e.page}${e.paragraph !== undefined ? `, ${t.paragraphShort} ${e.paragraph}` : ''})` : ''}`)
+    .join(' · ');
+
+  const gapItems = (title: string, items: GapItem[]) => {
+    heading(title, 2);
+    if (items.length === 0) {
+      paragraph(t.noGaps, muted);
+      return;
+    }
+    for (const item of items) {
+      const finding = result.ruleFindings.find(f => f.message === item.text);
+      const badges = [
+        finding ? `[${t.severity[finding.severity]}]` : '',
+        stability && isLowConfidence(item) ? `[${t.lowConfidence}]` : '',
+      ].filter(Boolean).join(' ');
+      paragraph(badges ? `${badges} ${item.text}` : item.text, { size: 10 }, { indent: 14, bullet: true, spaceAfter: 1 });
+      const quotes = evidenceLine(item.evidence);
+      if (quotes) paragraph(quotes, { size: 8.5, color: MUTED }, { indent: 14 });
+      layout.space(3);
+    }
+  };
+
+  heading(t.breakdown);
+  paragraph(`${t.overallScore}: ${result.overallScore}/100`, { size: 12, bold: true, color: BRAND });
+  if (stability) {
+    paragraph(formatMessage(t.stabilitySummary, {
+      spread: stability.overall.stdDev, samples: stability.samples, min: stability.overall.min, max: stability.overall.max,
+    }), muted);
+    if (isUnstable(stability.overall)) paragraph(t.unstableScore, muted);
+  }
+  if (result.sectionScores.length >= 3) layout.radarChart(result.sectionScores.map(s => ({ label: s.section, score: s.score })));
+  table(
+    [t.section, t.score, t.levelLabel, t.weight, t.sectionFeedback],
+    result.sectionScores.map(s => {
+      const criterion = criteria.find(c => c.id === s.criterionId);
+      const spread = stability?.sections.find(x => x.criterionId === s.criterionId);
+      return [
+        s.section,
+        `${s.score}${spread ? ` (σ ${spread.stdDev})` : ''}`,
+        (criterion && rubricLevel(criterion, s.score)?.label) || '-',
+        criterion && totalWeight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : '-',
+        s.feedback,
+      ];
+    }),
+    [22, 10, 14, 10, 44]
+  );
+
+  heading(t.criticalFindings);
+  gapItems(t.missing, result.gapAnalysis.missingComponents);
+  gapItems(t.weaknesses, result.gapAnalysis.weaknesses);
+  gapItems(t.strengths, result.gapAnalysis.strengths);
+
+  heading(t.recommendations);
+  bullets(result.recommendations, t.none);
+  heading(t.revisedILOs);
+  bullets(result.revisedILOs, t.noRevisions);
+  heading(t.activities);
+  bullets(result.suggestedActivities.map(a => `${a.title}: ${a.description} (${t.alignsWith} ${a.learningOutcomeMap})`), t.noActivities);
+
+  heading(t.learningOutcomes);
+  const bloom = analyzeBloom(result.syllabus.ilos.map(ilo => ilo.text), []);
+  if (result.syllabus.ilos.length > 0) {
+    table(
+      ['ID', t.learningOutcomes, t.levelLabel],
+      result.syllabus.ilos.map((ilo, i) => [ilo.id, ilo.text, bloom.tags[i].level ? t.bloomLevels[bloom.tags[i].level!] : t.unclassified]),
+      [10, 65, 25]
+    );
+  } else {
+    paragraph(t.notSpecified, muted);
+  }
+  heading(t.assessments);
+  if (result.syllabus.assessments.length > 0) {
+    table([t.assessments, t.weight], result.syllabus.assessments.map(a => [a.name, `${a.weight}%`]), [75, 25]);
+  } else {
+    paragraph(t.notSpecified, muted);
+  }
+  heading(t.alignmentTitle);
+  table(
+    ['ID', t.weeks, t.assessments],
+    buildAlignmentMatrix(result.syllabus).rows.map(r => [r.iloId, r.weeks.join(', ') || '-', r.assessments.join(', ') || '-']),
+    [15, 35, 50]
+  );
+
+  if (result.complianceReport) {
+    const report = result.complianceReport;
+    heading(t.complianceTitle);
+    paragraph(`${report.templateName} v${report.templateVersion}: ${report.score}/100`, { size: 10, bold: true });
+    table(
+      [t.section, t.status],
+      report.items.map(i => [`${i.name}${i.required ? '' : ` (${t.optional})`}`, t.complianceStatus[i.status]]),
+      [70, 30]
+    );
+  }
+  if (result.referenceReport) {
+    heading(t.referencesTitle);
+    paragraph(`${t.currencyScore}: ${result.referenceReport.score}/100`, { size: 10, bold: true });
+    table(
+      [t.references, t.year, t.status],
+      result.referenceReport.entries.map(e => [
+        e.raw,
+        e.year !== undefined ? String(e.year) : '-',
+        e.age === undefined ? t.undated : e.outdated ? t.outdated : t.current,
+      ]),
+      [70, 12, 18]
+    );
+  }
+
+  heading(t.benchmarking);
+  if (result.benchmarks.length > 0) {
+    table(
+      [t.university, t.comparison],
+      result.benchmarks.map(b => [b.url ? `${b.university}\n${b.url}` : b.university, b.comparison]),
+      [30, 70]
+    );
+  } else {
+    paragraph(t.noBenchmarks, muted);
+  }
+  heading(t.tutors);
+  if (result.tutors.length > 0) {
+    table(
+      [t.tutorName, t.affiliation, t.contactEmail, t.specialization],
+      result.tutors.map(tutor => [tutor.name, tutor.affiliation, tutor.email, tutor.specialization]),
+      [22, 26, 22, 30]
+    );
+  } else {
+    paragraph(t.noTutors, muted);
+  }
+
+  if (signatures.length > 0) {
+    heading(t.approvalTitle);
+    paragraph(t.approvalDesc, muted, { spaceAfter: 12 });
+    const column = CONTENT_WIDTH / 3;
+    for (const role of signatures) {
+      layout.ensure(70);
+      const top = layout.y;
+      const lineY = top - 40;
+      layout.drawLine(layout.page, role, { size: 10, bold: true }, layout.startX(), lineY);
+      [t.signature, t.date].forEach((field, i) => {
+        const start = layout.startX((i + 1) * column);
+        const end = layout.startX((i + 2) * column - 16);
+        layout.page.drawLine({ start: { x: start, y: lineY }, end: { x: end, y: lineY }, thickness: 0.6, color: TEXT });
+        layout.drawLine(layout.page, field, { size: 8.5, color: MUTED }, start, lineY - 12);
+      });
+      layout.space(70);
+    }
+  }
+
+  // Table of contents, with the pages the sections ended up on
+  const tocStyle: Style = { size: 11 };
+  layout.drawLine(tocPage, t.tableOfContents, { size: 20, bold: true, color: BRAND }, layout.startX(), TOP - 10);
+  layout.toc.forEach((entry, i) => {
+    const baseline = TOP - 50 - i * 24;
+    const pageText = String(entry.page);
+    const pageWidth = layout.width(pageText, tocStyle);
+    const titleWidth = Math.min(layout.width(entry.title, tocStyle), CONTENT_WIDTH - pageWidth - 30);
+    layout.drawLine(tocPage, entry.title, tocStyle, layout.startX(), baseline);
+    layout.drawLine(tocPage, pageText, tocStyle, layout.startX(CONTENT_WIDTH), baseline, 'end');
+    // Dotted leader between the title and its page number
+    const leaderStart = rtl ? PAGE_WIDTH - MARGIN - titleWidth - 6 : MARGIN + titleWidth + 6;
+    const leaderEnd = rtl ? MARGIN + pageWidth + 6 : PAGE_WIDTH - MARGIN - pageWidth - 6;
+    tocPage.drawLine({ start: { x: leaderStart, y: baseline + 2 }, end: { x: leaderEnd, y: baseline + 2 }, thickness: 0.8, color: RULE, dashArray: [1, 3] });
+  });
+
+  // Running header and footer on every page after the cover, watermark on all of them
+  const total = layout.pages.length;
+  const small: Style = { size: 8, color: MUTED };
+  layout.pages.forEach((target, i) => {
+    if (i > 0) {
+      layout.drawLine(target, t.uniName, { ...small, bold: true, color: BRAND }, layout.startX(), PAGE_HEIGHT - 40);
+      const title = layout.wrap(result.courseTitle, small, CONTENT_WIDTH / 2)[0];
+      layout.drawLine(target, title, small, layout.startX(CONTENT_WIDTH), PAGE_HEIGHT - 40, 'end');
+      target.drawLine({ start: { x: MARGIN, y: PAGE_HEIGHT - 48 }, end: { x: PAGE_WIDTH - MARGIN, y: PAGE_HEIGHT - 48 }, thickness: 0.5, color: RULE });
+      layout.drawLine(target, formatMessage(t.pageOf, { page: i + 1, total }), small, PAGE_WIDTH / 2, 36, 'center');
+      layout.drawLine(target, date, small, layout.startX(CONTENT_WIDTH), 36, 'end');
+    }
+    if (watermark) drawWatermark(target, watermark, faces.bold, rtl);
+  });
+
+  return pdf.save();
+};
+
+const drawWatermark = (page: PDFPage, text: string, face: FontFace, rtl: boolean) => {
+  const size = 64;
+  const pieces = toPieces(text, face, rtl);
+  const total = piecesWidth(pieces, size);
+  // Along the page's diagonal, centred on it
+  const angle = Math.atan2(PAGE_HEIGHT, PAGE_WIDTH);
+  const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+  const [along, across] = [-total / 2, -size / 3];
+  drawPieces(page, pieces, {
+    x: PAGE_WIDTH / 2 + along * cos - across * sin,
+    y: PAGE_HEIGHT / 2 + along * sin + across * cos,
+    size,
+    color: MUTED,
+    angle,
+    opacity: 0.12,
+  });
+};
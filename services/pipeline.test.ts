@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EvaluationCriteria } from '../types';
+import { createFixtureProvider, LLMProvider, setProvider } from './providers';
+import { analyzeSyllabus, rerunStage } from './pipeline';
+import { DEFAULT_ASSESSMENT_RULES } from './assessmentRules';
+import { DEFAULT_MAX_REFERENCE_AGE } from './citationParser';
+import { DEFAULT_TEMPLATE } from './syllabusTemplate';
+import { defaultRubric } from './rubric';
+
+const criteria: EvaluationCriteria = {
+  rubric: defaultRubric(),
+  benchmarkUniversities: 'MIT',
+  assessmentRules: DEFAULT_ASSESSMENT_RULES,
+  maxReferenceAge: DEFAULT_MAX_REFERENCE_AGE,
+  syllabusTemplate: DEFAULT_TEMPLATE,
+};
+
+const syllabusFile = () => new File([
+  'Course Information\n\nData Structures (CS 221)\n\nIntended Learning Outcomes\n\n1. Explain linked lists and trees.\n\nReferences\n\nWeiss, M. A. (2011). Data Structures. Pearson.',
+], 'syllabus.txt', { type: 'text/plain' });
+
+// A provider whose every request fails with an error that is not retried
+const unreachableProvider: LLMProvider = {
+  id: 'unreachable',
+  model: 'none',
+  generate: async () => {
+    throw new Error('connect ECONNREFUSED');
+  },
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setProvider(null);
+  vi.restoreAllMocks();
+});
+
+describe('analyzeSyllabus', () => {
+  it('runs every stage on the fixture provider', async () => {
+    setProvider(createFixtureProvider());
+    const stages: string[] = [];
+    const result = await analyzeSyllabus(syllabusFile(), criteria, 'en', { onStage: stage => stages.push(stage) });
+
+    expect(stages).toEqual(['uploading', 'extracting', 'analyzing', 'gathering_data']);
+    expect(result.courseTitle).toBe('Data Structures');
+    expect(result.modelError).toBeUndefined();
+    expect(result.stages?.map(s => `${s.stage}:${s.status}`)).toEqual(['extract:ok', 'evaluate:ok', 'benchmark:ok', 'tutors:ok']);
+    expect(result.sectionScores.map(s => s.criterionId)).toEqual(criteria.rubric.criteria.filter(c => c.enabled).map(c => c.id));
+    expect(result.overallScore).toBeGreaterThan(0);
+    expect(result.benchmarks.length).toBeGreaterThan(0);
+    expect(result.modelCalls?.map(c => c.stage)).toEqual(['extract', 'evaluate', 'benchmark', 'tutors']);
+    // Local rule findings are merged into the model's gap analysis
+    expect(result.ruleFindings.some(f => f.rule === 'references.outdated')).toBe(true);
+  });
+
+  it('pools several evaluation runs in stability mode', async () => {
+    setProvider(createFixtureProvider());
+    const result = await analyzeSyllabus(syllabusFile(), criteria, 'en', { samples: 3 });
+
+    expect(result.stability?.samples).toBe(3);
+    expect(result.modelCalls?.filter(c => c.stage === 'evaluate')).toHaveLength(3);
+  });
+
+  it('falls back to the local baseline when the model is unreachable', async () => {
+    setProvider(unreachableProvider);
+    const result = await analyzeSyllabus(syllabusFile(), criteria, 'en', { maxAttempts: 1 });
+
+    expect(result.modelError).toContain('ECONNREFUSED');
+    expect(result.stages?.map(s => `${s.stage}:${s.status}`)).toEqual(['extract:failed', 'evaluate:skipped', 'benchmark:skipped', 'tutors:skipped']);
+    expect(result.syllabus.ilos.map(ilo => ilo.text)).toEqual(['Explain linked lists and trees.']);
+    expect(result.sectionScores.length).toBeGreaterThan(0);
+  });
+
+  it('rejects when cancelled', async () => {
+    setProvider(createFixtureProvider());
+    const controller = new AbortController();
+    controller.abort();
+    await expect(analyzeSyllabus(syllabusFile(), criteria, 'en', { signal: controller.signal })).rejects.toThrow();
+  });
+});
+
+describe('rerunStage', () => {
+  it('replaces one stage and keeps the others', async () => {
+    setProvider(createFixtureProvider());
+    const result = await analyzeSyllabus(syllabusFile(), criteria, 'en');
+    const rerun = await rerunStage(result, 'tutors', criteria, 'en');
+
+    expect(rerun.syllabus).toEqual(result.syllabus);
+    expect(rerun.sectionScores).toEqual(result.sectionScores);
+    expect(rerun.stages?.find(s => s.stage === 'tutors')).toMatchObject({ status: 'ok', attempts: 1 });
+    expect(rerun.modelCalls).toHaveLength(result.modelCalls!.length + 1);
+  });
+});
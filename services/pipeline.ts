@@ -0,0 +1,345 @@
+import { AnalysisResult, AnalysisStageId, BenchmarkResult, EvaluationCriteria, ModelCall, ProcessingStatus, ScoreStability, SourceDocument, StageOutcome, Syllabus, Tutor } from "../types";
+import * as geminiService from "./geminiService";
+import { applyLocalChecks, runLocalChecks } from "./localChecks";
+import { analyzeDocumentLocally, evaluateLocally } from "./localAnalyzer";
+import { attachEvidenceLocations, extractDocumentText } from "./documentText";
+import { DEFAULT_STAGE_ATTEMPTS, isAbortError, withRetry } from "./retry";
+import { CACHE_TTL_MS, cacheKey, readCache, writeCache } from "./resultCache";
+import { hashFile } from "./fileHash";
+import { DEFAULT_SAMPLE_TEMPERATURE, poolEvaluations } from "./scoreStability";
+import { stripFindings } from "./ruleFindings";
+import { EvaluationOutput } from "./schema";
+import { getProvider, LLMPart, providerConfigFromEnv } from "./providers";
+import { getApiBaseUrl } from "./apiClient";
+
+export type PipelineStage = Exclude<ProcessingStatus, 'idle' | 'complete' | 'error'>;
+
+export interface PipelineOptions {
+  onStage?: (stage: PipelineStage) => void; // called as each stage starts
+  signal?: AbortSignal; // cancels the run; it then rejects with the abort reason
+  maxAttempts?: number; // per model stage, including the first try
+  forceRefresh?: boolean; // ignore cached stage results (fresh results are still cached)
+  samples?: number; // evaluation runs; above 1 the scores are averaged (stability mode)
+  temperature?: number; // sampling temperature of the stability runs
+}
+
+interface Sampling {
+  samples: number;
+  temperature: number;
+}
+
+const STAGE_ORDER: AnalysisStageId[] = ['extract', 'evaluate', 'benchmark', 'tutors'];
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+interface StageRun<T> {
+  value?: T;
+  error?: unknown;
+  outcome: StageOutcome;
+}
+
+const skipped = <T>(stage: AnalysisStageId): StageRun<T> => ({ outcome: { stage, status: 'skipped', attempts: 0 } });
+
+// What each stage's output depends on besides the file, language and prompt
+const stageInputs = (stage: AnalysisStageId, criteria: EvaluationCriteria, syllabus?: Syllabus, sampling?: Sampling): unknown => {
+  const { benchmarkUniversities, ...evaluationCriteria } = criteria;
+  switch (stage) {
+    case 'extract': return null;
+    case 'evaluate': return sampling ? { criteria: evaluationCriteria, syllabus, sampling } : { criteria: evaluationCriteria, syllabus };
+    case 'benchmark': return { benchmarkUniversities, syllabus };
+    case 'tutors': return { syllabus };
+  }
+};
+
+/**
+ * The provider and model behind the stage results, so switching either does
+ * not serve answers from the other. In API mode the server calls the model,
+ * so its URL is part of the identity and the model is read from the same
+ * environment the server is configured from.
+ */
+const modelIdentity = (): string => {
+  const apiUrl = getApiBaseUrl();
+  if (apiUrl) {
+    const config = providerConfigFromEnv();
+    return `${apiUrl}|${config.provider}/${config.model || 'default'}`;
+  }
+  const provider = getProvider();
+  return `${provider.id}/${provider.model}`;
+};
+
+interface StageCache {
+  key: string;
+  ttlMs?: number;
+}
+
+const stageCache = async (
+  stage: AnalysisStageId,
+  fileHash: string,
+  criteria: EvaluationCriteria,
+  language: 'en' | 'ar',
+  syllabus?: Syllabus,
+  sampling?: Sampling
+): Promise<StageCache> => ({
+  key: await cacheKey({
+    stage,
+    promptVersion: geminiService.PROMPT_VERSIONS[stage],
+    model: modelIdentity(),
+    language,
+    fileHash,
+    inputs: stageInputs(stage, criteria, syllabus, sampling),
+  }),
+  ttlMs: CACHE_TTL_MS[stage],
+});
+
+/**
+ * Runs one model stage with retries, serving it from the cache when an
+ * earlier run had the same inputs. A failure is recorded in the outcome
+ * rather than thrown, except cancellation, which ends the whole run.
+ */
+const runStage = async <T>(
+  stage: AnalysisStageId,
+  run: (signal?: AbortSignal) => Promise<T>,
+  cache: StageCache,
+  { signal, maxAttempts = DEFAULT_STAGE_ATTEMPTS, forceRefresh }: PipelineOptions
+): Promise<StageRun<T>> => {
+  const hit = forceRefresh ? undefined : await readCache<T>(cache.key, cache.ttlMs);
+  if (hit !== undefined) return { value: hit, outcome: { stage, status: 'ok', attempts: 0, cached: true } };
+
+  let attempts = 0;
+  const started = Date.now();
+  const durationMs = () => Date.now() - started;
+  try {
+    const value = await withRetry(() => {
+      attempts++;
+      return run(signal);
+    }, {
+      maxAttempts,
+      signal,
+      onRetry: (attempt, error, delayMs) => console.warn(`${stage} attempt ${attempt} failed, retrying in ${delayMs}ms:`, error),
+    });
+    await writeCache(cache.key, stage, value);
+    return { value, outcome: { stage, status: 'ok', attempts, durationMs: durationMs() } };
+  } catch (error) {
+    if (signal?.aborted || isAbortError(error)) throw error;
+    console.warn(`${stage} stage failed:`, error);
+    return { error, outcome: { stage, status: 'failed', attempts, error: errorMessage(error), durationMs: durationMs() } };
+  }
+};
+
+// The report is the local baseline when the model could not extract or evaluate
+const baselineReason = (stages: StageOutcome[]) =>
+  stages.find(s => (s.stage === 'extract' || s.stage === 'evaluate') && s.status === 'failed')?.error;
+
+interface ReportParts {
+  syllabus: Syllabus;
+  evaluation: EvaluationOutput;
+  sourceDocument?: SourceDocument;
+  benchmarks: BenchmarkResult[];
+  tutors: Tutor[];
+  documentStats: AnalysisResult['documentStats'];
+  stability?: ScoreStability;
+  stages: StageOutcome[];
+  modelCalls: ModelCall[];
+}
+
+/**
+ * Combines the stage results with the local checks into the final report.
+ */
+const assembleReport = (parts: ReportParts, criteria: EvaluationCriteria, language: 'en' | 'ar'): AnalysisResult => {
+  const { syllabus, evaluation, sourceDocument, stages } = parts;
+  const combined = applyLocalChecks(evaluation, runLocalChecks(syllabus, criteria, language), criteria.rubric);
+  return {
+    courseTitle: syllabus.course.title,
+    syllabus,
+    sourceDocument,
+    ...evaluation,
+    ...combined,
+    ...(sourceDocument ? attachEvidenceLocations(sourceDocument, combined) : {}),
+    benchmarks: parts.benchmarks,
+    tutors: parts.tutors,
+    documentStats: parts.documentStats,
+    modelError: baselineReason(stages),
+    stability: parts.stability,
+    stages: [...stages].sort((a, b) => STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage)),
+    modelCalls: parts.modelCalls,
+  };
+};
+
+/**
+ * Runs the full evaluation of one syllabus file: extraction, rubric
+ * evaluation, local checks, benchmarking and tutor search. Each model stage
+ * is retried on transient errors, reused from the cache when its inputs are
+ * unchanged, and reports its outcome in `stages`. With `samples` above 1 the
+ * evaluation is run that many times and pooled into `stability`. Every model
+ * request is listed in `modelCalls` with its tokens, time and cost.
+ *
+ * A rule-based reading of the document text is prepared first. If the model
+ * extraction or evaluation fails, the report falls back to it and carries
+ * `modelError`; the analysis only fails when there is no document text to
+ * fall back on, or when it is cancelled.
+ */
+export const analyzeSyllabus = async (
+  file: File,
+  criteria: EvaluationCriteria,
+  language: 'en' | 'ar',
+  options: PipelineOptions = {}
+): Promise<AnalysisResult> => {
+  const { onStage = () => {}, signal } = options;
+  const modelCalls: ModelCall[] = [];
+  const record = (call: ModelCall) => modelCalls.push(call);
+
+  onStage('uploading');
+  const filePart = await geminiService.fileToGenerativePart(file);
+  const fileHash = await hashFile(file);
+  const cache = (stage: AnalysisStageId, syllabus?: Syllabus, sampling?: Sampling) =>
+    stageCache(stage, fileHash, criteria, language, syllabus, sampling);
+  // The evidence viewer is optional; a text extraction failure must not block the evaluation
+  const sourceDocument = await extractDocumentText(file).catch(error => {
+    console.warn("Document text extraction failed:", error);
+    return undefined;
+  });
+  signal?.throwIfAborted();
+  const local = sourceDocument ? analyzeDocumentLocally(sourceDocument, criteria.syllabusTemplate) : undefined;
+
+  onStage('extracting');
+  const extract = await runStage('extract', s => geminiService.extractSyllabus(filePart, s, record), await cache('extract'), options);
+  if (!extract.value && !local) throw extract.error;
+  const syllabus = extract.value || local!.syllabus;
+
+  onStage('analyzing');
+  const { samples = 1, temperature = DEFAULT_SAMPLE_TEMPERATURE } = options;
+  let evaluate: StageRun<EvaluationOutput>;
+  let stability: ScoreStability | undefined;
+  // Once extraction has failed the model is probably unreachable, so later model stages are skipped
+  if (!extract.value) {
+    evaluate = skipped('evaluate');
+  } else if (samples > 1) {
+    const sampled = await runStage(
+      'evaluate',
+      s => Promise.all(Array.from({ length: samples }, () =>
+        geminiService.evaluateSyllabusContent(filePart, syllabus, criteria, language, s, temperature, record))),
+      await cache('evaluate', syllabus, { samples, temperature }),
+      options
+    );
+    const checks = runLocalChecks(syllabus, criteria, language);
+    const pooled = sampled.value &&
+      poolEvaluations(sampled.value, run => applyLocalChecks(run, checks, criteria.rubric).overallScore, temperature);
+    evaluate = { ...sampled, value: pooled?.evaluation };
+    stability = pooled?.stability;
+  } else {
+    evaluate = await runStage('evaluate', s => geminiService.evaluateSyllabusContent(filePart, syllabus, criteria, language, s, undefined, record), await cache('evaluate', syllabus), options);
+  }
+  const evaluation = evaluate.value || evaluateLocally(syllabus, runLocalChecks(syllabus, criteria, language), criteria, language);
+
+  onStage('gathering_data');
+
+  // Execute external searches in parallel to save time
+  // Both searches work from the structured syllabus extracted above
+  const [benchmark, tutors] = await Promise.all([
+    extract.value
+      ? runStage('benchmark', s => geminiService.performBenchmarking(syllabus, criteria.benchmarkUniversities, language, s, record), await cache('benchmark', syllabus), options)
+      : skipped<BenchmarkResult[]>('benchmark'),
+    extract.value
+      ? runStage('tutors', s => geminiService.findLocalTutors(syllabus, language, s, record), await cache('tutors', syllabus), options)
+      : skipped<Tutor[]>('tutors'),
+  ]);
+
+  return assembleReport({
+    syllabus,
+    evaluation,
+    sourceDocument,
+    benchmarks: benchmark.value || [],
+    tutors: tutors.value || [],
+    documentStats: local?.stats,
+    stability,
+    stages: [extract.outcome, evaluate.outcome, benchmark.outcome, tutors.outcome],
+    modelCalls,
+  }, criteria, language);
+};
+
+// The document text kept with a report stands in for the original file on re-runs
+const documentPart = (source: SourceDocument): LLMPart => ({
+  text: source.pages.map(page => page.paragraphs.join('\n\n')).join('\n\n'),
+});
+
+/**
+ * Re-runs one model stage of a finished analysis and rebuilds the report
+ * around its new output; the other stages keep their results. Extraction and
+ * evaluation read the document text stored with the report. Unlike a full
+ * run, a failure is thrown and the report is left as it was, and the cache
+ * is never read.
+ */
+export const rerunStage = async (
+  result: AnalysisResult,
+  stage: AnalysisStageId,
+  criteria: EvaluationCriteria,
+  language: 'en' | 'ar',
+  options: Omit<PipelineOptions, 'onStage' | 'forceRefresh'> & { fileHash?: string } = {}
+): Promise<AnalysisResult> => {
+  const { signal, maxAttempts = DEFAULT_STAGE_ATTEMPTS, fileHash } = options;
+  const source = result.sourceDocument;
+  if ((stage === 'extract' || stage === 'evaluate') && !source) {
+    throw new Error("The document text is not stored with this report, so the stage cannot be re-run.");
+  }
+
+  let attempts = 0;
+  const started = Date.now();
+  const modelCalls = [...(result.modelCalls || [])];
+  const record = (call: ModelCall) => modelCalls.push(call);
+  const retry = <T>(run: () => Promise<T>) => withRetry(() => {
+    attempts++;
+    return run();
+  }, { maxAttempts, signal });
+
+  const previous = result.stages || [];
+  const modelEvaluated = previous.some(s => s.stage === 'evaluate' && s.status === 'ok');
+  const parts: ReportParts = {
+    syllabus: result.syllabus,
+    // Rule findings are merged in again when the report is reassembled
+    evaluation: {
+      sectionScores: result.sectionScores,
+      gapAnalysis: stripFindings(result.gapAnalysis, result.ruleFindings),
+      recommendations: result.recommendations,
+      revisedILOs: result.revisedILOs,
+      suggestedActivities: result.suggestedActivities,
+    },
+    sourceDocument: source,
+    benchmarks: result.benchmarks,
+    tutors: result.tutors,
+    documentStats: result.documentStats,
+    stability: result.stability,
+    stages: previous,
+    modelCalls,
+  };
+
+  if (stage === 'extract') {
+    parts.syllabus = await retry(() => geminiService.extractSyllabus(documentPart(source!), signal, record));
+    // A local baseline evaluation is redone for the new syllabus; a model one is kept
+    if (!modelEvaluated) {
+      parts.evaluation = evaluateLocally(parts.syllabus, runLocalChecks(parts.syllabus, criteria, language), criteria, language);
+    }
+  } else if (stage === 'evaluate') {
+    parts.evaluation = await retry(() =>
+      geminiService.evaluateSyllabusContent(documentPart(source!), result.syllabus, criteria, language, signal, undefined, record));
+    // A re-run is a single evaluation, so the earlier runs' spread no longer applies
+    parts.stability = undefined;
+  } else if (stage === 'benchmark') {
+    parts.benchmarks = await retry(() =>
+      geminiService.performBenchmarking(result.syllabus, criteria.benchmarkUniversities, language, signal, record));
+  } else {
+    parts.tutors = await retry(() => geminiService.findLocalTutors(result.syllabus, language, signal, record));
+  }
+
+  // A re-run always calls the model; with the file hash its result replaces the cached one
+  if (fileHash) {
+    const value = stage === 'extract' ? parts.syllabus
+      : stage === 'evaluate' ? parts.evaluation
+      : stage === 'benchmark' ? parts.benchmarks
+      : parts.tutors;
+    const { key } = await stageCache(stage, fileHash, criteria, language, stage === 'extract' ? undefined : result.syllabus);
+    await writeCache(key, stage, value);
+  }
+
+  parts.stages = [...previous.filter(s => s.stage !== stage), { stage, status: 'ok', attempts, durationMs: Date.now() - started }];
+  return assembleReport(parts, criteria, language);
+};
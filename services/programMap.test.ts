@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryEntry, PloLink, ProgramCourse, ProgramMap, Syllabus } from '../types';
+import { buildCoverageMatrix, courseKey, mergeSuggestions, parseProgramMap, programCourses } from './programMap';
+
+const syllabus = (title: string, code?: string, iloIds = ['ILO1', 'ILO2']): Syllabus => ({
+  course: { title, code, prerequisites: [] },
+  ilos: iloIds.map(id => ({ id, text: `${id} of ${title}` })),
+  weeklyPlan: [],
+  assessments: [],
+  references: [],
+  policies: [],
+  sectionHeadings: [],
+});
+
+const entry = (id: string, s: Syllabus) => ({ id, result: { syllabus: s } }) as HistoryEntry;
+
+const link = (key: string, iloId: string, ploId: string, level: PloLink['level'], status: PloLink['status'] = 'confirmed'): PloLink =>
+  ({ courseKey: key, iloId, ploId, level, status });
+
+describe('courseKey and programCourses', () => {
+  it('keys courses by normalized code, else title', () => {
+    expect(courseKey(syllabus('Data Structures', 'CS 201'))).toBe('cs 201');
+    expect(courseKey(syllabus('Data Structures'))).toBe('data structures');
+  });
+
+  it('keeps the newest analysis of each course, sorted by code', () => {
+    const courses = programCourses([
+      entry('new', syllabus('Data Structures', 'CS201', ['ILO1', 'ILO2', 'ILO3'])),
+      entry('algo', syllabus('Algorithms', 'CS301')),
+      entry('old', syllabus('Data Structures', 'cs201')),
+      entry('intro', syllabus('Programming', 'CS101')),
+    ]);
+    expect(courses.map(c => [c.courseKey, c.entryId, c.ilos.length])).toEqual([
+      ['cs101', 'intro', 2],
+      ['cs201', 'new', 3],
+      ['cs301', 'algo', 2],
+    ]);
+  });
+});
+
+describe('mergeSuggestions', () => {
+  it('adds only suggestions that are not linked yet', () => {
+    const program: ProgramMap = { name: 'BSc CS', outcomes: [], links: [link('cs101', 'ILO1', 'PLO1', 'introduced', 'rejected')] };
+    const merged = mergeSuggestions(program, [
+      link('cs101', 'ILO1', 'PLO1', 'mastered', 'suggested'),
+      link('cs101', 'ILO2', 'PLO1', 'introduced', 'suggested'),
+    ]);
+    expect(merged.links.map(l => [l.iloId, l.status])).toEqual([['ILO1', 'rejected'], ['ILO2', 'suggested']]);
+  });
+});
+
+describe('buildCoverageMatrix', () => {
+  const courses: ProgramCourse[] = [
+    { courseKey: 'cs101', title: 'Programming', entryId: 'a', ilos: [{ id: 'ILO1', text: '' }, { id: 'ILO2', text: '' }] },
+    { courseKey: 'cs201', title: 'Data Structures', entryId: 'b', ilos: [{ id: 'ILO1', text: '' }] },
+  ];
+  const program: ProgramMap = {
+    name: 'BSc CS',
+    outcomes: [
+      { id: 'PLO1', text: 'Write programs.' },
+      { id: 'PLO2', text: 'Use data structures.' },
+      { id: 'PLO3', text: 'Communicate.' },
+      { id: 'PLO4', text: 'Work in teams.' },
+    ],
+    links: [
+      link('cs101', 'ILO1', 'PLO1', 'introduced'),
+      link('cs101', 'ILO2', 'PLO1', 'reinforced'),
+      link('cs201', 'ILO1', 'PLO1', 'mastered'),
+      link('cs201', 'ILO1', 'PLO2', 'reinforced'),
+      link('cs101', 'ILO1', 'PLO3', 'introduced'),
+      // Not confirmed, or pointing at an ILO the course no longer has
+      link('cs201', 'ILO1', 'PLO3', 'mastered', 'suggested'),
+      link('cs201', 'ILO9', 'PLO4', 'mastered'),
+    ],
+  };
+  const matrix = buildCoverageMatrix(program, courses, 'en');
+
+  it('keeps the highest confirmed level per course', () => {
+    expect(matrix.rows[0]).toMatchObject({
+      ploId: 'PLO1',
+      highest: 'mastered',
+      courseCount: 2,
+      cells: { cs101: { level: 'reinforced', iloIds: ['ILO1', 'ILO2'] }, cs201: { level: 'mastered', iloIds: ['ILO1'] } },
+    });
+  });
+
+  it('reports PLOs that are not taken to mastery', () => {
+    expect(matrix.gaps.map(g => [g.ploId, g.kind, g.severity])).toEqual([
+      ['PLO2', 'notMastered', 'minor'],
+      ['PLO3', 'introducedOnly', 'major'],
+      ['PLO4', 'uncovered', 'critical'],
+    ]);
+    expect(matrix.gaps[1].message).toBe('PLO3 is only introduced (1 courses), never reinforced or mastered.');
+  });
+});
+
+describe('parseProgramMap', () => {
+  it('reports schema problems', () => {
+    const { program, issues } = parseProgramMap(JSON.stringify({ name: 'BSc CS', outcomes: [], links: [{ courseKey: 'cs101', iloId: 'ILO1', ploId: 'PLO1', level: 'expert', status: 'confirmed' }] }));
+    expect(program).toBeUndefined();
+    expect(issues.map(i => i.path)).toEqual(['$.links[0].level']);
+  });
+});
@@ -0,0 +1,114 @@
+import { CoverageGap, CoverageLevel, CoverageMatrix, CoverageRow, HistoryEntry, PloLink, ProgramCourse, ProgramMap, Syllabus } from "../types";
+import { translations } from "../translations";
+import { formatMessage } from "./ruleFindings";
+import { programMapSpec, validate, ValidationIssue } from "./schema";
+import { normalizeText } from "./textUtils";
+
+const STORAGE_KEY = 'pau.programMap';
+
+export const EMPTY_PROGRAM: ProgramMap = { name: '', outcomes: [], links: [] };
+
+const LEVEL_RANK: Record<CoverageLevel, number> = { introduced: 1, reinforced: 2, mastered: 3 };
+
+const higher = (a: CoverageLevel | undefined, b: CoverageLevel) =>
+  !a || LEVEL_RANK[b] > LEVEL_RANK[a] ? b : a;
+
+export const parseProgramMap = (json: string): { program?: ProgramMap; issues: ValidationIssue[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    return { issues: [{ path: '$', message: e instanceof Error ? e.message : 'is not valid JSON' }] };
+  }
+  const issues = validate(programMapSpec, value);
+  return issues.length === 0 ? { program: value as ProgramMap, issues } : { issues };
+};
+
+export const loadProgramMap = (): ProgramMap => {
+  if (typeof localStorage === 'undefined') return EMPTY_PROGRAM;
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return (stored && parseProgramMap(stored).program) || EMPTY_PROGRAM;
+};
+
+export const saveProgramMap = (program: ProgramMap) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(program));
+};
+
+/**
+ * Identifies a course across re-analyses: its code if extracted, else its
+ * title. Links are keyed by it, so confirmed mappings survive a revised
+ * syllabus as long as ILO ids stay the same.
+ */
+export const courseKey = (syllabus: Syllabus) =>
+  normalizeText(syllabus.course.code || syllabus.course.title);
+
+/**
+ * The latest saved analysis of each course. `entries` must be newest first,
+ * as returned by listAnalyses.
+ */
+export const programCourses = (entries: HistoryEntry[]): ProgramCourse[] => {
+  const courses = new Map<string, ProgramCourse>();
+  for (const entry of entries) {
+    const syllabus = entry.result.syllabus;
+    if (!syllabus) continue;
+    const key = courseKey(syllabus);
+    if (!key || courses.has(key)) continue;
+    courses.set(key, {
+      courseKey: key,
+      title: syllabus.course.title,
+      code: syllabus.course.code,
+      entryId: entry.id,
+      ilos: syllabus.ilos,
+    });
+  }
+  return [...courses.values()].sort((a, b) => (a.code || a.title).localeCompare(b.code || b.title));
+};
+
+const sameLink = (a: PloLink, b: PloLink) =>
+  a.courseKey === b.courseKey && a.iloId === b.iloId && a.ploId === b.ploId;
+
+/**
+ * Adds model suggestions that are not already linked, confirmed or rejected.
+ */
+export const mergeSuggestions = (program: ProgramMap, suggestions: PloLink[]): ProgramMap => ({
+  ...program,
+  links: [...program.links, ...suggestions.filter(s => !program.links.some(l => sameLink(l, s)))],
+});
+
+/**
+ * Builds the PLO x course matrix from confirmed links and reports PLOs that
+ * are never covered, only introduced, or never taken to mastery.
+ */
+export const buildCoverageMatrix = (
+  program: ProgramMap,
+  courses: ProgramCourse[],
+  language: 'en' | 'ar'
+): CoverageMatrix => {
+  const confirmed = program.links.filter(l =>
+    l.status === 'confirmed' && courses.some(c => c.courseKey === l.courseKey && c.ilos.some(ilo => ilo.id === l.iloId)));
+
+  const rows: CoverageRow[] = program.outcomes.map(outcome => {
+    const cells: CoverageRow['cells'] = {};
+    let highest: CoverageLevel | undefined;
+    for (const link of confirmed.filter(l => l.ploId === outcome.id)) {
+      const cell = cells[link.courseKey] || (cells[link.courseKey] = { iloIds: [] });
+      cell.level = higher(cell.level, link.level);
+      if (!cell.iloIds.includes(link.iloId)) cell.iloIds.push(link.iloId);
+      highest = higher(highest, link.level);
+    }
+    return { ploId: outcome.id, ploText: outcome.text, cells, highest, courseCount: Object.keys(cells).length };
+  });
+
+  const messages = translations[language].programGaps;
+  const gaps: CoverageGap[] = [];
+  for (const row of rows) {
+    const gap = (kind: CoverageGap['kind'], severity: CoverageGap['severity']) =>
+      gaps.push({ ploId: row.ploId, kind, severity, message: formatMessage(messages[kind], { plo: row.ploId, courses: row.courseCount }) });
+    if (!row.highest) gap('uncovered', 'critical');
+    else if (row.highest === 'introduced') gap('introducedOnly', 'major');
+    else if (row.highest === 'reinforced') gap('notMastered', 'minor');
+  }
+
+  return { courses, rows, gaps };
+};
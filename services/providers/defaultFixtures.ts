@@ -0,0 +1,171 @@
+import type { FixtureSet } from "./fixtureProvider";
+import type { LLMRequest } from "./types";
+
+/**
+ * Recorded responses for a sample "Data Structures" syllabus.
+ * Used when LLM_PROVIDER=fixture so the full flow runs without network access.
+ */
+
+const syllabus = {
+  course: {
+    title: "Data Structures",
+    code: "CS 221",
+    department: "Computer Science",
+    instructor: "Dr. Sample Lecturer",
+    semester: "Fall 2025",
+    creditHours: 3,
+    prerequisites: ["CS 121 Programming II"],
+    description: "Fundamental data structures, their implementation and analysis.",
+  },
+  ilos: [
+    { id: "ILO1", text: "Understand linear and non-linear data structures." },
+    { id: "ILO2", text: "Analyze the complexity of algorithms using Big-O notation." },
+    { id: "ILO3", text: "Implement data structures in Java." },
+    { id: "ILO4", text: "Know how to choose a suitable data structure for a problem." },
+  ],
+  weeklyPlan: [
+    { week: 1, topics: ["Course introduction", "Algorithm Complexity"], iloIds: ["ILO2"] },
+    { week: 2, topics: ["Arrays and Linked Lists"], iloIds: ["ILO1", "ILO3"] },
+    { week: 3, topics: ["Stacks and Queues"], iloIds: ["ILO1", "ILO3"] },
+    { week: 4, topics: ["Trees and Binary Search Trees"], iloIds: ["ILO1", "ILO3"] },
+    { week: 5, topics: ["Heaps and Priority Queues"], iloIds: ["ILO1"] },
+    { week: 6, topics: ["Hash Tables"], iloIds: ["ILO1", "ILO3"] },
+    { week: 7, topics: ["Graphs and Traversals"], iloIds: ["ILO1"] },
+    { week: 8, topics: ["Sorting Algorithms"], iloIds: ["ILO2", "ILO3"] },
+  ],
+  assessments: [
+    { name: "Quizzes", type: "quiz", weight: 10, iloIds: ["ILO1"] },
+    { name: "Programming Project", type: "project", weight: 20, week: 12, iloIds: ["ILO3"] },
+    { name: "Midterm Exam", type: "midterm", weight: 30, week: 8, iloIds: ["ILO1", "ILO2"] },
+    { name: "Final Exam", type: "final", weight: 40, week: 16, iloIds: ["ILO1", "ILO2", "ILO3"] },
+  ],
+  references: [
+    "Goodrich, M. T., Tamassia, R., & Goldwasser, M. H. (2014). Data Structures and Algorithms in Java (6th ed.). Wiley.",
+    "Weiss, M. A. (2011). Data Structures and Algorithm Analysis in Java (3rd ed.). Pearson.",
+  ],
+  policies: [
+    { title: "Attendance", text: "Students missing more than 15% of lectures are barred from the final exam." },
+  ],
+  sectionHeadings: [
+    "Course Information",
+    "Course Description",
+    "Intended Learning Outcomes",
+    "Weekly Plan",
+    "Assessment",
+    "References",
+    "Attendance Policy",
+  ],
+};
+
+const evaluation = {
+  sectionScores: [
+    {
+      criterionId: "iloClarity", section: "ILO Clarity", score: 65,
+      feedback: "Several ILOs use non-measurable verbs such as 'understand'.",
+      evidence: [
+        { quote: "Understand linear and non-linear data structures.", page: 1 },
+        { quote: "Know how to choose a suitable data structure for a problem.", page: 1 },
+      ],
+    },
+    {
+      criterionId: "iloAlignment", section: "Constructive Alignment", score: 70,
+      feedback: "Weekly topics map to most ILOs, but ILO 4 is not assessed.",
+      evidence: [{ quote: "Know how to choose a suitable data structure for a problem.", page: 1 }],
+    },
+    {
+      criterionId: "assessmentQuality", section: "Assessment Rigor", score: 78,
+      feedback: "Good mix of quizzes, projects and exams; rubrics are missing.",
+      evidence: [{ quote: "Programming Project", page: 2 }],
+    },
+    {
+      criterionId: "referenceCurrency", section: "Resource Currency", score: 60,
+      feedback: "Main textbook edition is from 2011.",
+      evidence: [{ quote: "Weiss, M. A. (2011). Data Structures and Algorithm Analysis in Java (3rd ed.). Pearson.", page: 2 }],
+    },
+    {
+      criterionId: "structureCompliance", section: "Structure", score: 85,
+      feedback: "Clear weekly plan and course description.",
+      evidence: [{ quote: "Weekly Plan", page: 1 }],
+    },
+  ],
+  gapAnalysis: {
+    missingComponents: [
+      { text: "No academic integrity / plagiarism policy", evidence: [{ quote: "", absent: true }] },
+      { text: "No office hours listed", evidence: [{ quote: "", absent: true }] },
+    ],
+    weaknesses: [
+      { text: "ILOs are too vague", evidence: [{ quote: "Understand linear and non-linear data structures.", page: 1 }] },
+      { text: "References are outdated", evidence: [{ quote: "Weiss, M. A. (2011).", page: 2 }] },
+      { text: "No grading rubrics for the project", evidence: [{ quote: "Programming Project", page: 2 }] },
+    ],
+    strengths: [
+      { text: "Clear 16-week plan", evidence: [{ quote: "Weekly Plan", page: 1 }] },
+      { text: "Diverse assessment methods", evidence: [{ quote: "Quizzes", page: 2 }] },
+    ],
+  },
+  recommendations: [
+    "Rewrite ILOs using measurable Bloom's verbs.",
+    "Adopt a textbook edition published within the last 5 years.",
+    "Publish rubrics for the course project.",
+  ],
+  revisedILOs: [
+    "Implement linear and non-linear data structures in a high-level language.",
+    "Analyze the time and space complexity of common algorithms using Big-O notation.",
+    "Select an appropriate data structure for a given problem and justify the choice.",
+  ],
+  suggestedActivities: [
+    { title: "Structure Showdown", description: "Teams benchmark a list, hash table and BST on the same workload.", learningOutcomeMap: "ILO 2, ILO 3" },
+    { title: "Trace the Heap", description: "Students trace heap insertions on the board in pairs.", learningOutcomeMap: "ILO 1" },
+    { title: "Graph Puzzle Hunt", description: "Solve campus navigation puzzles with BFS and DFS.", learningOutcomeMap: "ILO 1, ILO 3" },
+  ],
+};
+
+const benchmark = `
+BENCHMARK_ITEM
+University: ACM/IEEE CS2023
+Comparison: CS2023 lists hashing, balanced trees and graph algorithms as core. Your syllabus covers these but does not mention balanced trees (AVL/Red-Black).
+END_ITEM
+
+BENCHMARK_ITEM
+University: MIT 6.006
+Comparison: MIT 6.006 emphasizes algorithm analysis and dynamic programming. Your syllabus covers complexity but not dynamic programming.
+END_ITEM
+`;
+
+const tutors = `
+TUTOR_ITEM
+Name: Dr. Sample Lecturer
+Affiliation: Palestine Ahliya University
+Email: Not listed
+Specialization: Algorithms and Data Structures
+END_ITEM
+`;
+
+// Curriculum map for the sample course against PLO1-PLO3
+const ploMappings = {
+  mappings: [
+    { courseKey: "cs 221", iloId: "ILO1", ploId: "PLO1", level: "introduced", rationale: "Covers the core data structures at a descriptive level." },
+    { courseKey: "cs 221", iloId: "ILO2", ploId: "PLO2", level: "reinforced", rationale: "Applies complexity analysis to concrete algorithms." },
+    { courseKey: "cs 221", iloId: "ILO3", ploId: "PLO3", level: "reinforced", rationale: "Students implement the structures in Java." },
+    { courseKey: "cs 221", iloId: "ILO4", ploId: "PLO2", level: "introduced", rationale: "Choosing a structure for a problem is introduced." },
+  ],
+};
+
+/**
+ * The translation prompt embeds the report as JSON after "JSON:".
+ * Echoing it back keeps the offline flow working when the language is toggled.
+ */
+const echoTranslation = (request: LLMRequest) => {
+  const prompt = request.parts.map(p => ('text' in p ? p.text : '')).join('\n');
+  const index = prompt.lastIndexOf('JSON:');
+  return index >= 0 ? prompt.slice(index + 'JSON:'.length).trim() : '{}';
+};
+
+export const defaultFixtures: FixtureSet = {
+  extract: [JSON.stringify(syllabus)],
+  evaluate: [JSON.stringify(evaluation)],
+  benchmark: [benchmark],
+  tutors: [tutors],
+  translate: [echoTranslation],
+  mapPlos: [JSON.stringify(ploMappings)],
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createFixtureProvider, createProvider } from '.';
+
+describe('createFixtureProvider', () => {
+  it('cycles through the recordings of each stage', async () => {
+    const provider = createFixtureProvider({ extract: ['first', 'second'], tutors: [request => `echo ${request.parts.length}`] });
+    const extract = () => provider.generate({ stage: 'extract', parts: [] }).then(r => r.text);
+
+    expect([await extract(), await extract(), await extract()]).toEqual(['first', 'second', 'first']);
+    expect((await provider.generate({ stage: 'tutors', parts: [{ text: 'a' }, { text: 'b' }] })).text).toBe('echo 2');
+  });
+
+  it('fails for a stage without recordings', async () => {
+    await expect(createFixtureProvider({}).generate({ stage: 'translate', parts: [] })).rejects.toThrow('No fixture recorded for stage "translate"');
+  });
+
+  it('honours an aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(createFixtureProvider().generate({ stage: 'extract', parts: [], signal: controller.signal })).rejects.toThrow();
+  });
+});
+
+describe('createProvider', () => {
+  it('requires a base URL for the OpenAI-compatible provider', () => {
+    expect(() => createProvider({ provider: 'openai' })).toThrow('LLM_BASE_URL');
+  });
+
+  it('creates the fixture provider without configuration', () => {
+    expect(createProvider({ provider: 'fixture' })).toMatchObject({ id: 'fixture', model: 'fixture-replay' });
+  });
+});
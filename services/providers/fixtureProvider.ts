@@ -0,0 +1,38 @@
+import { LLMProvider, LLMRequest, LLMResponse, LLMStage } from "./types";
+import { defaultFixtures } from "./defaultFixtures";
+
+/**
+ * A recorded response. Functions receive the request so a fixture can echo
+ * part of it back (e.g. the translation stage returning its input).
+ */
+export type Fixture = string | ((request: LLMRequest) => string);
+
+export type FixtureSet = Partial<Record<LLMStage, Fixture[]>>;
+
+/**
+ * Offline provider that replays recorded responses per stage. Each stage
+ * cycles through its recordings in order, so a given sequence of calls
+ * always produces the same output.
+ */
+export const createFixtureProvider = (fixtures: FixtureSet = defaultFixtures): LLMProvider => {
+  const callCounts: Partial<Record<LLMStage, number>> = {};
+
+  return {
+    id: 'fixture',
+    model: 'fixture-replay',
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      request.signal?.throwIfAborted();
+      const recordings = fixtures[request.stage];
+      if (!recordings || recordings.length === 0) {
+        throw new Error(`No fixture recorded for stage "${request.stage}".`);
+      }
+
+      const index = callCounts[request.stage] || 0;
+      callCounts[request.stage] = index + 1;
+
+      const fixture = recordings[index % recordings.length];
+      const text = typeof fixture === 'function' ? fixture(request) : fixture;
+      return { text, sourceUrls: [] };
+    },
+  };
+};
@@ -0,0 +1,50 @@
+import { GoogleGenAI } from "@google/genai";
+import { LLMProvider, LLMRequest, LLMResponse } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Google Gemini provider. Supports inline PDFs, structured JSON output and
+ * Google Search grounding.
+ */
+export const createGeminiProvider = (apiKey?: string, model: string = DEFAULT_GEMINI_MODEL): LLMProvider => {
+  const client = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    model,
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const response = await client.models.generateContent({
+        model,
+        contents: { parts: request.parts },
+        config: {
+          ...(request.useSearch
+            // Do NOT set responseMimeType to JSON when using tools
+            ? { tools: [{ googleSearch: {} }] }
+            : {
+                ...(request.jsonOutput ? { responseMimeType: 'application/json' } : {}),
+                ...(request.responseSchema ? { responseSchema: request.responseSchema } : {}),
+              }),
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          abortSignal: request.signal,
+        },
+      });
+
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      const sourceUrls = chunks
+        .map((c: any) => c.web?.uri)
+        .filter((uri: any): uri is string => typeof uri === 'string');
+
+      const usage = response.usageMetadata;
+      return {
+        text: response.text || '',
+        sourceUrls,
+        usage: usage && {
+          promptTokens: usage.promptTokenCount,
+          // Thinking tokens are billed as output but counted separately
+          responseTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,57 @@
+import { LLMProvider, ProviderConfig, ProviderId } from "./types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createFixtureProvider } from "./fixtureProvider";
+
+export * from "./types";
+export { createGeminiProvider, createOpenAICompatibleProvider, createFixtureProvider };
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config.apiKey, config.model || DEFAULT_GEMINI_MODEL);
+    case 'openai':
+      if (!config.baseUrl) {
+        throw new Error("LLM_BASE_URL must be set to use the OpenAI-compatible provider.");
+      }
+      return createOpenAICompatibleProvider(config.baseUrl, config.model || 'llama3.1', config.apiKey);
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+};
+
+/**
+ * Reads the provider configuration injected by Vite (see vite.config.ts), or
+ * the real environment under Node, where the Gemini key is GEMINI_API_KEY.
+ * Defaults to Gemini so existing deployments keep working unchanged.
+ */
+export const providerConfigFromEnv = (): ProviderConfig => {
+  const provider = (process.env.LLM_PROVIDER || 'gemini') as ProviderId;
+  return {
+    provider,
+    model: process.env.LLM_MODEL || undefined,
+    apiKey: provider === 'gemini' ? process.env.API_KEY || process.env.GEMINI_API_KEY : process.env.LLM_API_KEY,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+  };
+};
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Returns the shared provider, creating it from the environment on first use.
+ */
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(providerConfigFromEnv());
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the shared provider (e.g. to replay fixtures in tests).
+ */
+export const setProvider = (provider: LLMProvider | null) => {
+  activeProvider = provider;
+};
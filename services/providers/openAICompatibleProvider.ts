@@ -0,0 +1,72 @@
+import { LLMPart, LLMProvider, LLMRequest, LLMRequestError, LLMResponse } from "./types";
+
+/**
+ * Converts our parts into OpenAI chat message content.
+ * Images are sent as data URLs; other binary documents (PDF) are not
+ * understood by chat-completions servers, so we refuse them early.
+ */
+const toMessageContent = (parts: LLMPart[]) => {
+  return parts.map(part => {
+    if ('text' in part) {
+      return { type: 'text', text: part.text };
+    }
+    if (part.inlineData.mimeType.startsWith('image/')) {
+      return {
+        type: 'image_url',
+        image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+      };
+    }
+    throw new Error(`The OpenAI-compatible provider cannot read ${part.inlineData.mimeType} files. Please upload DOCX or TXT.`);
+  });
+};
+
+/**
+ * Provider for any server exposing the OpenAI `/chat/completions` API
+ * (Ollama, llama.cpp, vLLM, LM Studio, ...). Web search is not available,
+ * so search-grounded stages run on the model's own knowledge.
+ */
+export const createOpenAICompatibleProvider = (baseUrl: string, model: string, apiKey?: string): LLMProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai',
+    model,
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const wantsJson = request.jsonOutput && !request.useSearch;
+      const content = toMessageContent(request.parts);
+
+      if (wantsJson && request.responseSchema) {
+        content.push({
+          type: 'text',
+          text: `Respond ONLY with JSON matching this schema:\n${JSON.stringify(request.responseSchema)}`,
+        });
+      }
+
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content }],
+          ...(wantsJson ? { response_format: { type: 'json_object' } } : {}),
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        }),
+        signal: request.signal,
+      });
+
+      if (!res.ok) {
+        throw new LLMRequestError(`LLM server responded with ${res.status} ${res.statusText}`, res.status);
+      }
+
+      const body = await res.json();
+      return {
+        text: body.choices?.[0]?.message?.content || '',
+        sourceUrls: [],
+        usage: body.usage && { promptTokens: body.usage.prompt_tokens, responseTokens: body.usage.completion_tokens },
+      };
+    },
+  };
+};
@@ -0,0 +1,70 @@
+import type { Schema } from "@google/genai";
+
+/**
+ * The pipeline stage a request belongs to. Providers use it for logging,
+ * and the fixture provider uses it to pick the recorded response to replay.
+ */
+export type LLMStage = 'extract' | 'evaluate' | 'benchmark' | 'tutors' | 'translate' | 'mapPlos';
+
+export type LLMPart =
+  | { inlineData: { data: string; mimeType: string } }
+  | { text: string };
+
+export interface LLMRequest {
+  stage: LLMStage;
+  parts: LLMPart[];
+  /** Ask the model for a JSON body. Ignored when `useSearch` is set. */
+  jsonOutput?: boolean;
+  /** Structured output schema (Gemini schema format). */
+  responseSchema?: Schema;
+  /** Ground the answer with a web search, where the provider supports it. */
+  useSearch?: boolean;
+  /** Sampling temperature; the provider's default when unset. */
+  temperature?: number;
+  /** Aborts the request (user cancellation or timeout). */
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens?: number;
+  /** Generated tokens, thinking included. */
+  responseTokens?: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  /** URLs of the web sources used for grounding, if any. */
+  sourceUrls: string[];
+  /** Token counts, when the server reports them. */
+  usage?: LLMUsage;
+}
+
+/**
+ * An HTTP error from the model server. The status tells retryable errors
+ * (429, 5xx) apart from requests that will never succeed.
+ */
+export class LLMRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.status = status;
+  }
+}
+
+export interface LLMProvider {
+  readonly id: string;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'fixture';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model?: string;
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+}
@@ -0,0 +1,131 @@
+export interface RadarAxis {
+  label: string;
+  score: number; // 0-100
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface RadarGeometry {
+  size: number;
+  center: Point;
+  radius: number;
+  rings: Point[][]; // grid polygons at 20, 40, ... 100
+  spokes: Point[]; // outer end of each axis
+  labels: { lines: string[]; at: Point; anchor: 'start' | 'middle' | 'end' }[];
+  shape: Point[]; // the scores
+}
+
+const RING_STEPS = [20, 40, 60, 80, 100];
+const LABEL_LINE_CHARS = 16;
+
+// Long section names are wrapped onto at most two lines
+const wrapLabel = (label: string): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of label.split(/\s+/).filter(Boolean)) {
+    if (line && (line + ' ' + word).length > LABEL_LINE_CHARS) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length > 2 ? [lines[0], `${lines.slice(1).join(' ').slice(0, LABEL_LINE_CHARS - 1)}…`] : lines;
+};
+
+/**
+ * Layout of a radar chart of section scores in a `size` square, first axis
+ * pointing up and the rest clockwise, like the chart in the report view.
+ * Shared by the exporters so every format draws the same chart.
+ */
+export const radarGeometry = (axes: RadarAxis[], size: number): RadarGeometry => {
+  const center = { x: size / 2, y: size / 2 };
+  // Room for the labels around the plot
+  const radius = size * 0.3;
+  const at = (i: number, value: number): Point => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / axes.length;
+    const r = (radius * Math.max(0, Math.min(100, value))) / 100;
+    return { x: center.x + r * Math.cos(angle), y: center.y + r * Math.sin(angle) };
+  };
+
+  return {
+    size,
+    center,
+    radius,
+    rings: RING_STEPS.map(step => axes.map((_, i) => at(i, step))),
+    spokes: axes.map((_, i) => at(i, 100)),
+    labels: axes.map((axis, i) => {
+      const point = at(i, 118);
+      const dx = point.x - center.x;
+      return {
+        lines: wrapLabel(axis.label),
+        at: point,
+        anchor: Math.abs(dx) < size * 0.02 ? 'middle' : dx > 0 ? 'start' : 'end',
+      };
+    }),
+    shape: axes.map((axis, i) => at(i, axis.score)),
+  };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pointList = (points: Point[]) => points.map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ');
+
+/**
+ * The radar chart as a standalone SVG document.
+ */
+export const radarChartSvg = (axes: RadarAxis[], size = 480, color = '#2563eb'): string => {
+  const g = radarGeometry(axes, size);
+  const fontSize = Math.round(size / 40);
+  const labels = g.labels.map(({ lines, at, anchor }) => {
+    // Multi-line labels are centred vertically on their anchor point
+    const top = at.y - ((lines.length - 1) * fontSize * 1.2) / 2 + fontSize * 0.35;
+    const spans = lines.map((line, i) =>
+      `<tspan x="${at.x.toFixed(1)}" y="${(top + i * fontSize * 1.2).toFixed(1)}">${escapeXml(line)}</tspan>`).join('');
+    return `<text text-anchor="${anchor}" font-size="${fontSize}" fill="#475569">${spans}</text>`;
+  }).join('');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" font-family="Arial, Helvetica, sans-serif">`,
+    `<rect width="${size}" height="${size}" fill="#ffffff"/>`,
+    ...g.rings.map(ring => `<polygon points="${pointList(ring)}" fill="none" stroke="#cbd5e1" stroke-width="1"/>`),
+    ...g.spokes.map(end => `<line x1="${g.center.x}" y1="${g.center.y}" x2="${end.x.toFixed(1)}" y2="${end.y.toFixed(1)}" stroke="#cbd5e1" stroke-width="1"/>`),
+    `<polygon points="${pointList(g.shape)}" fill="${color}" fill-opacity="0.5" stroke="${color}" stroke-width="2"/>`,
+    labels,
+    '</svg>',
+  ].join('');
+};
+
+/**
+ * Renders an SVG document to PNG bytes at `scale` times its size. Browser only:
+ * it draws through an image element and a canvas.
+ */
+export const svgToPng = (svg: string, size: number, scale = 2): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size * scale;
+      canvas.height = size * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error("Canvas is not available."));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error("The chart could not be rendered."));
+          return;
+        }
+        blob.arrayBuffer().then(data => resolve(new Uint8Array(data)), reject);
+      }, 'image/png');
+    };
+    image.onerror = () => reject(new Error("The chart could not be rendered."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
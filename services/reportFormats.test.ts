@@ -0,0 +1,102 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { EvaluationCriteria, HistoryEntry } from '../types';
+import { translations } from '../translations';
+import { DEFAULT_ASSESSMENT_RULES } from './assessmentRules';
+import { DEFAULT_MAX_REFERENCE_AGE } from './citationParser';
+import { createHistoryEntry } from './historyStore';
+import { analyzeSyllabus } from './pipeline';
+import { createFixtureProvider, setProvider } from './providers';
+import { parseReport, reportToCsv, reportToMarkdown, REPORT_VERSION, serializeReport, summaryCsv, toCsv } from './reportFormats';
+import { defaultRubric } from './rubric';
+import { DEFAULT_TEMPLATE } from './syllabusTemplate';
+
+const criteria: EvaluationCriteria = {
+  rubric: defaultRubric(),
+  benchmarkUniversities: 'MIT',
+  assessmentRules: DEFAULT_ASSESSMENT_RULES,
+  maxReferenceAge: DEFAULT_MAX_REFERENCE_AGE,
+  syllabusTemplate: DEFAULT_TEMPLATE,
+};
+
+let entry: HistoryEntry;
+
+beforeAll(async () => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  setProvider(createFixtureProvider());
+  const file = new File(['Course Information\n\nData Structures (CS 221)'], 'syllabus.txt', { type: 'text/plain' });
+  entry = await createHistoryEntry(file, criteria, 'en', await analyzeSyllabus(file, criteria, 'en'));
+  setProvider(null);
+  vi.restoreAllMocks();
+});
+
+describe('toCsv', () => {
+  it('quotes only fields that need it', () => {
+    expect(toCsv([['a', 'b,c', 'say "hi"', 'two\nlines', 3, undefined]])).toBe('a,"b,c","say ""hi""","two\nlines",3,\r\n');
+  });
+});
+
+describe('reportToCsv', () => {
+  it('writes an overall row, then sections and findings', () => {
+    const lines = reportToCsv(entry).trimEnd().split('\r\n');
+    expect(lines[0]).toBe('file,courseCode,courseTitle,createdAt,row,criterionId,section,score,scoreStdDev,level,weight,severity,rule,support,text,evidence');
+    expect(lines[1].startsWith(`syllabus.txt,${entry.result.syllabus.course.code ?? ''},Data Structures,${entry.createdAt},overall,,,${entry.result.overallScore},`)).toBe(true);
+    const kinds = lines.slice(1).map(line => line.split(',')[4]);
+    expect(kinds.filter(k => k === 'section')).toHaveLength(entry.result.sectionScores.length);
+    expect(kinds).toContain('missing');
+  });
+
+  it('lists each file once in the summary', () => {
+    const lines = summaryCsv([{ fileName: 'a.txt', entry }, { fileName: 'b.pdf', error: 'Unreadable, "corrupt" file' }]).trimEnd().split('\r\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[1].startsWith('a.txt,ok,')).toBe(true);
+    expect(lines[2]).toMatch(/^b\.pdf,failed,.*,"Unreadable, ""corrupt"" file"$/);
+  });
+});
+
+describe('serializeReport and parseReport', () => {
+  it('round-trips a report', () => {
+    const json = serializeReport(entry, '2026-01-01T00:00:00.000Z');
+    expect(JSON.parse(json)).toMatchObject({ format: 'pau-report', version: REPORT_VERSION, exportedAt: '2026-01-01T00:00:00.000Z' });
+    expect(parseReport(json)).toEqual({ entry: JSON.parse(JSON.stringify(entry)), issues: [] });
+  });
+
+  it('rejects other JSON, newer versions and invalid reports', () => {
+    const report = JSON.parse(serializeReport(entry));
+    expect(parseReport('{').issues[0].path).toBe('$');
+    expect(parseReport('null').issues).toEqual([{ path: '$', message: 'is not a pau-report export' }]);
+    expect(parseReport(JSON.stringify({ ...report, format: 'other' })).issues).toEqual([{ path: '$', message: 'is not a pau-report export' }]);
+    expect(parseReport(JSON.stringify({ ...report, version: REPORT_VERSION + 1 })).issues)
+      .toEqual([{ path: '$.version', message: `is newer than the supported version ${REPORT_VERSION}` }]);
+
+    const { entry: parsed, issues } = parseReport(JSON.stringify({ ...report, result: { ...report.result, overallScore: 'high' } }));
+    expect(parsed).toBeUndefined();
+    expect(issues.map(i => i.path)).toEqual(['$.result.overallScore']);
+  });
+});
+
+describe('reportToMarkdown', () => {
+  const t = translations.en;
+
+  it('includes the score breakdown and findings', () => {
+    const markdown = reportToMarkdown(entry, t);
+    expect(markdown.startsWith('# Data Structures\n')).toBe(true);
+    expect(markdown).toContain(`**${t.overallScore}:** ${entry.result.overallScore}/100`);
+    expect(markdown).toContain(`| ${t.section} | ${t.score} | ${t.levelLabel} | ${t.weight} |`);
+    for (const s of entry.result.sectionScores) expect(markdown).toContain(`| ${s.section} | ${s.score} |`);
+  });
+
+  it('tables the references and the compliance checklist', () => {
+    const markdown = reportToMarkdown(entry, t);
+    const { referenceReport, complianceReport } = entry.result;
+
+    expect(markdown).toContain(`| ${t.references} | ${t.year} | ${t.age} | ${t.status} |`);
+    for (const e of referenceReport!.entries) {
+      const status = e.age === undefined ? t.undated : e.outdated ? t.outdated : t.current;
+      expect(markdown).toContain(`| ${e.raw.replace(/\|/g, '\\|')} | ${e.year ?? ''} | ${e.age !== undefined ? `${e.age} ${t.years}` : ''} | ${status} |`);
+    }
+    expect(markdown).toContain(`| ${t.section} | ${t.matchedHeading} | ${t.status} |`);
+    for (const item of complianceReport!.items) {
+      expect(markdown).toMatch(new RegExp(`\\| ${item.name}[^|\\n]* \\| [^|\\n]* \\| ${t.complianceStatus[item.status]} \\|`));
+    }
+  });
+});
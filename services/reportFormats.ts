@@ -0,0 +1,267 @@
+import { Evidence, GapItem, HistoryEntry, ReportExport } from "../types";
+import { enabledCriteria, rubricLevel } from "./rubric";
+import { formatMessage } from "./ruleFindings";
+import { reportExportSpec, validate, ValidationIssue } from "./schema";
+import { isLowConfidence } from "./scoreStability";
+
+const REPORT_FORMAT = 'pau-report';
+export const REPORT_VERSION = 1;
+
+/**
+ * One evaluated file of a batch: its report, or why it failed.
+ */
+export interface BatchOutcome {
+  fileName: string;
+  entry?: HistoryEntry;
+  error?: string;
+}
+
+type CsvValue = string | number | undefined;
+
+// Quotes a field only when it holds a separator, a quote or a line break
+const csvField = (value: CsvValue) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV, with CRLF line endings.
+ */
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * One row per file with the overall and section scores and the gap counts.
+ * Headers are fixed English keys so scripts can rely on them; section
+ * columns are named after the criterion ids.
+ */
+export const summaryCsv = (outcomes: BatchOutcome[]): string => {
+  const criterionIds: string[] = [];
+  outcomes.forEach(({ entry }) => entry?.result.sectionScores.forEach(s => {
+    if (!criterionIds.includes(s.criterionId)) criterionIds.push(s.criterionId);
+  }));
+
+  const header = [
+    'file', 'status', 'courseCode', 'courseTitle', 'language', 'overallScore', 'scoreStdDev',
+    ...criterionIds, 'missingComponents', 'weaknesses', 'strengths', 'baseline', 'error',
+  ];
+  const rows = outcomes.map(({ fileName, entry, error }) => {
+    if (!entry) {
+      const failed: CsvValue[] = header.map(() => undefined);
+      failed[0] = fileName;
+      failed[1] = 'failed';
+      failed[failed.length - 1] = error;
+      return failed;
+    }
+    const { result } = entry;
+    return [
+      fileName,
+      'ok',
+      result.syllabus.course.code,
+      result.courseTitle,
+      entry.language,
+      result.overallScore,
+      result.stability?.overall.stdDev,
+      ...criterionIds.map(id => result.sectionScores.find(s => s.criterionId === id)?.score),
+      result.gapAnalysis.missingComponents.length,
+      result.gapAnalysis.weaknesses.length,
+      result.gapAnalysis.strengths.length,
+      result.modelError ? 'yes' : 'no',
+      undefined,
+    ];
+  });
+  return toCsv([header, ...rows]);
+};
+
+const CSV_COLUMNS = [
+  'file', 'courseCode', 'courseTitle', 'createdAt', 'row', 'criterionId', 'section', 'score', 'scoreStdDev',
+  'level', 'weight', 'severity', 'rule', 'support', 'text', 'evidence',
+] as const;
+
+// Quotes with their locations, in one cell
+const evidenceCell = (evidence: Evidence[]) => evidence.map(e => {
+  if (e.absent) return '[absent]';
+  const location = e.page !== undefined ? ` (p. ${e.page}${e.paragraph !== undefined ? `, para. ${e.paragraph}` : ''})` : '';
+  return `"${e.quote}"${location}`;
+}).join('; ');
+
+/**
+ * The report flattened for spreadsheets: an `overall` row, then one row per
+ * section score and one per finding (`missing`, `weakness`, `strength`).
+ * Like summaryCsv the headers are fixed English keys, and every row repeats
+ * the file and course so exports of several reports can be stacked.
+ */
+export const reportToCsv = (entry: HistoryEntry): string => {
+  const { result } = entry;
+  const stability = result.stability;
+  const criteria = result.rubric ? enabledCriteria(result.rubric) : [];
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const row = (values: Partial<Record<typeof CSV_COLUMNS[number], CsvValue>>) => {
+    const all: typeof values = {
+      file: entry.fileName,
+      courseCode: result.syllabus.course.code,
+      courseTitle: result.courseTitle,
+      createdAt: entry.createdAt,
+      ...values,
+    };
+    return CSV_COLUMNS.map(column => all[column]);
+  };
+
+  const findings = (kind: string, items: GapItem[]) => items.map(item => {
+    const finding = result.ruleFindings.find(f => f.message === item.text);
+    return row({
+      row: kind,
+      severity: finding?.severity,
+      rule: finding?.rule,
+      support: item.support,
+      text: item.text,
+      evidence: evidenceCell(item.evidence),
+    });
+  });
+
+  return toCsv([
+    [...CSV_COLUMNS],
+    row({ row: 'overall', score: result.overallScore, scoreStdDev: stability?.overall.stdDev }),
+    ...result.sectionScores.map(s => {
+      const criterion = criteria.find(c => c.id === s.criterionId);
+      return row({
+        row: 'section',
+        criterionId: s.criterionId,
+        section: s.section,
+        score: s.score,
+        scoreStdDev: stability?.sections.find(x => x.criterionId === s.criterionId)?.stdDev,
+        level: criterion ? rubricLevel(criterion, s.score)?.label : undefined,
+        weight: criterion && totalWeight > 0 ? Math.round((criterion.weight / totalWeight) * 100) : undefined,
+        text: s.feedback,
+        evidence: evidenceCell(s.evidence),
+      });
+    }),
+    ...findings('missing', result.gapAnalysis.missingComponents),
+    ...findings('weakness', result.gapAnalysis.weaknesses),
+    ...findings('strength', result.gapAnalysis.strengths),
+  ]);
+};
+
+/**
+ * The report and how it was produced, in the versioned `pau-report` JSON
+ * format read by parseReport.
+ */
+export const serializeReport = (entry: HistoryEntry, exportedAt = new Date().toISOString()): string => {
+  const { result, ...run } = entry;
+  const report: ReportExport = { format: REPORT_FORMAT, version: REPORT_VERSION, exportedAt, run, result };
+  return JSON.stringify(report, null, 2);
+};
+
+/**
+ * Reads a `pau-report` export back into a history entry. Exports from a
+ * newer version of the format are refused rather than half understood.
+ */
+export const parseReport = (json: string): { entry?: HistoryEntry; issues: ValidationIssue[] } => {
+  let report: unknown;
+  try {
+    report = JSON.parse(json);
+  } catch (e) {
+    return { issues: [{ path: '$', message: e instanceof Error ? e.message : 'is not valid JSON' }] };
+  }
+  // Format and version are checked first, as the rest of the schema depends on them
+  const { format, version } = (typeof report === 'object' && report !== null ? report : {}) as { format?: unknown; version?: unknown };
+  if (format !== REPORT_FORMAT) {
+    return { issues: [{ path: '$', message: `is not a ${REPORT_FORMAT} export` }] };
+  }
+  if (typeof version === 'number' && version > REPORT_VERSION) {
+    return { issues: [{ path: '$.version', message: `is newer than the supported version ${REPORT_VERSION}` }] };
+  }
+
+  const issues = validate(reportExportSpec, report);
+  if (issues.length > 0) return { issues };
+  const { run, result } = report as ReportExport;
+  return { entry: { ...run, result }, issues: [] };
+};
+
+const bullets = (items: string[], empty: string) =>
+  items.length > 0 ? items.map(item => `- ${item}`).join('\n') : `_${empty}_`;
+
+// Table cells cannot hold pipes or line breaks
+const cell = (value: CsvValue) => (value === undefined ? '' : String(value)).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const table = (header: string[], rows: CsvValue[][]) =>
+  [header, header.map(() => '---'), ...rows].map(row => `| ${row.map(cell).join(' | ')} |`).join('\n');
+
+/**
+ * The report as Markdown, labelled in the language of `t`.
+ */
+export const reportToMarkdown = (entry: HistoryEntry, t: any): string => {
+  const { result } = entry;
+  const { course } = result.syllabus;
+  const { stability, referenceReport: references, complianceReport: compliance } = result;
+  const criteria = result.rubric ? enabledCriteria(result.rubric) : [];
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+
+  const gapLines = (items: GapItem[]) => items.map(item => {
+    const finding = result.ruleFindings.find(f => f.message === item.text);
+    const badges = [
+      finding ? `**${t.severity[finding.severity]}**` : '',
+      stability && isLowConfidence(item) ? `_${t.lowConfidence}_` : '',
+    ].filter(Boolean).join(' ');
+    return `${badges ? `${badges} ` : ''}${item.text}`;
+  });
+
+  const sections = [
+    `# ${result.courseTitle}`,
+    [
+      `**${t.overallScore}:** ${result.overallScore}/100` +
+        (result.rubric ? ` (${formatMessage(t.scoredWith, { name: result.rubric.name, version: result.rubric.version })})` : ''),
+      stability ? formatMessage(t.stabilitySummary, { spread: stability.overall.stdDev, samples: stability.samples, min: stability.overall.min, max: stability.overall.max }) : '',
+      course.code ? `**${t.courseCode}:** ${course.code}` : '',
+      course.instructor ? `**${t.instructor}:** ${course.instructor}` : '',
+      `_${entry.fileName} · ${entry.createdAt}_`,
+    ].filter(Boolean).join('  \n'),
+    result.modelError ? `> **${t.baselineReport}:** ${t.baselineDesc}` : '',
+    `## ${t.learningOutcomes}\n\n${bullets(result.syllabus.ilos.map(ilo => `**${ilo.id}:** ${ilo.text}`), t.notSpecified)}`,
+    `## ${t.breakdown}\n\n${table(
+      [t.section, t.score, t.levelLabel, t.weight],
+      result.sectionScores.map(s => {
+        const criterion = criteria.find(c => c.id === s.criterionId);
+        const spread = stability?.sections.find(x => x.criterionId === s.criterionId);
+        return [
+          s.section,
+          `${s.score}${spread ? ` ±${spread.stdDev}` : ''}`,
+          criterion ? rubricLevel(criterion, s.score)?.label : undefined,
+          criterion && totalWeight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : undefined,
+        ];
+      })
+    )}`,
+    `## ${t.criticalFindings}`,
+    `### ${t.missing}\n\n${bullets(gapLines(result.gapAnalysis.missingComponents), t.noGaps)}`,
+    `### ${t.weaknesses}\n\n${bullets(gapLines(result.gapAnalysis.weaknesses), t.noGaps)}`,
+    `### ${t.strengths}\n\n${bullets(gapLines(result.gapAnalysis.strengths), t.noGaps)}`,
+    `## ${t.recommendations}\n\n${bullets(result.recommendations, t.none)}`,
+    `## ${t.revisedILOs}\n\n${bullets(result.revisedILOs, t.noRevisions)}`,
+    `## ${t.activities}\n\n${bullets(result.suggestedActivities.map(a => `**${a.title}:** ${a.description} (${t.alignsWith} ${a.learningOutcomeMap})`), t.noActivities)}`,
+    references ? `## ${t.referencesTitle}\n\n${[
+      `**${t.currencyScore}:** ${references.score}/100`,
+      references.medianAge !== undefined ? `**${t.medianAge}:** ${references.medianAge} ${t.years}` : '',
+      `**${t.outdated}:** ${references.outdatedCount}/${references.entries.length}`,
+    ].filter(Boolean).join('  \n')}\n\n${references.entries.length > 0
+      ? table([t.references, t.year, t.age, t.status], references.entries.map(e => [
+          e.raw,
+          e.year,
+          e.age !== undefined ? `${e.age} ${t.years}` : undefined,
+          e.age === undefined ? t.undated : e.outdated ? t.outdated : t.current,
+        ]))
+      : `_${t.notSpecified}_`}` : '',
+    compliance ? `## ${t.complianceTitle}\n\n**${compliance.templateName} v${compliance.templateVersion}:** ${compliance.score}/100\n\n${table(
+      [t.section, t.matchedHeading, t.status],
+      compliance.items.map(i => [
+        `${i.name}${i.kind === 'field' ? ` (${t.field})` : ''}${i.required ? '' : ` (${t.optional})`}`,
+        i.matchedHeading,
+        t.complianceStatus[i.status],
+      ])
+    )}` : '',
+    `## ${t.benchmarking}\n\n${result.benchmarks.length > 0
+      ? table([t.university, t.comparison], result.benchmarks.map(b => [b.url ? `[${b.university}](${b.url})` : b.university, b.comparison]))
+      : `_${t.noBenchmarks}_`}`,
+    `## ${t.tutors}\n\n${bullets(result.tutors.map(tutor => `**${tutor.name}** (${tutor.affiliation}) – ${tutor.specialization}${tutor.email ? ` – ${tutor.email}` : ''}`), t.noTutors)}`,
+  ];
+  return sections.filter(Boolean).join('\n\n') + '\n';
+};
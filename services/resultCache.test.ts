@@ -0,0 +1,93 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CACHE_STORE, withStore } from './localDb';
+import { CACHE_MAX_AGE_MS, CACHE_TTL_MS, CacheKeyParts, cacheKey, clearCache, readCache, sweepCache, writeCache } from './resultCache';
+
+const parts: CacheKeyParts = {
+  stage: 'evaluate',
+  promptVersion: 2,
+  model: 'gemini/gemini-2.5-flash',
+  language: 'en',
+  fileHash: 'abc123',
+  inputs: { criteria: { maxReferenceAge: 7 } },
+};
+
+describe('cacheKey', () => {
+  it('is stable for the same inputs', async () => {
+    expect(await cacheKey(parts)).toBe(await cacheKey({ ...parts, inputs: { criteria: { maxReferenceAge: 7 } } }));
+    expect(await cacheKey(parts)).toMatch(/^evaluate:v2:gemini\/gemini-2\.5-flash:en:abc123:[0-9a-f]{64}$/);
+  });
+
+  it.each<[string, Partial<CacheKeyParts>]>([
+    ['stage', { stage: 'extract' }],
+    ['prompt version', { promptVersion: 3 }],
+    ['provider', { model: 'openai/gemini-2.5-flash' }],
+    ['model', { model: 'gemini/gemini-2.5-pro' }],
+    ['API server', { model: 'https://api.pau.edu|gemini/gemini-2.5-flash' }],
+    ['language', { language: 'ar' }],
+    ['file', { fileHash: 'def456' }],
+    ['inputs', { inputs: { criteria: { maxReferenceAge: 5 } } }],
+  ])('changes with the %s', async (_, change) => {
+    expect(await cacheKey({ ...parts, ...change })).not.toBe(await cacheKey(parts));
+  });
+});
+
+describe('readCache', () => {
+  it('misses without IndexedDB', async () => {
+    expect(await readCache(await cacheKey(parts))).toBeUndefined();
+  });
+});
+
+describe('with IndexedDB', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const start = new Date('2026-01-01T00:00:00Z').getTime();
+  const stored = (key: string) => withStore(CACHE_STORE, 'readonly', store => store.get(key));
+
+  beforeAll(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+  });
+  afterAll(() => vi.unstubAllGlobals());
+
+  beforeEach(async () => {
+    await clearCache();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(start);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('returns a fresh record', async () => {
+    await writeCache('a', 'evaluate', { score: 3 });
+    expect(await readCache('a')).toEqual({ score: 3 });
+  });
+
+  it('deletes a record it finds expired', async () => {
+    await writeCache('a', 'benchmark', ['MIT']);
+    vi.setSystemTime(start + CACHE_TTL_MS.benchmark! + 1);
+    expect(await readCache('a', CACHE_TTL_MS.benchmark)).toBeUndefined();
+    expect(await stored('a')).toBeUndefined();
+  });
+
+  it('expires records of stages without a time to live after the maximum age', async () => {
+    await writeCache('a', 'evaluate', { score: 3 });
+    vi.setSystemTime(start + CACHE_MAX_AGE_MS + 1);
+    expect(await readCache('a')).toBeUndefined();
+    expect(await stored('a')).toBeUndefined();
+  });
+
+  it('sweeps records past their stage\'s time to live', async () => {
+    await writeCache('benchmark', 'benchmark', ['MIT']);
+    await writeCache('tutors', 'tutors', []);
+    await writeCache('evaluate', 'evaluate', { score: 3 });
+    vi.setSystemTime(start + 10 * DAY_MS);
+    await writeCache('recent', 'evaluate', { score: 4 });
+
+    expect(await sweepCache(start + 8 * DAY_MS)).toBe(1);
+    expect(await stored('benchmark')).toBeUndefined();
+    expect(await stored('tutors')).toBeDefined();
+
+    expect(await sweepCache(start + CACHE_MAX_AGE_MS + 1)).toBe(2);
+    expect(await stored('evaluate')).toBeUndefined();
+    expect(await stored('recent')).toBeDefined();
+  });
+});
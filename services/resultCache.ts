@@ -0,0 +1,121 @@
+import { AnalysisStageId } from "../types";
+import { hashText } from "./fileHash";
+import { CACHE_STORE, openDb, withStore } from "./localDb";
+
+interface CacheRecord {
+  key: string;
+  stage: AnalysisStageId;
+  createdAt: string; // ISO timestamp
+  value: unknown;
+}
+
+export interface CacheKeyParts {
+  stage: AnalysisStageId;
+  promptVersion: number;
+  model: string; // what produced the result, e.g. "gemini/gemini-2.5-flash"
+  language: 'en' | 'ar';
+  fileHash: string;
+  inputs: unknown; // everything else the stage output depends on (criteria, syllabus, ...)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Search results go stale as the web changes; extraction and evaluation only change with their inputs
+export const CACHE_TTL_MS: Partial<Record<AnalysisStageId, number>> = {
+  benchmark: 7 * DAY_MS,
+  tutors: 30 * DAY_MS,
+};
+
+// Every record is dropped after this long, so results for files and criteria
+// that are never seen again do not pile up
+export const CACHE_MAX_AGE_MS = 90 * DAY_MS;
+
+const maxAgeOf = (stage: AnalysisStageId, ttlMs = CACHE_TTL_MS[stage]) =>
+  Math.min(ttlMs ?? CACHE_MAX_AGE_MS, CACHE_MAX_AGE_MS);
+
+const isExpired = (record: CacheRecord, now: number, ttlMs?: number) =>
+  now - Date.parse(record.createdAt) > maxAgeOf(record.stage, ttlMs);
+
+// The cache is an optimisation; without IndexedDB (e.g. under Node) every lookup misses
+const available = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Content-addressed key of one stage result: the stage and its prompt
+ * version, the model, the report language, the file's SHA-256 and a hash of
+ * the other inputs.
+ */
+export const cacheKey = async ({ stage, promptVersion, model, language, fileHash, inputs }: CacheKeyParts): Promise<string> =>
+  `${stage}:v${promptVersion}:${model}:${language}:${fileHash}:${await hashText(JSON.stringify(inputs ?? null))}`;
+
+/**
+ * Deletes every record past its stage's time to live. Returns how many were
+ * deleted.
+ */
+export const sweepCache = async (now = Date.now()): Promise<number> => {
+  if (!available()) return 0;
+  const db = await openDb();
+  // No record is kept longer than the shortest time to live without being checked
+  const shortest = Math.min(CACHE_MAX_AGE_MS, ...Object.values(CACHE_TTL_MS));
+  const range = IDBKeyRange.upperBound(new Date(now - shortest).toISOString());
+  return new Promise<number>((resolve, reject) => {
+    const tx = db.transaction(CACHE_STORE, 'readwrite');
+    let deleted = 0;
+    const cursorRequest = tx.objectStore(CACHE_STORE).index('createdAt').openCursor(range);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (isExpired(cursor.value as CacheRecord, now)) {
+        cursor.delete();
+        deleted++;
+      }
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(deleted);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+let swept: Promise<unknown> | null = null;
+
+// Sweeps once per session, on first use of the cache
+const sweepOnce = () => {
+  swept ||= sweepCache().catch(error => console.warn("Sweeping the result cache failed:", error));
+  return swept;
+};
+
+/**
+ * The cached value under `key`, or undefined if there is none or it is older
+ * than `ttlMs` (or its stage's time to live). An expired record is deleted.
+ */
+export const readCache = async <T>(key: string, ttlMs?: number): Promise<T | undefined> => {
+  if (!available()) return undefined;
+  await sweepOnce();
+  try {
+    const record = await withStore<CacheRecord | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+    if (!record) return undefined;
+    if (isExpired(record, Date.now(), ttlMs)) {
+      await withStore(CACHE_STORE, 'readwrite', store => store.delete(key));
+      return undefined;
+    }
+    return record.value as T;
+  } catch (error) {
+    console.warn("Reading the result cache failed:", error);
+    return undefined;
+  }
+};
+
+export const writeCache = async (key: string, stage: AnalysisStageId, value: unknown): Promise<void> => {
+  if (!available()) return;
+  try {
+    const record: CacheRecord = { key, stage, createdAt: new Date().toISOString(), value };
+    await withStore(CACHE_STORE, 'readwrite', store => store.put(record));
+  } catch (error) {
+    console.warn("Writing the result cache failed:", error);
+  }
+};
+
+export const clearCache = async (): Promise<void> => {
+  if (!available()) return;
+  await withStore(CACHE_STORE, 'readwrite', store => store.clear());
+};
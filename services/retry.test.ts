@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMRequestError } from './providers';
+import { abortableDelay, isRetryableError, RequestTimeoutError, withRetry } from './retry';
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+describe('isRetryableError', () => {
+  it.each([408, 429, 500, 502, 503, 504])('retries status %i', status => {
+    expect(isRetryableError(new LLMRequestError('upstream', status))).toBe(true);
+  });
+
+  it.each([400, 401, 403, 404, 422])('does not retry status %i', status => {
+    expect(isRetryableError(new LLMRequestError('rejected', status))).toBe(false);
+  });
+
+  it('retries timeouts and network failures, but not cancellations or other errors', () => {
+    expect(isRetryableError(new RequestTimeoutError('too slow'))).toBe(true);
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(abortError())).toBe(false);
+    expect(isRetryableError(new Error('bad output'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries retryable errors with exponential backoff', async () => {
+    const delays: number[] = [];
+    const run = vi.fn(async (attempt: number) => {
+      if (attempt < 3) throw new LLMRequestError('rate limited', 429);
+      return 'ok';
+    });
+    const result = withRetry(run, { maxAttempts: 3, baseDelayMs: 100, onRetry: (_, __, ms) => delays.push(ms) });
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toBe('ok');
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it('rethrows the last error once the attempts are used up', async () => {
+    const run = vi.fn(async (attempt: number) => {
+      throw new LLMRequestError(`attempt ${attempt}`, 503);
+    });
+    const outcome = withRetry(run, { maxAttempts: 2, baseDelayMs: 10 }).catch(error => error);
+    await vi.runAllTimersAsync();
+    expect((await outcome).message).toBe('attempt 2');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors', async () => {
+    const run = vi.fn(async () => {
+      throw new LLMRequestError('bad request', 400);
+    });
+    await expect(withRetry(run, { maxAttempts: 3 })).rejects.toThrow('bad request');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects with the abort reason as soon as it is cancelled during a delay', async () => {
+    const controller = new AbortController();
+    const run = vi.fn(async () => {
+      throw new LLMRequestError('busy', 503);
+    });
+    const outcome = withRetry(run, { maxAttempts: 3, baseDelayMs: 60_000, signal: controller.signal }).catch(error => error);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(vi.getTimerCount()).toBe(1);
+
+    const reason = abortError();
+    controller.abort(reason);
+    expect(await outcome).toBe(reason);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe('abortableDelay', () => {
+  it('rejects at once when the signal has already fired', async () => {
+    const reason = abortError();
+    await expect(abortableDelay(1000, AbortSignal.abort(reason))).rejects.toBe(reason);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Raised when a model request runs past its time limit. The request is
+ * aborted, not just abandoned.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export interface RetryOptions {
+  maxAttempts: number; // including the first try
+  baseDelayMs?: number; // doubled after each failed attempt
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+export const DEFAULT_STAGE_ATTEMPTS = 3;
+
+// Rate limiting and transient server errors
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+export const isAbortError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+/**
+ * Timeouts, network failures and rate-limit or server errors are worth
+ * another try. Invalid model output (already given a repair attempt),
+ * client errors and cancellations are not.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof RequestTimeoutError) return true;
+  if (isAbortError(error)) return false;
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUS.has(status);
+  // fetch reports network failures as TypeError
+  return error instanceof TypeError;
+};
+
+/**
+ * Waits `ms`, rejecting with the abort reason as soon as `signal` fires.
+ */
+export const abortableDelay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `run` until it succeeds, retrying retryable errors with exponential
+ * backoff. The last error is rethrown once attempts run out, immediately for
+ * errors that are not retryable.
+ */
+export const withRetry = async <T>(
+  run: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> => {
+  const { maxAttempts, baseDelayMs = 1000, signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || signal?.aborted || !isRetryableError(error)) throw error;
+      const delayMs = baseDelayMs * 2 ** (attempt - 1);
+      onRetry?.(attempt, error, delayMs);
+      await abortableDelay(delayMs, signal);
+    }
+  }
+};
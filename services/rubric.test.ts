@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { SectionScore } from '../types';
+import { computeOverallScore, defaultRubric, enabledCriteria, parseRubric, rubricLevel } from './rubric';
+
+const score = (criterionId: string, value: number): SectionScore =>
+  ({ criterionId, section: criterionId, score: value, feedback: '', evidence: [] });
+
+describe('computeOverallScore', () => {
+  const rubric = defaultRubric();
+
+  it('weights each section by its criterion', () => {
+    expect(computeOverallScore([
+      score('iloClarity', 80),
+      score('iloAlignment', 60),
+      score('assessmentQuality', 100),
+      score('referenceCurrency', 40),
+      score('structureCompliance', 0),
+    ], rubric)).toBe(61);
+  });
+
+  it('renormalizes over the scored criteria', () => {
+    expect(computeOverallScore([score('iloClarity', 80), score('iloAlignment', 60)], rubric)).toBe(70);
+    expect(computeOverallScore([], rubric)).toBe(0);
+  });
+
+  it('ignores disabled and zero-weight criteria', () => {
+    const adjusted = {
+      ...rubric,
+      criteria: rubric.criteria.map(c =>
+        c.id === 'iloClarity' ? { ...c, enabled: false } : c.id === 'iloAlignment' ? { ...c, weight: 0 } : c),
+    };
+    expect(enabledCriteria(adjusted).map(c => c.id)).toEqual(['assessmentQuality', 'referenceCurrency', 'structureCompliance']);
+    expect(computeOverallScore([score('iloClarity', 0), score('iloAlignment', 0), score('assessmentQuality', 90)], adjusted)).toBe(90);
+  });
+});
+
+describe('rubricLevel', () => {
+  const criterion = defaultRubric().criteria[0];
+
+  it('picks the highest level the score reaches', () => {
+    expect([100, 85, 84, 50, 49, 0].map(s => rubricLevel(criterion, s)?.label))
+      .toEqual(['Exemplary', 'Exemplary', 'Proficient', 'Developing', 'Beginning', 'Beginning']);
+  });
+});
+
+describe('parseRubric', () => {
+  it('round-trips the default rubric', () => {
+    const rubric = defaultRubric('ar');
+    expect(parseRubric(JSON.stringify(rubric))).toEqual({ rubric, issues: [] });
+  });
+
+  it('reports invalid JSON', () => {
+    const { rubric, issues } = parseRubric('{"name":');
+    expect(rubric).toBeUndefined();
+    expect(issues.map(i => i.path)).toEqual(['$']);
+  });
+
+  it('rejects duplicate ids', () => {
+    const rubric = defaultRubric();
+    rubric.criteria[1] = { ...rubric.criteria[1], id: 'iloClarity' };
+    expect(parseRubric(JSON.stringify(rubric)).issues).toEqual([{ path: '$.criteria[1].id', message: 'duplicates "iloClarity"' }]);
+  });
+
+  it('requires an enabled criterion with weight', () => {
+    const rubric = defaultRubric();
+    rubric.criteria = rubric.criteria.map(c => ({ ...c, enabled: false }));
+    expect(parseRubric(JSON.stringify(rubric)).issues).toEqual([
+      { path: '$.criteria', message: 'must have at least one enabled criterion with weight above 0' },
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+import { translations } from "../translations";
+import { Rubric, RubricCriterion, RubricLevel, SectionScore } from "../types";
+import { rubricSpec, validate, ValidationIssue } from "./schema";
+
+const STORAGE_KEY = 'pau.rubric';
+
+const levels = (exemplary: string, proficient: string, developing: string, beginning: string, language: 'en' | 'ar'): RubricLevel[] => {
+  const labels = translations[language].rubricLevels;
+  return [
+    { label: labels.exemplary, minScore: 85, descriptor: exemplary },
+    { label: labels.proficient, minScore: 70, descriptor: proficient },
+    { label: labels.developing, minScore: 50, descriptor: developing },
+    { label: labels.beginning, minScore: 0, descriptor: beginning },
+  ];
+};
+
+/**
+ * The standard PAU rubric. Names and level labels follow the UI language;
+ * prompts and descriptors are instructions for the model and stay in English.
+ */
+export const defaultRubric = (language: 'en' | 'ar' = 'en'): Rubric => {
+  const t = translations[language];
+  return {
+    name: t.defaultRubricName,
+    version: '1.0',
+    criteria: [
+      {
+        id: 'iloClarity',
+        name: t.iloClarity,
+        enabled: true,
+        weight: 25,
+        prompt: "Check strictly for Bloom's taxonomy and specificity.",
+        levels: levels(
+          'Every ILO starts with a measurable Bloom verb and states a specific, observable outcome.',
+          'Most ILOs are measurable; a few are broad or use vague verbs.',
+          'Several ILOs use vague verbs such as "understand" or lack a clear object.',
+          'ILOs are missing or are topic lists rather than outcomes.',
+          language
+        ),
+      },
+      {
+        id: 'iloAlignment',
+        name: t.iloAlignment,
+        enabled: true,
+        weight: 25,
+        prompt: 'Check if weekly topics and assessments map to ILOs.',
+        levels: levels(
+          'Every ILO is taught in the weekly plan and measured by at least one assessment.',
+          'Most ILOs are taught and assessed; minor gaps.',
+          'Several ILOs are not taught or not assessed.',
+          'No visible link between ILOs, topics and assessments.',
+          language
+        ),
+      },
+      {
+        id: 'assessmentQuality',
+        name: t.assessmentQuality,
+        enabled: true,
+        weight: 20,
+        prompt: 'Evaluate variety, rubrics, and weight.',
+        levels: levels(
+          'Varied formative and summative tasks with published rubrics and balanced weights.',
+          'Reasonable variety and weights; some tasks lack rubrics.',
+          'Heavy reliance on exams or unclear weights.',
+          'No assessment breakdown.',
+          language
+        ),
+      },
+      {
+        id: 'referenceCurrency',
+        name: t.referenceCurrency,
+        enabled: true,
+        weight: 15,
+        prompt: 'Check for recent textbooks and journals.',
+        levels: levels(
+          'All references are recent and relevant.',
+          'Most references are recent.',
+          'Many references are outdated.',
+          'No references or only outdated ones.',
+          language
+        ),
+      },
+      {
+        id: 'structureCompliance',
+        name: t.structureCompliance,
+        enabled: true,
+        weight: 15,
+        prompt: 'Check required sections, order and mandatory fields.',
+        levels: levels(
+          'All required sections and fields are present in template order.',
+          'Minor omissions or ordering issues.',
+          'Several required sections or fields are missing.',
+          'The syllabus does not follow the template.',
+          language
+        ),
+      },
+    ],
+  };
+};
+
+/**
+ * Parses rubric JSON from the editor or an imported file. `rubric` is set
+ * only when there are no issues.
+ */
+export const parseRubric = (json: string): { rubric?: Rubric; issues: ValidationIssue[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    return { issues: [{ path: '$', message: e instanceof Error ? e.message : 'is not valid JSON' }] };
+  }
+  const issues = validate(rubricSpec, value);
+  const rubric = value as Rubric;
+  if (issues.length === 0) {
+    const ids = rubric.criteria.map(c => c.id);
+    ids.forEach((id, i) => {
+      if (ids.indexOf(id) !== i) issues.push({ path: `$.criteria[${i}].id`, message: `duplicates "${id}"` });
+    });
+    if (!rubric.criteria.some(c => c.enabled && c.weight > 0)) {
+      issues.push({ path: '$.criteria', message: 'must have at least one enabled criterion with weight above 0' });
+    }
+  }
+  return issues.length === 0 ? { rubric, issues } : { issues };
+};
+
+/**
+ * Returns the saved rubric, or the default if none is saved or the stored
+ * copy no longer validates.
+ */
+export const loadRubric = (): Rubric => {
+  if (typeof localStorage === 'undefined') return defaultRubric();
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return (stored && parseRubric(stored).rubric) || defaultRubric();
+};
+
+export const saveRubric = (rubric: Rubric) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rubric));
+};
+
+export const enabledCriteria = (rubric: Rubric): RubricCriterion[] =>
+  rubric.criteria.filter(c => c.enabled && c.weight > 0);
+
+export const isCriterionEnabled = (rubric: Rubric, id: string) =>
+  enabledCriteria(rubric).some(c => c.id === id);
+
+/**
+ * The highest level whose minimum the score reaches.
+ */
+export const rubricLevel = (criterion: RubricCriterion, score: number): RubricLevel | undefined =>
+  [...criterion.levels].sort((a, b) => b.minScore - a.minScore).find(l => score >= l.minScore);
+
+/**
+ * Weighted mean of the section scores over the enabled criteria that were
+ * scored. Weights are renormalized so an unscored criterion does not count
+ * as zero.
+ */
+export const computeOverallScore = (sectionScores: SectionScore[], rubric: Rubric): number => {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const criterion of enabledCriteria(rubric)) {
+    const section = sectionScores.find(s => s.criterionId === criterion.id);
+    if (section) {
+      weighted += section.score * criterion.weight;
+      totalWeight += criterion.weight;
+    }
+  }
+  return totalWeight === 0 ? 0 : Math.round(weighted / totalWeight);
+};
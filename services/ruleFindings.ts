@@ -0,0 +1,67 @@
+import { translations } from "../translations";
+import { FindingSeverity, GapAnalysis, RuleFinding } from "../types";
+
+/**
+ * Fills "{name}" placeholders in a message template.
+ */
+export const formatMessage = (template: string, params: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (key in params ? String(params[key]) : match));
+
+/**
+ * Creates a finding with its message rendered in the report language.
+ * Templates live in translations.ts under `rules`, keyed by rule id.
+ * `quotes` are syllabus passages the finding is about; "missing" findings
+ * without quotes are marked absent.
+ */
+export const createFinding = (
+  rule: string,
+  severity: FindingSeverity,
+  kind: RuleFinding['kind'],
+  params: Record<string, string | number>,
+  language: 'en' | 'ar',
+  quotes: string[] = []
+): RuleFinding => ({
+  rule,
+  severity,
+  kind,
+  params,
+  message: formatMessage((translations[language].rules as Record<string, string>)[rule] || rule, params),
+  evidence: quotes.length > 0 || kind === 'weakness'
+    ? quotes.map(quote => ({ quote }))
+    : [{ quote: '', absent: true }],
+});
+
+/**
+ * Re-renders findings in another language without asking the model.
+ */
+export const localizeFindings = (findings: RuleFinding[], language: 'en' | 'ar'): RuleFinding[] =>
+  findings.map(f => ({ ...createFinding(f.rule, f.severity, f.kind, f.params, language), evidence: f.evidence }));
+
+const SEVERITY_ORDER: FindingSeverity[] = ['critical', 'major', 'minor'];
+
+/**
+ * Adds findings to the front of the matching gapAnalysis lists, most severe
+ * first.
+ */
+export const mergeFindings = (gapAnalysis: GapAnalysis, findings: RuleFinding[]): GapAnalysis => {
+  const sorted = [...findings].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+  const items = (kind: RuleFinding['kind']) =>
+    sorted.filter(f => f.kind === kind).map(f => ({ text: f.message, evidence: f.evidence }));
+  return {
+    ...gapAnalysis,
+    missingComponents: [...items('missing'), ...gapAnalysis.missingComponents],
+    weaknesses: [...items('weakness'), ...gapAnalysis.weaknesses],
+  };
+};
+
+/**
+ * Inverse of mergeFindings: removes finding messages from gapAnalysis.
+ */
+export const stripFindings = (gapAnalysis: GapAnalysis, findings: RuleFinding[]): GapAnalysis => {
+  const messages = new Set(findings.map(f => f.message));
+  return {
+    ...gapAnalysis,
+    missingComponents: gapAnalysis.missingComponents.filter(m => !messages.has(m.text)),
+    weaknesses: gapAnalysis.weaknesses.filter(w => !messages.has(w.text)),
+  };
+};
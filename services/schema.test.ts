@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { FieldSpec, ModelOutputError, syllabusSpec, toResponseSchema, validate } from './schema';
+import { createFixtureProvider, setProvider } from './providers';
+import { defaultFixtures } from './providers/defaultFixtures';
+import { extractSyllabus } from './geminiService';
+
+const spec: FieldSpec = {
+  kind: 'object',
+  fields: {
+    name: { kind: 'string' },
+    score: { kind: 'number', min: 0, max: 100 },
+    level: { kind: 'enum', values: ['low', 'high'], optional: true },
+    params: { kind: 'record', optional: true },
+    tags: { kind: 'array', items: { kind: 'string' }, minItems: 1 },
+  },
+};
+
+describe('validate', () => {
+  it('accepts a matching value', () => {
+    expect(validate(spec, { name: 'a', score: 50, tags: ['x'] })).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    expect(validate(spec, { score: 120, level: 'mid', params: { ok: 1, bad: true }, tags: [] })).toEqual([
+      { path: '$.name', message: 'is required' },
+      { path: '$.score', message: 'must be <= 100 (got 120)' },
+      { path: '$.level', message: 'must be one of low, high' },
+      { path: '$.params.bad', message: 'must be a string or number' },
+      { path: '$.tags', message: 'must contain at least 1 item(s)' },
+    ]);
+  });
+
+  it('checks array items and rejects NaN', () => {
+    expect(validate(spec, { name: 'a', score: NaN, tags: ['x', 3] })).toEqual([
+      { path: '$.score', message: 'must be a number' },
+      { path: '$.tags[1]', message: 'must be a string' },
+    ]);
+  });
+
+  it('rejects a non-object root', () => {
+    expect(validate(spec, [])).toEqual([{ path: '$', message: 'must be an object' }]);
+  });
+});
+
+describe('toResponseSchema', () => {
+  it('marks only non-optional fields as required', () => {
+    const schema = toResponseSchema(spec);
+    expect(schema.type).toBe(Type.OBJECT);
+    expect(schema.required).toEqual(['name', 'score', 'tags']);
+    expect(schema.properties?.level).toEqual({ type: Type.STRING, enum: ['low', 'high'] });
+    expect(schema.properties?.tags).toEqual({ type: Type.ARRAY, items: { type: Type.STRING } });
+  });
+});
+
+describe('model output repair', () => {
+  const valid = defaultFixtures.extract![0] as string;
+  const invalid = JSON.stringify({ ...JSON.parse(valid), ilos: 'none' });
+
+  afterEach(() => {
+    setProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('asks the model once to repair invalid output', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const prompts: string[] = [];
+    setProvider(createFixtureProvider({
+      extract: [request => {
+        prompts.push(request.parts.map(p => ('text' in p ? p.text : '')).join('\n'));
+        return prompts.length === 1 ? invalid : valid;
+      }],
+    }));
+
+    const syllabus = await extractSyllabus({ text: 'syllabus' });
+    expect(validate(syllabusSpec, syllabus)).toEqual([]);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('$.ilos must be an array');
+  });
+
+  it('fails with the field problems when the repair is invalid too', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setProvider(createFixtureProvider({ extract: [invalid, 'not json'] }));
+
+    const error = await extractSyllabus({ text: 'syllabus' }).catch(e => e);
+    expect(error).toBeInstanceOf(ModelOutputError);
+    expect(error.issues).toEqual([{ path: '$', message: 'is not valid JSON' }]);
+  });
+});
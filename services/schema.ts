@@ -0,0 +1,709 @@
+import { Type, Schema } from "@google/genai";
+import {
+  AnalysisResult,
+  Assessment,
+  AssessmentRuleConfig,
+  BenchmarkResult,
+  ClassroomActivity,
+  ComplianceItem,
+  ComplianceReport,
+  CourseMetadata,
+  CoursePolicy,
+  DocumentPage,
+  DocumentStats,
+  EvaluationCriteria,
+  Evidence,
+  GapAnalysis,
+  GapItem,
+  HistoryEntry,
+  IntendedLearningOutcome,
+  MandatoryField,
+  ModelCall,
+  PloLink,
+  ProgramMap,
+  ProgramOutcome,
+  ReferenceEntry,
+  ReferenceReport,
+  ReportExport,
+  ReportRun,
+  Rubric,
+  RubricCriterion,
+  RubricLevel,
+  RuleFinding,
+  ScoreStability,
+  SectionScore,
+  SourceDocument,
+  StageOutcome,
+  Syllabus,
+  SyllabusTemplate,
+  TemplateSection,
+  Tutor,
+  WeeklyPlanEntry,
+} from "../types";
+
+/**
+ * Minimal runtime schema language. Each spec is declared against the
+ * interfaces in types.ts (ObjectSpec<T> must list every key of T), so a type
+ * change that is not mirrored here fails to compile. The same specs produce
+ * the Gemini `responseSchema` and validate what the model actually returned.
+ */
+export type FieldSpec =
+  | { kind: 'string'; optional?: boolean }
+  | { kind: 'number'; min?: number; max?: number; optional?: boolean }
+  | { kind: 'boolean'; optional?: boolean }
+  | { kind: 'enum'; values: string[]; optional?: boolean }
+  | { kind: 'record'; optional?: boolean } // flat map of string/number values
+  | { kind: 'array'; items: FieldSpec; minItems?: number; optional?: boolean }
+  | { kind: 'object'; fields: Record<string, FieldSpec>; optional?: boolean };
+
+export type ObjectSpec<T> = {
+  kind: 'object';
+  fields: { [K in keyof T]-?: FieldSpec };
+  optional?: boolean;
+};
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+const str = (optional = false): FieldSpec => ({ kind: 'string', optional });
+const num = (min?: number, max?: number, optional = false): FieldSpec => ({ kind: 'number', min, max, optional });
+const score = (): FieldSpec => num(0, 100);
+const list = (items: FieldSpec, minItems = 0): FieldSpec => ({ kind: 'array', items, minItems });
+
+export const courseMetadataSpec: ObjectSpec<CourseMetadata> = {
+  kind: 'object',
+  fields: {
+    title: str(),
+    code: str(true),
+    department: str(true),
+    instructor: str(true),
+    instructorEmail: str(true),
+    officeHours: str(true),
+    semester: str(true),
+    creditHours: num(0, 30, true),
+    prerequisites: list(str()),
+    description: str(true),
+  },
+};
+
+export const iloSpec: ObjectSpec<IntendedLearningOutcome> = {
+  kind: 'object',
+  fields: {
+    id: str(),
+    text: str(),
+  },
+};
+
+export const weeklyPlanEntrySpec: ObjectSpec<WeeklyPlanEntry> = {
+  kind: 'object',
+  fields: {
+    week: num(1),
+    topics: list(str()),
+    iloIds: list(str()),
+  },
+};
+
+export const assessmentSpec: ObjectSpec<Assessment> = {
+  kind: 'object',
+  fields: {
+    name: str(),
+    type: str(),
+    weight: num(0, 100),
+    week: num(1, undefined, true),
+    iloIds: list(str()),
+  },
+};
+
+export const policySpec: ObjectSpec<CoursePolicy> = {
+  kind: 'object',
+  fields: {
+    title: str(),
+    text: str(),
+  },
+};
+
+export const syllabusSpec: ObjectSpec<Syllabus> = {
+  kind: 'object',
+  fields: {
+    course: courseMetadataSpec,
+    ilos: list(iloSpec),
+    weeklyPlan: list(weeklyPlanEntrySpec),
+    assessments: list(assessmentSpec),
+    references: list(str()),
+    policies: list(policySpec),
+    sectionHeadings: list(str()),
+  },
+};
+
+export const evidenceSpec: ObjectSpec<Evidence> = {
+  kind: 'object',
+  fields: {
+    quote: str(),
+    page: num(1, undefined, true),
+    paragraph: num(1, undefined, true),
+    absent: { kind: 'boolean', optional: true },
+    verified: { kind: 'boolean', optional: true },
+  },
+};
+
+export const sectionScoreSpec: ObjectSpec<SectionScore> = {
+  kind: 'object',
+  fields: {
+    criterionId: str(),
+    section: str(),
+    score: score(),
+    feedback: str(),
+    evidence: list(evidenceSpec),
+  },
+};
+
+export const gapItemSpec: ObjectSpec<GapItem> = {
+  kind: 'object',
+  fields: {
+    text: str(),
+    evidence: list(evidenceSpec),
+    support: num(0, 1, true),
+  },
+};
+
+export const gapAnalysisSpec: ObjectSpec<GapAnalysis> = {
+  kind: 'object',
+  fields: {
+    missingComponents: list(gapItemSpec),
+    weaknesses: list(gapItemSpec),
+    strengths: list(gapItemSpec),
+  },
+};
+
+export const documentPageSpec: ObjectSpec<DocumentPage> = {
+  kind: 'object',
+  fields: {
+    page: num(1),
+    paragraphs: list(str()),
+  },
+};
+
+export const sourceDocumentSpec: ObjectSpec<SourceDocument> = {
+  kind: 'object',
+  optional: true,
+  fields: {
+    fileName: str(),
+    pages: list(documentPageSpec),
+  },
+};
+
+export const documentStatsSpec: ObjectSpec<DocumentStats> = {
+  kind: 'object',
+  optional: true,
+  fields: {
+    totalWords: num(0),
+    sections: list({
+      kind: 'object',
+      fields: {
+        heading: str(),
+        words: num(0),
+      },
+    }),
+  },
+};
+
+export const stageOutcomeSpec: ObjectSpec<StageOutcome> = {
+  kind: 'object',
+  fields: {
+    stage: { kind: 'enum', values: ['extract', 'evaluate', 'benchmark', 'tutors'] },
+    status: { kind: 'enum', values: ['ok', 'failed', 'skipped'] },
+    attempts: num(0),
+    cached: { kind: 'boolean', optional: true },
+    error: str(true),
+    durationMs: num(0, undefined, true),
+  },
+};
+
+export const modelCallSpec: ObjectSpec<ModelCall> = {
+  kind: 'object',
+  fields: {
+    stage: { kind: 'enum', values: ['extract', 'evaluate', 'benchmark', 'tutors', 'translate', 'mapPlos'] },
+    model: str(),
+    promptTokens: num(0, undefined, true),
+    responseTokens: num(0, undefined, true),
+    durationMs: num(0),
+    costUsd: num(0, undefined, true),
+    timestamp: str(true),
+  },
+};
+
+const spreadFields = {
+  mean: score(),
+  stdDev: num(0),
+  min: score(),
+  max: score(),
+};
+
+export const scoreStabilitySpec: ObjectSpec<ScoreStability> = {
+  kind: 'object',
+  optional: true,
+  fields: {
+    samples: num(1),
+    temperature: num(0),
+    overall: { kind: 'object', fields: spreadFields },
+    sections: list({
+      kind: 'object',
+      fields: {
+        criterionId: str(),
+        section: str(),
+        samples: num(1),
+        ...spreadFields,
+      },
+    }),
+  },
+};
+
+export const activitySpec: ObjectSpec<ClassroomActivity> = {
+  kind: 'object',
+  fields: {
+    title: str(),
+    description: str(),
+    learningOutcomeMap: str(),
+  },
+};
+
+export const benchmarkSpec: ObjectSpec<BenchmarkResult> = {
+  kind: 'object',
+  fields: {
+    university: str(),
+    comparison: str(),
+    url: str(true),
+  },
+};
+
+export const ruleFindingSpec: ObjectSpec<RuleFinding> = {
+  kind: 'object',
+  fields: {
+    rule: str(),
+    severity: { kind: 'enum', values: ['critical', 'major', 'minor'] },
+    kind: { kind: 'enum', values: ['missing', 'weakness'] },
+    params: { kind: 'record' },
+    message: str(),
+    evidence: list(evidenceSpec),
+  },
+};
+
+export const referenceEntrySpec: ObjectSpec<ReferenceEntry> = {
+  kind: 'object',
+  fields: {
+    raw: str(),
+    style: { kind: 'enum', values: ['apa', 'ieee', 'arabic', 'freeform'] },
+    authors: list(str()),
+    title: str(true),
+    year: num(undefined, undefined, true),
+    edition: str(true),
+    isbn: str(true),
+    doi: str(true),
+    age: num(0, undefined, true),
+    outdated: { kind: 'boolean' },
+  },
+};
+
+export const referenceReportSpec: ObjectSpec<ReferenceReport> = {
+  kind: 'object',
+  optional: true,
+  fields: {
+    entries: list(referenceEntrySpec),
+    maxAgeYears: num(0),
+    evaluatedYear: num(),
+    medianAge: num(0, undefined, true),
+    outdatedCount: num(0),
+    score: score(),
+  },
+};
+
+export const complianceItemSpec: ObjectSpec<ComplianceItem> = {
+  kind: 'object',
+  fields: {
+    id: str(),
+    name: str(),
+    kind: { kind: 'enum', values: ['section', 'field'] },
+    status: { kind: 'enum', values: ['pass', 'missing', 'outOfOrder'] },
+    required: { kind: 'boolean' },
+    matchedHeading: str(true),
+  },
+};
+
+export const complianceReportSpec: ObjectSpec<ComplianceReport> = {
+  kind: 'object',
+  optional: true,
+  fields: {
+    templateName: str(),
+    templateVersion: str(),
+    items: list(complianceItemSpec),
+    score: score(),
+  },
+};
+
+export const rubricLevelSpec: ObjectSpec<RubricLevel> = {
+  kind: 'object',
+  fields: {
+    label: str(),
+    minScore: score(),
+    descriptor: str(),
+  },
+};
+
+export const rubricCriterionSpec: ObjectSpec<RubricCriterion> = {
+  kind: 'object',
+  fields: {
+    id: str(),
+    name: str(),
+    enabled: { kind: 'boolean' },
+    weight: num(0),
+    prompt: str(),
+    levels: list(rubricLevelSpec, 1),
+  },
+};
+
+export const rubricSpec: ObjectSpec<Rubric> = {
+  kind: 'object',
+  fields: {
+    name: str(),
+    version: str(),
+    department: str(true),
+    criteria: list(rubricCriterionSpec, 1),
+  },
+};
+
+export const tutorSpec: ObjectSpec<Tutor> = {
+  kind: 'object',
+  fields: {
+    name: str(),
+    affiliation: str(),
+    email: str(),
+    specialization: str(),
+  },
+};
+
+/**
+ * The part of the report produced by the evaluation stage. The overall score
+ * is computed locally from the rubric weights.
+ */
+export type EvaluationOutput = Omit<AnalysisResult, 'overallScore' | 'rubric' | 'courseTitle' | 'syllabus' | 'sourceDocument' | 'ruleFindings' | 'referenceReport' | 'complianceReport' | 'benchmarks' | 'tutors' | 'documentStats' | 'modelError' | 'stages' | 'stability' | 'modelCalls'>;
+
+export const evaluationSpec: ObjectSpec<EvaluationOutput> = {
+  kind: 'object',
+  fields: {
+    // May be empty when every enabled criterion is scored locally
+    sectionScores: list(sectionScoreSpec),
+    gapAnalysis: gapAnalysisSpec,
+    recommendations: list(str()),
+    revisedILOs: list(str(), 1),
+    suggestedActivities: list(activitySpec),
+  },
+};
+
+export const analysisResultSpec: ObjectSpec<AnalysisResult> = {
+  kind: 'object',
+  fields: {
+    overallScore: score(),
+    rubric: rubricSpec,
+    courseTitle: str(),
+    syllabus: syllabusSpec,
+    sourceDocument: sourceDocumentSpec,
+    ...evaluationSpec.fields,
+    // A local baseline report has no model rewrites
+    revisedILOs: list(str()),
+    ruleFindings: list(ruleFindingSpec),
+    referenceReport: referenceReportSpec,
+    complianceReport: complianceReportSpec,
+    benchmarks: list(benchmarkSpec),
+    tutors: list(tutorSpec),
+    documentStats: documentStatsSpec,
+    modelError: str(true),
+    stages: { kind: 'array', items: stageOutcomeSpec, optional: true },
+    stability: scoreStabilitySpec,
+    modelCalls: { kind: 'array', items: modelCallSpec, optional: true },
+  },
+};
+
+/**
+ * The model-authored text of a report. Extracted syllabus content, the
+ * source text, the reference table, the compliance checklist and the rubric
+ * stay in their original language, rule findings are localized locally and
+ * the overall score is a number, so they are left out of translation.
+ * Evidence quotes are verbatim and are restored after translation.
+ */
+export type TranslatableResult = Omit<AnalysisResult, 'overallScore' | 'rubric' | 'syllabus' | 'sourceDocument' | 'ruleFindings' | 'referenceReport' | 'complianceReport' | 'documentStats' | 'modelError' | 'stages' | 'stability' | 'modelCalls'>;
+
+export const translatableSpec: ObjectSpec<TranslatableResult> = {
+  kind: 'object',
+  fields: {
+    courseTitle: str(),
+    ...evaluationSpec.fields,
+    revisedILOs: list(str()),
+    benchmarks: list(benchmarkSpec),
+    tutors: list(tutorSpec),
+  },
+};
+
+export const templateSectionSpec: ObjectSpec<TemplateSection> = {
+  kind: 'object',
+  fields: {
+    id: str(),
+    name: str(),
+    synonyms: {
+      kind: 'object',
+      fields: {
+        en: list(str()),
+        ar: list(str()),
+      },
+    },
+    required: { kind: 'boolean' },
+    dataKey: { kind: 'enum', values: ['ilos', 'weeklyPlan', 'assessments', 'references', 'policies'], optional: true },
+  },
+};
+
+export const mandatoryFieldSpec: ObjectSpec<MandatoryField> = {
+  kind: 'object',
+  fields: {
+    id: str(),
+    name: str(),
+    courseField: {
+      kind: 'enum',
+      values: ['code', 'department', 'instructor', 'instructorEmail', 'officeHours', 'semester', 'creditHours', 'description'],
+      optional: true,
+    },
+    policyKeywords: { kind: 'array', items: str(), optional: true },
+  },
+};
+
+/** Validates institution-provided template JSON; never sent to the model. */
+export const syllabusTemplateSpec: ObjectSpec<SyllabusTemplate> = {
+  kind: 'object',
+  fields: {
+    name: str(),
+    version: str(),
+    enforceOrder: { kind: 'boolean' },
+    sections: list(templateSectionSpec, 1),
+    mandatoryFields: list(mandatoryFieldSpec),
+  },
+};
+
+export const assessmentRuleConfigSpec: ObjectSpec<AssessmentRuleConfig> = {
+  kind: 'object',
+  fields: {
+    maxFinalExamWeight: num(0, 100),
+    minFormativeCount: num(0),
+    requireIloReference: { kind: 'boolean' },
+  },
+};
+
+export const evaluationCriteriaSpec: ObjectSpec<EvaluationCriteria> = {
+  kind: 'object',
+  fields: {
+    rubric: rubricSpec,
+    benchmarkUniversities: str(),
+    assessmentRules: assessmentRuleConfigSpec,
+    maxReferenceAge: num(0),
+    syllabusTemplate: syllabusTemplateSpec,
+  },
+};
+
+export const reportRunSpec: ObjectSpec<ReportRun> = {
+  kind: 'object',
+  fields: {
+    id: str(),
+    createdAt: str(),
+    fileName: str(),
+    fileHash: str(),
+    language: { kind: 'enum', values: ['en', 'ar'] },
+    criteria: evaluationCriteriaSpec,
+  },
+};
+
+/** Validates entries of an imported history archive. */
+export const historyEntrySpec: ObjectSpec<HistoryEntry> = {
+  kind: 'object',
+  fields: {
+    ...reportRunSpec.fields,
+    result: analysisResultSpec,
+  },
+};
+
+/** Validates a report opened from a JSON export. */
+export const reportExportSpec: ObjectSpec<ReportExport> = {
+  kind: 'object',
+  fields: {
+    format: { kind: 'enum', values: ['pau-report'] },
+    version: num(1),
+    exportedAt: str(),
+    run: reportRunSpec,
+    result: analysisResultSpec,
+  },
+};
+
+export const programOutcomeSpec: ObjectSpec<ProgramOutcome> = {
+  kind: 'object',
+  fields: {
+    id: str(),
+    text: str(),
+  },
+};
+
+const coverageLevel = (): FieldSpec => ({ kind: 'enum', values: ['introduced', 'reinforced', 'mastered'] });
+
+export const ploLinkSpec: ObjectSpec<PloLink> = {
+  kind: 'object',
+  fields: {
+    courseKey: str(),
+    iloId: str(),
+    ploId: str(),
+    level: coverageLevel(),
+    status: { kind: 'enum', values: ['suggested', 'confirmed', 'rejected'] },
+    rationale: str(true),
+  },
+};
+
+export const programMapSpec: ObjectSpec<ProgramMap> = {
+  kind: 'object',
+  fields: {
+    name: str(),
+    outcomes: list(programOutcomeSpec),
+    links: list(ploLinkSpec),
+  },
+};
+
+/**
+ * Model-suggested ILO to PLO mappings; they become links with status "suggested".
+ */
+export type PloSuggestions = { mappings: Omit<PloLink, 'status'>[] };
+
+const ploSuggestionSpec: ObjectSpec<PloSuggestions['mappings'][number]> = {
+  kind: 'object',
+  fields: {
+    courseKey: str(),
+    iloId: str(),
+    ploId: str(),
+    level: coverageLevel(),
+    rationale: str(true),
+  },
+};
+
+export const ploSuggestionsSpec: ObjectSpec<PloSuggestions> = {
+  kind: 'object',
+  fields: {
+    mappings: list(ploSuggestionSpec),
+  },
+};
+
+/**
+ * Converts a spec into the Gemini structured-output schema.
+ */
+export const toResponseSchema = (spec: FieldSpec): Schema => {
+  switch (spec.kind) {
+    case 'string':
+      return { type: Type.STRING };
+    case 'number':
+      return { type: Type.NUMBER };
+    case 'boolean':
+      return { type: Type.BOOLEAN };
+    case 'enum':
+      return { type: Type.STRING, enum: spec.values };
+    case 'record':
+      return { type: Type.OBJECT };
+    case 'array':
+      return { type: Type.ARRAY, items: toResponseSchema(spec.items) };
+    case 'object': {
+      const properties: Record<string, Schema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(spec.fields)) {
+        properties[key] = toResponseSchema(field);
+        if (!field.optional) required.push(key);
+      }
+      return { type: Type.OBJECT, properties, required };
+    }
+  }
+};
+
+/**
+ * Checks a value against a spec and returns every field-level problem found.
+ * An empty array means the value is valid.
+ */
+export const validate = (spec: FieldSpec, value: unknown, path = '$'): ValidationIssue[] => {
+  if (value === undefined || value === null) {
+    return spec.optional ? [] : [{ path, message: 'is required' }];
+  }
+
+  switch (spec.kind) {
+    case 'string':
+      return typeof value === 'string' ? [] : [{ path, message: 'must be a string' }];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ path, message: 'must be a boolean' }];
+
+    case 'enum':
+      return typeof value === 'string' && spec.values.includes(value)
+        ? []
+        : [{ path, message: `must be one of ${spec.values.join(', ')}` }];
+
+    case 'record': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [{ path, message: 'must be an object' }];
+      }
+      return Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => typeof v !== 'string' && typeof v !== 'number')
+        .map(([key]) => ({ path: `${path}.${key}`, message: 'must be a string or number' }));
+    }
+
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return [{ path, message: 'must be a number' }];
+      }
+      if (spec.min !== undefined && value < spec.min) {
+        return [{ path, message: `must be >= ${spec.min} (got ${value})` }];
+      }
+      if (spec.max !== undefined && value > spec.max) {
+        return [{ path, message: `must be <= ${spec.max} (got ${value})` }];
+      }
+      return [];
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [{ path, message: 'must be an array' }];
+      }
+      const issues: ValidationIssue[] = [];
+      if (spec.minItems && value.length < spec.minItems) {
+        issues.push({ path, message: `must contain at least ${spec.minItems} item(s)` });
+      }
+      value.forEach((item, i) => issues.push(...validate(spec.items, item, `${path}[${i}]`)));
+      return issues;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [{ path, message: 'must be an object' }];
+      }
+      const issues: ValidationIssue[] = [];
+      for (const [key, field] of Object.entries(spec.fields)) {
+        issues.push(...validate(field, (value as Record<string, unknown>)[key], `${path}.${key}`));
+      }
+      return issues;
+    }
+  }
+};
+
+/**
+ * Raised when the model's output still fails validation after the repair attempt.
+ */
+export class ModelOutputError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'ModelOutputError';
+    this.issues = issues;
+  }
+}
+
+export const formatIssues = (issues: ValidationIssue[]) =>
+  issues.map(i => `${i.path} ${i.message}`).join('\n');
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { GapItem, SectionScore } from '../types';
+import { EvaluationOutput } from './schema';
+import { isLowConfidence, isUnstable, poolEvaluations, spreadOf } from './scoreStability';
+
+const score = (criterionId: string, value: number, feedback = ''): SectionScore =>
+  ({ criterionId, section: criterionId, score: value, feedback, evidence: [] });
+
+const gap = (text: string): GapItem => ({ text, evidence: [] });
+
+const run = (sectionScores: SectionScore[], weaknesses: string[] = [], strengths: string[] = []): EvaluationOutput => ({
+  sectionScores,
+  gapAnalysis: { missingComponents: [], weaknesses: weaknesses.map(gap), strengths: strengths.map(gap) },
+  recommendations: [],
+  revisedILOs: ['Analyze data structures'],
+  suggestedActivities: [],
+});
+
+// Each run's overall score is its first section score
+const overallOf = (evaluation: EvaluationOutput) => evaluation.sectionScores[0].score;
+
+describe('spreadOf', () => {
+  it('gives the mean, sample standard deviation and range', () => {
+    expect(spreadOf([70, 80, 90])).toEqual({ mean: 80, stdDev: 10, min: 70, max: 90 });
+  });
+
+  it('rounds to one decimal', () => {
+    expect(spreadOf([1, 2])).toEqual({ mean: 1.5, stdDev: 0.7, min: 1, max: 2 });
+  });
+
+  it('has no spread for a single run', () => {
+    expect(spreadOf([75])).toEqual({ mean: 75, stdDev: 0, min: 75, max: 75 });
+  });
+});
+
+describe('isUnstable', () => {
+  it('flags a standard deviation above the threshold', () => {
+    expect(isUnstable(spreadOf([70, 80, 90]))).toBe(true);
+    expect(isUnstable(spreadOf([78, 80, 82]))).toBe(false);
+  });
+});
+
+describe('poolEvaluations', () => {
+  const runs = [
+    run([score('a', 60, 'low')], ['No late submission policy is stated', 'Textbook is outdated']),
+    run([score('a', 70, 'middle')], ['Weekly plan lacks assessment dates'], ['Clear weekly reading list']),
+    run([score('a', 90, 'high'), score('b', 50)], ['No late submission policy stated'], ['Clear weekly reading list provided']),
+  ];
+  const { evaluation, stability } = poolEvaluations(runs, overallOf, 0.7);
+
+  it('reports the spread of the overall scores', () => {
+    expect(stability).toMatchObject({ samples: 3, temperature: 0.7, overall: { mean: 73.3, stdDev: 15.3, min: 60, max: 90 } });
+  });
+
+  it('takes the text from the run closest to the mean', () => {
+    expect(evaluation.sectionScores[0].feedback).toBe('middle');
+  });
+
+  it('scores each criterion by its mean over the runs that scored it', () => {
+    expect(evaluation.sectionScores.map(s => [s.criterionId, s.score])).toEqual([['a', 73], ['b', 50]]);
+    expect(stability.sections).toEqual([
+      { criterionId: 'a', section: 'a', samples: 3, mean: 73.3, stdDev: 15.3, min: 60, max: 90 },
+      { criterionId: 'b', section: 'b', samples: 1, mean: 50, stdDev: 0, min: 50, max: 50 },
+    ]);
+  });
+
+  it('keeps the representative run\'s findings and those raised by at least half of the runs', () => {
+    expect(evaluation.gapAnalysis.weaknesses.map(w => [w.text, w.support])).toEqual([
+      ['Weekly plan lacks assessment dates', 1 / 3],
+      ['No late submission policy is stated', 2 / 3],
+    ]);
+  });
+
+  it('keeps the representative run\'s wording of a shared finding', () => {
+    expect(evaluation.gapAnalysis.strengths).toEqual([{ text: 'Clear weekly reading list', evidence: [], support: 2 / 3 }]);
+  });
+
+  it('marks findings raised by fewer than half of the runs as low confidence', () => {
+    expect(evaluation.gapAnalysis.weaknesses.map(isLowConfidence)).toEqual([true, false]);
+    expect(isLowConfidence(gap('From a single run'))).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import { GapItem, ScoreSpread, ScoreStability, SectionScore, SectionStability } from "../types";
+import { textSimilarity } from "./comparison";
+import { EvaluationOutput } from "./schema";
+
+export const STABILITY_SAMPLE_OPTIONS = [1, 3, 5];
+export const DEFAULT_SAMPLE_TEMPERATURE = 0.7;
+
+// Findings raised by fewer than half of the runs are flagged as low-confidence
+export const LOW_CONFIDENCE_SUPPORT = 0.5;
+
+// A standard deviation above this many points means the runs disagree on the score
+export const UNSTABLE_STD_DEV = 5;
+
+// Minimum word overlap for two runs' findings to count as the same finding
+const MATCH_THRESHOLD = 0.5;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Mean, sample standard deviation and range of a non-empty list of scores.
+ */
+export const spreadOf = (values: number[]): ScoreSpread => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return {
+    mean: round1(mean),
+    stdDev: round1(Math.sqrt(variance)),
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+};
+
+export const isLowConfidence = (item: GapItem) =>
+  item.support !== undefined && item.support < LOW_CONFIDENCE_SUPPORT;
+
+export const isUnstable = (spread: ScoreSpread) => spread.stdDev > UNSTABLE_STD_DEV;
+
+/**
+ * Groups the findings of all runs by wording. The representative run's
+ * findings are kept with its wording; another run's finding is only added
+ * when at least half of the runs raised it. Each finding carries the share
+ * of runs that raised it.
+ */
+const poolFindings = (runs: GapItem[][], representative: number): GapItem[] => {
+  const order = [representative, ...runs.map((_, i) => i).filter(i => i !== representative)];
+  const groups: { item: GapItem; runs: Set<number> }[] = [];
+  for (const run of order) {
+    for (const item of runs[run]) {
+      let best: (typeof groups)[number] | undefined;
+      let bestScore = MATCH_THRESHOLD;
+      for (const group of groups) {
+        if (group.runs.has(run)) continue;
+        const score = textSimilarity(group.item.text, item.text);
+        if (score >= bestScore) {
+          best = group;
+          bestScore = score;
+        }
+      }
+      if (best) best.runs.add(run);
+      else groups.push({ item, runs: new Set([run]) });
+    }
+  }
+  return groups
+    .filter(group => group.runs.has(representative) || group.runs.size * 2 >= runs.length)
+    .map(group => ({ ...group.item, support: group.runs.size / runs.length }));
+};
+
+/**
+ * Merges several evaluations of the same syllabus into one. Section scores
+ * become the mean over the runs that scored them; feedback, evidence and the
+ * other text come from the run whose overall score is closest to the mean.
+ * `overallOf` gives each run's overall score, local checks included.
+ */
+export const poolEvaluations = (
+  runs: EvaluationOutput[],
+  overallOf: (run: EvaluationOutput) => number,
+  temperature: number
+): { evaluation: EvaluationOutput; stability: ScoreStability } => {
+  const overalls = runs.map(overallOf);
+  const overall = spreadOf(overalls);
+  let representative = 0;
+  overalls.forEach((value, i) => {
+    if (Math.abs(value - overall.mean) < Math.abs(overalls[representative] - overall.mean)) representative = i;
+  });
+  const base = runs[representative];
+
+  // Criteria in the representative run's order, then any only other runs scored
+  const criterionIds: string[] = [];
+  [base, ...runs].forEach(run => run.sectionScores.forEach(s => {
+    if (!criterionIds.includes(s.criterionId)) criterionIds.push(s.criterionId);
+  }));
+
+  const sections: SectionStability[] = [];
+  const sectionScores: SectionScore[] = criterionIds.map(criterionId => {
+    const scored = runs.map(run => run.sectionScores.find(s => s.criterionId === criterionId)).filter((s): s is SectionScore => !!s);
+    const shown = base.sectionScores.find(s => s.criterionId === criterionId) || scored[0];
+    const spread = spreadOf(scored.map(s => s.score));
+    sections.push({ criterionId, section: shown.section, samples: scored.length, ...spread });
+    return { ...shown, score: Math.round(spread.mean) };
+  });
+
+  return {
+    evaluation: {
+      ...base,
+      sectionScores,
+      gapAnalysis: {
+        missingComponents: poolFindings(runs.map(run => run.gapAnalysis.missingComponents), representative),
+        weaknesses: poolFindings(runs.map(run => run.gapAnalysis.weaknesses), representative),
+        strengths: poolFindings(runs.map(run => run.gapAnalysis.strengths), representative),
+      },
+    },
+    stability: { samples: runs.length, temperature, overall, sections },
+  };
+};
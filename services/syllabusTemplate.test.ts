@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Syllabus, SyllabusTemplate } from '../types';
+import { checkCompliance, DEFAULT_TEMPLATE, parseTemplate } from './syllabusTemplate';
+
+const template: SyllabusTemplate = {
+  name: 'Test Template',
+  version: '2.0',
+  enforceOrder: true,
+  sections: [
+    { id: 'info', name: 'Course Information', synonyms: { en: ['course details'], ar: ['معلومات المساق'] }, required: true },
+    { id: 'ilos', name: 'Learning Outcomes', synonyms: { en: ['intended learning outcomes'], ar: ['مخرجات التعلم'] }, required: true, dataKey: 'ilos' },
+    { id: 'plan', name: 'Weekly Plan', synonyms: { en: ['schedule'], ar: ['الخطة الأسبوعية'] }, required: true },
+    { id: 'extra', name: 'Further Reading', synonyms: { en: [], ar: [] }, required: false },
+  ],
+  mandatoryFields: [
+    { id: 'email', name: 'Instructor email', courseField: 'instructorEmail' },
+    { id: 'integrity', name: 'Plagiarism policy', policyKeywords: ['plagiarism', 'الانتحال'] },
+  ],
+};
+
+const syllabus = (overrides: Partial<Syllabus>): Syllabus => ({
+  course: { title: 'Data Structures', prerequisites: [] },
+  ilos: [],
+  weeklyPlan: [],
+  assessments: [],
+  references: [],
+  policies: [],
+  sectionHeadings: [],
+  ...overrides,
+});
+
+const statuses = (s: Syllabus, t = template) =>
+  Object.fromEntries(checkCompliance(s, t, 'en').report.items.map(i => [i.id, i.status]));
+
+describe('checkCompliance', () => {
+  it('passes a syllabus with every section in order and every field', () => {
+    const { report, findings } = checkCompliance(syllabus({
+      sectionHeadings: ['1. Course Details', 'Intended Learning Outcomes', 'Schedule'],
+      course: { title: 'Data Structures', prerequisites: [], instructorEmail: 'a@pau.edu' },
+      policies: [{ title: 'Academic integrity', text: 'Plagiarism leads to failing the course.' }],
+    }), template, 'en');
+
+    expect(findings).toEqual([]);
+    expect(report).toMatchObject({ templateName: 'Test Template', templateVersion: '2.0', score: 100 });
+    expect(report.items.find(i => i.id === 'info')?.matchedHeading).toBe('1. Course Details');
+    expect(report.items.find(i => i.id === 'extra')).toMatchObject({ status: 'missing', required: false });
+  });
+
+  it('matches Arabic headings and policies', () => {
+    expect(statuses(syllabus({
+      sectionHeadings: ['معلومات المساق', 'مخرجات التعلم', 'الخطة الأسبوعية'],
+      policies: [{ title: 'النزاهة الأكاديمية', text: 'يمنع الانتحال.' }],
+    }))).toMatchObject({ info: 'pass', ilos: 'pass', plan: 'pass', integrity: 'pass' });
+  });
+
+  it('accepts extracted data in place of a heading', () => {
+    expect(statuses(syllabus({ ilos: [{ id: 'ILO1', text: 'Explain trees.' }] })).ilos).toBe('pass');
+  });
+
+  it('reports missing required sections and fields', () => {
+    const { report, findings } = checkCompliance(syllabus({ sectionHeadings: ['Course Information'] }), template, 'en');
+    expect(findings.map(f => `${f.rule}:${f.params.name}`)).toEqual([
+      'template.missingSection:Learning Outcomes',
+      'template.missingSection:Weekly Plan',
+      'template.missingField:Instructor email',
+      'template.missingField:Plagiarism policy',
+    ]);
+    // One of five required items
+    expect(report.score).toBe(20);
+  });
+
+  it('gives half credit to sections out of order, unless order is not enforced', () => {
+    const shuffled = syllabus({ sectionHeadings: ['Weekly Plan', 'Course Information', 'Learning Outcomes'] });
+    const { report, findings } = checkCompliance(shuffled, template, 'en');
+    expect(report.items.slice(0, 3).map(i => i.status)).toEqual(['pass', 'pass', 'outOfOrder']);
+    expect(findings.map(f => f.rule)).toContain('template.outOfOrder');
+    expect(report.score).toBe(50);
+
+    expect(statuses(shuffled, { ...template, enforceOrder: false })).toMatchObject({ info: 'pass', ilos: 'pass', plan: 'pass' });
+  });
+});
+
+describe('parseTemplate', () => {
+  it('round-trips the default template', () => {
+    expect(parseTemplate(JSON.stringify(DEFAULT_TEMPLATE))).toEqual({ template: DEFAULT_TEMPLATE, issues: [] });
+  });
+
+  it('reports invalid JSON and schema problems', () => {
+    expect(parseTemplate('{').template).toBeUndefined();
+    expect(parseTemplate(JSON.stringify({ ...DEFAULT_TEMPLATE, enforceOrder: 'yes' })).issues).toEqual([
+      { path: '$.enforceOrder', message: 'must be a boolean' },
+    ]);
+  });
+});
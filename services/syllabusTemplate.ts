@@ -0,0 +1,202 @@
+import { ComplianceItem, ComplianceReport, RuleFinding, Syllabus, SyllabusTemplate, TemplateSection } from "../types";
+import { createFinding } from "./ruleFindings";
+import { syllabusTemplateSpec, validate, ValidationIssue } from "./schema";
+import { containsPhrase } from "./textUtils";
+
+const STORAGE_KEY = 'pau.syllabusTemplate';
+
+/**
+ * PAU's standard syllabus layout, used until an institution saves its own.
+ */
+export const DEFAULT_TEMPLATE: SyllabusTemplate = {
+  name: 'PAU Standard Syllabus',
+  version: '1.0',
+  enforceOrder: true,
+  sections: [
+    {
+      id: 'courseInfo',
+      name: 'Course Information',
+      synonyms: {
+        en: ['course information', 'course details', 'general information', 'course description'],
+        ar: ['معلومات المساق', 'معلومات المقرر', 'بيانات المساق', 'وصف المساق', 'وصف المقرر'],
+      },
+      required: true,
+    },
+    {
+      id: 'instructor',
+      name: 'Instructor Information',
+      synonyms: {
+        en: ['instructor', 'lecturer', 'faculty information', 'contact information', 'teaching staff'],
+        ar: ['مدرس المساق', 'عضو هيئة التدريس', 'المحاضر', 'معلومات المدرس', 'بيانات المدرس'],
+      },
+      required: true,
+    },
+    {
+      id: 'ilos',
+      name: 'Intended Learning Outcomes',
+      synonyms: {
+        en: ['learning outcomes', 'course outcomes', 'ilos', 'objectives'],
+        ar: ['مخرجات التعلم', 'نتاجات التعلم', 'أهداف المساق', 'أهداف المقرر'],
+      },
+      required: true,
+      dataKey: 'ilos',
+    },
+    {
+      id: 'weeklyPlan',
+      name: 'Weekly Plan',
+      synonyms: {
+        en: ['weekly plan', 'weekly schedule', 'course schedule', 'course outline', 'course content', 'topics'],
+        ar: ['الخطة الأسبوعية', 'الخطة الدراسية', 'توزيع المحتوى', 'محتوى المساق', 'المواضيع'],
+      },
+      required: true,
+      dataKey: 'weeklyPlan',
+    },
+    {
+      id: 'assessments',
+      name: 'Assessment',
+      synonyms: {
+        en: ['assessment', 'assessments', 'grading', 'evaluation', 'grade distribution', 'marks distribution'],
+        ar: ['التقييم', 'تقييم', 'أساليب التقييم', 'توزيع العلامات', 'توزيع الدرجات'],
+      },
+      required: true,
+      dataKey: 'assessments',
+    },
+    {
+      id: 'references',
+      name: 'References',
+      synonyms: {
+        en: ['references', 'textbook', 'textbooks', 'resources', 'reading list', 'bibliography'],
+        ar: ['المراجع', 'مراجع', 'المصادر', 'الكتاب المقرر'],
+      },
+      required: true,
+      dataKey: 'references',
+    },
+    {
+      id: 'policies',
+      name: 'Course Policies',
+      synonyms: {
+        en: ['policies', 'policy', 'rules', 'regulations'],
+        ar: ['السياسات', 'سياسات المساق', 'القوانين', 'التعليمات'],
+      },
+      required: true,
+      dataKey: 'policies',
+    },
+  ],
+  mandatoryFields: [
+    { id: 'officeHours', name: 'Office hours', courseField: 'officeHours' },
+    { id: 'instructorEmail', name: 'Instructor email', courseField: 'instructorEmail' },
+    { id: 'creditHours', name: 'Credit hours', courseField: 'creditHours' },
+    {
+      id: 'plagiarism',
+      name: 'Plagiarism policy',
+      policyKeywords: ['plagiarism', 'academic integrity', 'academic honesty', 'cheating', 'انتحال', 'النزاهة الأكاديمية', 'الغش', 'الأمانة العلمية'],
+    },
+    {
+      id: 'attendance',
+      name: 'Attendance policy',
+      policyKeywords: ['attendance', 'absence', 'absences', 'الحضور', 'الغياب', 'الدوام'],
+    },
+  ],
+};
+
+/**
+ * Parses template JSON typed into the editor. `template` is set only when
+ * there are no issues.
+ */
+export const parseTemplate = (json: string): { template?: SyllabusTemplate; issues: ValidationIssue[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    return { issues: [{ path: '$', message: e instanceof Error ? e.message : 'is not valid JSON' }] };
+  }
+  const issues = validate(syllabusTemplateSpec, value);
+  return issues.length === 0 ? { template: value as SyllabusTemplate, issues } : { issues };
+};
+
+/**
+ * Returns the institution's saved template, or the default if none is saved
+ * or the stored copy no longer validates.
+ */
+export const loadTemplate = (): SyllabusTemplate => {
+  if (typeof localStorage === 'undefined') return DEFAULT_TEMPLATE;
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return (stored && parseTemplate(stored).template) || DEFAULT_TEMPLATE;
+};
+
+export const saveTemplate = (template: SyllabusTemplate) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(template));
+};
+
+const findHeading = (headings: string[], section: TemplateSection): number => {
+  const synonyms = [section.name, ...section.synonyms.en, ...section.synonyms.ar];
+  return headings.findIndex(heading => synonyms.some(s => containsPhrase(heading, s)));
+};
+
+/**
+ * Checks the syllabus against the template section by section.
+ * A section is present if one of its headings appears, or failing that if its
+ * extracted data is non-empty. With `enforceOrder`, a section whose heading
+ * comes before that of an earlier template section is flagged out of order.
+ */
+export const checkCompliance = (
+  syllabus: Syllabus,
+  template: SyllabusTemplate,
+  language: 'en' | 'ar'
+): { report: ComplianceReport; findings: RuleFinding[] } => {
+  const items: ComplianceItem[] = [];
+  const findings: RuleFinding[] = [];
+  let lastPosition = -1;
+
+  for (const section of template.sections) {
+    const position = findHeading(syllabus.sectionHeadings, section);
+    const hasData = section.dataKey !== undefined && syllabus[section.dataKey].length > 0;
+    const item: ComplianceItem = {
+      id: section.id,
+      name: section.name,
+      kind: 'section',
+      status: position >= 0 || hasData ? 'pass' : 'missing',
+      required: section.required,
+      matchedHeading: position >= 0 ? syllabus.sectionHeadings[position] : undefined,
+    };
+
+    if (position >= 0) {
+      if (template.enforceOrder && position < lastPosition) {
+        item.status = 'outOfOrder';
+        findings.push(createFinding('template.outOfOrder', 'minor', 'weakness', { name: section.name }, language, [syllabus.sectionHeadings[position]]));
+      }
+      lastPosition = Math.max(lastPosition, position);
+    } else if (item.status === 'missing' && section.required) {
+      findings.push(createFinding('template.missingSection', 'major', 'missing', { name: section.name }, language));
+    }
+    items.push(item);
+  }
+
+  for (const field of template.mandatoryFields) {
+    const courseValue = field.courseField ? syllabus.course[field.courseField] : undefined;
+    const present = field.courseField
+      ? courseValue !== undefined && String(courseValue).trim() !== ''
+      : (field.policyKeywords || []).some(keyword =>
+          syllabus.policies.some(p => containsPhrase(p.title, keyword) || containsPhrase(p.text, keyword)));
+
+    items.push({ id: field.id, name: field.name, kind: 'field', status: present ? 'pass' : 'missing', required: true });
+    if (!present) {
+      findings.push(createFinding('template.missingField', 'major', 'missing', { name: field.name }, language));
+    }
+  }
+
+  // Out-of-order items are present, so they earn half credit
+  const required = items.filter(i => i.required);
+  const earned = required.reduce((sum, i) => sum + (i.status === 'pass' ? 1 : i.status === 'outOfOrder' ? 0.5 : 0), 0);
+
+  return {
+    report: {
+      templateName: template.name,
+      templateVersion: template.version,
+      items,
+      score: required.length === 0 ? 100 : Math.round((earned / required.length) * 100),
+    },
+    findings,
+  };
+};
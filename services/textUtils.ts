@@ -0,0 +1,27 @@
+/**
+ * Removes Arabic diacritics/tatweel and unifies letter variants so that
+ * "أن يُحلِّل" and "ان يحلل" compare equal.
+ */
+export const normalizeArabic = (text: string) =>
+  text
+    .replace(/[\u064B-\u0652\u0670\u0640]/g, '')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ؤ/g, 'و')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه');
+
+/**
+ * Lower-cases, normalizes Arabic letters and collapses punctuation/whitespace
+ * for loose phrase matching in either language.
+ */
+export const normalizeText = (text: string) =>
+  normalizeArabic(text.toLowerCase()).replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * True if `phrase` appears in `text` as a whole-word sequence after normalization.
+ */
+export const containsPhrase = (text: string, phrase: string) => {
+  const haystack = ` ${normalizeText(text)} `;
+  const needle = normalizeText(phrase);
+  return needle.length > 0 && haystack.includes(` ${needle} `);
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryEntry, ModelCall } from '../types';
+import { budgetStatus, estimateCost, usageByMonth, usageByStage } from './usage';
+
+const call = (stage: ModelCall['stage'], timestamp: string | undefined, costUsd?: number): ModelCall =>
+  ({ stage, model: 'gemini-2.5-flash', promptTokens: 1000, responseTokens: 100, durationMs: 2000, costUsd, timestamp });
+
+const entry = (createdAt: string, modelCalls: ModelCall[] = []) =>
+  ({ id: createdAt, createdAt, result: { modelCalls } }) as unknown as HistoryEntry;
+
+describe('estimateCost', () => {
+  it('prices versioned model names by their longest listed prefix', () => {
+    expect(estimateCost('gemini-2.5-flash-lite-preview', { promptTokens: 1_000_000, responseTokens: 1_000_000 })).toBeCloseTo(0.5);
+  });
+
+  it('leaves unlisted models and missing token counts unpriced', () => {
+    expect(estimateCost('llama3', { promptTokens: 10, responseTokens: 10 })).toBeUndefined();
+    expect(estimateCost('gemini-2.5-pro', { promptTokens: 10 })).toBeUndefined();
+  });
+});
+
+describe('usageByMonth', () => {
+  it('totals calls by when they were made, newest month first', () => {
+    const months = usageByMonth(
+      [call('extract', '2026-03-31T23:00:00Z', 0.25), call('mapPlos', '2026-04-01T08:00:00Z', 0.5), call('translate', '2026-04-02T08:00:00Z')],
+      [entry('2026-04-01T09:00:00Z')]
+    );
+    expect(months.map(m => [m.month, m.analyses, m.calls, m.costUsd, m.unpricedCalls])).toEqual([
+      ['2026-04', 1, 2, 0.5, 1],
+      ['2026-03', 0, 1, 0.25, 0],
+    ]);
+  });
+
+  it('counts spending whose analysis was deleted, and not the calls saved with reports', () => {
+    const months = usageByMonth([call('evaluate', '2026-05-10T10:00:00Z', 1)], [entry('2026-06-01T10:00:00Z', [call('evaluate', '2026-06-01T10:00:00Z', 3)])]);
+    expect(months.map(m => [m.month, m.analyses, m.costUsd])).toEqual([['2026-06', 1, 0], ['2026-05', 0, 1]]);
+  });
+
+  it('leaves out calls without a timestamp', () => {
+    expect(usageByMonth([call('evaluate', undefined, 1)], [])).toEqual([]);
+  });
+});
+
+describe('usageByStage', () => {
+  it('totals calls per stage in pipeline order', () => {
+    const stages = usageByStage([call('mapPlos', undefined, 1), call('evaluate', undefined, 2), call('evaluate', undefined, 3)]);
+    expect(stages.map(s => [s.stage, s.calls, s.costUsd, s.durationMs])).toEqual([['evaluate', 2, 5, 4000], ['mapPlos', 1, 1, 2000]]);
+  });
+});
+
+describe('budgetStatus', () => {
+  it('warns from 80% of the budget', () => {
+    expect(budgetStatus(5, { monthlyUsd: 0 })).toBeUndefined();
+    expect(budgetStatus(7.99, { monthlyUsd: 10 })).toBe('ok');
+    expect(budgetStatus(8, { monthlyUsd: 10 })).toBe('warning');
+    expect(budgetStatus(10, { monthlyUsd: 10 })).toBe('exceeded');
+  });
+});
@@ -0,0 +1,127 @@
+import { HistoryEntry, ModelCall, MonthlyUsage, StageUsage, UsageBudget, UsageTotals } from "../types";
+import { LLMUsage } from "./providers";
+
+const STORAGE_KEY = 'pau.usageBudget';
+
+/**
+ * Receives each model call as it completes, so a run can collect its own.
+ */
+export type UsageListener = (call: ModelCall) => void;
+
+// Share of the monthly budget at which the dashboard starts warning
+export const BUDGET_WARNING_SHARE = 0.8;
+
+export const DEFAULT_BUDGET: UsageBudget = { monthlyUsd: 0 };
+
+/**
+ * USD per million tokens at the paid tier for prompts up to 200k tokens.
+ * Versioned names (e.g. `gemini-2.5-flash-preview-09-2025`) use the longest
+ * listed prefix. Search grounding is billed per prompt and not included.
+ */
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+};
+
+const STAGE_ORDER: ModelCall['stage'][] = ['extract', 'evaluate', 'benchmark', 'tutors', 'translate', 'mapPlos'];
+
+/**
+ * Estimated cost of one call, or undefined when the model is not in the
+ * price list or the provider did not report token counts.
+ */
+export const estimateCost = (model: string, usage: LLMUsage): number | undefined => {
+  const key = Object.keys(MODEL_PRICES)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key || usage.promptTokens === undefined || usage.responseTokens === undefined) return undefined;
+  const price = MODEL_PRICES[key];
+  return (usage.promptTokens * price.input + usage.responseTokens * price.output) / 1_000_000;
+};
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  responseTokens: 0,
+  durationMs: 0,
+  costUsd: 0,
+  unpricedCalls: 0,
+});
+
+const addCall = (totals: UsageTotals, call: ModelCall) => {
+  totals.calls++;
+  totals.promptTokens += call.promptTokens || 0;
+  totals.responseTokens += call.responseTokens || 0;
+  totals.durationMs += call.durationMs;
+  if (call.costUsd === undefined) totals.unpricedCalls++;
+  else totals.costUsd += call.costUsd;
+};
+
+export const sumUsage = (calls: ModelCall[]): UsageTotals => {
+  const totals = emptyTotals();
+  calls.forEach(call => addCall(totals, call));
+  return totals;
+};
+
+/**
+ * Usage per calendar month (UTC), newest month first: the logged calls by
+ * when they were made and the saved analyses by when they were created.
+ * Calls without a timestamp cannot be placed and are left out.
+ */
+export const usageByMonth = (calls: ModelCall[], entries: HistoryEntry[]): MonthlyUsage[] => {
+  const months = new Map<string, MonthlyUsage>();
+  const monthOf = (timestamp: string) => {
+    const month = timestamp.slice(0, 7);
+    if (!months.has(month)) months.set(month, { month, analyses: 0, ...emptyTotals() });
+    return months.get(month)!;
+  };
+  entries.forEach(entry => monthOf(entry.createdAt).analyses++);
+  calls.forEach(call => {
+    if (call.timestamp) addCall(monthOf(call.timestamp), call);
+  });
+  return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+};
+
+/**
+ * Usage per pipeline stage, in pipeline order, for finding slow or costly stages.
+ */
+export const usageByStage = (calls: ModelCall[]): StageUsage[] => {
+  const stages = new Map<ModelCall['stage'], StageUsage>();
+  for (const call of calls) {
+    if (!stages.has(call.stage)) stages.set(call.stage, { stage: call.stage, ...emptyTotals() });
+    addCall(stages.get(call.stage)!, call);
+  }
+  return [...stages.values()].sort((a, b) => STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage));
+};
+
+// Fractions of a cent matter for single calls
+export const formatUsd = (usd: number) => `$${usd.toFixed(usd > 0 && usd < 0.1 ? 4 : 2)}`;
+
+export const formatDuration = (ms: number) => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+/**
+ * Where this month's spending stands against the budget; undefined when no
+ * budget is set.
+ */
+export const budgetStatus = (spentUsd: number, budget: UsageBudget): 'ok' | 'warning' | 'exceeded' | undefined => {
+  if (!(budget.monthlyUsd > 0)) return undefined;
+  if (spentUsd >= budget.monthlyUsd) return 'exceeded';
+  return spentUsd >= budget.monthlyUsd * BUDGET_WARNING_SHARE ? 'warning' : 'ok';
+};
+
+export const loadUsageBudget = (): UsageBudget => {
+  if (typeof localStorage === 'undefined') return DEFAULT_BUDGET;
+  try {
+    const monthlyUsd = Number(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}').monthlyUsd);
+    return Number.isFinite(monthlyUsd) && monthlyUsd >= 0 ? { monthlyUsd } : DEFAULT_BUDGET;
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+export const saveUsageBudget = (budget: UsageBudget) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(budget));
+};
@@ -0,0 +1,63 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryEntry, ModelCall } from '../types';
+
+const call = (stage: ModelCall['stage'], timestamp?: string): ModelCall =>
+  ({ stage, model: 'gemini-2.5-flash', promptTokens: 1000, responseTokens: 100, durationMs: 2000, costUsd: 0.5, timestamp });
+
+describe('usage log', () => {
+  // Each test opens its own database through fresh modules
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+  });
+  afterAll(() => vi.unstubAllGlobals());
+
+  it('appends calls in order, stamping those without a time', async () => {
+    const { loadUsageLog, logModelCall } = await import('./usageLog');
+    await logModelCall(call('mapPlos', '2026-04-01T08:00:00.000Z'));
+    await logModelCall(call('translate'));
+    const log = await loadUsageLog();
+    expect(log.map(c => c.stage)).toEqual(['mapPlos', 'translate']);
+    expect(log[0].timestamp).toBe('2026-04-01T08:00:00.000Z');
+    expect(Date.parse(log[1].timestamp!)).not.toBeNaN();
+  });
+
+  it('keeps the calls of a deleted analysis', async () => {
+    const { loadUsageLog, logModelCall } = await import('./usageLog');
+    const { deleteAnalysis, saveAnalysis } = await import('./historyStore');
+    const made = call('evaluate', '2026-04-01T08:00:00.000Z');
+    await logModelCall(made);
+    await saveAnalysis({ id: 'a', createdAt: made.timestamp, result: { modelCalls: [made] } } as unknown as HistoryEntry);
+    await deleteAnalysis('a');
+    expect(await loadUsageLog()).toEqual([made]);
+  });
+
+  it('is seeded with the calls of analyses saved before it existed', async () => {
+    // The database as version 3 left it
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open('pau-syllabus-evaluator', 3);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('analyses', { keyPath: 'id' }).put({
+          id: 'a',
+          createdAt: '2026-02-03T10:00:00.000Z',
+          result: { modelCalls: [call('extract'), call('evaluate', '2026-02-03T10:01:00.000Z')] },
+        });
+        db.createObjectStore('cache', { keyPath: 'key' });
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    const { loadUsageLog } = await import('./usageLog');
+    expect((await loadUsageLog()).map(c => [c.stage, c.timestamp])).toEqual([
+      ['extract', '2026-02-03T10:00:00.000Z'],
+      ['evaluate', '2026-02-03T10:01:00.000Z'],
+    ]);
+  });
+});
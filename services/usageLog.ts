@@ -0,0 +1,25 @@
+import { ModelCall } from "../types";
+import { USAGE_STORE, withStore } from "./localDb";
+
+// Without IndexedDB (the CLI and the API server) calls are only reported to their run
+const available = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Appends a model call to the usage log. The log is kept apart from the saved
+ * analyses, so spending stays counted when a report is deleted, and it also
+ * holds the calls that belong to no report, such as curriculum mapping.
+ */
+export const logModelCall = async (call: ModelCall): Promise<void> => {
+  if (!available()) return;
+  try {
+    await withStore(USAGE_STORE, 'readwrite', store => store.add({ ...call, timestamp: call.timestamp || new Date().toISOString() }));
+  } catch (error) {
+    console.warn("Writing the usage log failed:", error);
+  }
+};
+
+/**
+ * Every logged model call, oldest first.
+ */
+export const loadUsageLog = (): Promise<ModelCall[]> =>
+  withStore<ModelCall[]>(USAGE_STORE, 'readonly', store => store.getAll());
@@ -9,8 +9,11 @@ export const translations = {
     analyzing: "Analyzing syllabus structure and content...",
     processing: "Evaluating Academic Standards...",
     gathering: "Benchmarking & Locating Regional Experts...",
+    extracting: "Reading Syllabus Structure...",
+    extractingDesc: "Extracting course details, ILOs, weekly plan and assessments...",
     uploadTitle: "Drag & Drop Syllabus",
     uploadSubtitle: "PDF, DOCX, or Text files",
+    uploadFolder: "Select Folder",
     uploadBtn: "Select from Google Drive",
     readyForAnalysis: "Ready for analysis",
     or: "OR",
@@ -25,6 +28,8 @@ export const translations = {
     assessmentQualityDesc: "Evaluate metrics, weights, and methods.",
     referenceCurrency: "Resource Currency",
     referenceCurrencyDesc: "Check for recent textbooks and journals.",
+    structureCompliance: "Template Compliance",
+    structureComplianceDesc: "Check required sections, order and mandatory fields.",
     benchmarkPlaceholder: "e.g. MIT, Stanford, Oxford (leave blank for general)",
     benchmarkLabel: "Target Benchmark Universities (Optional)",
 
@@ -37,6 +42,7 @@ export const translations = {
     weaknesses: "Areas for Improvement",
     strengths: "Strengths",
     revisedILOs: "Suggested Revised ILOs",
+    recommendations: "Recommendations",
     activities: "Suggested Classroom Activities",
     benchmarking: "Global Benchmarking",
     tutors: "Regional Experts (Jordan & Palestine)",
@@ -44,17 +50,377 @@ export const translations = {
     comparison: "Comparison Analysis",
     copyReport: "Copy Full Report",
     copied: "Copied!",
-    downloadPdf: "Print / Save as PDF",
+    downloadPdf: "Download PDF",
+    preparingPdf: "Preparing PDF...",
+    pdfFailed: "The PDF could not be created. Please try again.",
+    watermarkLabel: "Watermark",
+    watermarkPlaceholder: "e.g. DRAFT (leave empty for none)",
+    signaturesLabel: "Approval signatures",
+    signaturesDesc: "One role per line. Leave empty to omit the approval block.",
+    defaultSignatories: "Course Coordinator\nHead of Department\nQA Committee Chair",
+    generatePdf: "Generate PDF",
+    tableOfContents: "Contents",
+    approvalTitle: "Committee Approval",
+    approvalDesc: "Reviewed and approved by:",
+    signature: "Signature",
+    downloadDocx: "Download Word",
+    preparingDocx: "Preparing document...",
+    docxFailed: "The Word document could not be created. Please try again.",
+    exportData: "Export data",
+    exportJsonDesc: "The full report with how it was produced, as versioned JSON. It can be opened again from the history.",
+    exportCsvDesc: "One row per section score and per finding, for spreadsheets",
+    exportMarkdownDesc: "The report as Markdown, for wikis",
+    pageOf: "Page {page} of {total}",
+    generatedOn: "Generated on {date}",
+    sectionFeedback: "Feedback",
     draftEmail: "Draft Email",
     alignsWith: "Aligns with",
     noRevisions: "No revisions necessary.",
     noActivities: "No specific activities generated.",
     noGaps: "No specific gaps detected.",
     analyzeAnother: "Analyze Another Syllabus",
+
+    // Course Overview
+    courseOverview: "Course Overview",
+    courseCode: "Course Code",
+    department: "Department",
+    instructor: "Instructor",
+    officeHours: "Office Hours",
+    semester: "Semester",
+    creditHours: "Credit Hours",
+    prerequisites: "Prerequisites",
+    learningOutcomes: "Intended Learning Outcomes",
+    weeklyPlan: "Weekly Plan",
+    week: "Week",
+    weeks: "Weeks",
+    topics: "Topics",
+    assessments: "Assessments",
+    assessment: "Assessment",
+    weight: "Weight",
+    references: "References",
+    policies: "Policies",
+    notSpecified: "Not specified",
+    none: "None",
+
+    // Bloom's Taxonomy
+    bloomTitle: "Bloom's Taxonomy Distribution",
+    bloomDesc: "Deterministic verb-based classification of each ILO. Results do not change between runs.",
+    bloomLevels: {
+      remember: "Remember",
+      understand: "Understand",
+      apply: "Apply",
+      analyze: "Analyze",
+      evaluate: "Evaluate",
+      create: "Create",
+    },
+    originalILOs: "Original ILOs",
+    unmeasurableILOs: "original ILO(s) use an unmeasurable verb or no action verb.",
+    unmeasurableVerb: "not measurable",
+    noActionVerb: "No action verb found",
+    unclassified: "Unclassified",
+
+    // Alignment Matrix
+    alignmentTitle: "Constructive Alignment Matrix",
+    alignmentDesc: "Each ILO mapped to the weeks that teach it and the assessments that measure it.",
+    orphanILOs: "Not taught in any week",
+    unassessedILOs: "Not measured by any assessment",
+    unknownILOs: "Referenced but undefined ILOs",
+    weekShort: "W",
+
+    // Rule findings ({placeholders} are filled in by services/ruleFindings.ts)
+    severity: {
+      critical: "Critical",
+      major: "Major",
+      minor: "Minor",
+    },
+    rules: {
+      'assessment.missing': "No assessment breakdown with weights.",
+      'assessment.weightSum': "Assessment weights sum to {total}%, not 100%.",
+      'assessment.finalExamCap': "Final exam \"{name}\" is worth {weight}%, above the {max}% limit.",
+      'assessment.minFormative': "Only {count} formative assessment(s); at least {min} required.",
+      'assessment.iloReference': "Assessment \"{name}\" is not linked to any ILO.",
+      'references.missing': "No references or textbooks listed.",
+      'references.outdated': "{count} of {total} references are older than {max} years.",
+      'references.undated': "{count} reference(s) have no publication year.",
+      'template.missingSection': "Required section \"{name}\" is missing.",
+      'template.missingField': "Mandatory item \"{name}\" is missing.",
+      'template.outOfOrder': "Section \"{name}\" is out of the template order.",
+    },
+
+    // Assessment Rules
+    maxFinalExamWeight: "Max final exam weight (%)",
+    minFormativeCount: "Min. formative assessments",
+    requireIloReference: "Each assessment must reference an ILO",
+
+    // References
+    maxReferenceAge: "Max reference age (years)",
+    referenceScoreFeedback: "{current} of {total} references are dated within the last {max} years.",
+    referencesTitle: "References",
+    referencesDesc: "Citations parsed locally; the resource currency score is computed from this table.",
+    year: "Year",
+    edition: "Edition",
+    identifier: "ISBN / DOI",
+    age: "Age",
+    status: "Status",
+    current: "Current",
+    outdated: "Outdated",
+    undated: "Undated",
+    medianAge: "Median age",
+    currencyScore: "Currency score",
+    years: "yrs",
+
+    // Pipeline Stages
+    cancel: "Cancel",
+    analysisStages: "Analysis Stages",
+    rerun: "Re-run",
+    rerunFailed: "Re-running the stage failed.",
+    stageNames: {
+      extract: "Syllabus extraction",
+      evaluate: "Rubric evaluation",
+      benchmark: "Benchmarking",
+      tutors: "Expert search",
+      translate: "Translation",
+      mapPlos: "Curriculum mapping",
+    },
+    stageStatus: {
+      ok: "Completed",
+      failed: "Failed",
+      skipped: "Skipped",
+    },
+    fromCache: "Reused from cache",
+    forceRefresh: "Ignore cached results",
+    forceRefreshDesc: "Run every stage again instead of reusing results from an earlier analysis of the same file and criteria.",
+
+    // Score Stability
+    stabilityMode: "Stability runs",
+    stabilityModeDesc: "Evaluate the syllabus several times and average the scores, showing how much the runs disagree.",
+    singleRun: "Single run",
+    runCount: "{count} runs",
+    temperature: "Temperature",
+    stabilitySummary: "±{spread} over {samples} runs (range {min}–{max})",
+    unstableScore: "The evaluation runs disagree noticeably on this score; review it manually before relying on it.",
+    lowConfidence: "Low confidence",
+    supportedBy: "Raised in {count} of {total} runs",
+
+    // Local Baseline
+    baselineReport: "Baseline report",
+    baselineDesc: "The AI evaluation could not be completed, so this report comes from the local rule-based checks only. Criteria that need expert judgement are not scored.",
+    documentStats: "{words} words in {sections} sections",
+    localAnalysis: {
+      iloClarityFeedback: "{measurable} of {total} ILOs start from a measurable action verb.",
+      alignmentFeedback: "Of {total} ILOs, {taught} are covered in the weekly plan and {assessed} are linked to an assessment.",
+      assessmentFeedback: "{issues} grading-scheme issue(s) found across {total} assessments.",
+      unmeasurableIlo: "{id} has no measurable action verb.",
+      noIlos: "No intended learning outcomes were found.",
+    },
+
+    // Template Compliance
+    complianceScoreFeedback: "{passed} of {total} required items of \"{template}\" are present and in order.",
+    complianceTitle: "Template Compliance",
+    complianceDesc: "Sections and mandatory fields checked against the institutional template.",
+    editTemplate: "Edit template (JSON)",
+    saveTemplate: "Save template",
+    resetTemplate: "Reset to default",
+    templateSaved: "Template saved.",
+    templateInvalid: "Template is invalid:",
+    section: "Section",
+    field: "Mandatory field",
+    matchedHeading: "Matched heading",
+    complianceStatus: {
+      pass: "Pass",
+      missing: "Missing",
+      outOfOrder: "Out of order",
+    },
+    optional: "Optional",
+
+    // Rubric
+    defaultRubricName: "PAU Standard Rubric",
+    rubricLevels: {
+      exemplary: "Exemplary",
+      proficient: "Proficient",
+      developing: "Developing",
+      beginning: "Beginning",
+    },
+    rubric: "Rubric",
+    editRubric: "Edit rubric",
+    rubricName: "Rubric name",
+    version: "Version",
+    criterionId: "Id",
+    criterionName: "Criterion",
+    enabled: "Enabled",
+    prompt: "Evaluator prompt",
+    levels: "Performance levels",
+    levelLabel: "Level",
+    minScore: "Min. score",
+    descriptor: "Descriptor",
+    addCriterion: "Add criterion",
+    addLevel: "Add level",
+    remove: "Remove",
+    saveRubric: "Save rubric",
+    exportRubric: "Export",
+    importRubric: "Import",
+    resetRubric: "Reset to default",
+    rubricSaved: "Rubric saved.",
+    rubricInvalid: "Rubric is invalid:",
+    scoredWith: "Weighted by {name} v{version}",
+
+    // Evidence
+    evidence: "Evidence",
+    viewEvidence: "Show evidence in the syllabus",
+    absent: "Absent",
+    absentFromDocument: "This item refers to something the syllabus does not contain.",
+    unverifiedQuote: "This quote could not be located in the document text.",
+    documentTextUnavailable: "The document text is not available for this report.",
+    page: "Page",
+    paragraphShort: "¶",
+    close: "Close",
     
+    // History
+    history: "History",
+    historyTitle: "Analysis History",
+    historyDesc: "Every completed analysis is saved in this browser.",
+    searchHistory: "Search by course title, code or file name",
+    maxScore: "Max. score",
+    date: "Date",
+    course: "Course",
+    file: "File",
+    score: "Score",
+    language: "Language",
+    open: "Open",
+    noHistory: "No saved analyses match.",
+    confirmDelete: "Delete this analysis from the history?",
+    exportArchive: "Export archive",
+    importArchive: "Import archive",
+    importedCount: "Imported {count} analyses.",
+    importInvalid: "Some entries were skipped:",
+    openReport: "Open report",
+    openReportDesc: "Open a report exported as JSON",
+    openReportFailed: "The file is not a report export that can be opened:",
+    historyUnavailable: "The history could not be opened in this browser.",
+    deleteFailed: "The analysis could not be deleted.",
+    exportFailed: "The archive could not be exported.",
+    importFailed: "The archive could not be imported.",
+    reportNotFound: "This report is not in the history.",
+    loadingReport: "Loading report...",
+    translating: "Translating Content...",
+    translatingDesc: "Please wait while we translate the report...",
+    backToUpload: "Back to Upload",
+    compareTitle: "Compare Analyses",
+    compareSelected: "Compare selected",
+    compareHint: "Select two analyses to compare.",
+    compareLanguageMismatch: "These reports are in different languages, so gaps cannot be matched reliably.",
+    before: "Before",
+    after: "After",
+    change: "Change",
+    resolved: "Resolved",
+    introduced: "New",
+    persisting: "Still present",
+    iloChanges: "ILO Changes",
+    iloStatus: {
+      unchanged: "Unchanged",
+      changed: "Revised",
+      added: "Added",
+      removed: "Removed",
+    },
+
+    // Batch
+    batch: "Batch",
+    batchTitle: "Batch Evaluation",
+    batchSummary: "{finished} of {total} finished: {done} evaluated, {failed} failed",
+    retryFailed: "Retry failed",
+    clearBatch: "Clear",
+    topGaps: "Top gaps",
+    noBatch: "Drop several files or a folder on the upload page to evaluate them together.",
+    viewReport: "View report",
+    attempt: "attempt {attempt}",
+    batchStatus: {
+      queued: "Queued",
+      running: "Running",
+      retrying: "Retrying",
+      done: "Done",
+      failed: "Failed",
+    },
+    batchStage: {
+      uploading: "Reading file",
+      extracting: "Extracting structure",
+      analyzing: "Evaluating",
+      gathering_data: "Benchmarking",
+    },
+
+    // Program map
+    programMap: "Program Map",
+    programTitle: "Program Curriculum Map",
+    programDesc: "Map the ILOs of every analysed course to the program learning outcomes. Only confirmed links count towards coverage.",
+    programName: "Program name",
+    plos: "Program Learning Outcomes",
+    ploId: "PLO id",
+    ploText: "Outcome",
+    addPlo: "Add PLO",
+    suggestMappings: "Suggest mappings",
+    suggesting: "Suggesting...",
+    mappingFailed: "Mapping suggestions failed:",
+    noCourses: "No saved analyses yet. Analyse the program's syllabi first; the latest analysis of each course is used.",
+    noPlos: "Add at least one PLO to start mapping.",
+    iloMapping: "ILO Mapping",
+    coverageMatrix: "Coverage Matrix",
+    coverageGaps: "Coverage Gaps",
+    noCoverageGaps: "Every PLO is taken to mastery.",
+    confirm: "Confirm",
+    reject: "Reject",
+    addLink: "Link",
+    confirmAllSuggested: "Confirm all suggestions",
+    coverageLevels: {
+      introduced: "Introduced",
+      reinforced: "Reinforced",
+      mastered: "Mastered",
+    },
+    coverageLevelShort: {
+      introduced: "I",
+      reinforced: "R",
+      mastered: "M",
+    },
+    linkStatus: {
+      suggested: "Suggested",
+      confirmed: "Confirmed",
+      rejected: "Rejected",
+    },
+    programGaps: {
+      uncovered: "{plo} is not addressed by any course.",
+      introducedOnly: "{plo} is only introduced ({courses} courses), never reinforced or mastered.",
+      notMastered: "{plo} is reinforced in {courses} courses but never mastered.",
+    },
+
+    // Usage
+    usage: "Usage",
+    usageTitle: "Model Usage",
+    usageDesc: "Tokens, response times and estimated cost of every model call made from this browser, including those of deleted analyses.",
+    monthlyBudget: "Monthly budget (USD)",
+    monthlyBudgetDesc: "Shows a warning once this month's estimated cost reaches 80% of the budget. Set 0 to turn it off.",
+    thisMonth: "This month",
+    budgetWarning: "This month's estimated cost ({spent}) has reached {percent}% of the {budget} budget.",
+    budgetExceeded: "This month's estimated cost ({spent}) is over the {budget} budget.",
+    byMonth: "By Month",
+    byStage: "By Stage",
+    stage: "Stage",
+    month: "Month",
+    analysesCount: "Analyses",
+    modelCalls: "Model calls",
+    promptTokens: "Input tokens",
+    responseTokens: "Output tokens",
+    avgCallTime: "Avg. time per call",
+    estimatedCost: "Est. cost",
+    unpricedCalls: "{count} calls have no price (model not in the price list, or no token counts) and are left out of the cost.",
+    noUsage: "No model usage recorded yet. Usage is tracked for analyses run from now on.",
+    runUsage: "{calls} model calls · {tokens} tokens · {cost}",
+
     // Tutors
     emailNotListed: "Email not listed publicly",
+    tutorName: "Name",
+    affiliation: "Affiliation",
+    contactEmail: "Email",
+    specialization: "Specialization",
     noTutors: "No specific tutor profiles found publicly.",
+    noBenchmarks: "No benchmark comparison available.",
   },
   ar: {
     appTitle: "نظام تقييم الخطط الدراسية",
@@ -65,8 +431,11 @@ export const translations = {
     analyzing: "جاري تحليل هيكل ومحتوى الخطة...",
     processing: "جاري تقييم المعايير الأكاديمية...",
     gathering: "المقارنة المرجعية والبحث عن خبراء...",
+    extracting: "جاري قراءة هيكل الخطة...",
+    extractingDesc: "استخراج بيانات المساق والمخرجات والخطة الأسبوعية والتقييمات...",
     uploadTitle: "اسحب وأفلت ملف الخطة",
     uploadSubtitle: "ملفات PDF, DOCX, أو نص",
+    uploadFolder: "اختيار مجلد",
     uploadBtn: "اختر من جوجل درايف",
     readyForAnalysis: "جاهز للتحليل",
     or: "أو",
@@ -81,6 +450,8 @@ export const translations = {
     assessmentQualityDesc: "تقييم المقاييس والأوزان والأساليب.",
     referenceCurrency: "حداثة المصادر",
     referenceCurrencyDesc: "التحقق من حداثة الكتب والمراجع.",
+    structureCompliance: "الالتزام بالنموذج",
+    structureComplianceDesc: "التحقق من الأقسام المطلوبة وترتيبها والحقول الإلزامية.",
     benchmarkPlaceholder: "مثال: MIT, Stanford (اتركه فارغاً للعام)",
     benchmarkLabel: "جامعات المقارنة المرجعية (اختياري)",
 
@@ -93,6 +464,7 @@ export const translations = {
     weaknesses: "مجالات للتحسين",
     strengths: "نقاط القوة",
     revisedILOs: "مخرجات تعليمية مقترحة",
+    recommendations: "التوصيات",
     activities: "أنشطة صفية مقترحة",
     benchmarking: "المقارنة المرجعية العالمية",
     tutors: "خبراء إقليميون (الأردن وفلسطين)",
@@ -100,7 +472,29 @@ export const translations = {
     comparison: "تحليل المقارنة",
     copyReport: "نسخ التقرير الكامل",
     copied: "تم النسخ!",
-    downloadPdf: "طباعة / حفظ كـ PDF",
+    downloadPdf: "تنزيل PDF",
+    preparingPdf: "جارٍ تجهيز ملف PDF...",
+    pdfFailed: "تعذّر إنشاء ملف PDF. يرجى المحاولة مرة أخرى.",
+    watermarkLabel: "العلامة المائية",
+    watermarkPlaceholder: "مثلاً: مسودة (اتركه فارغاً لعدم إضافتها)",
+    signaturesLabel: "تواقيع الاعتماد",
+    signaturesDesc: "دور واحد في كل سطر. اتركه فارغاً لحذف قسم الاعتماد.",
+    defaultSignatories: "منسق المساق\nرئيس القسم\nرئيس لجنة الجودة",
+    generatePdf: "إنشاء PDF",
+    tableOfContents: "المحتويات",
+    approvalTitle: "اعتماد اللجنة",
+    approvalDesc: "تمت المراجعة والاعتماد من قبل:",
+    signature: "التوقيع",
+    downloadDocx: "تنزيل ملف Word",
+    preparingDocx: "جارٍ تجهيز المستند...",
+    docxFailed: "تعذّر إنشاء مستند Word. يرجى المحاولة مرة أخرى.",
+    exportData: "تصدير البيانات",
+    exportJsonDesc: "التقرير كاملاً مع تفاصيل إنتاجه بصيغة JSON ذات إصدار. يمكن فتحه مجدداً من السجل.",
+    exportCsvDesc: "صف لكل درجة قسم ولكل ملاحظة، لجداول البيانات",
+    exportMarkdownDesc: "التقرير بصيغة Markdown، لصفحات الويكي",
+    pageOf: "صفحة {page} من {total}",
+    generatedOn: "أُنشئ بتاريخ {date}",
+    sectionFeedback: "الملاحظات",
     draftEmail: "صياغة بريد إلكتروني",
     alignsWith: "يتوافق مع",
     noRevisions: "لا توجد تعديلات ضرورية.",
@@ -108,8 +502,346 @@ export const translations = {
     noGaps: "لم يتم اكتشاف فجوات محددة.",
     analyzeAnother: "تحليل خطة أخرى",
 
+    // Course Overview
+    courseOverview: "نظرة عامة على المساق",
+    courseCode: "رمز المساق",
+    department: "القسم",
+    instructor: "المدرس",
+    officeHours: "الساعات المكتبية",
+    semester: "الفصل الدراسي",
+    creditHours: "الساعات المعتمدة",
+    prerequisites: "المتطلبات السابقة",
+    learningOutcomes: "مخرجات التعلم المقصودة",
+    weeklyPlan: "الخطة الأسبوعية",
+    week: "الأسبوع",
+    weeks: "الأسابيع",
+    topics: "المواضيع",
+    assessments: "التقييمات",
+    assessment: "التقييم",
+    weight: "الوزن",
+    references: "المراجع",
+    policies: "السياسات",
+    notSpecified: "غير محدد",
+    none: "لا يوجد",
+
+    // Bloom's Taxonomy
+    bloomTitle: "توزيع مستويات تصنيف بلوم",
+    bloomDesc: "تصنيف ثابت لكل مخرج تعليمي بناءً على الأفعال. لا تتغير النتائج بين مرات التشغيل.",
+    bloomLevels: {
+      remember: "التذكر",
+      understand: "الفهم",
+      apply: "التطبيق",
+      analyze: "التحليل",
+      evaluate: "التقويم",
+      create: "الإبداع",
+    },
+    originalILOs: "المخرجات الأصلية",
+    unmeasurableILOs: "من المخرجات الأصلية تستخدم فعلاً غير قابل للقياس أو لا تحتوي على فعل إجرائي.",
+    unmeasurableVerb: "غير قابل للقياس",
+    noActionVerb: "لا يوجد فعل إجرائي",
+    unclassified: "غير مصنف",
+
+    // Alignment Matrix
+    alignmentTitle: "مصفوفة الموائمة البناءة",
+    alignmentDesc: "ربط كل مخرج تعليمي بالأسابيع التي تغطيه والتقييمات التي تقيسه.",
+    orphanILOs: "غير مغطى في أي أسبوع",
+    unassessedILOs: "غير مقاس بأي تقييم",
+    unknownILOs: "مخرجات مشار إليها وغير معرفة",
+    weekShort: "أ",
+
+    // Rule findings ({placeholders} are filled in by services/ruleFindings.ts)
+    severity: {
+      critical: "حرج",
+      major: "رئيسي",
+      minor: "ثانوي",
+    },
+    rules: {
+      'assessment.missing': "لا يوجد توزيع للعلامات على التقييمات.",
+      'assessment.weightSum': "مجموع أوزان التقييمات {total}% وليس 100%.",
+      'assessment.finalExamCap': "وزن الامتحان النهائي \"{name}\" هو {weight}%، وهو أعلى من الحد المسموح {max}%.",
+      'assessment.minFormative': "عدد التقييمات التكوينية {count} فقط؛ الحد الأدنى المطلوب {min}.",
+      'assessment.iloReference': "التقييم \"{name}\" غير مرتبط بأي مخرج تعليمي.",
+      'references.missing': "لا توجد مراجع أو كتب مقررة.",
+      'references.outdated': "{count} من أصل {total} مراجع أقدم من {max} سنوات.",
+      'references.undated': "{count} من المراجع بدون سنة نشر.",
+      'template.missingSection': "القسم المطلوب \"{name}\" غير موجود.",
+      'template.missingField': "البند الإلزامي \"{name}\" غير موجود.",
+      'template.outOfOrder': "القسم \"{name}\" لا يتبع ترتيب النموذج.",
+    },
+
+    // Assessment Rules
+    maxFinalExamWeight: "الحد الأعلى لوزن الامتحان النهائي (%)",
+    minFormativeCount: "الحد الأدنى للتقييمات التكوينية",
+    requireIloReference: "يجب أن يرتبط كل تقييم بمخرج تعليمي",
+
+    // References
+    maxReferenceAge: "الحد الأعلى لعمر المرجع (سنوات)",
+    referenceScoreFeedback: "{current} من أصل {total} مراجع منشورة خلال آخر {max} سنوات.",
+    referencesTitle: "المراجع",
+    referencesDesc: "تم تحليل المراجع محلياً؛ تحتسب درجة حداثة المصادر من هذا الجدول.",
+    year: "السنة",
+    edition: "الطبعة",
+    identifier: "ISBN / DOI",
+    age: "العمر",
+    status: "الحالة",
+    current: "حديث",
+    outdated: "قديم",
+    undated: "بدون تاريخ",
+    medianAge: "العمر الوسيط",
+    currencyScore: "درجة الحداثة",
+    years: "سنة",
+
+    // Pipeline Stages
+    cancel: "إلغاء",
+    analysisStages: "مراحل التحليل",
+    rerun: "إعادة التشغيل",
+    rerunFailed: "فشلت إعادة تشغيل المرحلة.",
+    stageNames: {
+      extract: "استخراج الخطة الدراسية",
+      evaluate: "التقييم وفق المعايير",
+      benchmark: "المقارنة المرجعية",
+      tutors: "البحث عن الخبراء",
+      translate: "الترجمة",
+      mapPlos: "ربط مخرجات البرنامج",
+    },
+    stageStatus: {
+      ok: "مكتملة",
+      failed: "فشلت",
+      skipped: "تم تخطيها",
+    },
+    fromCache: "أُعيد استخدامها من الذاكرة المؤقتة",
+    forceRefresh: "تجاهل النتائج المحفوظة مؤقتاً",
+    forceRefreshDesc: "إعادة تشغيل جميع المراحل بدلاً من إعادة استخدام نتائج تحليل سابق للملف والمعايير نفسها.",
+
+    // Score Stability
+    stabilityMode: "عدد مرات التقييم",
+    stabilityModeDesc: "تقييم الخطة الدراسية عدة مرات وحساب متوسط الدرجات مع إظهار مدى اختلاف النتائج.",
+    singleRun: "مرة واحدة",
+    runCount: "{count} مرات",
+    temperature: "درجة العشوائية",
+    stabilitySummary: "±{spread} عبر {samples} مرات (المدى {min}–{max})",
+    unstableScore: "تختلف نتائج مرات التقييم بشكل ملحوظ في هذه الدرجة؛ راجعها يدوياً قبل الاعتماد عليها.",
+    lowConfidence: "ثقة منخفضة",
+    supportedBy: "ظهرت في {count} من {total} مرات",
+
+    // Local Baseline
+    baselineReport: "تقرير أساسي",
+    baselineDesc: "تعذر إكمال تقييم الذكاء الاصطناعي، لذا يستند هذا التقرير إلى الفحوصات المحلية القائمة على القواعد فقط. المعايير التي تتطلب حكم الخبراء لم تُقيَّم.",
+    documentStats: "{words} كلمة في {sections} أقسام",
+    localAnalysis: {
+      iloClarityFeedback: "{measurable} من أصل {total} مخرجات تعلم تبدأ بفعل إجرائي قابل للقياس.",
+      alignmentFeedback: "من أصل {total} مخرجات تعلم، {taught} مغطاة في الخطة الأسبوعية و{assessed} مرتبطة بتقييم.",
+      assessmentFeedback: "تم العثور على {issues} مشكلة في نظام التقييم ضمن {total} تقييمات.",
+      unmeasurableIlo: "{id} لا يتضمن فعلاً إجرائياً قابلاً للقياس.",
+      noIlos: "لم يتم العثور على مخرجات تعلم مقصودة.",
+    },
+
+    // Template Compliance
+    complianceScoreFeedback: "{passed} من أصل {total} بنود مطلوبة في \"{template}\" موجودة وبالترتيب الصحيح.",
+    complianceTitle: "الالتزام بنموذج الخطة",
+    complianceDesc: "فحص الأقسام والحقول الإلزامية مقابل نموذج المؤسسة.",
+    editTemplate: "تعديل النموذج (JSON)",
+    saveTemplate: "حفظ النموذج",
+    resetTemplate: "استعادة النموذج الافتراضي",
+    templateSaved: "تم حفظ النموذج.",
+    templateInvalid: "النموذج غير صالح:",
+    section: "قسم",
+    field: "حقل إلزامي",
+    matchedHeading: "العنوان المطابق",
+    complianceStatus: {
+      pass: "مستوفى",
+      missing: "مفقود",
+      outOfOrder: "خارج الترتيب",
+    },
+    optional: "اختياري",
+
+    // Rubric
+    defaultRubricName: "سلم التقييم المعتمد في الجامعة",
+    rubricLevels: {
+      exemplary: "متميز",
+      proficient: "متمكن",
+      developing: "نامٍ",
+      beginning: "مبتدئ",
+    },
+    rubric: "سلم التقييم",
+    editRubric: "تعديل سلم التقييم",
+    rubricName: "اسم السلم",
+    version: "الإصدار",
+    criterionId: "المعرف",
+    criterionName: "المعيار",
+    enabled: "مفعل",
+    prompt: "تعليمات المقيّم",
+    levels: "مستويات الأداء",
+    levelLabel: "المستوى",
+    minScore: "أدنى درجة",
+    descriptor: "الوصف",
+    addCriterion: "إضافة معيار",
+    addLevel: "إضافة مستوى",
+    remove: "حذف",
+    saveRubric: "حفظ السلم",
+    exportRubric: "تصدير",
+    importRubric: "استيراد",
+    resetRubric: "استعادة السلم الافتراضي",
+    rubricSaved: "تم حفظ السلم.",
+    rubricInvalid: "سلم التقييم غير صالح:",
+    scoredWith: "موزون وفق {name} إصدار {version}",
+
+    // Evidence
+    evidence: "الشواهد",
+    viewEvidence: "عرض الشاهد في الخطة",
+    absent: "غير موجود",
+    absentFromDocument: "يشير هذا البند إلى عنصر غير موجود في الخطة.",
+    unverifiedQuote: "تعذر العثور على هذا الاقتباس في نص المستند.",
+    documentTextUnavailable: "نص المستند غير متاح لهذا التقرير.",
+    page: "صفحة",
+    paragraphShort: "فقرة",
+    close: "إغلاق",
+
+    // History
+    history: "السجل",
+    historyTitle: "سجل التحليلات",
+    historyDesc: "تُحفظ كل عملية تحليل مكتملة في هذا المتصفح.",
+    searchHistory: "ابحث باسم المساق أو رمزه أو اسم الملف",
+    maxScore: "أعلى درجة",
+    date: "التاريخ",
+    course: "المساق",
+    file: "الملف",
+    score: "الدرجة",
+    language: "اللغة",
+    open: "فتح",
+    noHistory: "لا توجد تحليلات محفوظة مطابقة.",
+    confirmDelete: "حذف هذا التحليل من السجل؟",
+    exportArchive: "تصدير الأرشيف",
+    importArchive: "استيراد الأرشيف",
+    importedCount: "تم استيراد {count} تحليل.",
+    importInvalid: "تم تخطي بعض العناصر:",
+    openReport: "فتح تقرير",
+    openReportDesc: "فتح تقرير مُصدَّر بصيغة JSON",
+    openReportFailed: "هذا الملف ليس تقريراً مُصدَّراً يمكن فتحه:",
+    historyUnavailable: "تعذر فتح السجل في هذا المتصفح.",
+    deleteFailed: "تعذر حذف التحليل.",
+    exportFailed: "تعذر تصدير الأرشيف.",
+    importFailed: "تعذر استيراد الأرشيف.",
+    reportNotFound: "هذا التقرير غير موجود في السجل.",
+    loadingReport: "جارٍ تحميل التقرير...",
+    translating: "جارٍ ترجمة المحتوى...",
+    translatingDesc: "يرجى الانتظار أثناء ترجمة التقرير...",
+    backToUpload: "العودة إلى الرفع",
+    compareTitle: "مقارنة التحليلات",
+    compareSelected: "مقارنة المحدد",
+    compareHint: "اختر تحليلين للمقارنة.",
+    compareLanguageMismatch: "هذان التقريران بلغتين مختلفتين، لذا لا يمكن مطابقة الفجوات بدقة.",
+    before: "قبل",
+    after: "بعد",
+    change: "التغيير",
+    resolved: "تمت معالجتها",
+    introduced: "جديدة",
+    persisting: "لا تزال قائمة",
+    iloChanges: "تغييرات مخرجات التعلم",
+    iloStatus: {
+      unchanged: "دون تغيير",
+      changed: "معدّل",
+      added: "مضاف",
+      removed: "محذوف",
+    },
+
+    // Batch
+    batch: "دفعة",
+    batchTitle: "تقييم دفعة من الخطط",
+    batchSummary: "اكتمل {finished} من {total}: {done} تم تقييمها، {failed} فشلت",
+    retryFailed: "إعادة محاولة الفاشلة",
+    clearBatch: "مسح",
+    topGaps: "أبرز الفجوات",
+    noBatch: "أسقط عدة ملفات أو مجلداً في صفحة الرفع لتقييمها معاً.",
+    viewReport: "عرض التقرير",
+    attempt: "المحاولة {attempt}",
+    batchStatus: {
+      queued: "في الانتظار",
+      running: "قيد التنفيذ",
+      retrying: "إعادة المحاولة",
+      done: "مكتمل",
+      failed: "فشل",
+    },
+    batchStage: {
+      uploading: "قراءة الملف",
+      extracting: "استخراج البنية",
+      analyzing: "التقييم",
+      gathering_data: "المقارنة المرجعية",
+    },
+
+    // Program map
+    programMap: "خريطة البرنامج",
+    programTitle: "خريطة المنهاج للبرنامج",
+    programDesc: "اربط مخرجات التعلم لكل مساق تم تحليله بمخرجات تعلم البرنامج. تُحتسب الروابط المؤكدة فقط في التغطية.",
+    programName: "اسم البرنامج",
+    plos: "مخرجات تعلم البرنامج",
+    ploId: "رمز المخرج",
+    ploText: "المخرج",
+    addPlo: "إضافة مخرج",
+    suggestMappings: "اقتراح الروابط",
+    suggesting: "جارٍ الاقتراح...",
+    mappingFailed: "فشل اقتراح الروابط:",
+    noCourses: "لا توجد تحليلات محفوظة بعد. حلّل خطط البرنامج أولاً؛ يُستخدم أحدث تحليل لكل مساق.",
+    noPlos: "أضف مخرجاً واحداً على الأقل لبدء الربط.",
+    iloMapping: "ربط مخرجات التعلم",
+    coverageMatrix: "مصفوفة التغطية",
+    coverageGaps: "فجوات التغطية",
+    noCoverageGaps: "جميع مخرجات البرنامج تصل إلى مستوى الإتقان.",
+    confirm: "تأكيد",
+    reject: "رفض",
+    addLink: "ربط",
+    confirmAllSuggested: "تأكيد جميع الاقتراحات",
+    coverageLevels: {
+      introduced: "تمهيد",
+      reinforced: "تعزيز",
+      mastered: "إتقان",
+    },
+    coverageLevelShort: {
+      introduced: "ت",
+      reinforced: "ع",
+      mastered: "إ",
+    },
+    linkStatus: {
+      suggested: "مقترح",
+      confirmed: "مؤكد",
+      rejected: "مرفوض",
+    },
+    programGaps: {
+      uncovered: "المخرج {plo} لا يغطيه أي مساق.",
+      introducedOnly: "المخرج {plo} يُمهَّد له فقط ({courses} مساقات) ولا يُعزَّز أو يُتقَن أبداً.",
+      notMastered: "المخرج {plo} يُعزَّز في {courses} مساقات لكنه لا يصل إلى الإتقان.",
+    },
+
+    // Usage
+    usage: "الاستهلاك",
+    usageTitle: "استهلاك النموذج",
+    usageDesc: "الرموز (tokens) وأزمنة الاستجابة والتكلفة التقديرية لكل استدعاءات النموذج من هذا المتصفح، بما فيها استدعاءات التحليلات المحذوفة.",
+    monthlyBudget: "الميزانية الشهرية (دولار)",
+    monthlyBudgetDesc: "يظهر تنبيه عندما تبلغ التكلفة التقديرية لهذا الشهر 80% من الميزانية. أدخل 0 لإيقافه.",
+    thisMonth: "هذا الشهر",
+    budgetWarning: "بلغت التكلفة التقديرية لهذا الشهر ({spent}) نسبة {percent}% من الميزانية البالغة {budget}.",
+    budgetExceeded: "تجاوزت التكلفة التقديرية لهذا الشهر ({spent}) الميزانية البالغة {budget}.",
+    byMonth: "حسب الشهر",
+    byStage: "حسب المرحلة",
+    stage: "المرحلة",
+    month: "الشهر",
+    analysesCount: "التحليلات",
+    modelCalls: "استدعاءات النموذج",
+    promptTokens: "رموز الإدخال",
+    responseTokens: "رموز الإخراج",
+    avgCallTime: "متوسط زمن الاستدعاء",
+    estimatedCost: "التكلفة التقديرية",
+    unpricedCalls: "{count} استدعاءات بلا سعر (نموذج غير مدرج في قائمة الأسعار أو دون عدد رموز) ولم تُحتسب في التكلفة.",
+    noUsage: "لم يُسجَّل أي استهلاك بعد. يُتتبَّع الاستهلاك للتحليلات التي تُجرى من الآن فصاعداً.",
+    runUsage: "{calls} استدعاءات للنموذج · {tokens} رمز · {cost}",
+
     // Tutors
     emailNotListed: "البريد الإلكتروني غير مدرج",
+    tutorName: "الاسم",
+    affiliation: "الجهة",
+    contactEmail: "البريد الإلكتروني",
+    specialization: "التخصص",
     noTutors: "لم يتم العثور على ملفات تعريف لخبراء.",
+    noBenchmarks: "لا تتوفر مقارنة مرجعية.",
   }
 };
@@ -1,22 +1,280 @@
+export interface AssessmentRuleConfig {
+  maxFinalExamWeight: number; // percentage
+  minFormativeCount: number;
+  requireIloReference: boolean;
+}
+
+export interface TemplateSection {
+  id: string;
+  name: string;
+  synonyms: { en: string[]; ar: string[] }; // heading variants that satisfy the section
+  required: boolean;
+  dataKey?: 'ilos' | 'weeklyPlan' | 'assessments' | 'references' | 'policies'; // extracted data that also proves presence
+}
+
+export interface MandatoryField {
+  id: string;
+  name: string;
+  courseField?: 'code' | 'department' | 'instructor' | 'instructorEmail' | 'officeHours' | 'semester' | 'creditHours' | 'description';
+  policyKeywords?: string[]; // satisfied by a policy whose title or text mentions one of these
+}
+
+/**
+ * Institutional syllabus template. Stored as JSON so each institution can
+ * define its own required sections and fields.
+ */
+export interface SyllabusTemplate {
+  name: string;
+  version: string;
+  enforceOrder: boolean;
+  sections: TemplateSection[];
+  mandatoryFields: MandatoryField[];
+}
+
+/**
+ * Criteria with built-in local analysis. A rubric criterion with one of these
+ * ids gets the matching checks; any other id is judged by the model alone.
+ */
+export type BuiltInCriterionId = 'iloClarity' | 'iloAlignment' | 'assessmentQuality' | 'referenceCurrency' | 'structureCompliance';
+
+export interface RubricLevel {
+  label: string; // e.g. "Exemplary"
+  minScore: number; // lowest section score (0-100) that earns this level
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  id: string; // stable key linking section scores to weights
+  name: string;
+  enabled: boolean;
+  weight: number; // relative; normalized over enabled criteria
+  prompt: string; // instruction for the evaluator model
+  levels: RubricLevel[];
+}
+
+/**
+ * Weighted evaluation rubric. Name and version travel with every result so
+ * scores are only compared across the same rubric.
+ */
+export interface Rubric {
+  name: string;
+  version: string;
+  department?: string;
+  criteria: RubricCriterion[];
+}
+
 export interface EvaluationCriteria {
-  iloClarity: boolean;
-  iloAlignment: boolean;
-  assessmentQuality: boolean;
-  referenceCurrency: boolean;
-  structureCompliance: boolean;
+  rubric: Rubric;
   benchmarkUniversities: string;
+  assessmentRules: AssessmentRuleConfig;
+  maxReferenceAge: number; // years before a reference counts as outdated
+  syllabusTemplate: SyllabusTemplate;
+}
+
+export interface CourseMetadata {
+  title: string;
+  code?: string;
+  department?: string;
+  instructor?: string;
+  instructorEmail?: string;
+  officeHours?: string;
+  semester?: string;
+  creditHours?: number;
+  prerequisites: string[];
+  description?: string;
+}
+
+export interface IntendedLearningOutcome {
+  id: string; // e.g. "ILO1"
+  text: string;
+}
+
+export interface WeeklyPlanEntry {
+  week: number;
+  topics: string[];
+  iloIds: string[]; // ILOs this week's content addresses
+}
+
+export interface Assessment {
+  name: string;
+  type: string; // e.g. quiz, midterm, final, project
+  weight: number; // percentage of the final grade
+  week?: number;
+  iloIds: string[]; // ILOs this assessment measures
+}
+
+export interface CoursePolicy {
+  title: string;
+  text: string;
+}
+
+/**
+ * Structured representation of the uploaded syllabus, extracted once before
+ * evaluation so every later stage works from the same data.
+ */
+export interface Syllabus {
+  course: CourseMetadata;
+  ilos: IntendedLearningOutcome[];
+  weeklyPlan: WeeklyPlanEntry[];
+  assessments: Assessment[];
+  references: string[]; // citations as written in the document
+  policies: CoursePolicy[];
+  sectionHeadings: string[]; // document headings in order of appearance
+}
+
+export type BloomLevel = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create';
+
+export interface BloomTag {
+  ilo: string;
+  source: 'original' | 'revised';
+  level: BloomLevel | null; // null when no action verb was recognised
+  verb: string | null;
+  measurable: boolean;
+}
+
+export interface BloomAnalysis {
+  tags: BloomTag[];
+  distribution: {
+    original: Record<BloomLevel, number>;
+    revised: Record<BloomLevel, number>;
+  };
+  unmeasurableCount: number; // original ILOs with no measurable action verb
+}
+
+export interface AlignmentRow {
+  iloId: string;
+  iloText: string;
+  weeks: number[]; // weeks whose content covers the ILO
+  assessments: string[]; // names of assessments that measure the ILO
+  orphan: boolean; // not taught in any week
+  unassessed: boolean; // not measured by any assessment
+}
+
+/**
+ * Constructive alignment: each ILO mapped to the weekly topics and
+ * assessments that cover it.
+ */
+export interface AlignmentMatrix {
+  weeks: number[];
+  assessments: string[];
+  rows: AlignmentRow[];
+  unknownIloIds: string[]; // ids referenced by weeks/assessments but not defined
+}
+
+/**
+ * A supporting passage from the syllabus. Locations are resolved locally by
+ * searching the document text for the quote.
+ */
+export interface Evidence {
+  quote: string; // verbatim excerpt; empty when absent
+  page?: number; // 1-based
+  paragraph?: number; // 1-based, within the page
+  absent?: boolean; // the item is about something the document lacks
+  verified?: boolean; // the quote was found in the document text
 }
 
 export interface SectionScore {
+  criterionId: string; // RubricCriterion.id
   section: string;
   score: number; // 0-100
   feedback: string;
+  evidence: Evidence[];
+}
+
+export interface GapItem {
+  text: string;
+  evidence: Evidence[];
+  support?: number; // share of stability runs (0-1) that raised the finding; absent for a single run
 }
 
 export interface GapAnalysis {
-  missingComponents: string[];
-  weaknesses: string[];
-  strengths: string[];
+  missingComponents: GapItem[];
+  weaknesses: GapItem[];
+  strengths: GapItem[];
+}
+
+export interface DocumentPage {
+  page: number; // 1-based
+  paragraphs: string[];
+}
+
+/**
+ * Plain text of the uploaded file, kept for the evidence viewer. DOCX and
+ * TXT files have no pages and are returned as a single page.
+ */
+export interface SourceDocument {
+  fileName: string;
+  pages: DocumentPage[];
+}
+
+export interface SectionWordCount {
+  heading: string;
+  words: number;
+}
+
+/**
+ * Size of the document overall and under each detected heading, counted
+ * locally from the extracted text.
+ */
+export interface DocumentStats {
+  totalWords: number;
+  sections: SectionWordCount[]; // in document order; text before the first heading is not listed
+}
+
+export interface ParsedReference {
+  raw: string;
+  style: 'apa' | 'ieee' | 'arabic' | 'freeform';
+  authors: string[];
+  title?: string;
+  year?: number; // Gregorian; Hijri years are converted
+  edition?: string;
+  isbn?: string;
+  doi?: string;
+}
+
+export interface ReferenceEntry extends ParsedReference {
+  age?: number; // years since publication
+  outdated: boolean; // older than the threshold; false when undated
+}
+
+export interface ReferenceReport {
+  entries: ReferenceEntry[];
+  maxAgeYears: number;
+  evaluatedYear: number;
+  medianAge?: number;
+  outdatedCount: number;
+  score: number; // 0-100, share of dated references that are current
+}
+
+export interface ComplianceItem {
+  id: string;
+  name: string;
+  kind: 'section' | 'field';
+  status: 'pass' | 'missing' | 'outOfOrder';
+  required: boolean;
+  matchedHeading?: string;
+}
+
+export interface ComplianceReport {
+  templateName: string;
+  templateVersion: string;
+  items: ComplianceItem[];
+  score: number; // 0-100, share of required items present (out-of-order items count half)
+}
+
+export type FindingSeverity = 'critical' | 'major' | 'minor';
+
+/**
+ * A violation reported by a deterministic rule. Its message is also merged
+ * into the matching gapAnalysis list.
+ */
+export interface RuleFinding {
+  rule: string; // e.g. "assessment.weightSum"
+  severity: FindingSeverity;
+  kind: 'missing' | 'weakness';
+  params: Record<string, string | number>; // values used to localize the message
+  message: string;
+  evidence: Evidence[];
 }
 
 export interface Tutor {
@@ -38,17 +296,250 @@ export interface BenchmarkResult {
   url?: string;
 }
 
+export type AnalysisStageId = 'extract' | 'evaluate' | 'benchmark' | 'tutors';
+
+/**
+ * How one model stage of an analysis went. A failed extraction or evaluation
+ * falls back to the local baseline; a failed search leaves its list empty.
+ */
+export interface StageOutcome {
+  stage: AnalysisStageId;
+  status: 'ok' | 'failed' | 'skipped';
+  attempts: number; // 0 when skipped or served from the cache
+  cached?: boolean; // reused from an earlier run with the same inputs
+  error?: string;
+  durationMs?: number; // wall-clock time of the stage, retries included
+}
+
+/**
+ * One model request, for cost and latency accounting. Retries, repair
+ * requests and stability samples are separate calls.
+ */
+export interface ModelCall {
+  stage: AnalysisStageId | 'translate' | 'mapPlos';
+  model: string;
+  promptTokens?: number; // unset when the provider does not report usage
+  responseTokens?: number; // thinking tokens included, as they are billed as output
+  durationMs: number;
+  costUsd?: number; // estimated from the price list; unset for unlisted models
+  timestamp?: string; // ISO time the call finished; unset in reports saved before it was recorded
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  responseTokens: number;
+  durationMs: number; // summed over calls, so parallel stages count twice
+  costUsd: number;
+  unpricedCalls: number; // calls without a cost estimate, left out of costUsd
+}
+
+export interface MonthlyUsage extends UsageTotals {
+  month: string; // YYYY-MM
+  analyses: number;
+}
+
+export interface StageUsage extends UsageTotals {
+  stage: ModelCall['stage'];
+}
+
+export interface UsageBudget {
+  monthlyUsd: number; // 0 turns the warning off
+}
+
+export interface ScoreSpread {
+  mean: number;
+  stdDev: number; // sample standard deviation across the runs
+  min: number;
+  max: number;
+}
+
+export interface SectionStability extends ScoreSpread {
+  criterionId: string;
+  section: string;
+  samples: number; // runs that scored this criterion
+}
+
+/**
+ * How much repeated evaluations of the same syllabus agreed. Present when
+ * the report was produced in stability mode.
+ */
+export interface ScoreStability {
+  samples: number;
+  temperature: number;
+  overall: ScoreSpread;
+  sections: SectionStability[];
+}
+
 export interface AnalysisResult {
-  overallScore: number;
+  overallScore: number; // weighted mean of sectionScores under `rubric`
+  rubric: Rubric;
   courseTitle: string;
-  syllabusTopics: string[]; // Added for context passing
+  syllabus: Syllabus;
+  sourceDocument?: SourceDocument;
   sectionScores: SectionScore[];
   gapAnalysis: GapAnalysis;
+  ruleFindings: RuleFinding[];
+  referenceReport?: ReferenceReport;
+  complianceReport?: ComplianceReport;
   recommendations: string[];
   revisedILOs: string[];
   benchmarks: BenchmarkResult[];
   tutors: Tutor[];
   suggestedActivities: ClassroomActivity[];
+  documentStats?: DocumentStats;
+  modelError?: string; // set when the model stages failed and the report is the local baseline
+  stages?: StageOutcome[]; // in pipeline order; absent on reports saved before stage tracking
+  stability?: ScoreStability; // set when the evaluation was sampled several times
+  modelCalls?: ModelCall[]; // every model request behind the report, re-runs and translations included
+}
+
+/**
+ * A completed analysis kept in the local history archive.
+ */
+export interface HistoryEntry {
+  id: string;
+  createdAt: string; // ISO timestamp
+  fileName: string;
+  fileHash: string; // SHA-256 of the uploaded file, hex
+  language: 'en' | 'ar';
+  criteria: EvaluationCriteria;
+  result: AnalysisResult;
+}
+
+// How a report was produced: its history entry without the result
+export type ReportRun = Omit<HistoryEntry, 'result'>;
+
+/**
+ * One report as exported for other tools. `version` changes whenever a
+ * field is removed or changes meaning, so readers can tell what to expect.
+ */
+export interface ReportExport {
+  format: 'pau-report';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  run: ReportRun;
+  result: AnalysisResult;
 }
 
-export type ProcessingStatus = 'idle' | 'uploading' | 'analyzing' | 'gathering_data' | 'complete' | 'error';
\ No newline at end of file
+export interface ScoreDelta {
+  criterionId: string;
+  section: string;
+  before?: number; // undefined when the criterion was not scored in that version
+  after?: number;
+  delta?: number;
+}
+
+export interface GapChanges {
+  resolved: GapItem[]; // in the earlier version only
+  introduced: GapItem[]; // in the later version only
+  persisting: GapItem[]; // in both (as worded in the later version)
+}
+
+export interface TextDiffPart {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface IloChange {
+  status: 'unchanged' | 'changed' | 'added' | 'removed';
+  before?: IntendedLearningOutcome;
+  after?: IntendedLearningOutcome;
+  diff: TextDiffPart[]; // word-level, earlier -> later
+}
+
+/**
+ * Differences between two analyses of (usually) the same course.
+ */
+export interface AnalysisComparison {
+  overall: { before: number; after: number; delta: number };
+  sections: ScoreDelta[];
+  missingComponents: GapChanges;
+  weaknesses: GapChanges;
+  ilos: IloChange[];
+}
+
+export interface ProgramOutcome {
+  id: string; // e.g. "PLO1"
+  text: string;
+}
+
+// How far a course takes a PLO: Introduced, Reinforced or Mastered
+export type CoverageLevel = 'introduced' | 'reinforced' | 'mastered';
+
+/**
+ * An ILO of one course mapped to a PLO. Model suggestions only count towards
+ * coverage once confirmed.
+ */
+export interface PloLink {
+  courseKey: string; // see programMap.courseKey
+  iloId: string;
+  ploId: string;
+  level: CoverageLevel;
+  status: 'suggested' | 'confirmed' | 'rejected';
+  rationale?: string;
+}
+
+/**
+ * Program learning outcomes and the course ILO mappings, kept across analyses.
+ */
+export interface ProgramMap {
+  name: string;
+  outcomes: ProgramOutcome[];
+  links: PloLink[];
+}
+
+export interface ProgramCourse {
+  courseKey: string;
+  title: string;
+  code?: string;
+  entryId: string; // latest saved analysis of the course
+  ilos: IntendedLearningOutcome[];
+}
+
+export interface CoverageCell {
+  level?: CoverageLevel; // highest confirmed level
+  iloIds: string[];
+}
+
+export interface CoverageRow {
+  ploId: string;
+  ploText: string;
+  cells: Record<string, CoverageCell>; // by course key
+  highest?: CoverageLevel;
+  courseCount: number;
+}
+
+export interface CoverageGap {
+  ploId: string;
+  kind: 'uncovered' | 'introducedOnly' | 'notMastered';
+  severity: FindingSeverity;
+  message: string;
+}
+
+/**
+ * Program coverage: which courses address each PLO and how far.
+ */
+export interface CoverageMatrix {
+  courses: ProgramCourse[];
+  rows: CoverageRow[];
+  gaps: CoverageGap[];
+}
+
+export type ProcessingStatus = 'idle' | 'uploading' | 'extracting' | 'analyzing' | 'gathering_data' | 'complete' | 'error';
+
+/**
+ * One file of a batch evaluation and its progress through the pipeline.
+ */
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  status: 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+  stage?: ProcessingStatus; // pipeline stage while running
+  attempts: number;
+  error?: string;
+  entryId?: string; // history entry of the finished report
+  courseTitle?: string;
+  score?: number;
+  topGaps: string[];
+}
\ No newline at end of file
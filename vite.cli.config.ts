@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node CLI (cli/pau-eval.ts). Unlike vite.config.ts, nothing is
+// injected through `define`: the CLI reads process.env when it runs.
+export default defineConfig({
+  build: {
+    ssr: 'cli/pau-eval.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'pau-eval.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -2,17 +2,29 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // A built bundle always talks to the API server, so no key is ever shipped.
+    // Only the dev server calls the model from the browser, when API_URL is unset.
+    const apiUrl = env.API_URL || (command === 'build' ? '/api' : '');
+    const usesApi = Boolean(apiUrl);
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_URL': JSON.stringify(apiUrl),
+        'process.env.API_KEY': JSON.stringify(usesApi ? '' : env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': JSON.stringify(usesApi ? '' : env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_API_KEY': JSON.stringify(usesApi ? '' : env.LLM_API_KEY)
       },
       resolve: {
         alias: {
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Builds the API server (server/index.ts). Like the CLI, it reads process.env
+// when it runs, so the model key stays on the server.
+export default defineConfig({
+  build: {
+    ssr: 'server/index.ts',
+    outDir: 'dist-server',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'server.js',
+      },
+    },
+  },
+});
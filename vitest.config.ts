@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run under Node against the fixture provider. Unlike vite.config.ts,
+// nothing is injected through `define`: the provider is set by each test.
+export default defineConfig({
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist*/**'],
+    environment: 'node',
+  },
+});